@@ -6,9 +6,12 @@ import { UserModule } from '@/modules/user.module';
 import { ArticleModule } from '@/modules/article.module';
 import { CategoryModule } from '@/modules/category.module';
 import { TagModule } from '@/modules/tag.module';
+import { SeriesModule } from '@/modules/series.module';
 import { CommentModule } from '@/modules/comment.module';
+import { NotificationModule } from '@/modules/notification.module';
 import { ExampleModule } from '@/modules/example.module';
 import { AuthModule } from '@/modules/auth.module';
+import { OAuthModule } from '@/modules/oauth.module';
 import { PublicModule } from '@/modules/public.module';
 import { AdminModule } from '@/modules/admin.module';
 import { UserApiModule } from '@/modules/user-api.module';
@@ -50,12 +53,15 @@ import { DevModule } from '@/modules/dev.module';
     ArticleModule,
     CategoryModule,
     TagModule,
+    SeriesModule,
     CommentModule,
+    NotificationModule,
     ExampleModule,
     ArticleImportModule,
 
     // 认证模块
     AuthModule,
+    OAuthModule,
 
     // API模块
     PublicModule,
@@ -23,6 +23,12 @@ export class BlogCacheService {
     USER_TOKEN: (userId: string, tokenId: string) =>
       `blog:user:token:${userId}:${tokenId}`,
     USER_ALL_TOKENS: (userId: string) => `blog:user:tokens:${userId}`,
+    USER_TOKEN_LAST_SEEN: (userId: string, tokenId: string) =>
+      `blog:user:token-seen:${userId}:${tokenId}`,
+    FEED: (format: string, scope: string) => `blog:feed:${format}:${scope}`,
+    ALL_FEEDS: 'blog:feed:keys',
+    SITEMAP: (name: string) => `blog:sitemap:${name}`,
+    ALL_SITEMAPS: 'blog:sitemap:keys',
   };
 
   // 缓存时间（毫秒）
@@ -47,8 +53,17 @@ export class BlogCacheService {
     USER_ONLINE_STATUS: 5 * 60 * 1000, // 5分钟
     // 用户令牌缓存时间 - 7天
     USER_TOKEN: 7 * 24 * 60 * 60 * 1000, // 7天
+    // 用户令牌最后使用时间缓存时间 - 7天，与令牌一致
+    USER_TOKEN_LAST_SEEN: 7 * 24 * 60 * 60 * 1000, // 7天
+    // 订阅源缓存时间 - 30分钟
+    FEED: 30 * 60 * 1000, // 30分钟
+    // 站点地图缓存时间 - 1小时
+    SITEMAP: 60 * 60 * 1000, // 1小时
   };
 
+  // 会话最后使用时间的最小记录间隔（毫秒）
+  private static readonly USER_TOKEN_TOUCH_INTERVAL = 60 * 1000; // 1分钟
+
   constructor(
     @Inject(CACHE_MANAGER) private readonly cache: Cache,
     private readonly logger: StructuredLoggerService,
@@ -192,6 +207,75 @@ export class BlogCacheService {
     }
   }
 
+  /**
+   * 获取订阅源缓存
+   * @param format 订阅源格式（rss、atom、json）
+   * @param scope 订阅范围（all、category:slug、tag:slug）
+   */
+  async getFeed(format: string, scope: string): Promise<string | null> {
+    const key = BlogCacheService.KEYS.FEED(format, scope);
+    return this.get(key) as Promise<string | null>;
+  }
+
+  /**
+   * 设置订阅源缓存，并登记缓存键以便统一清除
+   */
+  async setFeed(format: string, scope: string, content: string): Promise<void> {
+    const key = BlogCacheService.KEYS.FEED(format, scope);
+    await this.set(key, content, BlogCacheService.TTL.FEED);
+    await this.registerKey(
+      BlogCacheService.KEYS.ALL_FEEDS,
+      key,
+      BlogCacheService.TTL.FEED,
+    );
+  }
+
+  /**
+   * 清除所有订阅源缓存（文章发布、取消发布时调用）
+   */
+  async clearFeedCache(): Promise<void> {
+    try {
+      await this.clearRegisteredKeys(BlogCacheService.KEYS.ALL_FEEDS);
+      this.logger.debug('订阅源缓存已清除');
+    } catch (error) {
+      this.logger.error('清除订阅源缓存失败', error);
+    }
+  }
+
+  /**
+   * 获取站点地图缓存
+   * @param name 站点地图名称（index、articles-1、categories-1等）
+   */
+  async getSitemap(name: string): Promise<string | null> {
+    const key = BlogCacheService.KEYS.SITEMAP(name);
+    return this.get(key) as Promise<string | null>;
+  }
+
+  /**
+   * 设置站点地图缓存，并登记缓存键以便统一清除
+   */
+  async setSitemap(name: string, content: string): Promise<void> {
+    const key = BlogCacheService.KEYS.SITEMAP(name);
+    await this.set(key, content, BlogCacheService.TTL.SITEMAP);
+    await this.registerKey(
+      BlogCacheService.KEYS.ALL_SITEMAPS,
+      key,
+      BlogCacheService.TTL.SITEMAP,
+    );
+  }
+
+  /**
+   * 清除所有站点地图缓存（文章状态、可见性变更时调用）
+   */
+  async clearSitemapCache(): Promise<void> {
+    try {
+      await this.clearRegisteredKeys(BlogCacheService.KEYS.ALL_SITEMAPS);
+      this.logger.debug('站点地图缓存已清除');
+    } catch (error) {
+      this.logger.error('清除站点地图缓存失败', error);
+    }
+  }
+
   /**
    * 获取全量标签缓存
    */
@@ -278,12 +362,16 @@ export class BlogCacheService {
         case 'import':
           clearPromises.push(this.clearSpecialArticleListsCache());
           clearPromises.push(this.clearArticleListCache());
+          clearPromises.push(this.clearFeedCache());
+          clearPromises.push(this.clearSitemapCache());
           break;
         case 'create':
         case 'publish':
-          // 新文章发布：清除列表和最新文章缓存
+          // 新文章发布：清除列表、最新文章、订阅源和站点地图缓存
           clearPromises.push(this.clearArticleListCache());
           clearPromises.push(this.del(BlogCacheService.KEYS.RECENT_ARTICLES));
+          clearPromises.push(this.clearFeedCache());
+          clearPromises.push(this.clearSitemapCache());
           break;
 
         case 'update':
@@ -297,6 +385,8 @@ export class BlogCacheService {
           // 文章删除：清除所有相关缓存
           clearPromises.push(this.clearArticleListCache());
           clearPromises.push(this.clearSpecialArticleListsCache());
+          clearPromises.push(this.clearFeedCache());
+          clearPromises.push(this.clearSitemapCache());
           if (slug) {
             clearPromises.push(this.clearArticleDetailBySlug(slug));
           }
@@ -319,8 +409,11 @@ export class BlogCacheService {
           break;
 
         case 'archive':
-          // 归档状态变更：清除列表缓存
+          // 归档、取消发布：清除列表、最新文章、订阅源和站点地图缓存
           clearPromises.push(this.clearArticleListCache());
+          clearPromises.push(this.del(BlogCacheService.KEYS.RECENT_ARTICLES));
+          clearPromises.push(this.clearFeedCache());
+          clearPromises.push(this.clearSitemapCache());
           if (slug) {
             clearPromises.push(this.clearArticleDetailBySlug(slug));
           }
@@ -431,12 +524,14 @@ export class BlogCacheService {
     token: string;
     expiresAt: number;
     deviceInfo?: string;
+    createdAt?: number;
   } | null> {
     const key = BlogCacheService.KEYS.USER_TOKEN(userId, tokenId);
     return this.get(key) as Promise<{
       token: string;
       expiresAt: number;
       deviceInfo?: string;
+      createdAt?: number;
     } | null>;
   }
 
@@ -474,6 +569,41 @@ export class BlogCacheService {
     this.logger.debug(`用户token已缓存: ${userId}:${tokenId}`);
   }
 
+  /**
+   * 记录用户token的最后使用时间
+   * 单独存储，不改写token缓存，避免覆盖并发的吊销操作；同一token每分钟最多写入一次
+   */
+  async touchUserToken(
+    userId: string,
+    tokenId: string,
+    lastSeenAt: number,
+  ): Promise<void> {
+    const previous = await this.getUserTokenLastSeen(userId, tokenId);
+    if (
+      previous &&
+      lastSeenAt - previous < BlogCacheService.USER_TOKEN_TOUCH_INTERVAL
+    ) {
+      return;
+    }
+
+    await this.set(
+      BlogCacheService.KEYS.USER_TOKEN_LAST_SEEN(userId, tokenId),
+      lastSeenAt,
+      BlogCacheService.TTL.USER_TOKEN_LAST_SEEN,
+    );
+  }
+
+  /**
+   * 获取用户token的最后使用时间
+   */
+  async getUserTokenLastSeen(
+    userId: string,
+    tokenId: string,
+  ): Promise<number | null> {
+    const key = BlogCacheService.KEYS.USER_TOKEN_LAST_SEEN(userId, tokenId);
+    return this.get(key) as Promise<number | null>;
+  }
+
   /**
    * 清除用户单个token
    */
@@ -484,6 +614,9 @@ export class BlogCacheService {
 
       // 删除单个token
       await this.del(tokenKey);
+      await this.del(
+        BlogCacheService.KEYS.USER_TOKEN_LAST_SEEN(userId, tokenId),
+      );
 
       // 从所有token列表中移除
       const cachedTokens: string[] =
@@ -516,10 +649,10 @@ export class BlogCacheService {
         ((await this.get(allTokensKey)) as string[]) || [];
 
       // 删除所有token缓存
-      const deletePromises = allTokens.map((tokenId) => {
-        const tokenKey = BlogCacheService.KEYS.USER_TOKEN(userId, tokenId);
-        return this.del(tokenKey);
-      });
+      const deletePromises = allTokens.flatMap((tokenId) => [
+        this.del(BlogCacheService.KEYS.USER_TOKEN(userId, tokenId)),
+        this.del(BlogCacheService.KEYS.USER_TOKEN_LAST_SEEN(userId, tokenId)),
+      ]);
 
       await Promise.all(deletePromises);
 
@@ -634,6 +767,30 @@ export class BlogCacheService {
     }
   }
 
+  /**
+   * 将动态缓存键登记到列表中，便于按组清除
+   */
+  private async registerKey(
+    registryKey: string,
+    key: string,
+    ttl: number,
+  ): Promise<void> {
+    const keys: string[] = ((await this.get(registryKey)) as string[]) || [];
+    if (!keys.includes(key)) {
+      keys.push(key);
+      await this.set(registryKey, keys, ttl);
+    }
+  }
+
+  /**
+   * 清除登记列表中的所有缓存键
+   */
+  private async clearRegisteredKeys(registryKey: string): Promise<void> {
+    const keys: string[] = ((await this.get(registryKey)) as string[]) || [];
+    await Promise.all(keys.map((key) => this.del(key)));
+    await this.del(registryKey);
+  }
+
   private async warmupFeaturedArticles(
     loader: () => Promise<unknown>,
   ): Promise<void> {
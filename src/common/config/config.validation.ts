@@ -21,6 +21,11 @@ enum Environment {
   Test = 'test',
 }
 
+enum StorageDriver {
+  Local = 'local',
+  S3 = 's3',
+}
+
 enum LogLevel {
   Error = 'error',
   Warn = 'warn',
@@ -98,7 +103,7 @@ class JwtConfig {
   @Matches(/^\d+[smhd]$/, {
     message: 'JWT expiration must be in format like "1h", "30m", "7d"',
   })
-  expiresIn?: string = '1h';
+  expiresIn?: string = '15m';
 
   @IsString()
   @IsOptional()
@@ -331,6 +336,49 @@ export class EnvironmentVariables {
   @IsOptional()
   MAX_FILE_SIZE?: number = 10 * 1024 * 1024; // 10MB
 
+  // 导入任务工作目录，保存上传的原始文件以便中断后恢复（不对外提供访问）
+  @IsString()
+  @IsOptional()
+  IMPORT_TASK_PATH?: string = './data/imports';
+
+  // 文章后台导出文件目录，通过带签名的链接下载（不对外提供静态访问）
+  @IsString()
+  @IsOptional()
+  EXPORT_JOB_PATH?: string = './data/exports';
+
+  // 文件存储配置
+  @IsEnum(StorageDriver)
+  @IsOptional()
+  STORAGE_DRIVER?: StorageDriver = StorageDriver.Local;
+
+  @IsString()
+  @IsOptional()
+  STORAGE_PUBLIC_URL?: string; // 文件访问地址前缀，未配置时按驱动推导
+
+  @IsString()
+  @IsOptional()
+  S3_ENDPOINT?: string; // S3兼容服务端点，使用AWS S3时留空
+
+  @IsString()
+  @IsOptional()
+  S3_REGION?: string = 'us-east-1';
+
+  @IsString()
+  @IsOptional()
+  S3_BUCKET?: string;
+
+  @IsString()
+  @IsOptional()
+  S3_ACCESS_KEY_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  S3_SECRET_ACCESS_KEY?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  S3_FORCE_PATH_STYLE?: boolean = false; // MinIO等需要路径寻址
+
   // 分页配置
   @IsNumber()
   @Min(1)
@@ -345,6 +393,168 @@ export class EnvironmentVariables {
   @Transform(({ value }) => parseInt(value, 10))
   @IsOptional()
   MAX_PAGE_SIZE?: number = 100;
+
+  // 文章版本历史配置
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  ARTICLE_REVISION_MAX_COUNT?: number = 50; // 每篇文章最多保留的版本数，0表示不限制
+
+  @IsNumber()
+  @Min(0)
+  @Max(3650)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  ARTICLE_REVISION_RETENTION_DAYS?: number = 180; // 版本保留天数，0表示永久保留
+
+  // 站点信息配置（订阅源等对外输出使用）
+  @IsString()
+  @IsOptional()
+  SITE_URL?: string; // 前端站点地址，未配置时使用FRONTEND_URL
+
+  @IsString()
+  @IsOptional()
+  API_BASE_URL?: string; // 对外API地址，未配置时为 SITE_URL/API_PREFIX
+
+  @IsString()
+  @IsOptional()
+  SITE_TITLE?: string = 'igCircle Blog';
+
+  @IsString()
+  @IsOptional()
+  SITE_DESCRIPTION?: string = '';
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  FEED_ITEM_LIMIT?: number = 20; // 订阅源输出的文章数量
+
+  // robots.txt配置
+  @IsString()
+  @IsOptional()
+  ROBOTS_DISALLOW?: string = '/admin'; // 禁止抓取的路径，逗号分隔
+
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsOptional()
+  ROBOTS_DISALLOW_ALL?: boolean = false; // 是否禁止所有抓取（测试环境使用）
+
+  // 评论审核配置
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsOptional()
+  COMMENT_MODERATION_FIRST_TIME?: boolean = true; // 首次评论的用户进入审核队列
+
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsOptional()
+  COMMENT_MODERATION_LINKS?: boolean = true; // 包含链接的评论进入审核队列
+
+  @IsString()
+  @IsOptional()
+  COMMENT_MODERATION_KEYWORDS?: string = ''; // 命中后进入审核队列的关键词，逗号分隔
+
+  // 评论内容过滤配置
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_FILTER_QUEUE_SCORE?: number = 5; // 风险分值达到该值进入审核队列
+
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_FILTER_REJECT_SCORE?: number = 10; // 风险分值达到该值直接拒绝
+
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_FILTER_MAX_LINKS?: number = 2; // 单条评论允许的链接数
+
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_BURST_LIMIT?: number = 5; // 同一IP在时间窗口内允许的评论数
+
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_BURST_WINDOW?: number = 60; // 突发检测时间窗口（秒）
+
+  // 评论邮件通知配置
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  COMMENT_NOTIFY_DIGEST_WINDOW?: number = 10; // 摘要合并窗口（分钟）
+
+  @IsString()
+  @IsOptional()
+  EMAIL_UNSUBSCRIBE_SECRET?: string; // 退订令牌签名密钥，未配置时使用JWT_SECRET
+
+  // 双因素认证配置
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsOptional()
+  ADMIN_2FA_REQUIRED?: boolean = false; // 所有管理员账户必须开启双因素认证
+
+  // 登录保护配置
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  LOGIN_MAX_FAILURES?: number = 10; // 同一账户连续登录失败达到该次数后临时锁定
+
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsOptional()
+  LOGIN_LOCKOUT_DURATION?: number = 30; // 账户锁定时长（分钟）
+
+  // 第三方登录配置，配置了客户端ID和密钥的登录方式才会启用
+  @IsString()
+  @IsOptional()
+  OAUTH_REDIRECT_URL?: string; // 第三方授权回调的前端地址，默认为 站点地址/oauth/callback
+
+  @IsString()
+  @IsOptional()
+  OAUTH_GITHUB_CLIENT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  OAUTH_GITHUB_CLIENT_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  OAUTH_GOOGLE_CLIENT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  OAUTH_GOOGLE_CLIENT_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  OAUTH_OIDC_ISSUER?: string; // 通用OIDC提供方地址，通过 /.well-known/openid-configuration 获取端点
+
+  @IsString()
+  @IsOptional()
+  OAUTH_OIDC_NAME?: string = 'OIDC'; // 通用OIDC提供方的显示名称
+
+  @IsString()
+  @IsOptional()
+  OAUTH_OIDC_CLIENT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  OAUTH_OIDC_CLIENT_SECRET?: string;
 }
 
 /**
@@ -363,12 +573,76 @@ export function validateConfig(
     MAX_FILE_SIZE: config.MAX_FILE_SIZE
       ? parseInt(config.MAX_FILE_SIZE as string, 10)
       : 10485760,
+    IMPORT_TASK_PATH: config.IMPORT_TASK_PATH || './data/imports',
+    EXPORT_JOB_PATH: config.EXPORT_JOB_PATH || './data/exports',
+    STORAGE_DRIVER: config.STORAGE_DRIVER || 'local',
+    STORAGE_PUBLIC_URL: config.STORAGE_PUBLIC_URL,
+    S3_ENDPOINT: config.S3_ENDPOINT,
+    S3_REGION: config.S3_REGION || 'us-east-1',
+    S3_BUCKET: config.S3_BUCKET,
+    S3_ACCESS_KEY_ID: config.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: config.S3_SECRET_ACCESS_KEY,
+    S3_FORCE_PATH_STYLE: config.S3_FORCE_PATH_STYLE === 'true',
     DEFAULT_PAGE_SIZE: config.DEFAULT_PAGE_SIZE
       ? parseInt(config.DEFAULT_PAGE_SIZE as string, 10)
       : 10,
     MAX_PAGE_SIZE: config.MAX_PAGE_SIZE
       ? parseInt(config.MAX_PAGE_SIZE as string, 10)
       : 100,
+    ARTICLE_REVISION_MAX_COUNT: config.ARTICLE_REVISION_MAX_COUNT
+      ? parseInt(config.ARTICLE_REVISION_MAX_COUNT as string, 10)
+      : 50,
+    ARTICLE_REVISION_RETENTION_DAYS: config.ARTICLE_REVISION_RETENTION_DAYS
+      ? parseInt(config.ARTICLE_REVISION_RETENTION_DAYS as string, 10)
+      : 180,
+    SITE_URL: config.SITE_URL,
+    API_BASE_URL: config.API_BASE_URL,
+    SITE_TITLE: config.SITE_TITLE,
+    SITE_DESCRIPTION: config.SITE_DESCRIPTION,
+    FEED_ITEM_LIMIT: config.FEED_ITEM_LIMIT
+      ? parseInt(config.FEED_ITEM_LIMIT as string, 10)
+      : 20,
+    ROBOTS_DISALLOW: config.ROBOTS_DISALLOW,
+    ROBOTS_DISALLOW_ALL: config.ROBOTS_DISALLOW_ALL === 'true',
+    COMMENT_MODERATION_FIRST_TIME:
+      config.COMMENT_MODERATION_FIRST_TIME !== 'false',
+    COMMENT_MODERATION_LINKS: config.COMMENT_MODERATION_LINKS !== 'false',
+    COMMENT_MODERATION_KEYWORDS: config.COMMENT_MODERATION_KEYWORDS,
+    COMMENT_FILTER_QUEUE_SCORE: config.COMMENT_FILTER_QUEUE_SCORE
+      ? parseInt(config.COMMENT_FILTER_QUEUE_SCORE as string, 10)
+      : 5,
+    COMMENT_FILTER_REJECT_SCORE: config.COMMENT_FILTER_REJECT_SCORE
+      ? parseInt(config.COMMENT_FILTER_REJECT_SCORE as string, 10)
+      : 10,
+    COMMENT_FILTER_MAX_LINKS: config.COMMENT_FILTER_MAX_LINKS
+      ? parseInt(config.COMMENT_FILTER_MAX_LINKS as string, 10)
+      : 2,
+    COMMENT_BURST_LIMIT: config.COMMENT_BURST_LIMIT
+      ? parseInt(config.COMMENT_BURST_LIMIT as string, 10)
+      : 5,
+    COMMENT_BURST_WINDOW: config.COMMENT_BURST_WINDOW
+      ? parseInt(config.COMMENT_BURST_WINDOW as string, 10)
+      : 60,
+    COMMENT_NOTIFY_DIGEST_WINDOW: config.COMMENT_NOTIFY_DIGEST_WINDOW
+      ? parseInt(config.COMMENT_NOTIFY_DIGEST_WINDOW as string, 10)
+      : 10,
+    EMAIL_UNSUBSCRIBE_SECRET: config.EMAIL_UNSUBSCRIBE_SECRET,
+    ADMIN_2FA_REQUIRED: config.ADMIN_2FA_REQUIRED === 'true',
+    LOGIN_MAX_FAILURES: config.LOGIN_MAX_FAILURES
+      ? parseInt(config.LOGIN_MAX_FAILURES as string, 10)
+      : 10,
+    LOGIN_LOCKOUT_DURATION: config.LOGIN_LOCKOUT_DURATION
+      ? parseInt(config.LOGIN_LOCKOUT_DURATION as string, 10)
+      : 30,
+    OAUTH_REDIRECT_URL: config.OAUTH_REDIRECT_URL,
+    OAUTH_GITHUB_CLIENT_ID: config.OAUTH_GITHUB_CLIENT_ID,
+    OAUTH_GITHUB_CLIENT_SECRET: config.OAUTH_GITHUB_CLIENT_SECRET,
+    OAUTH_GOOGLE_CLIENT_ID: config.OAUTH_GOOGLE_CLIENT_ID,
+    OAUTH_GOOGLE_CLIENT_SECRET: config.OAUTH_GOOGLE_CLIENT_SECRET,
+    OAUTH_OIDC_ISSUER: config.OAUTH_OIDC_ISSUER,
+    OAUTH_OIDC_NAME: config.OAUTH_OIDC_NAME || 'OIDC',
+    OAUTH_OIDC_CLIENT_ID: config.OAUTH_OIDC_CLIENT_ID,
+    OAUTH_OIDC_CLIENT_SECRET: config.OAUTH_OIDC_CLIENT_SECRET,
     database: {
       type: config.DB_TYPE || 'mysql',
       host: config.DB_HOST || 'localhost',
@@ -387,7 +661,7 @@ export function validateConfig(
     },
     jwt: {
       secret: config.JWT_SECRET || 'default-secret-key-change-in-production',
-      expiresIn: config.JWT_EXPIRES_IN || '1h',
+      expiresIn: config.JWT_EXPIRES_IN || '15m',
       refreshExpiresIn: config.JWT_REFRESH_EXPIRES_IN || '7d',
     },
     email: config.EMAIL_HOST
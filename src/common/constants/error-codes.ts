@@ -36,6 +36,28 @@ export enum ErrorCode {
   AUTH_PERMISSION_DENIED = 'AUTH_010',
   AUTH_USER_INFO_MISSING = 'AUTH_011',
   AUTH_FORCED_LOGOUT = 'AUTH_012',
+  AUTH_REFRESH_TOKEN_REUSED = 'AUTH_013',
+  AUTH_SESSION_NOT_FOUND = 'AUTH_014',
+  AUTH_TWO_FACTOR_CODE_INVALID = 'AUTH_015',
+  AUTH_TWO_FACTOR_CHALLENGE_INVALID = 'AUTH_016',
+  AUTH_TWO_FACTOR_ALREADY_ENABLED = 'AUTH_017',
+  AUTH_TWO_FACTOR_NOT_ENABLED = 'AUTH_018',
+  AUTH_TWO_FACTOR_REQUIRED = 'AUTH_019',
+  AUTH_TWO_FACTOR_ENROLLMENT_EXPIRED = 'AUTH_020',
+  AUTH_ACCOUNT_LOCKED = 'AUTH_021',
+  AUTH_LOGIN_THROTTLED = 'AUTH_022',
+  AUTH_UNLOCK_TOKEN_INVALID = 'AUTH_023',
+
+  // 第三方登录相关错误 (OAUTH_xxx)
+  OAUTH_PROVIDER_NOT_SUPPORTED = 'OAUTH_001',
+  OAUTH_STATE_INVALID = 'OAUTH_002',
+  OAUTH_PROVIDER_ERROR = 'OAUTH_003',
+  OAUTH_EMAIL_REQUIRED = 'OAUTH_004',
+  OAUTH_EMAIL_IN_USE = 'OAUTH_005',
+  OAUTH_ACCOUNT_LINKED = 'OAUTH_006',
+  OAUTH_PROVIDER_ALREADY_LINKED = 'OAUTH_007',
+  OAUTH_ACCOUNT_NOT_FOUND = 'OAUTH_008',
+  OAUTH_ID_TOKEN_INVALID = 'OAUTH_009',
 
   // 文章相关错误 (ARTICLE_xxx)
   ARTICLE_NOT_FOUND = 'ARTICLE_001',
@@ -46,6 +68,8 @@ export enum ErrorCode {
   ARTICLE_INVALID_STATUS = 'ARTICLE_006',
   ARTICLE_ACCESS_DENIED = 'ARTICLE_007',
   ARTICLE_CONTENT_TOO_LONG = 'ARTICLE_008',
+  ARTICLE_REVISION_NOT_FOUND = 'ARTICLE_009',
+  ARTICLE_SCHEDULE_TIME_INVALID = 'ARTICLE_010',
 
   // 分类相关错误 (CATEGORY_xxx)
   CATEGORY_NOT_FOUND = 'CATEGORY_001',
@@ -58,6 +82,11 @@ export enum ErrorCode {
   TAG_NAME_EXISTS = 'TAG_002',
   TAG_IN_USE = 'TAG_003',
 
+  // 文章系列相关错误 (SERIES_xxx)
+  SERIES_NOT_FOUND = 'SERIES_001',
+  SERIES_SLUG_EXISTS = 'SERIES_002',
+  SERIES_ARTICLE_CONFLICT = 'SERIES_003',
+
   // 评论相关错误 (COMMENT_xxx)
   COMMENT_NOT_FOUND = 'COMMENT_001',
   COMMENT_ARTICLE_NOT_FOUND = 'COMMENT_002',
@@ -66,6 +95,13 @@ export enum ErrorCode {
   COMMENT_CONTENT_INVALID = 'COMMENT_005',
   COMMENT_DISABLED = 'COMMENT_006',
   COMMENT_SPAM_DETECTED = 'COMMENT_007',
+  COMMENT_NOT_PENDING = 'COMMENT_008',
+  COMMENT_SENSITIVE_WORD = 'COMMENT_009',
+  COMMENT_DUPLICATE_CONTENT = 'COMMENT_010',
+  COMMENT_TOO_FREQUENT = 'COMMENT_011',
+  SENSITIVE_WORD_NOT_FOUND = 'COMMENT_012',
+  SENSITIVE_WORD_EXISTS = 'COMMENT_013',
+  COMMENT_MODERATION_REQUIRED = 'COMMENT_014',
 
   // 文件相关错误 (FILE_xxx)
   FILE_NOT_FOUND = 'FILE_001',
@@ -73,12 +109,34 @@ export enum ErrorCode {
   FILE_INVALID_TYPE = 'FILE_003',
   FILE_UPLOAD_FAILED = 'FILE_004',
   FILE_DELETE_FAILED = 'FILE_005',
+  FILE_INVALID_IMAGE = 'FILE_006',
+
+  // 媒体库相关错误 (MEDIA_xxx)
+  MEDIA_NOT_FOUND = 'MEDIA_001',
+  MEDIA_IN_USE = 'MEDIA_002',
+
+  // 导入任务相关错误 (IMPORT_xxx)
+  IMPORT_TASK_NOT_FOUND = 'IMPORT_001',
+  IMPORT_TASK_NOT_RESUMABLE = 'IMPORT_002',
+  IMPORT_TASK_SOURCE_MISSING = 'IMPORT_003',
+
+  // 站点备份相关错误 (BACKUP_xxx)
+  BACKUP_INVALID_ARCHIVE = 'BACKUP_001',
+  BACKUP_DATABASE_NOT_EMPTY = 'BACKUP_002',
+
+  // 文章导出相关错误 (EXPORT_xxx)
+  EXPORT_JOB_NOT_FOUND = 'EXPORT_001',
+  EXPORT_DOWNLOAD_LINK_INVALID = 'EXPORT_002',
 
   // 邮件相关错误 (EMAIL_xxx)
   EMAIL_SEND_FAILED = 'EMAIL_001',
   EMAIL_TEMPLATE_NOT_FOUND = 'EMAIL_002',
   EMAIL_INVALID_ADDRESS = 'EMAIL_003',
   EMAIL_VERIFICATION_FAILED = 'EMAIL_004',
+  EMAIL_UNSUBSCRIBE_TOKEN_INVALID = 'EMAIL_005',
+
+  // 通知相关错误 (NOTIFICATION_xxx)
+  NOTIFICATION_NOT_FOUND = 'NOTIFICATION_001',
 
   // 缓存相关错误 (CACHE_xxx)
   CACHE_CONNECTION_FAILED = 'CACHE_001',
@@ -130,6 +188,31 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.AUTH_PERMISSION_DENIED]: '权限不足',
   [ErrorCode.AUTH_USER_INFO_MISSING]: '用户信息缺失',
   [ErrorCode.AUTH_FORCED_LOGOUT]: '强制退出登录',
+  [ErrorCode.AUTH_REFRESH_TOKEN_REUSED]: '刷新令牌已被使用，请重新登录',
+  [ErrorCode.AUTH_SESSION_NOT_FOUND]: '登录会话不存在或已失效',
+  [ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID]: '动态验证码或恢复码错误',
+  [ErrorCode.AUTH_TWO_FACTOR_CHALLENGE_INVALID]: '二次验证已失效，请重新登录',
+  [ErrorCode.AUTH_TWO_FACTOR_ALREADY_ENABLED]: '已开启双因素认证',
+  [ErrorCode.AUTH_TWO_FACTOR_NOT_ENABLED]: '未开启双因素认证',
+  [ErrorCode.AUTH_TWO_FACTOR_REQUIRED]: '管理员账户必须开启双因素认证',
+  [ErrorCode.AUTH_TWO_FACTOR_ENROLLMENT_EXPIRED]:
+    '双因素认证绑定已过期，请重新获取密钥',
+  [ErrorCode.AUTH_ACCOUNT_LOCKED]:
+    '登录失败次数过多，账户已被临时锁定，请稍后再试或通过邮件解锁',
+  [ErrorCode.AUTH_LOGIN_THROTTLED]: '登录失败次数过多，请稍后再试',
+  [ErrorCode.AUTH_UNLOCK_TOKEN_INVALID]: '解锁链接无效或已过期',
+
+  // 第三方登录相关错误
+  [ErrorCode.OAUTH_PROVIDER_NOT_SUPPORTED]: '不支持该登录方式',
+  [ErrorCode.OAUTH_STATE_INVALID]: '授权已失效，请重新发起登录',
+  [ErrorCode.OAUTH_PROVIDER_ERROR]: '第三方登录服务暂时不可用',
+  [ErrorCode.OAUTH_EMAIL_REQUIRED]: '无法从第三方账号获取已验证的邮箱',
+  [ErrorCode.OAUTH_EMAIL_IN_USE]:
+    '该邮箱已注册，请使用密码登录后在个人资料中绑定',
+  [ErrorCode.OAUTH_ACCOUNT_LINKED]: '该第三方账号已绑定其他用户',
+  [ErrorCode.OAUTH_PROVIDER_ALREADY_LINKED]: '已绑定该登录方式的其他账号',
+  [ErrorCode.OAUTH_ACCOUNT_NOT_FOUND]: '第三方账号绑定不存在',
+  [ErrorCode.OAUTH_ID_TOKEN_INVALID]: '第三方身份令牌校验失败',
 
   // 文章相关错误
   [ErrorCode.ARTICLE_NOT_FOUND]: '文章不存在',
@@ -140,6 +223,8 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.ARTICLE_INVALID_STATUS]: '文章状态无效',
   [ErrorCode.ARTICLE_ACCESS_DENIED]: '无权访问此文章',
   [ErrorCode.ARTICLE_CONTENT_TOO_LONG]: '文章内容过长',
+  [ErrorCode.ARTICLE_REVISION_NOT_FOUND]: '文章版本不存在',
+  [ErrorCode.ARTICLE_SCHEDULE_TIME_INVALID]: '定时发布时间必须晚于当前时间',
 
   // 分类相关错误
   [ErrorCode.CATEGORY_NOT_FOUND]: '分类不存在',
@@ -152,6 +237,11 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.TAG_NAME_EXISTS]: '标签名称已存在',
   [ErrorCode.TAG_IN_USE]: '标签正在使用中，无法删除',
 
+  // 文章系列相关错误
+  [ErrorCode.SERIES_NOT_FOUND]: '系列不存在',
+  [ErrorCode.SERIES_SLUG_EXISTS]: '系列slug已存在',
+  [ErrorCode.SERIES_ARTICLE_CONFLICT]: '文章已属于其他系列',
+
   // 评论相关错误
   [ErrorCode.COMMENT_NOT_FOUND]: '评论不存在',
   [ErrorCode.COMMENT_ARTICLE_NOT_FOUND]: '评论的文章不存在',
@@ -160,6 +250,13 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.COMMENT_CONTENT_INVALID]: '评论内容无效',
   [ErrorCode.COMMENT_DISABLED]: '评论功能已禁用',
   [ErrorCode.COMMENT_SPAM_DETECTED]: '检测到垃圾评论',
+  [ErrorCode.COMMENT_NOT_PENDING]: '评论不在待审核状态',
+  [ErrorCode.COMMENT_SENSITIVE_WORD]: '评论包含敏感词',
+  [ErrorCode.COMMENT_DUPLICATE_CONTENT]: '请勿重复发表相同评论',
+  [ErrorCode.COMMENT_TOO_FREQUENT]: '评论过于频繁，请稍后再试',
+  [ErrorCode.SENSITIVE_WORD_NOT_FOUND]: '敏感词不存在',
+  [ErrorCode.SENSITIVE_WORD_EXISTS]: '敏感词已存在',
+  [ErrorCode.COMMENT_MODERATION_REQUIRED]: '待审核或已拒绝的评论请通过审核处理',
 
   // 文件相关错误
   [ErrorCode.FILE_NOT_FOUND]: '文件不存在',
@@ -167,12 +264,36 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.FILE_INVALID_TYPE]: '文件类型不支持',
   [ErrorCode.FILE_UPLOAD_FAILED]: '文件上传失败',
   [ErrorCode.FILE_DELETE_FAILED]: '文件删除失败',
+  [ErrorCode.FILE_INVALID_IMAGE]: '图片文件无法解析',
+
+  // 媒体库相关错误
+  [ErrorCode.MEDIA_NOT_FOUND]: '媒体文件不存在',
+  [ErrorCode.MEDIA_IN_USE]: '媒体文件正在被文章引用，无法删除',
+
+  // 导入任务相关错误
+  [ErrorCode.IMPORT_TASK_NOT_FOUND]: '导入任务不存在',
+  [ErrorCode.IMPORT_TASK_NOT_RESUMABLE]: '导入任务无法恢复执行',
+  [ErrorCode.IMPORT_TASK_SOURCE_MISSING]:
+    '导入任务的原始文件已丢失，无法恢复执行',
+
+  // 站点备份相关错误
+  [ErrorCode.BACKUP_INVALID_ARCHIVE]: '备份文件格式无效',
+  [ErrorCode.BACKUP_DATABASE_NOT_EMPTY]:
+    '站点已有文章、分类、标签或评论，只能恢复到空数据库',
+
+  // 文章导出相关错误
+  [ErrorCode.EXPORT_JOB_NOT_FOUND]: '导出任务不存在或已过期',
+  [ErrorCode.EXPORT_DOWNLOAD_LINK_INVALID]: '下载链接无效或已过期',
 
   // 邮件相关错误
   [ErrorCode.EMAIL_SEND_FAILED]: '邮件发送失败',
   [ErrorCode.EMAIL_TEMPLATE_NOT_FOUND]: '邮件模板不存在',
   [ErrorCode.EMAIL_INVALID_ADDRESS]: '邮箱地址无效',
   [ErrorCode.EMAIL_VERIFICATION_FAILED]: '邮箱验证码无效或过期',
+  [ErrorCode.EMAIL_UNSUBSCRIBE_TOKEN_INVALID]: '退订链接无效',
+
+  // 通知相关错误
+  [ErrorCode.NOTIFICATION_NOT_FOUND]: '通知不存在',
 
   // 缓存相关错误
   [ErrorCode.CACHE_CONNECTION_FAILED]: '缓存连接失败',
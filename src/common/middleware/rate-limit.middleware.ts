@@ -172,6 +172,21 @@ export class RateLimitMiddleware implements NestMiddleware {
         max: 10, // 登录接口更严格
         message: '登录尝试过于频繁，请15分钟后再试',
       },
+      '/api/auth/admin/login/2fa': {
+        windowMs: 15 * 60 * 1000, // 15分钟
+        max: 10, // 动态验证码尝试次数
+        message: '验证码尝试过于频繁，请15分钟后再试',
+      },
+      '/api/auth/oauth/callback': {
+        windowMs: 15 * 60 * 1000, // 15分钟
+        max: 20, // 第三方登录回调
+        message: '登录尝试过于频繁，请15分钟后再试',
+      },
+      '/api/auth/unlock-account': {
+        windowMs: 15 * 60 * 1000, // 15分钟
+        max: 10, // 解锁令牌尝试次数
+        message: '解锁尝试过于频繁，请15分钟后再试',
+      },
       '/api/auth/register': {
         windowMs: 60 * 60 * 1000, // 1小时
         max: 5, // 注册接口最严格
@@ -0,0 +1,205 @@
+import { XmlUtil } from '@/common/utils/xml.util';
+
+/**
+ * 评论通知条目
+ */
+export interface CommentNotificationItem {
+  type: 'reply' | 'mention' | 'comment';
+  commenterName: string;
+  content: string;
+  articleTitle: string;
+  articleUrl: string;
+  createdAt: Date;
+}
+
+// 邮件中评论内容的最大展示长度
+const EXCERPT_LENGTH = 200;
+
+/**
+ * 邮件HTML模板
+ * 所有动态内容均经过转义
+ */
+export class EmailTemplates {
+  /**
+   * 通用邮件布局
+   * @param unsubscribeUrl 提供时在页脚显示退订链接
+   */
+  static layout(title: string, body: string, unsubscribeUrl?: string): string {
+    const unsubscribe = unsubscribeUrl
+      ? `<p style="color: #666; font-size: 12px;">不想再收到此类邮件？<a href="${XmlUtil.escape(unsubscribeUrl)}" style="color: #666;">一键退订</a></p>`
+      : '';
+
+    return `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">${XmlUtil.escape(title)}</h2>
+          ${body}
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+          <p style="color: #666; font-size: 12px;">此邮件由系统自动发送，请勿回复。</p>
+          ${unsubscribe}
+        </div>
+      `;
+  }
+
+  /**
+   * 操作按钮
+   */
+  static button(url: string, text: string): string {
+    return `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${XmlUtil.escape(url)}" style="background-color: #007bff; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">${XmlUtil.escape(text)}</a>
+          </div>`;
+  }
+
+  /**
+   * 引用的评论内容
+   */
+  static quote(content: string): string {
+    const excerpt =
+      content.length > EXCERPT_LENGTH
+        ? `${content.slice(0, EXCERPT_LENGTH)}…`
+        : content;
+    return `<div style="background-color: #f5f5f5; padding: 15px; margin: 20px 0; border-left: 4px solid #007bff; white-space: pre-wrap;">${XmlUtil.escape(excerpt)}</div>`;
+  }
+
+  /**
+   * 单条评论通知（回复、@提及或文章新评论）
+   */
+  static commentNotification(
+    item: CommentNotificationItem,
+    unsubscribeUrl: string,
+  ): { subject: string; html: string } {
+    const commenter = XmlUtil.escape(item.commenterName);
+    const article = XmlUtil.escape(item.articleTitle);
+    const templates = {
+      reply: {
+        title: '新回复',
+        subject: `${item.commenterName} 回复了您的评论`,
+        intro: `<p><strong>${commenter}</strong> 在文章《${article}》中回复了您的评论：</p>`,
+      },
+      mention: {
+        title: '有人提到了您',
+        subject: `${item.commenterName} 在评论中提到了您`,
+        intro: `<p><strong>${commenter}</strong> 在文章《${article}》的评论中提到了您：</p>`,
+      },
+      comment: {
+        title: '新评论',
+        subject: `您的文章《${item.articleTitle}》有新评论`,
+        intro: `<p><strong>${commenter}</strong> 评论了您的文章《${article}》：</p>`,
+      },
+    };
+    const { title, subject, intro } = templates[item.type];
+
+    return {
+      subject,
+      html: EmailTemplates.layout(
+        title,
+        `<p>您好！</p>
+          ${intro}
+          ${EmailTemplates.quote(item.content)}
+          ${EmailTemplates.button(item.articleUrl, '查看评论')}`,
+        unsubscribeUrl,
+      ),
+    };
+  }
+
+  /**
+   * 评论通知摘要（合并一段时间内的多条通知）
+   */
+  static commentDigest(
+    items: CommentNotificationItem[],
+    unsubscribeUrl: string,
+    total: number = items.length,
+  ): { subject: string; html: string } {
+    const more =
+      total > items.length
+        ? `<p style="color: #666;">还有 ${total - items.length} 条通知未展示，请前往站点查看。</p>`
+        : '';
+    const rows = items
+      .map((item) => {
+        const action = {
+          reply: '回复了您的评论',
+          mention: '在评论中提到了您',
+          comment: '评论了文章',
+        }[item.type];
+        return `
+          <div style="margin: 15px 0;">
+            <p style="margin: 0 0 5px;"><strong>${XmlUtil.escape(item.commenterName)}</strong> ${action} <a href="${XmlUtil.escape(item.articleUrl)}" style="color: #007bff;">《${XmlUtil.escape(item.articleTitle)}》</a></p>
+            ${EmailTemplates.quote(item.content)}
+          </div>`;
+      })
+      .join('');
+
+    return {
+      subject: `您有 ${total} 条新的评论通知`,
+      html: EmailTemplates.layout(
+        '评论通知摘要',
+        `<p>您好！以下是最近的评论动态：</p>${rows}${more}`,
+        unsubscribeUrl,
+      ),
+    };
+  }
+
+  /**
+   * 评论审核通过通知
+   */
+  static commentApproved(
+    content: string,
+    articleTitle: string,
+    articleUrl: string,
+  ): { subject: string; html: string } {
+    return {
+      subject: '您的评论已通过审核',
+      html: EmailTemplates.layout(
+        '评论审核通过',
+        `<p>您好！</p>
+          <p>您在文章《${XmlUtil.escape(articleTitle)}》下发表的评论已通过审核，现已公开显示：</p>
+          ${EmailTemplates.quote(content)}
+          ${EmailTemplates.button(articleUrl, '查看文章')}`,
+      ),
+    };
+  }
+
+  /**
+   * 账户锁定通知，附带解锁链接
+   */
+  static accountLocked(
+    username: string,
+    lockMinutes: number,
+    unlockUrl: string,
+  ): { subject: string; html: string } {
+    return {
+      subject: '您的账户已被临时锁定',
+      html: EmailTemplates.layout(
+        '账户已被临时锁定',
+        `<p>您好，${XmlUtil.escape(username)}！</p>
+          <p>您的账户连续多次登录失败，为保护账户安全，已被临时锁定 ${lockMinutes} 分钟，到期后自动解锁。</p>
+          <p>如果是您本人操作，可以点击下面的按钮立即解锁：</p>
+          ${EmailTemplates.button(unlockUrl, '解锁账户')}
+          <p>如果不是您本人操作，说明有人正在尝试登录您的账户，建议解锁后立即修改密码。</p>`,
+      ),
+    };
+  }
+
+  /**
+   * 退订确认及结果页面
+   * @param submitLabel 提供时显示确认按钮，表单以POST提交到当前链接
+   */
+  static unsubscribePage(
+    title: string,
+    message: string,
+    submitLabel?: string,
+  ): string {
+    const form = submitLabel
+      ? `
+          <form method="post" style="text-align: center; margin: 30px 0;">
+            <button type="submit" style="background-color: #007bff; color: white; padding: 12px 30px; border: none; border-radius: 5px; cursor: pointer;">${XmlUtil.escape(submitLabel)}</button>
+          </form>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head><meta charset="utf-8"><title>${XmlUtil.escape(title)}</title></head>
+<body>${EmailTemplates.layout(title, `<p>${XmlUtil.escape(message)}</p>${form}`)}</body>
+</html>`;
+  }
+}
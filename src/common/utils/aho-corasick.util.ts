@@ -0,0 +1,117 @@
+/**
+ * 多模式匹配命中结果
+ */
+export interface AhoCorasickMatch {
+  // 命中的模式（已转为小写）
+  word: string;
+  // 命中位置（文本中的起始下标）
+  index: number;
+}
+
+interface AhoCorasickNode {
+  children: Map<string, number>;
+  fail: number;
+  // 以当前节点结尾的所有模式（包含失败链上的模式）
+  outputs: string[];
+}
+
+/**
+ * Aho-Corasick 多模式字符串匹配
+ * 一次扫描即可找出文本中所有敏感词，匹配时忽略大小写
+ */
+export class AhoCorasick {
+  private readonly nodes: AhoCorasickNode[] = [AhoCorasick.createNode()];
+
+  constructor(patterns: string[]) {
+    for (const pattern of patterns) {
+      this.insert(pattern.toLowerCase());
+    }
+    this.buildFailureLinks();
+  }
+
+  /**
+   * 模式数量为0时无需扫描
+   */
+  get isEmpty(): boolean {
+    return this.nodes[0].children.size === 0;
+  }
+
+  /**
+   * 查找文本中所有命中的模式（允许重叠）
+   */
+  search(text: string): AhoCorasickMatch[] {
+    const matches: AhoCorasickMatch[] = [];
+    if (this.isEmpty || !text) {
+      return matches;
+    }
+
+    let state = 0;
+    let position = 0;
+    for (const char of text.toLowerCase()) {
+      position += char.length;
+      while (state !== 0 && !this.nodes[state].children.has(char)) {
+        state = this.nodes[state].fail;
+      }
+      state = this.nodes[state].children.get(char) ?? 0;
+
+      for (const word of this.nodes[state].outputs) {
+        matches.push({ word, index: position - word.length });
+      }
+    }
+
+    return matches;
+  }
+
+  private insert(pattern: string): void {
+    if (!pattern) {
+      return;
+    }
+
+    let state = 0;
+    for (const char of pattern) {
+      let next = this.nodes[state].children.get(char);
+      if (next === undefined) {
+        next = this.nodes.length;
+        this.nodes.push(AhoCorasick.createNode());
+        this.nodes[state].children.set(char, next);
+      }
+      state = next;
+    }
+
+    if (!this.nodes[state].outputs.includes(pattern)) {
+      this.nodes[state].outputs.push(pattern);
+    }
+  }
+
+  /**
+   * 按广度优先构建失败指针，并合并失败链上的输出
+   */
+  private buildFailureLinks(): void {
+    const queue: number[] = [];
+    for (const child of this.nodes[0].children.values()) {
+      this.nodes[child].fail = 0;
+      queue.push(child);
+    }
+
+    while (queue.length > 0) {
+      const current = queue.shift() as number;
+      for (const [char, child] of this.nodes[current].children) {
+        let fail = this.nodes[current].fail;
+        while (fail !== 0 && !this.nodes[fail].children.has(char)) {
+          fail = this.nodes[fail].fail;
+        }
+        const target = this.nodes[fail].children.get(char);
+        this.nodes[child].fail =
+          target !== undefined && target !== child ? target : 0;
+        this.nodes[child].outputs.push(
+          ...this.nodes[this.nodes[child].fail].outputs,
+        );
+        queue.push(child);
+      }
+    }
+  }
+
+  private static createNode(): AhoCorasickNode {
+    return { children: new Map(), fail: 0, outputs: [] };
+  }
+}
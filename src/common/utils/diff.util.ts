@@ -0,0 +1,181 @@
+/**
+ * 行级差异类型
+ */
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+/**
+ * 单行差异
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+}
+
+/**
+ * 差异统计
+ */
+export interface DiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * 文本差异工具类
+ * 基于最长公共子序列（LCS）计算行级差异
+ */
+export class DiffUtil {
+  /**
+   * LCS 表格的最大单元格数，超过时退化为整段替换，避免占用过多内存
+   */
+  private static readonly MAX_TABLE_CELLS = 16 * 1024 * 1024;
+
+  /**
+   * 计算两段文本的行级差异
+   * @param oldText 旧文本
+   * @param newText 新文本
+   * @returns 按顺序排列的差异行
+   */
+  static diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = this.splitLines(oldText);
+    const newLines = this.splitLines(newText);
+
+    // 跳过公共前缀和后缀，缩小LCS计算范围
+    let prefix = 0;
+    while (
+      prefix < oldLines.length &&
+      prefix < newLines.length &&
+      oldLines[prefix] === newLines[prefix]
+    ) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] ===
+        newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+      result.push({
+        type: 'equal',
+        content: oldLines[i],
+        oldLineNumber: i + 1,
+        newLineNumber: i + 1,
+      });
+    }
+
+    const middle = this.diffMiddle(oldMiddle, newMiddle);
+    let oldLineNumber = prefix + 1;
+    let newLineNumber = prefix + 1;
+    for (const line of middle) {
+      result.push({
+        type: line.type,
+        content: line.content,
+        oldLineNumber: line.type === 'added' ? null : oldLineNumber++,
+        newLineNumber: line.type === 'removed' ? null : newLineNumber++,
+      });
+    }
+
+    for (let i = 0; i < suffix; i++) {
+      result.push({
+        type: 'equal',
+        content: oldLines[oldLines.length - suffix + i],
+        oldLineNumber: oldLineNumber++,
+        newLineNumber: newLineNumber++,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 统计差异行数
+   */
+  static getStats(lines: DiffLine[]): DiffStats {
+    return lines.reduce<DiffStats>(
+      (stats, line) => {
+        if (line.type === 'added') stats.added++;
+        else if (line.type === 'removed') stats.removed++;
+        else stats.unchanged++;
+        return stats;
+      },
+      { added: 0, removed: 0, unchanged: 0 },
+    );
+  }
+
+  /**
+   * 按行拆分文本，统一换行符
+   */
+  private static splitLines(text: string | null | undefined): string[] {
+    if (!text) {
+      return [];
+    }
+    return text.replace(/\r\n?/g, '\n').split('\n');
+  }
+
+  /**
+   * 对去除公共前后缀后的中间部分计算差异
+   */
+  private static diffMiddle(
+    oldLines: string[],
+    newLines: string[],
+  ): { type: DiffLineType; content: string }[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+
+    if (n === 0 || m === 0 || (n + 1) * (m + 1) > this.MAX_TABLE_CELLS) {
+      return [
+        ...oldLines.map((content) => ({ type: 'removed' as const, content })),
+        ...newLines.map((content) => ({ type: 'added' as const, content })),
+      ];
+    }
+
+    // lcs[i][j] 表示 oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          oldLines[i] === newLines[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    const result: { type: DiffLineType; content: string }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldLines[i] === newLines[j]) {
+        result.push({ type: 'equal', content: oldLines[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        result.push({ type: 'removed', content: oldLines[i] });
+        i++;
+      } else {
+        result.push({ type: 'added', content: newLines[j] });
+        j++;
+      }
+    }
+    while (i < n) {
+      result.push({ type: 'removed', content: oldLines[i++] });
+    }
+    while (j < m) {
+      result.push({ type: 'added', content: newLines[j++] });
+    }
+
+    return result;
+  }
+}
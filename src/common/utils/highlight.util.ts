@@ -0,0 +1,130 @@
+/**
+ * 搜索高亮工具类
+ * 输出内容已做HTML转义，仅保留 <mark> 标签包裹的命中词
+ */
+export class HighlightUtil {
+  private static readonly MARK_OPEN = '<mark>';
+  private static readonly MARK_CLOSE = '</mark>';
+
+  /**
+   * 将搜索关键词拆分为词项（按空白分隔，去重，忽略大小写）
+   */
+  static splitTerms(keyword: string): string[] {
+    const terms = keyword
+      .split(/\s+/)
+      .map((term) => term.trim())
+      .filter(Boolean);
+    const seen = new Set<string>();
+    return terms.filter((term) => {
+      const lower = term.toLowerCase();
+      if (seen.has(lower)) {
+        return false;
+      }
+      seen.add(lower);
+      return true;
+    });
+  }
+
+  /**
+   * 高亮整段文本中的所有命中词
+   */
+  static highlight(text: string | null | undefined, terms: string[]): string {
+    if (!text) {
+      return '';
+    }
+    const pattern = HighlightUtil.buildPattern(terms);
+    if (!pattern) {
+      return HighlightUtil.escapeHtml(text);
+    }
+
+    let result = '';
+    let lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      result += HighlightUtil.escapeHtml(text.slice(lastIndex, index));
+      result +=
+        HighlightUtil.MARK_OPEN +
+        HighlightUtil.escapeHtml(match[0]) +
+        HighlightUtil.MARK_CLOSE;
+      lastIndex = index + match[0].length;
+    }
+    result += HighlightUtil.escapeHtml(text.slice(lastIndex));
+    return result;
+  }
+
+  /**
+   * 截取首个命中词附近的片段并高亮
+   * @param length 片段长度（字符数）
+   */
+  static snippet(
+    text: string | null | undefined,
+    terms: string[],
+    length: number = 160,
+  ): string {
+    if (!text) {
+      return '';
+    }
+
+    const plainText = HighlightUtil.stripMarkdown(text);
+    const pattern = HighlightUtil.buildPattern(terms);
+    const firstMatch = pattern ? pattern.exec(plainText) : null;
+
+    let start = 0;
+    if (firstMatch) {
+      // 命中词前保留约三分之一的上下文
+      start = Math.max(0, firstMatch.index - Math.floor(length / 3));
+    }
+    const end = Math.min(plainText.length, start + length);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < plainText.length ? '…' : '';
+    return (
+      prefix +
+      HighlightUtil.highlight(plainText.slice(start, end), terms) +
+      suffix
+    );
+  }
+
+  /**
+   * 判断文本是否包含任一词项
+   */
+  static contains(text: string | null | undefined, terms: string[]): boolean {
+    if (!text) {
+      return false;
+    }
+    const pattern = HighlightUtil.buildPattern(terms);
+    return pattern ? new RegExp(pattern.source, 'i').test(text) : false;
+  }
+
+  private static buildPattern(terms: string[]): RegExp | null {
+    const escaped = terms
+      .filter(Boolean)
+      // 长词优先匹配，避免短词截断长词
+      .sort((a, b) => b.length - a.length)
+      .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return escaped.length > 0 ? new RegExp(escaped.join('|'), 'gi') : null;
+  }
+
+  /**
+   * 粗略去除Markdown标记，便于生成纯文本片段
+   */
+  private static stripMarkdown(text: string): string {
+    return text
+      .replace(/```\w*/g, ' ')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+      .replace(/[*_`~|]+/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,44 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * 站点URL工具类
+ * 统一生成对外输出（订阅源、站点地图等）使用的前端页面地址
+ */
+export class SiteUrlUtil {
+  /**
+   * 前端站点地址，优先使用SITE_URL，其次FRONTEND_URL
+   */
+  static getSiteUrl(configService: ConfigService): string {
+    return SiteUrlUtil.trimTrailingSlash(
+      configService.get<string>('SITE_URL') ||
+        configService.get<string>('FRONTEND_URL') ||
+        'http://localhost:3000',
+    );
+  }
+
+  /**
+   * 对外API地址，未配置API_BASE_URL时为 站点地址/API前缀
+   */
+  static getApiBaseUrl(configService: ConfigService): string {
+    return SiteUrlUtil.trimTrailingSlash(
+      configService.get<string>('API_BASE_URL') ||
+        `${SiteUrlUtil.getSiteUrl(configService)}/${configService.get<string>('API_PREFIX', 'api')}`,
+    );
+  }
+
+  static article(siteUrl: string, slug: string): string {
+    return `${siteUrl}/articles/${encodeURIComponent(slug)}`;
+  }
+
+  static category(siteUrl: string, slug: string): string {
+    return `${siteUrl}/categories/${encodeURIComponent(slug)}`;
+  }
+
+  static tag(siteUrl: string, slug: string): string {
+    return `${siteUrl}/tags/${encodeURIComponent(slug)}`;
+  }
+
+  private static trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+  }
+}
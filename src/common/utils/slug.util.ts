@@ -99,6 +99,20 @@ export class SlugUtil {
     });
   }
 
+  /**
+   * 为文章系列生成slug
+   * @param title 系列标题
+   * @param maxLength 最大长度，默认100
+   * @returns 生成的slug
+   */
+  static forSeries(title: string, maxLength: number = 100): string {
+    return this.generate(title, {
+      maxLength,
+      fallbackPrefix: 'series',
+      preserveSpaces: true,
+    });
+  }
+
   /**
    * 验证slug格式是否有效
    * @param slug 要验证的slug
@@ -0,0 +1,81 @@
+/**
+ * 从 User-Agent 中识别出的设备信息
+ */
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  deviceType: 'mobile' | 'tablet' | 'desktop' | 'unknown';
+}
+
+/**
+ * User-Agent 解析工具类
+ * 只识别常见浏览器和系统，用于会话列表中展示设备名称
+ */
+export class UserAgentUtil {
+  // 按顺序匹配，Edge、Opera 等基于 Chromium 的浏览器需排在 Chrome 之前
+  private static readonly BROWSERS: [string, RegExp][] = [
+    ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+    ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+    ['WeChat', /MicroMessenger\/([\d.]+)/],
+    ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+    ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+    ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+    ['Safari', /Version\/([\d.]+).*Safari\//],
+  ];
+
+  private static readonly SYSTEMS: [string, RegExp][] = [
+    ['Windows', /Windows NT/],
+    ['iOS', /iPhone|iPad|iPod/],
+    ['Android', /Android/],
+    ['macOS', /Mac OS X|Macintosh/],
+    ['Chrome OS', /CrOS/],
+    ['Linux', /Linux/],
+  ];
+
+  /**
+   * 解析 User-Agent
+   */
+  static parse(userAgent: string | null | undefined): DeviceInfo {
+    if (!userAgent) {
+      return { browser: null, os: null, deviceType: 'unknown' };
+    }
+
+    const browser = UserAgentUtil.BROWSERS.find(([, pattern]) =>
+      pattern.test(userAgent),
+    );
+    const os = UserAgentUtil.SYSTEMS.find(([, pattern]) =>
+      pattern.test(userAgent),
+    );
+
+    return {
+      browser: browser
+        ? `${browser[0]} ${browser[1].exec(userAgent)![1].split('.')[0]}`
+        : null,
+      os: os ? os[0] : null,
+      deviceType: UserAgentUtil.getDeviceType(userAgent),
+    };
+  }
+
+  /**
+   * 生成设备名称，如 "Chrome 120 · Windows"
+   */
+  static describe(userAgent: string | null | undefined): string {
+    const { browser, os } = UserAgentUtil.parse(userAgent);
+    return [browser, os].filter(Boolean).join(' · ') || '未知设备';
+  }
+
+  private static getDeviceType(userAgent: string): DeviceInfo['deviceType'] {
+    if (/iPad|Tablet/i.test(userAgent)) {
+      return 'tablet';
+    }
+    if (/Mobi|iPhone|Android/i.test(userAgent)) {
+      return /Android/.test(userAgent) && !/Mobi/.test(userAgent)
+        ? 'tablet'
+        : 'mobile';
+    }
+    if (/Windows|Macintosh|X11|CrOS/.test(userAgent)) {
+      return 'desktop';
+    }
+    return 'unknown';
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * XML工具类
+ */
+export class XmlUtil {
+  /**
+   * 转义XML特殊字符，并移除XML 1.0不允许的控制字符
+   */
+  static escape(value: string | null | undefined): string {
+    if (!value) {
+      return '';
+    }
+
+    return (
+      value
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+    );
+  }
+
+  /**
+   * 生成单个元素，值为空时返回空字符串
+   */
+  static element(name: string, value: string | null | undefined): string {
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    return `<${name}>${XmlUtil.escape(value)}</${name}>`;
+  }
+}
@@ -9,7 +9,8 @@ export const jwtConfigFactory: JwtModuleAsyncOptions = {
   useFactory: (configService: ConfigService) => ({
     secret: configService.get<string>('JWT_SECRET'),
     signOptions: {
-      expiresIn: configService.get<string>('JWT_EXPIRES_IN', '7d'),
+      // 访问令牌短期有效，过期后通过刷新令牌换发
+      expiresIn: configService.get<string>('JWT_EXPIRES_IN', '15m'),
     },
   }),
   inject: [ConfigService],
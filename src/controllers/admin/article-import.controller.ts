@@ -6,6 +6,11 @@ import {
   UploadedFiles,
   Body,
   Param,
+  Query,
+  Req,
+  Res,
+  Headers,
+  HttpStatus,
   UseGuards,
 } from '@nestjs/common';
 import { FilesInterceptor } from '@nestjs/platform-express';
@@ -16,6 +21,9 @@ import {
   ApiConsumes,
   ApiBearerAuth,
   ApiBody,
+  ApiParam,
+  ApiProduces,
+  ApiHeader,
 } from '@nestjs/swagger';
 
 import { RolesGuard } from '@/guards/roles.guard';
@@ -27,6 +35,9 @@ import {
   ArticleImportConfigDto,
   StartImportResponseDto,
   ImportProgressDto,
+  ArticleImportPreviewResponseDto,
+  ImportTaskQueryDto,
+  ImportTaskReportQueryDto,
 } from '@/dto/article-import.dto';
 import { User } from '@/entities/user.entity';
 import {
@@ -36,12 +47,16 @@ import {
 import { ErrorCode } from '@/common/constants/error-codes';
 
 import type { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
-import type { Express } from 'express';
+import type { Express, Request, Response } from 'express';
 import {
   FieldVisibilityInterceptor,
   UseAdminVisibility,
 } from '@/common/interceptors/field-visibility.interceptor';
 import { ArticleParserService } from '@/services/article-import/article-parser.service';
+import { ArchiveExtractorService } from '@/services/article-import/archive-extractor.service';
+import { ImportTaskService } from '@/services/article-import/import-task.service';
+import { ImportProgressStreamService } from '@/services/article-import/import-progress-stream.service';
+import { PaginationUtil } from '@/common/utils/pagination.util';
 import { FileValidationService } from '@/services/article-import/common/file-validation.service';
 import type { FileValidationResponse } from '@/services/article-import/common/file-validation.service';
 import {
@@ -61,6 +76,8 @@ export class ArticleImportController {
     private readonly articleParserService: ArticleParserService,
     private readonly fileValidationService: FileValidationService,
     private readonly configValidationService: ConfigValidationService,
+    private readonly importTaskService: ImportTaskService,
+    private readonly importProgressStreamService: ImportProgressStreamService,
   ) {}
 
   /**
@@ -68,12 +85,20 @@ export class ArticleImportController {
    */
   private static readonly FILE_UPLOAD_CONFIG: MulterOptions = {
     limits: {
-      fileSize: 10 * 1024 * 1024, // 10MB per file
+      // Markdown文件单个10MB的限制在导入服务中校验，这里按压缩包和WordPress导出文件的上限放行
+      fileSize: ArchiveExtractorService.MAX_ARCHIVE_SIZE,
       files: 100, // max 100 files
     },
     fileFilter: (req, file, callback) => {
-      const allowedMimes = ['text/markdown', 'text/plain'];
-      const allowedExts = ['.md', '.markdown'];
+      const allowedMimes = [
+        'text/markdown',
+        'text/plain',
+        'application/zip',
+        'application/x-zip-compressed',
+        'application/xml',
+        'text/xml',
+      ];
+      const allowedExts = ['.md', '.markdown', '.zip', '.xml', '.wxr'];
 
       const hasValidMime = allowedMimes.includes(file.mimetype);
       const hasValidExt = allowedExts.some((ext) =>
@@ -85,7 +110,7 @@ export class ArticleImportController {
       } else {
         callback(
           new ValidationException(
-            `不支持的文件类型: ${file.originalname}. 仅支持 .md 和 .markdown 文件`,
+            `不支持的文件类型: ${file.originalname}. 仅支持 .md、.markdown 文件、.zip 压缩包和 WordPress 导出的 .xml 文件`,
           ),
           false,
         );
@@ -107,7 +132,8 @@ export class ArticleImportController {
             type: 'string',
             format: 'binary',
           },
-          description: 'Markdown文件列表',
+          description:
+            'Markdown文件列表，也可以是包含Markdown和图片的zip压缩包（如Hexo/Hugo导出目录）或WordPress导出的WXR文件（.xml）',
         },
         defaultCategory: {
           type: 'string',
@@ -214,8 +240,10 @@ export class ArticleImportController {
     status: 404,
     description: '任务不存在',
   })
-  getImportProgress(@Param('taskId') taskId: string): ImportProgressDto {
-    const progress = this.articleImportService.getImportProgress(taskId);
+  async getImportProgress(
+    @Param('taskId') taskId: string,
+  ): Promise<ImportProgressDto> {
+    const progress = await this.articleImportService.getImportProgress(taskId);
     if (!progress) {
       throw new NotFoundException(
         ErrorCode.COMMON_NOT_FOUND,
@@ -225,6 +253,55 @@ export class ArticleImportController {
     return progress;
   }
 
+  @Get('progress/:taskId/stream')
+  @ApiOperation({
+    summary: '订阅导入进度（SSE）',
+    description:
+      '以 text/event-stream 推送 progress 事件（数据为 ImportProgressDto），每15秒发送心跳注释，任务完成或失败后关闭连接。' +
+      '重连时携带 Last-Event-ID 请求头，进度未变化则不重复推送；任务已结束且已收到最终进度时返回204，客户端应停止重连。' +
+      '认证方式与其他接口相同，需使用支持自定义 Authorization 请求头的 EventSource 实现',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: '最后收到的事件ID',
+  })
+  @ApiResponse({ status: 200, description: '进度事件流' })
+  @ApiResponse({ status: 204, description: '任务已结束，无需重连' })
+  @ApiResponse({ status: 404, description: '任务不存在' })
+  async streamImportProgress(
+    @Param('taskId') taskId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const stream = await this.importProgressStreamService.stream(
+      taskId,
+      lastEventId,
+    );
+    if (!stream) {
+      res.status(HttpStatus.NO_CONTENT).end();
+      return;
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // 禁止 Nginx 缓冲，保证事件及时送达
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const subscription = stream.subscribe({
+      next: (frame) => res.write(frame),
+      error: () => res.end(),
+      complete: () => res.end(),
+    });
+    req.on('close', () => subscription.unsubscribe());
+  }
+
   @Post('validate')
   @UseAdminVisibility()
   @ApiOperation({ summary: '验证文章文件' })
@@ -291,6 +368,105 @@ export class ArticleImportController {
     return validation!;
   }
 
+  @Post('preview')
+  @UseAdminVisibility()
+  @ApiOperation({
+    summary: '导入预演（dry-run）',
+    description:
+      '按导入配置逐个文件判断新建、更新或跳过，返回与已存在文章的字段差异及将新建的标签和分类，不写入任何数据',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(ArticleImportController.IMPORT_API_BODY_SCHEMA)
+  @ApiResponse({
+    status: 200,
+    description: '预演完成',
+    type: ArticleImportPreviewResponseDto,
+  })
+  @ApiResponse(ArticleImportController.COMMON_API_RESPONSES[0])
+  @ApiResponse(ArticleImportController.COMMON_API_RESPONSES[1])
+  @ApiResponse(ArticleImportController.COMMON_API_RESPONSES[2])
+  @UseInterceptors(
+    FilesInterceptor('files', 100, ArticleImportController.FILE_UPLOAD_CONFIG),
+  )
+  async previewImport(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() configData: any,
+    @CurrentUser() user: User,
+  ): Promise<ArticleImportPreviewResponseDto> {
+    const { filesArray } = this.fileValidationService.validateFiles(
+      files,
+      '预演',
+    );
+    const config =
+      this.configValidationService.parseAndValidateConfig(configData);
+
+    return await this.articleImportService.previewImportArticles(
+      filesArray,
+      user.id,
+      config,
+    );
+  }
+
+  @Get('tasks')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取历史导入任务列表' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async findTasks(@Query() query: ImportTaskQueryDto): Promise<any> {
+    const result = await this.importTaskService.findAll(query);
+    return PaginationUtil.fromQueryResult(result, query.page, query.limit);
+  }
+
+  @Get('tasks/:taskId')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取导入任务详情及各文件结果' })
+  @ApiParam({ name: 'taskId', description: '导入任务ID' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '任务不存在' })
+  async findTask(@Param('taskId') taskId: string): Promise<any> {
+    return await this.importTaskService.findOne(taskId);
+  }
+
+  @Get('tasks/:taskId/report')
+  @ApiOperation({ summary: '下载导入报告（CSV 或 JSON）' })
+  @ApiParam({ name: 'taskId', description: '导入任务ID' })
+  @ApiResponse({ status: 200, description: '报告文件' })
+  @ApiResponse({ status: 404, description: '任务不存在' })
+  async downloadReport(
+    @Param('taskId') taskId: string,
+    @Query() query: ImportTaskReportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const report = await this.importTaskService.buildReport(
+      taskId,
+      query.format,
+    );
+    res.set({
+      'Content-Type': report.contentType,
+      'Content-Disposition': `attachment; filename="${report.filename}"`,
+    });
+    res.send(report.content);
+  }
+
+  @Post('tasks/:taskId/resume')
+  @ApiOperation({
+    summary: '恢复导入任务',
+    description:
+      '跳过已记录结果的文件继续执行。失败的任务可直接恢复，未完成的任务需超过5分钟未更新进度',
+  })
+  @ApiParam({ name: 'taskId', description: '导入任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '导入任务已恢复',
+    type: StartImportResponseDto,
+  })
+  @ApiResponse({ status: 404, description: '任务不存在' })
+  @ApiResponse({ status: 409, description: '任务已完成或仍在执行' })
+  async resumeTask(
+    @Param('taskId') taskId: string,
+  ): Promise<StartImportResponseDto> {
+    return await this.articleImportService.resumeImportTask(taskId);
+  }
+
   /**
    * 验证文件并解析配置（公共方法）
    */
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ArticleService } from '@/services/article/article.service';
+import {
+  ArticleRevisionService,
+  ArticleRevisionDiff,
+} from '@/services/article/article-revision.service';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { CurrentUser } from '@/decorators/user.decorator';
+import { Role } from '@/enums/role.enum';
+import { UnifiedArticleDetailDto } from '@/dto/base/unified-response.dto';
+import {
+  ArticleRevisionQueryDto,
+  ArticleRevisionDiffQueryDto,
+} from '@/dto/article-revision.dto';
+import {
+  FieldVisibilityInterceptor,
+  UseAdminVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { Article } from '@/entities/article.entity';
+import { ArticleRevision } from '@/entities/article-revision.entity';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import { PaginatedResponse } from '@/common/interfaces/response.interface';
+
+interface CurrentUserType {
+  sub: string;
+  username: string;
+  email: string;
+  role: string;
+}
+
+@ApiTags('1.2 管理端API - 文章管理')
+@Controller('admin/articles/:id/revisions')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class AdminArticleRevisionController {
+  constructor(
+    private readonly articleService: ArticleService,
+    private readonly articleRevisionService: ArticleRevisionService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取文章版本历史' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async findAll(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ArticleRevisionQueryDto,
+  ): Promise<PaginatedResponse<ArticleRevision>> {
+    // 确认文章存在
+    await this.articleService.findById(id);
+
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const result = await this.articleRevisionService.findByArticle(
+      id,
+      page,
+      limit,
+    );
+    return PaginationUtil.fromQueryResult(result, page, limit);
+  }
+
+  // 对比路由 - 必须放在参数化路由之前
+  @Get('diff')
+  @ApiOperation({ summary: '对比两个文章版本' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiResponse({ status: 200, description: '对比成功' })
+  async diff(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ArticleRevisionDiffQueryDto,
+  ): Promise<ArticleRevisionDiff> {
+    return this.articleRevisionService.diff(id, query.from, query.to);
+  }
+
+  @Get(':revisionId')
+  @ApiOperation({ summary: '获取文章版本详情' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiParam({ name: 'revisionId', description: '版本ID' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseUUIDPipe) revisionId: string,
+  ): Promise<ArticleRevision> {
+    return this.articleRevisionService.findOne(id, revisionId);
+  }
+
+  @Post(':revisionId/restore')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '恢复文章到指定版本' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiParam({ name: 'revisionId', description: '版本ID' })
+  @ApiResponse({
+    status: 201,
+    description: '恢复成功',
+    type: UnifiedArticleDetailDto,
+  })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseUUIDPipe) revisionId: string,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<Article> {
+    return this.articleService.restoreRevision(id, revisionId, user.sub);
+  }
+}
@@ -11,8 +11,12 @@ import {
   UseGuards,
   UseInterceptors,
   Res,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
-import type { Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response, Express } from 'express';
+import * as multer from 'multer';
 import archiver from 'archiver';
 import {
   ApiTags,
@@ -20,11 +24,20 @@ import {
   ApiResponse,
   ApiParam,
   ApiBearerAuth,
+  ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { ArticleService } from '@/services/article/article.service';
 import { ArticleQueryService } from '@/services/article/article-query.service';
 import { ArticleStatisticsService } from '@/services/article/article-statistics.service';
 import { ArticleInteractionService } from '@/services/article/article-interaction.service';
+import {
+  ARTICLE_EXPORT_CONTENT_TYPES,
+  ArticleExportService,
+} from '@/services/article/article-export.service';
+import { ArticleExportJobService } from '@/services/article/article-export-job.service';
+import { IMAGE_MIME_TYPES } from '@/services/storage';
+import { MediaService } from '@/services/media';
 
 import { RolesGuard } from '@/guards/roles.guard';
 import { Roles } from '@/decorators/roles.decorator';
@@ -43,7 +56,13 @@ import {
   BatchUpdateArticleDto,
   BatchPublishArticleDto,
   BatchExportArticleDto,
+  ScheduleArticleDto,
 } from '@/dto/article.dto';
+import {
+  ArticleExportDto,
+  ArticleExportFormat,
+  ArticleExportJobDto,
+} from '@/dto/article-export.dto';
 import { PublishArticleDto } from '@/dto/publish-article.dto';
 import {
   FieldVisibilityInterceptor,
@@ -52,6 +71,7 @@ import {
 import { Article } from '@/entities/article.entity';
 import { PaginationUtil } from '@/common/utils/pagination.util';
 import { PaginatedResponse } from '@/common/interfaces/response.interface';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 
 interface CurrentUserType {
   sub: string;
@@ -78,7 +98,13 @@ export class AdminArticleController {
     private readonly articleQueryService: ArticleQueryService,
     private readonly articleStatisticsService: ArticleStatisticsService,
     private readonly articleInteractionService: ArticleInteractionService,
-  ) {}
+    private readonly mediaService: MediaService,
+    private readonly articleExportService: ArticleExportService,
+    private readonly articleExportJobService: ArticleExportJobService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'AdminArticleController' });
+  }
 
   @Post()
   @UseAdminVisibility()
@@ -100,6 +126,44 @@ export class AdminArticleController {
     return article;
   }
 
+  @Post('images')
+  @UseInterceptors(
+    FileInterceptor('image', {
+      storage: multer.memoryStorage(),
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB
+      },
+      fileFilter: (req, file, cb) => {
+        if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+          cb(null, true);
+        } else {
+          cb(
+            new BadRequestException(
+              '只支持 jpeg、jpg、png、gif、webp 格式的图片',
+            ),
+            false,
+          );
+        }
+      },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: '上传文章图片（保存到媒体库）' })
+  @ApiResponse({
+    status: 201,
+    description: '上传成功，返回图片地址、尺寸、缩略图地址及Markdown片段',
+  })
+  @ApiResponse({ status: 400, description: '图片文件过大或格式不正确' })
+  async uploadImage(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<any> {
+    if (!file) {
+      throw new BadRequestException('请选择要上传的图片文件');
+    }
+    return await this.mediaService.upload(file, {}, user.sub);
+  }
+
   @Get()
   @UseAdminVisibility()
   @ApiOperation({ summary: '获取文章列表（包含所有状态）' })
@@ -178,6 +242,23 @@ export class AdminArticleController {
     );
   }
 
+  @Get('scheduled')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取定时发布文章（按发布时间升序）' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: [UnifiedArticleDto],
+  })
+  async findScheduled(
+    @Query() query: ArticleQueryDto,
+  ): Promise<PaginatedResponse<Article>> {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const result = await this.articleService.getScheduled(page, limit);
+    return PaginationUtil.fromQueryResult(result, page, limit);
+  }
+
   @Get('archived')
   @UseAdminVisibility()
   @ApiOperation({ summary: '获取归档文章' })
@@ -255,8 +336,11 @@ export class AdminArticleController {
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateArticleDto: UpdateArticleDto,
+    @CurrentUser() user: CurrentUserType,
   ): Promise<Article> {
-    const article = await this.articleService.update(id, updateArticleDto);
+    const article = await this.articleService.update(id, updateArticleDto, {
+      editorId: user.sub,
+    });
     return article;
   }
 
@@ -300,8 +384,9 @@ export class AdminArticleController {
   @ApiResponse({ status: 200, description: '批量更新成功' })
   async batchUpdate(
     @Body() batchUpdateDto: BatchUpdateArticleDto,
+    @CurrentUser() user: CurrentUserType,
   ): Promise<{ message: string }> {
-    await this.articleService.batchUpdate(batchUpdateDto);
+    await this.articleService.batchUpdate(batchUpdateDto, user.sub);
     return { message: `成功更新 ${batchUpdateDto.ids.length} 篇文章` };
   }
 
@@ -318,11 +403,48 @@ export class AdminArticleController {
   async publish(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() publishDto: PublishArticleDto,
+    @CurrentUser() user: CurrentUserType,
   ): Promise<Article> {
-    const article = await this.articleService.publish(id, publishDto);
+    const article = await this.articleService.publish(id, publishDto, user.sub);
     return article;
   }
 
+  @Put(':id/schedule')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '设置或修改定时发布时间' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiResponse({
+    status: 200,
+    description: '设置成功',
+    type: UnifiedArticleDetailDto,
+  })
+  async schedule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() scheduleDto: ScheduleArticleDto,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<Article> {
+    return this.articleService.schedule(
+      id,
+      new Date(scheduleDto.publishedAt),
+      user.sub,
+    );
+  }
+
+  @Delete(':id/schedule')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '取消定时发布' })
+  @ApiParam({ name: 'id', description: '文章ID' })
+  @ApiResponse({
+    status: 200,
+    description: '取消成功',
+    type: UnifiedArticleDetailDto,
+  })
+  async cancelSchedule(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<Article> {
+    return this.articleService.cancelSchedule(id);
+  }
+
   @Put(':id/unpublish')
   @UseAdminVisibility()
   @ApiOperation({ summary: '取消发布文章' })
@@ -409,7 +531,10 @@ export class AdminArticleController {
   }
 
   @Post('batch/export')
-  @ApiOperation({ summary: '批量导出文章' })
+  @ApiOperation({
+    summary: '批量导出文章',
+    description: '一次性加载全部数据，导出大量文章请使用 POST /export',
+  })
   @ApiResponse({ status: 200, description: '导出成功' })
   async batchExport(
     @Body() exportDto: BatchExportArticleDto,
@@ -469,4 +594,74 @@ export class AdminArticleController {
       count: Array.isArray(result) ? result.length : 0,
     };
   }
+
+  @Post('export')
+  @ApiOperation({
+    summary: '流式导出文章',
+    description:
+      '逐行读取数据库并直接写入响应，适合大量文章。响应头 X-Total-Count 为待导出的文章总数，可结合已接收的行数计算进度',
+  })
+  @ApiProduces(
+    ARTICLE_EXPORT_CONTENT_TYPES.csv,
+    ARTICLE_EXPORT_CONTENT_TYPES.ndjson,
+    ARTICLE_EXPORT_CONTENT_TYPES.markdown,
+  )
+  @ApiResponse({ status: 200, description: '导出文件' })
+  async streamExport(
+    @Body() exportDto: ArticleExportDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const format = exportDto.format ?? ArticleExportFormat.NDJSON;
+    const total = await this.articleExportService.count(exportDto);
+
+    res.set({
+      'Content-Type': ARTICLE_EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${this.articleExportService.getFileName(format)}"`,
+      'X-Total-Count': String(total),
+    });
+
+    try {
+      await this.articleExportService.exportTo(res, { ...exportDto, format });
+    } catch (error) {
+      // 响应头已发送，只能中断连接让客户端感知下载失败
+      this.logger.error(
+        '流式导出文章失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+      res.destroy();
+    }
+  }
+
+  @Post('export/jobs')
+  @ApiOperation({
+    summary: '创建后台导出任务',
+    description:
+      '导出在后台执行，通过 GET /export/jobs/:jobId 查询进度，完成后返回带签名的下载链接（24 小时内有效）',
+  })
+  @ApiResponse({
+    status: 201,
+    description: '任务已创建',
+    type: ArticleExportJobDto,
+  })
+  async createExportJob(
+    @Body() exportDto: ArticleExportDto,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<ArticleExportJobDto> {
+    return await this.articleExportJobService.createJob(exportDto, user.sub);
+  }
+
+  @Get('export/jobs/:jobId')
+  @ApiOperation({ summary: '查询后台导出任务' })
+  @ApiParam({ name: 'jobId', description: '任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: ArticleExportJobDto,
+  })
+  @ApiResponse({ status: 404, description: '任务不存在或已过期' })
+  getExportJob(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+  ): ArticleExportJobDto {
+    return this.articleExportJobService.getJob(jobId);
+  }
 }
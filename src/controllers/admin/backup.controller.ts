@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Express, Response } from 'express';
+import * as multer from 'multer';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
+import { SiteExportService, SiteRestoreService } from '@/services/backup';
+import { ArchiveExtractorService } from '@/services/article-import/archive-extractor.service';
+import {
+  SiteExportQueryDto,
+  SiteRestoreResultDto,
+} from '@/dto/site-backup.dto';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+interface CurrentUserType {
+  sub: string;
+}
+
+@ApiTags('1.9 管理端API - 站点备份')
+@Controller('admin/backup')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class AdminBackupController {
+  constructor(
+    private readonly siteExportService: SiteExportService,
+    private readonly siteRestoreService: SiteRestoreService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'AdminBackupController' });
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: '导出站点完整备份',
+    description:
+      'zip 包含用户、分类树、标签、frontmatter Markdown 格式的文章（可直接用于文章导入）、评论及浏览/点赞/评论/分享计数。媒体文件不在备份中',
+  })
+  @ApiProduces('application/zip')
+  @ApiResponse({ status: 200, description: '备份文件' })
+  async exportSite(
+    @Query() query: SiteExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const filename = `site_backup_${new Date().toISOString().split('T')[0]}.zip`;
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    try {
+      await this.siteExportService.exportSite(res, {
+        includePasswords: query.includePasswords,
+      });
+    } catch (error) {
+      // 响应头已发送，只能中断连接让客户端感知下载失败
+      this.logger.error(
+        '导出站点备份失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+      res.destroy();
+    }
+  }
+
+  @Post('restore')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: multer.memoryStorage(),
+      limits: { fileSize: ArchiveExtractorService.MAX_ARCHIVE_SIZE },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: '站点备份 zip 文件',
+        },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiOperation({
+    summary: '从备份恢复站点',
+    description:
+      '只能恢复到没有文章、分类、标签和评论的数据库。保留原有ID、时间和计数；与已有用户（按ID、用户名或邮箱）匹配的备份用户不再新建',
+  })
+  @ApiResponse({
+    status: 201,
+    description: '恢复完成',
+    type: SiteRestoreResultDto,
+  })
+  @ApiResponse({ status: 400, description: '备份文件无效' })
+  @ApiResponse({ status: 409, description: '站点数据不为空' })
+  async restoreSite(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<SiteRestoreResultDto> {
+    if (!file) {
+      throw new BadRequestException('请选择要恢复的备份文件');
+    }
+    return await this.siteRestoreService.restoreSite(
+      file.originalname,
+      file.buffer,
+      user.sub,
+    );
+  }
+}
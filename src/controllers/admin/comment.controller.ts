@@ -59,6 +59,9 @@ export class AdminCommentController {
     const comment = await this.commentService.createComment(
       createCommentDto,
       user.id,
+      undefined,
+      undefined,
+      true, // 管理员评论无需审核
     );
 
     return comment;
@@ -93,25 +96,35 @@ export class AdminCommentController {
       return queryDto;
     };
 
-    const [activeComments, hiddenComments, deletedComments, totalComments] =
-      await Promise.all([
-        this.commentService.findAllComments(
-          createQueryDto(CommentStatus.ACTIVE),
-        ),
-        this.commentService.findAllComments(
-          createQueryDto(CommentStatus.HIDDEN),
-        ),
-        this.commentService.findAllComments(
-          createQueryDto(CommentStatus.DELETED),
-        ),
-        this.commentService.findAllComments(createQueryDto()),
-      ]);
+    const [
+      activeComments,
+      hiddenComments,
+      deletedComments,
+      pendingComments,
+      rejectedComments,
+      totalComments,
+    ] = await Promise.all([
+      this.commentService.findAllComments(createQueryDto(CommentStatus.ACTIVE)),
+      this.commentService.findAllComments(createQueryDto(CommentStatus.HIDDEN)),
+      this.commentService.findAllComments(
+        createQueryDto(CommentStatus.DELETED),
+      ),
+      this.commentService.findAllComments(
+        createQueryDto(CommentStatus.PENDING),
+      ),
+      this.commentService.findAllComments(
+        createQueryDto(CommentStatus.REJECTED),
+      ),
+      this.commentService.findAllComments(createQueryDto()),
+    ]);
 
     const statistics = {
       total: totalComments.total,
       active: activeComments.total,
       hidden: hiddenComments.total,
       deleted: deletedComments.total,
+      pending: pendingComments.total,
+      rejected: rejectedComments.total,
     };
 
     return statistics;
@@ -122,13 +135,13 @@ export class AdminCommentController {
   @ApiOperation({ summary: '获取待审核评论列表' })
   @ApiResponse({ status: 200, description: '获取待审核评论列表成功' })
   async getPendingReview(@Query() query: CommentQueryDto): Promise<any> {
-    // 这里可以根据业务需求定义待审核的条件
-    // 例如：新注册用户的评论、包含敏感词的评论等
+    // 待审核队列按提交时间先后排列
     const queryDto = new CommentQueryDto();
     Object.assign(queryDto, query);
-    queryDto.status = CommentStatus.ACTIVE;
+    queryDto.status = CommentStatus.PENDING;
     queryDto.sortBy = 'createdAt';
-    queryDto.sortOrder = 'DESC';
+    queryDto.sortOrder = 'ASC';
+    queryDto.includeArticleTitle = true;
 
     const { comments, total } =
       await this.commentService.findAllComments(queryDto);
@@ -141,6 +154,26 @@ export class AdminCommentController {
     };
   }
 
+  @Post('batch-approve')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '批量审核通过评论' })
+  @ApiResponse({ status: 200, description: '批量审核完成' })
+  async batchApprove(
+    @Body('commentIds') commentIds: string[],
+    @Body('adminNote') adminNote?: string,
+  ): Promise<any> {
+    const result = await this.commentService.batchApprove(
+      commentIds || [],
+      adminNote,
+    );
+
+    return {
+      message: '批量审核完成',
+      count: result.approved.length,
+      ...result,
+    };
+  }
+
   @Get(':id')
   @UseAdminVisibility()
   @ApiOperation({ summary: '获取评论详情（管理员）' })
@@ -171,11 +204,40 @@ export class AdminCommentController {
     return comment;
   }
 
+  @Put(':id/approve')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '审核通过评论' })
+  @ApiParam({ name: 'id', description: '评论ID' })
+  @ApiResponse({ status: 200, description: '审核通过成功' })
+  @ApiResponse({ status: 400, description: '评论不在待审核状态' })
+  async approveComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('adminNote') adminNote?: string,
+  ): Promise<any> {
+    const comment = await this.commentService.approve(id, adminNote);
+    return comment;
+  }
+
+  @Put(':id/reject')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '审核拒绝评论' })
+  @ApiParam({ name: 'id', description: '评论ID' })
+  @ApiResponse({ status: 200, description: '审核拒绝成功' })
+  @ApiResponse({ status: 400, description: '评论不在待审核状态' })
+  async rejectComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('adminNote') adminNote?: string,
+  ): Promise<any> {
+    const comment = await this.commentService.reject(id, adminNote);
+    return comment;
+  }
+
   @Put(':id/hide')
   @UseAdminVisibility()
   @ApiOperation({ summary: '隐藏评论' })
   @ApiParam({ name: 'id', description: '评论ID' })
   @ApiResponse({ status: 200, description: '评论隐藏成功' })
+  @ApiResponse({ status: 400, description: '评论待审核或已拒绝' })
   async hideComment(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -199,6 +261,7 @@ export class AdminCommentController {
   @ApiOperation({ summary: '显示评论' })
   @ApiParam({ name: 'id', description: '评论ID' })
   @ApiResponse({ status: 200, description: '评论显示成功' })
+  @ApiResponse({ status: 400, description: '评论待审核或已拒绝' })
   async showComment(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
@@ -276,28 +339,16 @@ export class AdminCommentController {
 
   @Post('batch-hide')
   @UseAdminVisibility()
-  @ApiOperation({ summary: '批量隐藏评论' })
+  @ApiOperation({
+    summary: '批量隐藏评论',
+    description: '待审核和已拒绝的评论不会被隐藏，需通过审核处理',
+  })
   @ApiResponse({ status: 200, description: '批量隐藏成功' })
   async batchHide(
     @Body('commentIds') commentIds: string[],
     @Body('adminNote') adminNote: string,
-    @CurrentUser() user: User,
   ): Promise<any> {
-    const results = await Promise.all(
-      commentIds.map((id) =>
-        this.commentService.update(
-          id,
-          {
-            status: CommentStatus.HIDDEN,
-            adminNote: adminNote || '批量隐藏',
-          },
-          user.id,
-          true,
-        ),
-      ),
-    );
-
-    return results;
+    return await this.commentService.batchHide(commentIds, adminNote);
   }
 
   @Post('batch-delete')
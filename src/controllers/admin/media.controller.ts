@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Express } from 'express';
+import * as multer from 'multer';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
+import { MediaService } from '@/services/media';
+import { IMAGE_MIME_TYPES } from '@/services/storage';
+import { UploadMediaDto, UpdateMediaDto, MediaQueryDto } from '@/dto/media.dto';
+import {
+  FieldVisibilityInterceptor,
+  UseAdminVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+
+interface CurrentUserType {
+  sub: string;
+}
+
+@ApiTags('1.8 管理端API - 媒体库')
+@Controller('admin/media')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class AdminMediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  @Post()
+  @UseAdminVisibility()
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: multer.memoryStorage(),
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB
+      },
+      fileFilter: (req, file, cb) => {
+        if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+          cb(null, true);
+        } else {
+          cb(
+            new BadRequestException(
+              '只支持 jpeg、jpg、png、gif、webp 格式的图片',
+            ),
+            false,
+          );
+        }
+      },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: '上传图片到媒体库' })
+  @ApiResponse({
+    status: 201,
+    description: '上传成功，返回图片信息及Markdown片段',
+  })
+  @ApiResponse({ status: 400, description: '图片文件过大或格式不正确' })
+  async upload(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadMediaDto,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<any> {
+    if (!file) {
+      throw new BadRequestException('请选择要上传的图片文件');
+    }
+    return await this.mediaService.upload(file, dto, user.sub);
+  }
+
+  @Get()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取媒体列表' })
+  @ApiResponse({ status: 200, description: '获取媒体列表成功' })
+  async findAll(@Query() query: MediaQueryDto): Promise<any> {
+    const result = await this.mediaService.findAll(query);
+    return PaginationUtil.fromQueryResult(result, query.page, query.limit);
+  }
+
+  @Get(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取媒体详情及引用它的文章' })
+  @ApiParam({ name: 'id', description: '媒体ID' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '媒体文件不存在' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    return await this.mediaService.findOne(id);
+  }
+
+  @Put(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '更新替代文本和标签' })
+  @ApiParam({ name: 'id', description: '媒体ID' })
+  @ApiResponse({ status: 200, description: '更新成功' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateMediaDto,
+  ): Promise<any> {
+    return await this.mediaService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除媒体文件' })
+  @ApiParam({ name: 'id', description: '媒体ID' })
+  @ApiResponse({ status: 200, description: '删除成功' })
+  @ApiResponse({ status: 409, description: '媒体文件正在被文章引用' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    await this.mediaService.remove(id);
+    return { message: '媒体文件删除成功' };
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
+import { User } from '@/entities/user.entity';
+import { CreateAnnouncementDto } from '@/dto/notification.dto';
+import {
+  ANNOUNCEMENT_EVENTS,
+  AnnouncementPublishedEvent,
+} from '@/events/announcement.events';
+
+@ApiTags('1.7 管理端API - 系统公告')
+@Controller('admin/notifications')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class AdminNotificationController {
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  @Post('announcements')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: '发布系统公告' })
+  @ApiResponse({
+    status: 202,
+    description: '公告已提交，将在后台发送给全部激活用户',
+  })
+  publishAnnouncement(
+    @Body() dto: CreateAnnouncementDto,
+    @CurrentUser() user: User,
+  ): { message: string } {
+    this.eventEmitter.emit(
+      ANNOUNCEMENT_EVENTS.PUBLISHED,
+      new AnnouncementPublishedEvent(dto.title, dto.content, dto.link, user.id),
+    );
+    return { message: '公告已提交发送' };
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import {
+  CommentFilterService,
+  SensitiveWordService,
+} from '@/services/comment-filter';
+import {
+  CreateSensitiveWordDto,
+  UpdateSensitiveWordDto,
+  BatchCreateSensitiveWordDto,
+  SensitiveWordQueryDto,
+  CommentFilterTestDto,
+} from '@/dto/sensitive-word.dto';
+import {
+  FieldVisibilityInterceptor,
+  UseAdminVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+
+@ApiTags('1.4 管理端API - 评论管理')
+@Controller('admin/sensitive-words')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class AdminSensitiveWordController {
+  constructor(
+    private readonly sensitiveWordService: SensitiveWordService,
+    private readonly commentFilterService: CommentFilterService,
+  ) {}
+
+  @Get()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取敏感词列表' })
+  @ApiResponse({ status: 200, description: '获取敏感词列表成功' })
+  async findAll(@Query() query: SensitiveWordQueryDto): Promise<any> {
+    const result = await this.sensitiveWordService.findAll(query);
+    return PaginationUtil.fromQueryResult(result, query.page, query.limit);
+  }
+
+  @Post()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '添加敏感词' })
+  @ApiResponse({ status: 201, description: '敏感词添加成功' })
+  @ApiResponse({ status: 409, description: '敏感词已存在' })
+  async create(@Body() dto: CreateSensitiveWordDto): Promise<any> {
+    return await this.sensitiveWordService.create(dto);
+  }
+
+  @Post('batch')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '批量导入敏感词' })
+  @ApiResponse({ status: 201, description: '批量导入完成，已存在的词会被跳过' })
+  async batchCreate(@Body() dto: BatchCreateSensitiveWordDto): Promise<any> {
+    return await this.sensitiveWordService.batchCreate(dto);
+  }
+
+  @Post('reload')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '重新加载敏感词词库' })
+  @ApiResponse({ status: 200, description: '词库重新加载成功' })
+  async reload(): Promise<any> {
+    await this.sensitiveWordService.reload();
+    return { message: '敏感词词库已重新加载' };
+  }
+
+  @Post('test')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '检测评论内容的过滤结果' })
+  @ApiResponse({ status: 200, description: '返回风险分值、命中项和处理决定' })
+  async test(@Body() dto: CommentFilterTestDto): Promise<any> {
+    return await this.commentFilterService.evaluate({
+      content: dto.content,
+      dryRun: true,
+    });
+  }
+
+  @Put(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '更新敏感词' })
+  @ApiParam({ name: 'id', description: '敏感词ID' })
+  @ApiResponse({ status: 200, description: '敏感词更新成功' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSensitiveWordDto,
+  ): Promise<any> {
+    return await this.sensitiveWordService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '删除敏感词' })
+  @ApiParam({ name: 'id', description: '敏感词ID' })
+  @ApiResponse({ status: 200, description: '敏感词删除成功' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    await this.sensitiveWordService.remove(id);
+    return { message: '敏感词删除成功' };
+  }
+}
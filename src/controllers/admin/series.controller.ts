@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { SeriesService } from '@/services/series.service';
+import {
+  CreateSeriesDto,
+  UpdateSeriesDto,
+  SetSeriesArticlesDto,
+  SeriesQueryDto,
+} from '@/dto/series.dto';
+import {
+  FieldVisibilityInterceptor,
+  UseAdminVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+
+@ApiTags('1.10 管理端API - 文章系列')
+@Controller('admin/series')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class AdminSeriesController {
+  constructor(private readonly seriesService: SeriesService) {}
+
+  @Get()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取系列列表' })
+  @ApiResponse({ status: 200, description: '获取系列列表成功' })
+  async findAll(@Query() query: SeriesQueryDto): Promise<any> {
+    const result = await this.seriesService.findAll(query);
+    return PaginationUtil.fromQueryResult(result, query.page, query.limit);
+  }
+
+  @Get(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取系列详情（包含所有状态的文章）' })
+  @ApiParam({ name: 'id', description: '系列ID' })
+  @ApiResponse({ status: 200, description: '获取系列详情成功' })
+  @ApiResponse({ status: 404, description: '系列不存在' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    return await this.seriesService.findById(id);
+  }
+
+  @Post()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '创建系列' })
+  @ApiResponse({ status: 201, description: '系列创建成功' })
+  @ApiResponse({ status: 409, description: 'slug已存在或文章已属于其他系列' })
+  async create(@Body() dto: CreateSeriesDto): Promise<any> {
+    return await this.seriesService.create(dto);
+  }
+
+  @Put(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '更新系列' })
+  @ApiParam({ name: 'id', description: '系列ID' })
+  @ApiResponse({ status: 200, description: '系列更新成功' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSeriesDto,
+  ): Promise<any> {
+    return await this.seriesService.update(id, dto);
+  }
+
+  @Put(':id/articles')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '设置系列文章及顺序' })
+  @ApiParam({ name: 'id', description: '系列ID' })
+  @ApiResponse({ status: 200, description: '系列文章更新成功' })
+  @ApiResponse({ status: 409, description: '文章已属于其他系列' })
+  async setArticles(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SetSeriesArticlesDto,
+  ): Promise<any> {
+    return await this.seriesService.setArticles(id, dto.articleIds);
+  }
+
+  @Delete(':id')
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '删除系列（不删除文章）' })
+  @ApiParam({ name: 'id', description: '系列ID' })
+  @ApiResponse({ status: 200, description: '系列删除成功' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<any> {
+    await this.seriesService.remove(id);
+    return { message: '系列删除成功' };
+  }
+}
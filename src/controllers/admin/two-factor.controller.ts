@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
+import {
+  TwoFactorService,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+} from '@/services/two-factor.service';
+import {
+  TwoFactorCodeDto,
+  TwoFactorEnrollmentDto,
+  TwoFactorRecoveryCodesDto,
+  TwoFactorStatusDto,
+} from '@/dto/auth.dto';
+import {
+  FieldVisibilityInterceptor,
+  UseAdminVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+
+interface CurrentUserType {
+  sub: string;
+  username: string;
+  role: string;
+}
+
+@ApiTags('1.11 管理端API - 双因素认证')
+@Controller('admin/2fa')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class AdminTwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  @UseAdminVisibility()
+  @ApiOperation({ summary: '获取当前账户的双因素认证状态' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: TwoFactorStatusDto,
+  })
+  async getStatus(
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<TwoFactorStatus> {
+    return await this.twoFactorService.getStatus(user.sub);
+  }
+
+  @Post('enroll')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '开始绑定身份验证器',
+    description:
+      '生成新的TOTP密钥和otpauth URI，需在有效期内提交动态验证码确认后才会开启',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '生成成功',
+    type: TwoFactorEnrollmentDto,
+  })
+  @ApiResponse({ status: 400, description: '已开启双因素认证' })
+  async beginEnrollment(
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<TwoFactorEnrollment> {
+    return await this.twoFactorService.beginEnrollment(user.sub);
+  }
+
+  @Post('enroll/confirm')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '确认绑定并开启双因素认证',
+    description: '返回的恢复码只显示这一次',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '开启成功',
+    type: TwoFactorRecoveryCodesDto,
+  })
+  @ApiResponse({ status: 400, description: '验证码错误或密钥已过期' })
+  async confirmEnrollment(
+    @CurrentUser() user: CurrentUserType,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      user.sub,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('recovery-codes')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '重新生成恢复码',
+    description: '需要提交动态验证码，旧恢复码全部失效',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '生成成功',
+    type: TwoFactorRecoveryCodesDto,
+  })
+  @ApiResponse({ status: 400, description: '验证码错误或未开启双因素认证' })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: CurrentUserType,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      user.sub,
+      codeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @UseAdminVisibility()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '关闭双因素认证',
+    description: '需要提交动态验证码或恢复码；系统强制开启时不能关闭',
+  })
+  @ApiResponse({ status: 200, description: '关闭成功' })
+  @ApiResponse({
+    status: 400,
+    description: '验证码错误、未开启或系统要求必须开启',
+  })
+  async disable(
+    @CurrentUser() user: CurrentUserType,
+    @Body() codeDto: TwoFactorCodeDto,
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(user.sub, codeDto.code);
+    return { message: '双因素认证已关闭' };
+  }
+}
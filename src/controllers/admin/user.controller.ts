@@ -10,6 +10,8 @@ import {
   ParseUUIDPipe,
   UseGuards,
   UseInterceptors,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,10 +21,20 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { UserService } from '@/services/user.service';
+import { AuthTokenService, UserSession } from '@/services/auth-token.service';
+import {
+  LoginAttemptService,
+  LoginLockoutStatus,
+} from '@/services/login-attempt.service';
+import {
+  UserAvatarService,
+  AvatarMigrationResult,
+} from '@/services/user-avatar.service';
 
 import { RolesGuard } from '@/guards/roles.guard';
 import { Roles } from '@/decorators/roles.decorator';
 import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
 import { UnifiedUserDto } from '@/dto/base/unified-response.dto';
 import {
   CreateUserDto,
@@ -31,6 +43,10 @@ import {
   UserStatus,
   UserRole,
 } from '@/dto/user.dto';
+import { LoginLockoutStatusDto, UserSessionDto } from '@/dto/auth.dto';
+import { User } from '@/entities/user.entity';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
 import {
   FieldVisibilityInterceptor,
   UseAdminVisibility,
@@ -49,7 +65,12 @@ interface OnlineStatusResponse {
 @ApiBearerAuth('JWT-auth')
 @UseInterceptors(FieldVisibilityInterceptor)
 export class AdminUserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly userAvatarService: UserAvatarService,
+    private readonly authTokenService: AuthTokenService,
+    private readonly loginAttemptService: LoginAttemptService,
+  ) {}
 
   @Post()
   @UseAdminVisibility()
@@ -108,6 +129,17 @@ export class AdminUserController {
     return stats;
   }
 
+  @Post('avatars/migrate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '将base64头像迁移到文件存储' })
+  @ApiResponse({
+    status: 200,
+    description: '迁移完成，返回成功数量及无法解析的头像',
+  })
+  async migrateAvatars(): Promise<AvatarMigrationResult> {
+    return await this.userAvatarService.migrateBase64Avatars();
+  }
+
   @Get(':id')
   @UseAdminVisibility()
   @ApiOperation({ summary: '根据ID获取用户详情' })
@@ -193,6 +225,64 @@ export class AdminUserController {
     return result;
   }
 
+  @Get(':id/sessions')
+  @ApiOperation({ summary: '获取用户的登录会话列表' })
+  @ApiParam({ name: 'id', description: '用户ID' })
+  @ApiResponse({ status: 200, description: '获取成功', type: [UserSessionDto] })
+  async getUserSessions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserSession[]> {
+    await this.ensureUserExists(id);
+    return await this.authTokenService.listSessions(id);
+  }
+
+  @Delete(':id/sessions/:sessionId')
+  @ApiOperation({ summary: '强制用户退出指定会话' })
+  @ApiParam({ name: 'id', description: '用户ID' })
+  @ApiParam({ name: 'sessionId', description: '会话ID' })
+  @ApiResponse({ status: 200, description: '会话已退出' })
+  @ApiResponse({ status: 404, description: '会话不存在或已失效' })
+  async revokeUserSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<{ message: string }> {
+    await this.ensureUserExists(id);
+    await this.authTokenService.revokeSession(id, sessionId);
+    return { message: '会话已退出登录' };
+  }
+
+  @Get(':id/login-lockout')
+  @ApiOperation({ summary: '获取用户的登录失败与锁定状态' })
+  @ApiParam({ name: 'id', description: '用户ID' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: LoginLockoutStatusDto,
+  })
+  async getUserLoginLockout(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<LoginLockoutStatus> {
+    const user = await this.ensureUserExists(id);
+    return await this.loginAttemptService.getStatus(user.username);
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '解除用户登录锁定',
+    description: '清除连续登录失败记录，账户锁定和退避等待立即失效',
+  })
+  @ApiParam({ name: 'id', description: '用户ID' })
+  @ApiResponse({ status: 200, description: '解锁成功' })
+  async unlockUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() admin: { sub: string },
+  ): Promise<{ message: string }> {
+    const user = await this.ensureUserExists(id);
+    await this.loginAttemptService.unlock(user, admin.sub);
+    return { message: '账户已解锁' };
+  }
+
   @Post(':id/logout-all')
   @UseAdminVisibility()
   @ApiOperation({ summary: '强制用户退出所有设备' })
@@ -217,4 +307,12 @@ export class AdminUserController {
 
     return userWithStatus;
   }
+
+  private async ensureUserExists(id: string): Promise<User> {
+    const user = await this.userService.findById(id);
+    if (!user) {
+      throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+    }
+    return user;
+  }
 }
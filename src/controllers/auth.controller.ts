@@ -13,8 +13,13 @@ import { JwtService } from '@nestjs/jwt';
 import { UserService } from '@/services/user.service';
 import { EmailService } from '@/services/email.service';
 import { RsaService } from '@/services/rsa.service';
-import { BlogCacheService } from '@/common/cache/blog-cache.service';
-import { v4 as uuidv4 } from 'uuid';
+import { AuthTokenService } from '@/services/auth-token.service';
+import {
+  TwoFactorService,
+  TwoFactorEnrollment,
+  TwoFactorChallengePurpose,
+} from '@/services/two-factor.service';
+import { LoginAttemptService } from '@/services/login-attempt.service';
 import { Public } from '@/decorators/public.decorator';
 import { CurrentUser } from '@/decorators/user.decorator';
 import {
@@ -26,6 +31,7 @@ import { User } from '@/entities/user.entity';
 import {
   LoginDto,
   LoginResponseDto,
+  RefreshTokenDto,
   RegisterDto,
   RegisterResponseDto,
   SendVerificationCodeDto,
@@ -36,6 +42,11 @@ import {
   PasswordResetResponseDto,
   ChangePasswordDto,
   ChangePasswordResponseDto,
+  TwoFactorChallengeDto,
+  TwoFactorLoginDto,
+  TwoFactorEnrollmentDto,
+  UnlockAccountDto,
+  UnlockAccountResponseDto,
 } from '@/dto/auth.dto';
 import { CreateUserDto } from '@/dto/user.dto';
 import {
@@ -50,6 +61,7 @@ interface JwtPayload {
   sub: string;
   username: string;
   tokenId: string;
+  jti: string;
   exp: number;
   iat: number;
 }
@@ -63,7 +75,9 @@ export class AuthController {
     private readonly jwtService: JwtService,
     private readonly emailService: EmailService,
     private readonly rsaService: RsaService,
-    private readonly cacheService: BlogCacheService,
+    private readonly authTokenService: AuthTokenService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
     private readonly logger: StructuredLoggerService,
   ) {}
 
@@ -74,37 +88,13 @@ export class AuthController {
   @ApiOperation({ summary: '用户登录' })
   @ApiResponse({ status: 200, description: '登录成功', type: LoginResponseDto })
   @ApiResponse({ status: 400, description: '用户名或密码错误' })
-  async login(@Body() loginDto: LoginDto): Promise<LoginResponseDto> {
-    // 解密密码
-    let decryptedPassword: string;
-    try {
-      decryptedPassword = this.rsaService.decrypt(loginDto.password);
-    } catch {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'password', message: '用户名或密码错误' },
-      ]);
-    }
-
-    // 查找用户
-    let user: User;
-    try {
-      user = await this.userService.findByUsername(loginDto.username);
-    } catch {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'username', message: '用户名或密码错误' },
-      ]);
-    }
-
-    // 验证密码
-    const isPasswordValid = await bcrypt.compare(
-      decryptedPassword,
-      user.password,
-    );
-    if (!isPasswordValid) {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'password', message: '用户名或密码错误' },
-      ]);
-    }
+  @ApiResponse({ status: 423, description: '账户已被临时锁定' })
+  @ApiResponse({ status: 429, description: '登录失败次数过多，需等待后重试' })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const user = await this.authenticate(loginDto, req);
 
     // 检查用户状态
     if (user.status !== 'active') {
@@ -121,39 +111,19 @@ export class AuthController {
       ]);
     }
 
-    // 生成JWT token
-    const tokenId = uuidv4();
-    const payload = {
-      sub: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
-      jti: tokenId,
-    };
-    const accessToken = this.jwtService.sign(payload);
-
-    // 将token存储到缓存中
-    const decoded: JwtPayload | null = this.jwtService.decode(accessToken);
-    if (
-      decoded &&
-      typeof decoded === 'object' &&
-      'exp' in decoded &&
-      decoded.exp
-    ) {
-      const expiresAt = decoded.exp * 1000; // 转换为毫秒
-      await this.cacheService.setUserToken(
-        user.id,
-        tokenId,
-        accessToken,
-        expiresAt,
-        'web-login',
-      );
-    }
+    await this.loginAttemptService.recordSuccess(user.username);
+
+    // 签发访问令牌和刷新令牌
+    const tokens = await this.authTokenService.issueTokens(user, {
+      source: 'web-login',
+      ipAddress: this.getClientIp(req),
+      userAgent: req.get('User-Agent') || null,
+    });
 
     return {
       success: true,
       message: '登录成功',
-      accessToken,
+      ...tokens,
       user: {
         id: user.id,
         username: user.username,
@@ -172,37 +142,13 @@ export class AuthController {
   @ApiOperation({ summary: '管理员登录' })
   @ApiResponse({ status: 200, description: '登录成功', type: LoginResponseDto })
   @ApiResponse({ status: 400, description: '用户名或密码错误' })
-  async adminLogin(@Body() loginDto: LoginDto): Promise<LoginResponseDto> {
-    // 解密密码
-    let decryptedPassword: string;
-    try {
-      decryptedPassword = this.rsaService.decrypt(loginDto.password);
-    } catch {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'password', message: '用户名或密码错误' },
-      ]);
-    }
-
-    // 查找用户
-    let user: User;
-    try {
-      user = await this.userService.findByUsername(loginDto.username);
-    } catch {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'username', message: '用户名或密码错误' },
-      ]);
-    }
-
-    // 验证密码
-    const isPasswordValid = await bcrypt.compare(
-      decryptedPassword,
-      user.password,
-    );
-    if (!isPasswordValid) {
-      throw new ValidationException('用户名或密码错误', [
-        { field: 'password', message: '用户名或密码错误' },
-      ]);
-    }
+  @ApiResponse({ status: 423, description: '账户已被临时锁定' })
+  @ApiResponse({ status: 429, description: '登录失败次数过多，需等待后重试' })
+  async adminLogin(
+    @Body() loginDto: LoginDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const user = await this.authenticate(loginDto, req);
 
     // 检查用户状态
     if (user.status !== 'active') {
@@ -219,39 +165,139 @@ export class AuthController {
       ]);
     }
 
-    // 生成JWT token
-    const tokenId = uuidv4();
-    const payload = {
-      sub: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
-      jti: tokenId,
-    };
-    const accessToken = this.jwtService.sign(payload);
-
-    // 将token存储到缓存中
-    const decoded: JwtPayload | null = this.jwtService.decode(accessToken);
-    if (
-      decoded &&
-      typeof decoded === 'object' &&
-      'exp' in decoded &&
-      decoded.exp
-    ) {
-      const expiresAt = decoded.exp * 1000; // 转换为毫秒
-      await this.cacheService.setUserToken(
-        user.id,
-        tokenId,
-        accessToken,
-        expiresAt,
-        'admin-login',
+    // 已开启或被要求开启双因素认证时，先返回挑战令牌，不签发令牌
+    const setupRequired =
+      !user.twoFactorEnabled && this.twoFactorService.isRequired(user);
+    if (user.twoFactorEnabled || setupRequired) {
+      const challenge = await this.twoFactorService.createChallenge(
+        user,
+        setupRequired ? 'setup' : 'verify',
       );
+      return {
+        success: true,
+        message: setupRequired
+          ? '请先绑定身份验证器'
+          : '请输入动态验证码或恢复码',
+        ...(setupRequired
+          ? { twoFactorSetupRequired: true }
+          : { twoFactorRequired: true }),
+        ...challenge,
+      };
     }
 
+    return await this.completeAdminLogin(user, req);
+  }
+
+  @Post('admin/login/2fa')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '管理员登录 - 提交动态验证码',
+    description:
+      '提交管理员登录返回的挑战令牌和身份验证器中的动态验证码（或一次性恢复码），验证通过后签发令牌；连续错误多次后需重新输入密码',
+  })
+  @ApiResponse({ status: 200, description: '登录成功', type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: '验证码错误或挑战令牌已失效' })
+  async adminLoginTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const { user } = await this.verifyTwoFactor(
+      twoFactorLoginDto.challengeToken,
+      'verify',
+      req,
+      () =>
+        this.twoFactorService.verifyChallenge(
+          twoFactorLoginDto.challengeToken,
+          twoFactorLoginDto.code,
+        ),
+    );
+    this.ensureAdminCanLogin(user);
+
+    return await this.completeAdminLogin(user, req);
+  }
+
+  @Post('admin/2fa/setup')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '管理员登录 - 绑定身份验证器',
+    description:
+      '系统要求管理员开启双因素认证而账户尚未绑定时，凭登录返回的挑战令牌获取TOTP密钥和otpauth URI',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: TwoFactorEnrollmentDto,
+  })
+  @ApiResponse({ status: 401, description: '挑战令牌已失效' })
+  async adminTwoFactorSetup(
+    @Body() challengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorEnrollment> {
+    return await this.twoFactorService.beginSetup(challengeDto.challengeToken);
+  }
+
+  @Post('admin/2fa/setup/confirm')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '管理员登录 - 确认绑定并登录',
+    description: '验证通过后开启双因素认证并签发令牌，恢复码只返回这一次',
+  })
+  @ApiResponse({ status: 200, description: '登录成功', type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: '验证码错误或挑战令牌已失效' })
+  async adminTwoFactorSetupConfirm(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const { user, recoveryCodes } = await this.verifyTwoFactor(
+      twoFactorLoginDto.challengeToken,
+      'setup',
+      req,
+      () =>
+        this.twoFactorService.completeSetup(
+          twoFactorLoginDto.challengeToken,
+          twoFactorLoginDto.code,
+        ),
+    );
+    this.ensureAdminCanLogin(user);
+
+    return {
+      ...(await this.completeAdminLogin(user, req)),
+      recoveryCodes,
+    };
+  }
+
+  @Post('refresh')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '刷新访问令牌',
+    description:
+      '使用刷新令牌换发新的访问令牌和刷新令牌，旧刷新令牌随即失效；已使用过的刷新令牌再次提交时，该登录会话的所有令牌都会被吊销',
+  })
+  @ApiResponse({ status: 200, description: '刷新成功', type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: '刷新令牌无效、已过期或已被使用' })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const { user, tokens } = await this.authTokenService.refresh(
+      refreshTokenDto.refreshToken,
+      {
+        ipAddress: this.getClientIp(req),
+        userAgent: req.get('User-Agent') || null,
+      },
+    );
+
     return {
       success: true,
-      message: '登录成功',
-      accessToken,
+      message: '刷新成功',
+      ...tokens,
       user: {
         id: user.id,
         username: user.username,
@@ -400,6 +446,14 @@ export class AuthController {
             // 将token添加到黑名单
             await this.userService.blacklistToken(token, expiresIn);
           }
+
+          // 吊销同一登录会话的刷新令牌
+          if (decoded.sub && decoded.jti) {
+            await this.authTokenService.revokeByAccessToken(
+              decoded.sub,
+              decoded.jti,
+            );
+          }
         }
       } catch {
         this.logger.error('Invalid token', 'AuthService.logout');
@@ -425,7 +479,7 @@ export class AuthController {
   async logoutAll(
     @CurrentUser() user: { sub: string },
   ): Promise<LogoutResponseDto> {
-    // 清除用户的所有token（强制退出所有设备）
+    // 清除用户的所有token并吊销刷新令牌（强制退出所有设备）
     await this.userService.clearAllUserTokens(user.sub);
 
     return {
@@ -434,11 +488,162 @@ export class AuthController {
     };
   }
 
+  /**
+   * 校验用户名和密码，失败次数按账户累计，达到上限后临时锁定
+   */
+  private async authenticate(
+    loginDto: LoginDto,
+    req: ExpressRequest,
+  ): Promise<User> {
+    // 解密密码
+    let decryptedPassword: string;
+    try {
+      decryptedPassword = this.rsaService.decrypt(loginDto.password);
+    } catch {
+      throw new ValidationException('用户名或密码错误', [
+        { field: 'password', message: '用户名或密码错误' },
+      ]);
+    }
+
+    // 账户锁定或退避期间直接拒绝，不再校验密码；否则先预占一次失败计数
+    const ip = this.getClientIp(req);
+    const failures = await this.loginAttemptService.reserveAttempt(
+      loginDto.username,
+      ip,
+    );
+
+    // 查找用户，用户不存在同样计入失败次数
+    let user: User | null = null;
+    try {
+      user = await this.userService.findByUsername(loginDto.username);
+    } catch {
+      user = null;
+    }
+
+    // 验证密码
+    const isPasswordValid =
+      !!user && (await bcrypt.compare(decryptedPassword, user.password));
+    if (!user || !isPasswordValid) {
+      await this.loginAttemptService.recordFailure(
+        loginDto.username,
+        user,
+        failures,
+        ip,
+      );
+      throw new ValidationException('用户名或密码错误', [
+        { field: user ? 'password' : 'username', message: '用户名或密码错误' },
+      ]);
+    }
+
+    // 登录尚未完成（可能还需双因素认证），签发令牌前才清除失败记录
+    await this.loginAttemptService.releaseAttempt(loginDto.username);
+    return user;
+  }
+
+  /**
+   * 校验双因素认证验证码，验证码错误同样计入账户的登录失败次数
+   */
+  private async verifyTwoFactor<T>(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose,
+    req: ExpressRequest,
+    verify: () => Promise<T>,
+  ): Promise<T> {
+    const user = await this.twoFactorService.getChallengeUser(
+      challengeToken,
+      purpose,
+    );
+    const ip = this.getClientIp(req);
+    const failures = await this.loginAttemptService.reserveAttempt(
+      user.username,
+      ip,
+    );
+
+    try {
+      const result = await verify();
+      await this.loginAttemptService.releaseAttempt(user.username);
+      return result;
+    } catch (error) {
+      if (
+        error instanceof BusinessException &&
+        (error.getResponse() as { code?: string }).code ===
+          ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID
+      ) {
+        await this.loginAttemptService.recordFailure(
+          user.username,
+          user,
+          failures,
+          ip,
+        );
+      } else {
+        await this.loginAttemptService.releaseAttempt(user.username);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 签发管理员令牌
+   */
+  private async completeAdminLogin(
+    user: User,
+    req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    await this.loginAttemptService.recordSuccess(user.username);
+
+    const tokens = await this.authTokenService.issueTokens(user, {
+      source: 'admin-login',
+      ipAddress: this.getClientIp(req),
+      userAgent: req.get('User-Agent') || null,
+    });
+
+    return {
+      success: true,
+      message: '登录成功',
+      ...tokens,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        nickname: user.nickname,
+        avatar: user.avatar,
+      },
+    };
+  }
+
+  /**
+   * 挑战期间账户可能被禁用或降级，签发令牌前重新检查
+   */
+  private ensureAdminCanLogin(user: User): void {
+    if (user.status !== 'active') {
+      throw new UnauthorizedException(
+        ErrorCode.USER_ACCOUNT_DISABLED,
+        '用户账户已被禁用',
+      );
+    }
+    if (user.role !== 'admin') {
+      throw new UnauthorizedException(ErrorCode.AUTH_PERMISSION_DENIED);
+    }
+  }
+
   private extractTokenFromHeader(request: ExpressRequest): string | undefined {
     const [type, token] = request.headers.authorization?.split(' ') ?? [];
     return type === 'Bearer' ? token : undefined;
   }
 
+  /**
+   * 获取客户端真实IP地址
+   */
+  private getClientIp(req: ExpressRequest): string {
+    return (
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+      (req.headers['x-real-ip'] as string) ||
+      req.socket.remoteAddress ||
+      '127.0.0.1'
+    );
+  }
+
   @Post('forgot-password')
   @UsePublicVisibility()
   @Public()
@@ -585,6 +790,35 @@ export class AuthController {
     }
   }
 
+  @Post('unlock-account')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '解锁账户',
+    description: '凭账户锁定邮件中的解锁令牌立即解除登录锁定，令牌只能使用一次',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '解锁成功',
+    type: UnlockAccountResponseDto,
+  })
+  @ApiResponse({ status: 400, description: '解锁链接无效或已过期' })
+  async unlockAccount(
+    @Body() unlockAccountDto: UnlockAccountDto,
+    @Request() req: ExpressRequest,
+  ): Promise<UnlockAccountResponseDto> {
+    await this.loginAttemptService.unlockWithToken(
+      unlockAccountDto.token,
+      this.getClientIp(req),
+    );
+
+    return {
+      success: true,
+      message: '账户已解锁，请重新登录',
+    };
+  }
+
   @Post('change-password')
   @UsePublicVisibility()
   @HttpCode(HttpStatus.OK)
@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Request,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { OAuthService, OAuthAuthorization } from '@/services/oauth';
+import { AuthTokenService } from '@/services/auth-token.service';
+import { Public } from '@/decorators/public.decorator';
+import {
+  FieldVisibilityInterceptor,
+  UsePublicVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { LoginResponseDto } from '@/dto/auth.dto';
+import {
+  OAuthAuthorizationDto,
+  OAuthCallbackDto,
+  OAuthProviderDto,
+} from '@/dto/oauth.dto';
+import { UnauthorizedException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+
+@ApiTags('4.3 认证API - 第三方登录')
+@Controller('auth/oauth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly authTokenService: AuthTokenService,
+  ) {}
+
+  @Get('providers')
+  @UsePublicVisibility()
+  @Public()
+  @ApiOperation({ summary: '获取已启用的第三方登录方式' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: [OAuthProviderDto],
+  })
+  getProviders(): { name: string; displayName: string }[] {
+    return this.oauthService.listProviders();
+  }
+
+  @Post(':provider/authorize')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '发起第三方登录',
+    description:
+      '返回第三方授权地址（授权码模式 + PKCE），授权完成后前端将回调地址中的 code 和 state 提交到登录回调接口',
+  })
+  @ApiParam({ name: 'provider', description: '登录方式，如 github' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: OAuthAuthorizationDto,
+  })
+  @ApiResponse({ status: 404, description: '不支持该登录方式' })
+  async authorize(
+    @Param('provider') provider: string,
+  ): Promise<OAuthAuthorization> {
+    return await this.oauthService.createAuthorization(provider, 'login');
+  }
+
+  @Post('callback')
+  @UsePublicVisibility()
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '完成第三方登录',
+    description:
+      '已绑定的第三方账号直接登录；未绑定的账号自动注册新用户，邮箱已被注册时需先用密码登录后在个人资料中绑定',
+  })
+  @ApiResponse({ status: 200, description: '登录成功', type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: '授权已失效' })
+  @ApiResponse({ status: 409, description: '邮箱已被注册' })
+  async callback(
+    @Body() callbackDto: OAuthCallbackDto,
+    @Request() req: ExpressRequest,
+  ): Promise<LoginResponseDto> {
+    const { user, provider, isNewUser } = await this.oauthService.login(
+      callbackDto.code,
+      callbackDto.state,
+    );
+
+    // 检查用户状态
+    if (user.status !== 'active') {
+      throw new UnauthorizedException(
+        ErrorCode.USER_ACCOUNT_DISABLED,
+        '用户账户已被禁用',
+      );
+    }
+
+    // 管理员需通过管理员登录（含双因素认证）
+    if (user.role !== 'user') {
+      throw new UnauthorizedException(
+        ErrorCode.AUTH_PERMISSION_DENIED,
+        '管理员账户请使用管理员登录',
+      );
+    }
+
+    // 签发访问令牌和刷新令牌
+    const tokens = await this.authTokenService.issueTokens(user, {
+      source: `oauth-${provider}`,
+      ipAddress: this.getClientIp(req),
+      userAgent: req.get('User-Agent') || null,
+    });
+
+    return {
+      success: true,
+      message: isNewUser ? '注册成功' : '登录成功',
+      ...tokens,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        nickname: user.nickname,
+        avatar: user.avatar,
+      },
+    };
+  }
+
+  /**
+   * 获取客户端真实IP地址
+   */
+  private getClientIp(req: ExpressRequest): string {
+    return (
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+      (req.headers['x-real-ip'] as string) ||
+      req.socket.remoteAddress ||
+      '127.0.0.1'
+    );
+  }
+}
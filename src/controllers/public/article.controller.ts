@@ -15,13 +15,21 @@ import { ArticleService } from '@/services/article/article.service';
 import { ArticleQueryService } from '@/services/article/article-query.service';
 import { ArticleStatisticsService } from '@/services/article/article-statistics.service';
 import { ArticleInteractionService } from '@/services/article/article-interaction.service';
+import { ArticleRenderService } from '@/services/article/article-render.service';
+import { SeriesService } from '@/services/series.service';
 import { Public } from '@/decorators/public.decorator';
 import { CurrentUser } from '@/decorators/user.decorator';
 import {
   UnifiedArticleDto,
   UnifiedArticleDetailDto,
+  UnifiedArticleSearchResultDto,
 } from '@/dto/base/unified-response.dto';
-import { ArticleQueryDto, ArticleStatus } from '@/dto/article.dto';
+import {
+  ArticleQueryDto,
+  ArticleSearchDto,
+  ArticleStatus,
+  ArticleRenderQueryDto,
+} from '@/dto/article.dto';
 import {
   FieldVisibilityInterceptor,
   UsePublicVisibility,
@@ -48,6 +56,8 @@ export class PublicArticleController {
     private readonly articleQueryService: ArticleQueryService,
     private readonly articleStatisticsService: ArticleStatisticsService,
     private readonly articleInteractionService: ArticleInteractionService,
+    private readonly articleRenderService: ArticleRenderService,
+    private readonly seriesService: SeriesService,
     @InjectRepository(Article)
     private readonly articleRepository: Repository<Article>,
   ) {}
@@ -122,14 +132,18 @@ export class PublicArticleController {
 
   @Get('search')
   @UsePublicVisibility()
-  @ApiOperation({ summary: '搜索文章' })
+  @ApiOperation({
+    summary: '搜索文章',
+    description:
+      '默认使用全文索引按相关度排序，结果包含相关度得分和高亮片段（命中词以<mark>包裹）',
+  })
   @ApiResponse({
     status: 200,
     description: '搜索成功',
-    type: [UnifiedArticleDto],
+    type: [UnifiedArticleSearchResultDto],
   })
   async search(
-    @Query() query: ArticleQueryDto,
+    @Query() query: ArticleSearchDto,
     @CurrentUser() user?: CurrentUserType,
   ) {
     const { keyword, ...options } = query;
@@ -208,6 +222,9 @@ export class PublicArticleController {
       isAdmin,
     );
 
+    // 所在系列的上一篇/下一篇
+    const series = await this.seriesService.getNavigation(id);
+
     // 如果用户已登录，添加点赞收藏状态
     if (user) {
       const [isLiked, isFavorited] = await Promise.all([
@@ -216,12 +233,13 @@ export class PublicArticleController {
       ]);
       return {
         ...article,
+        series,
         isLiked,
         isFavorited,
       };
     }
 
-    return article;
+    return { ...article, series };
   }
 
   @Get('slug/:slug')
@@ -235,6 +253,7 @@ export class PublicArticleController {
   })
   async findBySlug(
     @Param('slug') slug: string,
+    @Query() renderQuery: ArticleRenderQueryDto,
     @Req() req: Request,
     @CurrentUser() user?: CurrentUserType,
   ): Promise<any> {
@@ -261,6 +280,15 @@ export class PublicArticleController {
       isAdmin,
     );
 
+    // 按需附加服务端渲染结果，以及所在系列的上一篇/下一篇
+    const rendered = renderQuery.includeHtml
+      ? await this.articleRenderService.getRendered(article)
+      : null;
+    const series = await this.seriesService.getNavigation(article.id);
+    const result = rendered
+      ? { ...article, contentHtml: rendered.html, toc: rendered.toc, series }
+      : { ...article, series };
+
     // 如果用户已登录，添加点赞收藏状态
     if (user) {
       const [isLiked, isFavorited] = await Promise.all([
@@ -268,13 +296,13 @@ export class PublicArticleController {
         this.articleInteractionService.checkUserFavorite(user.sub, article.id),
       ]);
       return {
-        ...article,
+        ...result,
         isLiked,
         isFavorited,
       };
     }
 
-    return article;
+    return result;
   }
 
   @Get(':id/related')
@@ -0,0 +1,39 @@
+import { Controller, Get, Query, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { createReadStream } from 'fs';
+import { ArticleExportJobService } from '@/services/article/article-export-job.service';
+import { Public } from '@/decorators/public.decorator';
+
+@ApiTags('3.7 公共API - 导出下载')
+@Controller('exports')
+@Public()
+export class PublicExportDownloadController {
+  constructor(
+    private readonly articleExportJobService: ArticleExportJobService,
+  ) {}
+
+  @Get('download')
+  @ApiOperation({
+    summary: '通过后台导出任务返回的链接下载导出文件',
+    description: '链接带签名，无需登录，过期后失效',
+  })
+  @ApiQuery({ name: 'token', description: '下载令牌' })
+  @ApiResponse({ status: 200, description: '导出文件' })
+  @ApiResponse({ status: 400, description: '下载链接无效或已过期' })
+  async download(
+    @Query('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const file = await this.articleExportJobService.getDownload(token);
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Length': String(file.fileSize),
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    });
+    createReadStream(file.filePath)
+      .on('error', () => res.destroy())
+      .pipe(res);
+  }
+}
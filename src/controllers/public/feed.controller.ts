@@ -0,0 +1,131 @@
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import type { Response } from 'express';
+import {
+  ArticleFeedService,
+  FeedFormat,
+  FeedScope,
+} from '@/services/article/article-feed.service';
+import { Public } from '@/decorators/public.decorator';
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+@ApiTags('3.4 公共API - 订阅源')
+@Controller()
+@Public()
+export class PublicFeedController {
+  constructor(private readonly articleFeedService: ArticleFeedService) {}
+
+  @Get('feed.xml')
+  @ApiOperation({ summary: '全站 RSS 2.0 订阅源' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async rss(@Res() res: Response): Promise<void> {
+    await this.sendFeed(res, 'rss', { type: 'all' });
+  }
+
+  @Get('atom.xml')
+  @ApiOperation({ summary: '全站 Atom 订阅源' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async atom(@Res() res: Response): Promise<void> {
+    await this.sendFeed(res, 'atom', { type: 'all' });
+  }
+
+  @Get('feed.json')
+  @ApiOperation({ summary: '全站 JSON Feed 订阅源' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async jsonFeed(@Res() res: Response): Promise<void> {
+    await this.sendFeed(res, 'json', { type: 'all' });
+  }
+
+  @Get('categories/:slug/feed.xml')
+  @ApiOperation({ summary: '分类 RSS 2.0 订阅源' })
+  @ApiParam({ name: 'slug', description: '分类别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '分类不存在' })
+  async categoryRss(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'rss', { type: 'category', slug });
+  }
+
+  @Get('categories/:slug/atom.xml')
+  @ApiOperation({ summary: '分类 Atom 订阅源' })
+  @ApiParam({ name: 'slug', description: '分类别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '分类不存在' })
+  async categoryAtom(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'atom', { type: 'category', slug });
+  }
+
+  @Get('categories/:slug/feed.json')
+  @ApiOperation({ summary: '分类 JSON Feed 订阅源' })
+  @ApiParam({ name: 'slug', description: '分类别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '分类不存在' })
+  async categoryJsonFeed(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'json', { type: 'category', slug });
+  }
+
+  @Get('tags/:slug/feed.xml')
+  @ApiOperation({ summary: '标签 RSS 2.0 订阅源' })
+  @ApiParam({ name: 'slug', description: '标签别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '标签不存在' })
+  async tagRss(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'rss', { type: 'tag', slug });
+  }
+
+  @Get('tags/:slug/atom.xml')
+  @ApiOperation({ summary: '标签 Atom 订阅源' })
+  @ApiParam({ name: 'slug', description: '标签别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '标签不存在' })
+  async tagAtom(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'atom', { type: 'tag', slug });
+  }
+
+  @Get('tags/:slug/feed.json')
+  @ApiOperation({ summary: '标签 JSON Feed 订阅源' })
+  @ApiParam({ name: 'slug', description: '标签别名' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '标签不存在' })
+  async tagJsonFeed(
+    @Param('slug') slug: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.sendFeed(res, 'json', { type: 'tag', slug });
+  }
+
+  /**
+   * 直接输出订阅源原文，不经过统一响应包装
+   */
+  private async sendFeed(
+    res: Response,
+    format: FeedFormat,
+    scope: FeedScope,
+  ): Promise<void> {
+    const content = await this.articleFeedService.getFeed(format, scope);
+    res.set({
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'Cache-Control': 'public, max-age=600',
+    });
+    res.send(content);
+  }
+}
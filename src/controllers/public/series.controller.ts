@@ -0,0 +1,48 @@
+import { Controller, Get, Param, UseInterceptors } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { SeriesService } from '@/services/series.service';
+import { Public } from '@/decorators/public.decorator';
+import { UnifiedSeriesDto } from '@/dto/base/unified-response.dto';
+import {
+  FieldVisibilityInterceptor,
+  UsePublicVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+
+@ApiTags('3.8 公共API - 文章系列')
+@Controller('series')
+@Public()
+@UseInterceptors(FieldVisibilityInterceptor)
+export class PublicSeriesController {
+  constructor(private readonly seriesService: SeriesService) {}
+
+  @Get(':slug')
+  @UsePublicVisibility()
+  @ApiOperation({ summary: '根据slug获取系列及其文章' })
+  @ApiParam({ name: 'slug', description: '系列slug' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功，只包含已发布且可见的文章',
+    type: UnifiedSeriesDto,
+  })
+  @ApiResponse({ status: 404, description: '系列不存在或未展示' })
+  async findBySlug(@Param('slug') slug: string): Promise<any> {
+    const series = await this.seriesService.findPublishedBySlug(slug);
+    return {
+      id: series.id,
+      title: series.title,
+      slug: series.slug,
+      description: series.description,
+      coverImage: series.coverImage,
+      articleCount: series.articleCount,
+      articles: series.articles.map((article) => ({
+        id: article.id,
+        title: article.title,
+        slug: article.slug,
+        summary: article.summary,
+        coverImage: article.coverImage,
+        publishedAt: article.publishedAt,
+        readingTime: article.readingTime,
+      })),
+    };
+  }
+}
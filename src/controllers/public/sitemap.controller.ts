@@ -0,0 +1,75 @@
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import type { Response } from 'express';
+import {
+  SitemapService,
+  SitemapType,
+  SITEMAP_TYPES,
+} from '@/services/sitemap.service';
+import { Public } from '@/decorators/public.decorator';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+
+@ApiTags('3.5 公共API - 站点地图')
+@Controller()
+@Public()
+export class PublicSitemapController {
+  constructor(private readonly sitemapService: SitemapService) {}
+
+  @Get('robots.txt')
+  @ApiOperation({ summary: '获取 robots.txt' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  getRobots(@Res() res: Response): void {
+    res.set({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+    });
+    res.send(this.sitemapService.getRobotsTxt());
+  }
+
+  @Get('sitemap.xml')
+  @ApiOperation({ summary: '获取站点地图索引' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async getIndex(@Res() res: Response): Promise<void> {
+    const content = await this.sitemapService.getIndex();
+    this.sendXml(res, content);
+  }
+
+  @Get('sitemaps/:type-:page.xml')
+  @ApiOperation({ summary: '获取文章、分类或标签子站点地图' })
+  @ApiParam({
+    name: 'type',
+    description: '站点地图类型',
+    enum: SITEMAP_TYPES,
+  })
+  @ApiParam({ name: 'page', description: '分片序号，从1开始' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '站点地图不存在' })
+  async getSitemap(
+    @Param('type') type: string,
+    @Param('page') page: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const pageNumber = Number(page);
+    if (
+      !SITEMAP_TYPES.includes(type as SitemapType) ||
+      !Number.isInteger(pageNumber)
+    ) {
+      throw new NotFoundException(ErrorCode.COMMON_NOT_FOUND, '站点地图不存在');
+    }
+
+    const content = await this.sitemapService.getSitemap(
+      type as SitemapType,
+      pageNumber,
+    );
+    this.sendXml(res, content);
+  }
+
+  private sendXml(res: Response, content: string): void {
+    res.set({
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=600',
+    });
+    res.send(content);
+  }
+}
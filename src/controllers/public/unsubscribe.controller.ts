@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { CommentNotificationService } from '@/services/comment-notification.service';
+import { Public } from '@/decorators/public.decorator';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { EmailTemplates } from '@/common/templates/email.templates';
+
+@ApiTags('3.6 公共API - 邮件退订')
+@Controller('email/unsubscribe')
+@Public()
+export class PublicUnsubscribeController {
+  constructor(
+    private readonly commentNotificationService: CommentNotificationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: '退订确认页面（邮件中的链接）' })
+  @ApiQuery({ name: 'token', description: '退订令牌' })
+  @ApiResponse({ status: 200, description: '返回退订确认页面' })
+  unsubscribePage(@Res() res: Response): void {
+    // 仅展示确认页面，避免邮件安全网关预取链接时误退订
+    res.set({ 'Content-Type': 'text/html; charset=utf-8' });
+    res.send(
+      EmailTemplates.unsubscribePage(
+        '退订评论通知',
+        '确认后您将不再收到此类评论通知邮件，可随时在个人资料中重新开启。',
+        '确认退订',
+      ),
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '确认退订评论通知（确认页面提交及邮件客户端一键退订，RFC 8058）',
+  })
+  @ApiQuery({ name: 'token', description: '退订令牌' })
+  @ApiResponse({ status: 200, description: '返回退订结果页面' })
+  @ApiResponse({ status: 400, description: '退订链接无效' })
+  async unsubscribe(
+    @Query('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    let title = '退订成功';
+    let message = '您将不再收到此类评论通知邮件，可随时在个人资料中重新开启。';
+    try {
+      await this.commentNotificationService.unsubscribe(token);
+    } catch (error) {
+      if (!(error instanceof BusinessException)) {
+        throw error;
+      }
+      res.status(HttpStatus.BAD_REQUEST);
+      title = '退订失败';
+      message = '退订链接无效，请在个人资料中修改邮件通知设置。';
+    }
+
+    res.set({ 'Content-Type': 'text/html; charset=utf-8' });
+    res.send(EmailTemplates.unsubscribePage(title, message));
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { NotificationService } from '@/services/notification';
+import { NotificationQueryDto } from '@/dto/notification.dto';
+import { RolesGuard } from '@/guards/roles.guard';
+import { Roles } from '@/decorators/roles.decorator';
+import { Role } from '@/enums/role.enum';
+import { CurrentUser } from '@/decorators/user.decorator';
+import { User } from '@/entities/user.entity';
+import {
+  FieldVisibilityInterceptor,
+  UseUserVisibility,
+} from '@/common/interceptors/field-visibility.interceptor';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+
+@ApiTags('2.4 用户端API - 消息通知')
+@Controller('user/notifications')
+@UseGuards(RolesGuard)
+@Roles(Role.USER, Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(FieldVisibilityInterceptor)
+export class UserNotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  @UseUserVisibility()
+  @ApiOperation({ summary: '获取我的通知列表' })
+  @ApiResponse({ status: 200, description: '获取通知列表成功' })
+  async findAll(
+    @Query() query: NotificationQueryDto,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    const result = await this.notificationService.findAll(user.id, query);
+    return PaginationUtil.fromQueryResult(result, query.page, query.limit);
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: '获取未读通知数量' })
+  @ApiResponse({ status: 200, description: '获取未读数量成功' })
+  async getUnreadCount(@CurrentUser() user: User): Promise<any> {
+    const count = await this.notificationService.getUnreadCount(user.id);
+    return { count };
+  }
+
+  @Put('read-all')
+  @ApiOperation({ summary: '全部标记为已读' })
+  @ApiResponse({ status: 200, description: '标记成功' })
+  async markAllRead(@CurrentUser() user: User): Promise<any> {
+    const updated = await this.notificationService.markAllRead(user.id);
+    return { updated, message: '已全部标记为已读' };
+  }
+
+  @Put(':id/read')
+  @UseUserVisibility()
+  @ApiOperation({ summary: '标记通知为已读' })
+  @ApiParam({ name: 'id', description: '通知ID' })
+  @ApiResponse({ status: 200, description: '标记成功' })
+  @ApiResponse({ status: 404, description: '通知不存在' })
+  async markRead(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    return await this.notificationService.markRead(id, user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除通知' })
+  @ApiParam({ name: 'id', description: '通知ID' })
+  @ApiResponse({ status: 200, description: '删除成功' })
+  @ApiResponse({ status: 404, description: '通知不存在' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+  ): Promise<any> {
+    await this.notificationService.remove(id, user.id);
+    return { message: '通知删除成功' };
+  }
+}
@@ -3,11 +3,16 @@ import {
   Get,
   Put,
   Post,
+  Delete,
   Body,
+  Param,
+  ParseUUIDPipe,
   UseGuards,
   UseInterceptors,
   BadRequestException,
   UploadedFile,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import type { Express } from 'express';
@@ -17,17 +22,31 @@ import {
   ApiTags,
   ApiOperation,
   ApiResponse,
+  ApiParam,
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { UserService } from '@/services/user.service';
+import { AuthTokenService, UserSession } from '@/services/auth-token.service';
+import { OAuthService, OAuthAuthorization } from '@/services/oauth';
+import { UserAvatarService } from '@/services/user-avatar.service';
+import { IMAGE_MIME_TYPES } from '@/services/storage';
 
 import { RolesGuard } from '@/guards/roles.guard';
 import { Roles } from '@/decorators/roles.decorator';
 import { Role } from '@/enums/role.enum';
 import { CurrentUser } from '@/decorators/user.decorator';
 import { UnifiedUserDto } from '@/dto/base/unified-response.dto';
-import { UpdateUserDto } from '@/dto/user.dto';
+import { UpdateUserDto, UpdateNotificationSettingsDto } from '@/dto/user.dto';
+import { UserSessionDto } from '@/dto/auth.dto';
+import {
+  OAuthAccountDto,
+  OAuthAuthorizationDto,
+  OAuthCallbackDto,
+} from '@/dto/oauth.dto';
+import { OAuthAccount } from '@/entities/oauth-account.entity';
 
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
 import {
   FieldVisibilityInterceptor,
   UseUserVisibility,
@@ -38,6 +57,7 @@ interface CurrentUserType {
   username: string;
   email: string;
   role: string;
+  jti?: string;
 }
 
 export interface UserStatistics {
@@ -56,7 +76,12 @@ export interface UserStatistics {
 @ApiBearerAuth('JWT-auth')
 @UseInterceptors(FieldVisibilityInterceptor)
 export class UserProfileController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly userAvatarService: UserAvatarService,
+    private readonly authTokenService: AuthTokenService,
+    private readonly oauthService: OAuthService,
+  ) {}
 
   @Get()
   @UseUserVisibility()
@@ -89,6 +114,126 @@ export class UserProfileController {
     return statistics;
   }
 
+  @Get('notification-settings')
+  @ApiOperation({ summary: '获取邮件通知设置' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async getNotificationSettings(
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<UpdateNotificationSettingsDto> {
+    const userProfile = await this.userService.findById(user.id);
+    if (!userProfile) {
+      throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+    }
+    return {
+      notifyOnReply: userProfile.notifyOnReply,
+      notifyOnArticleComment: userProfile.notifyOnArticleComment,
+    };
+  }
+
+  @Put('notification-settings')
+  @ApiOperation({ summary: '更新邮件通知设置' })
+  @ApiResponse({ status: 200, description: '更新成功' })
+  async updateNotificationSettings(
+    @Body() settings: UpdateNotificationSettingsDto,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<UpdateNotificationSettingsDto> {
+    const updatedUser = await this.userService.update(user.id, settings);
+    return {
+      notifyOnReply: updatedUser.notifyOnReply,
+      notifyOnArticleComment: updatedUser.notifyOnArticleComment,
+    };
+  }
+
+  @Get('sessions')
+  @ApiOperation({ summary: '获取登录会话列表' })
+  @ApiResponse({ status: 200, description: '获取成功', type: [UserSessionDto] })
+  async getSessions(
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<UserSession[]> {
+    return await this.authTokenService.listSessions(user.id, user.jti);
+  }
+
+  @Delete('sessions/:sessionId')
+  @ApiOperation({ summary: '退出指定会话的登录' })
+  @ApiParam({ name: 'sessionId', description: '会话ID' })
+  @ApiResponse({ status: 200, description: '会话已退出' })
+  @ApiResponse({ status: 404, description: '会话不存在或已失效' })
+  async revokeSession(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<{ message: string }> {
+    await this.authTokenService.revokeSession(user.id, sessionId);
+    return { message: '会话已退出登录' };
+  }
+
+  @Get('oauth-accounts')
+  @ApiOperation({ summary: '获取已绑定的第三方账号' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: [OAuthAccountDto],
+  })
+  async getOAuthAccounts(
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<OAuthAccount[]> {
+    return await this.oauthService.listAccounts(user.id);
+  }
+
+  @Post('oauth-accounts/:provider/authorize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '发起第三方账号绑定',
+    description:
+      '返回第三方授权地址，授权完成后前端将回调地址中的 code 和 state 提交到绑定回调接口',
+  })
+  @ApiParam({ name: 'provider', description: '登录方式，如 github' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: OAuthAuthorizationDto,
+  })
+  @ApiResponse({ status: 404, description: '不支持该登录方式' })
+  async authorizeOAuthLink(
+    @Param('provider') provider: string,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<OAuthAuthorization> {
+    return await this.oauthService.createAuthorization(
+      provider,
+      'link',
+      user.id,
+    );
+  }
+
+  @Post('oauth-accounts/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '完成第三方账号绑定' })
+  @ApiResponse({ status: 200, description: '绑定成功', type: OAuthAccountDto })
+  @ApiResponse({ status: 401, description: '授权已失效' })
+  @ApiResponse({ status: 409, description: '第三方账号已绑定其他用户' })
+  async linkOAuthAccount(
+    @Body() callbackDto: OAuthCallbackDto,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<OAuthAccount> {
+    return await this.oauthService.link(
+      user.id,
+      callbackDto.code,
+      callbackDto.state,
+    );
+  }
+
+  @Delete('oauth-accounts/:accountId')
+  @ApiOperation({ summary: '解除第三方账号绑定' })
+  @ApiParam({ name: 'accountId', description: '绑定ID' })
+  @ApiResponse({ status: 200, description: '解除成功' })
+  @ApiResponse({ status: 404, description: '绑定不存在' })
+  async unlinkOAuthAccount(
+    @Param('accountId', ParseUUIDPipe) accountId: string,
+    @CurrentUser() user: CurrentUserType,
+  ): Promise<{ message: string }> {
+    await this.oauthService.unlink(user.id, accountId);
+    return { message: '已解除绑定' };
+  }
+
   @Post('avatar')
   @UseUserVisibility()
   @UseInterceptors(
@@ -98,14 +243,7 @@ export class UserProfileController {
         fileSize: 1024 * 1024, // 1MB
       },
       fileFilter: (req, file, cb) => {
-        const allowedMimes = [
-          'image/jpeg',
-          'image/jpg',
-          'image/png',
-          'image/gif',
-          'image/webp',
-        ];
-        if (allowedMimes.includes(file.mimetype)) {
+        if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
           cb(null, true);
         } else {
           cb(
@@ -133,13 +271,7 @@ export class UserProfileController {
       throw new BadRequestException('请选择要上传的头像文件');
     }
 
-    // 将文件转换为base64格式
-    const base64 = `data:${file.mimetype};base64,${file.buffer.toString('base64')}`;
-
-    // 更新用户头像
-    const updatedUser = await this.userService.update(user.id, {
-      avatar: base64,
-    });
-    return updatedUser;
+    // 头像裁剪为正方形并生成缩略图后保存到存储，数据库只保存地址
+    return await this.userAvatarService.updateAvatar(user.id, file.buffer);
   }
 }
@@ -0,0 +1,147 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsUUID,
+  IsBoolean,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ArticleStatus } from './article.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+/**
+ * 流式导出格式
+ */
+export enum ArticleExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+  MARKDOWN = 'markdown',
+}
+
+/**
+ * 后台导出任务状态
+ */
+export enum ArticleExportJobStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * 流式导出文章DTO
+ */
+export class ArticleExportDto {
+  @ApiPropertyOptional({
+    description:
+      '导出格式：csv 为文章列表（不含正文），ndjson 每行一篇文章，markdown 为 frontmatter Markdown 文件的 zip 压缩包（可直接用于文章导入）',
+    enum: ArticleExportFormat,
+    default: ArticleExportFormat.NDJSON,
+  })
+  @IsOptional()
+  @IsEnum(ArticleExportFormat, {
+    message: VALIDATION_MESSAGES.INVALID_ENUM('导出格式'),
+  })
+  format?: ArticleExportFormat;
+
+  @ApiPropertyOptional({
+    description: '文章ID列表（如果不提供则导出所有符合条件的文章）',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', {
+    each: true,
+    message: VALIDATION_MESSAGES.INVALID_UUID('文章ID'),
+  })
+  @ArrayMaxSize(1000, {
+    message: VALIDATION_MESSAGES.ARRAY_MAX_SIZE('文章ID', 1000),
+  })
+  ids?: string[];
+
+  @ApiPropertyOptional({
+    description: '文章状态过滤',
+    enum: ArticleStatus,
+  })
+  @IsOptional()
+  @IsEnum(ArticleStatus, {
+    message: VALIDATION_MESSAGES.INVALID_ENUM('文章状态'),
+  })
+  status?: ArticleStatus;
+
+  @ApiPropertyOptional({
+    description: '分类ID过滤',
+  })
+  @IsOptional()
+  @IsUUID('4', {
+    message: VALIDATION_MESSAGES.INVALID_UUID('分类ID'),
+  })
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: '标签ID列表过滤（包含任一标签即导出）',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', {
+    each: true,
+    message: VALIDATION_MESSAGES.INVALID_UUID('标签ID'),
+  })
+  tagIds?: string[];
+
+  @ApiPropertyOptional({
+    description: '是否包含正文（csv 格式始终不含正文）',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否包含正文') })
+  includeContent?: boolean;
+}
+
+/**
+ * 后台导出任务DTO
+ */
+export class ArticleExportJobDto {
+  @ApiProperty({ description: '任务ID' })
+  jobId: string;
+
+  @ApiProperty({ description: '任务状态', enum: ArticleExportJobStatus })
+  status: ArticleExportJobStatus;
+
+  @ApiProperty({ description: '导出格式', enum: ArticleExportFormat })
+  format: ArticleExportFormat;
+
+  @ApiProperty({ description: '待导出的文章总数' })
+  total: number;
+
+  @ApiProperty({ description: '已导出的文章数' })
+  processed: number;
+
+  @ApiProperty({ description: '进度百分比' })
+  percentage: number;
+
+  @ApiPropertyOptional({ description: '导出文件名' })
+  fileName?: string;
+
+  @ApiPropertyOptional({ description: '导出文件大小（字节）' })
+  fileSize?: number;
+
+  @ApiPropertyOptional({
+    description: '下载链接（带签名，无需登录，过期前有效）',
+  })
+  downloadUrl?: string;
+
+  @ApiPropertyOptional({ description: '文件过期时间' })
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ description: '失败原因' })
+  error?: string;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt?: Date;
+}
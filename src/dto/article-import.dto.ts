@@ -8,6 +8,8 @@ import {
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { Article } from '@/entities/article.entity';
+import { PaginationDto } from './base/pagination.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
 
 /**
  * 文章导入配置DTO
@@ -93,6 +95,12 @@ export class ArticleImportResultDto {
 
   @ApiPropertyOptional({ description: '警告信息' })
   warnings?: string[];
+
+  @ApiPropertyOptional({ description: '上传的图片数量（压缩包导入时）' })
+  uploadedImages?: number;
+
+  @ApiPropertyOptional({ description: '导入的评论数量（WordPress导入时）' })
+  importedComments?: number;
 }
 
 /**
@@ -159,6 +167,15 @@ export interface ParsedArticleData
   category?: string; // 分类名称
 }
 
+/**
+ * 导入时实际写入文章的分类、标签和字段值
+ */
+export interface ResolvedArticleValues {
+  categoryName?: string;
+  tagNames: string[];
+  fields: Partial<Article>;
+}
+
 /**
  * 文件验证结果
  */
@@ -242,3 +259,137 @@ export class StartImportResponseDto {
   @ApiProperty({ description: '消息' })
   message: string;
 }
+
+/**
+ * 导入预演中单个文件的处理方式
+ */
+export enum ImportPreviewAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  SKIP = 'skip',
+  ERROR = 'error',
+}
+
+/**
+ * 与已存在文章的字段差异
+ */
+export class ArticleImportFieldDiffDto {
+  @ApiProperty({ description: '字段名（category、tags 为名称）' })
+  field: string;
+
+  @ApiPropertyOptional({ description: '当前值' })
+  before: unknown;
+
+  @ApiPropertyOptional({ description: '导入后的值' })
+  after: unknown;
+}
+
+/**
+ * 单个文件的预演结果
+ */
+export class ArticleImportPreviewItemDto {
+  @ApiProperty({ description: '文件路径' })
+  filePath: string;
+
+  @ApiProperty({ description: '处理方式', enum: ImportPreviewAction })
+  action: ImportPreviewAction;
+
+  @ApiPropertyOptional({ description: '文章标题' })
+  title?: string;
+
+  @ApiPropertyOptional({ description: '匹配到的已存在文章ID' })
+  existingArticleId?: string;
+
+  @ApiPropertyOptional({
+    description: '与已存在文章的字段差异（更新时）',
+    type: [ArticleImportFieldDiffDto],
+  })
+  diff?: ArticleImportFieldDiffDto[];
+
+  @ApiPropertyOptional({ description: '将新建的标签', type: [String] })
+  newTags?: string[];
+
+  @ApiPropertyOptional({ description: '将新建的分类' })
+  newCategory?: string;
+
+  @ApiPropertyOptional({ description: '将上传的图片数量（压缩包导入时）' })
+  images?: number;
+
+  @ApiPropertyOptional({ description: '将导入的评论数量（WordPress导入时）' })
+  comments?: number;
+
+  @ApiPropertyOptional({ description: '跳过或错误原因' })
+  error?: string;
+
+  @ApiPropertyOptional({ description: '警告信息', type: [String] })
+  warnings?: string[];
+}
+
+/**
+ * 导入预演响应DTO
+ */
+export class ArticleImportPreviewResponseDto {
+  @ApiProperty({ description: '总文件数' })
+  totalFiles: number;
+
+  @ApiProperty({ description: '将新建的文章数' })
+  createCount: number;
+
+  @ApiProperty({ description: '将更新的文章数' })
+  updateCount: number;
+
+  @ApiProperty({ description: '将跳过的文件数' })
+  skippedCount: number;
+
+  @ApiProperty({ description: '无法导入的文件数' })
+  failureCount: number;
+
+  @ApiProperty({ description: '将新建的标签（去重）', type: [String] })
+  newTags: string[];
+
+  @ApiProperty({ description: '将新建的分类（去重）', type: [String] })
+  newCategories: string[];
+
+  @ApiProperty({
+    description: '各文件的预演结果',
+    type: [ArticleImportPreviewItemDto],
+  })
+  @Type(() => ArticleImportPreviewItemDto)
+  results: ArticleImportPreviewItemDto[];
+}
+
+/**
+ * 导入报告格式
+ */
+export enum ImportReportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+/**
+ * 导入任务查询DTO
+ */
+export class ImportTaskQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: '任务状态', enum: ImportStatus })
+  @IsOptional()
+  @IsEnum(ImportStatus, {
+    message: VALIDATION_MESSAGES.INVALID_ENUM('任务状态'),
+  })
+  status?: ImportStatus;
+}
+
+/**
+ * 导入报告下载DTO
+ */
+export class ImportTaskReportQueryDto {
+  @ApiPropertyOptional({
+    description: '报告格式',
+    enum: ImportReportFormat,
+    default: ImportReportFormat.CSV,
+  })
+  @IsOptional()
+  @IsEnum(ImportReportFormat, {
+    message: VALIDATION_MESSAGES.INVALID_ENUM('报告格式'),
+  })
+  format?: ImportReportFormat = ImportReportFormat.CSV;
+}
@@ -0,0 +1,26 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationDto } from './base/pagination.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+/**
+ * 文章版本列表查询DTO
+ */
+export class ArticleRevisionQueryDto extends PaginationDto {}
+
+/**
+ * 文章版本对比查询DTO
+ */
+export class ArticleRevisionDiffQueryDto {
+  @ApiProperty({ description: '旧版本ID' })
+  @IsUUID('4', {
+    message: VALIDATION_MESSAGES.INVALID_UUID('旧版本ID'),
+  })
+  from: string;
+
+  @ApiProperty({ description: '新版本ID' })
+  @IsUUID('4', {
+    message: VALIDATION_MESSAGES.INVALID_UUID('新版本ID'),
+  })
+  to: string;
+}
@@ -17,7 +17,7 @@ import {
   IsObject,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
+import { Type, Transform } from 'class-transformer';
 import { BaseCreateDto, BaseQueryDto } from './base/base.dto';
 import {
   VALIDATION_LIMITS,
@@ -31,6 +31,7 @@ import {
  */
 export enum ArticleStatus {
   DRAFT = 'draft',
+  SCHEDULED = 'scheduled',
   PUBLISHED = 'published',
   ARCHIVED = 'archived',
 }
@@ -79,10 +80,10 @@ export class CreateArticleDto extends BaseCreateDto {
 
   @ApiPropertyOptional({
     description: '文章状态',
-    enum: ['draft', 'published', 'archived'],
+    enum: ['draft', 'scheduled', 'published', 'archived'],
   })
   @IsOptional()
-  @IsEnum(['draft', 'published', 'archived'], {
+  @IsEnum(['draft', 'scheduled', 'published', 'archived'], {
     message: VALIDATION_MESSAGES.INVALID_ENUM('文章状态'),
   })
   status?: string;
@@ -252,6 +253,7 @@ export enum ArticleSearchMode {
   TITLE = 'title',
   SUMMARY = 'summary',
   CONTENT = 'content',
+  FULLTEXT = 'fulltext', // 全文索引搜索（默认），按相关度排序并返回高亮片段
 }
 
 export class ArticleQueryDto extends BaseQueryDto {
@@ -435,10 +437,19 @@ export class ArticleQueryDto extends BaseQueryDto {
  * 文章搜索DTO - 支持三种独立搜索模式
  */
 export class ArticleSearchDto extends BaseQueryDto {
+  @ApiPropertyOptional({
+    description: '排序字段，全文搜索默认按相关度排序',
+    default: 'relevance',
+    example: 'relevance',
+  })
+  @IsOptional()
+  sortBy?: string = 'relevance';
+
   @ApiPropertyOptional({
     description: '搜索模式',
     enum: ArticleSearchMode,
-    example: ArticleSearchMode.TITLE,
+    default: ArticleSearchMode.FULLTEXT,
+    example: ArticleSearchMode.FULLTEXT,
   })
   @IsOptional()
   @IsEnum(ArticleSearchMode, {
@@ -585,6 +596,23 @@ export class BatchPublishArticleDto {
   publishedAt?: string;
 }
 
+/**
+ * 定时发布文章DTO
+ */
+export class ScheduleArticleDto {
+  @ApiProperty({
+    description: '计划发布时间（必须晚于当前时间）',
+    example: '2030-01-01T08:00:00.000Z',
+  })
+  @IsDateString(
+    {},
+    {
+      message: VALIDATION_MESSAGES.INVALID_DATE,
+    },
+  )
+  publishedAt: string;
+}
+
 /**
  * 批量更新文章DTO
  */
@@ -614,7 +642,7 @@ export class BatchUpdateArticleDto extends BatchArticleOperationDto {
   tagIds?: string[];
 
   @ApiPropertyOptional({
-    description: '文章状态',
+    description: '文章状态（仅支持发布和归档）',
     enum: ArticleStatus,
   })
   @IsOptional()
@@ -730,3 +758,18 @@ export class BatchExportArticleDto {
   @Type(() => Boolean)
   includeCategory?: boolean;
 }
+
+/**
+ * 文章详情渲染选项DTO
+ */
+export class ArticleRenderQueryDto {
+  @ApiPropertyOptional({
+    description:
+      '是否返回服务端渲染的 HTML（contentHtml）和目录（toc），HTML 已净化，标题带锚点，代码块带语言 class',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否返回HTML') })
+  @Transform(({ value }) => value === 'true' || value === true)
+  includeHtml?: boolean;
+}
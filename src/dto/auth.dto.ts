@@ -120,8 +120,45 @@ export class LoginResponseDto {
   @ApiPropertyOptional({ description: '访问令牌' })
   accessToken?: string;
 
-  @ApiPropertyOptional({ description: '刷新令牌' })
+  @ApiPropertyOptional({
+    description: '刷新令牌（每次刷新后换发，旧令牌失效）',
+  })
   refreshToken?: string;
+
+  @ApiPropertyOptional({ description: '访问令牌有效期（秒）' })
+  expiresIn?: number;
+
+  @ApiPropertyOptional({ description: '刷新令牌过期时间' })
+  refreshExpiresAt?: Date;
+
+  @ApiPropertyOptional({
+    description: '需要提交动态验证码或恢复码完成登录（此时不返回令牌）',
+  })
+  twoFactorRequired?: boolean;
+
+  @ApiPropertyOptional({
+    description: '账户必须先绑定身份验证器才能登录（此时不返回令牌）',
+  })
+  twoFactorSetupRequired?: boolean;
+
+  @ApiPropertyOptional({ description: '双因素认证挑战令牌' })
+  challengeToken?: string;
+
+  @ApiPropertyOptional({ description: '挑战令牌有效期（秒）' })
+  challengeExpiresIn?: number;
+
+  @ApiPropertyOptional({
+    description: '恢复码，仅在完成绑定时返回一次',
+    type: [String],
+  })
+  recoveryCodes?: string[];
+}
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: '登录或上次刷新时返回的刷新令牌' })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
 }
 
 export class RegisterResponseDto {
@@ -223,3 +260,130 @@ export class ChangePasswordResponseDto {
   @ApiProperty({ description: '消息' })
   message: string;
 }
+
+export class UserSessionDto {
+  @ApiProperty({ description: '会话ID，用于吊销该会话' })
+  id: string;
+
+  @ApiProperty({ description: '设备名称', example: 'Chrome 120 · Windows' })
+  device: string;
+
+  @ApiProperty({
+    description: '设备类型',
+    enum: ['mobile', 'tablet', 'desktop', 'unknown'],
+  })
+  deviceType: string;
+
+  @ApiProperty({ description: '登录来源', example: 'web-login' })
+  source: string;
+
+  @ApiPropertyOptional({ description: '最近一次登录或刷新令牌时的IP' })
+  ipAddress: string | null;
+
+  @ApiPropertyOptional({ description: 'User-Agent' })
+  userAgent: string | null;
+
+  @ApiProperty({ description: '登录时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '最后使用时间' })
+  lastSeenAt: Date;
+
+  @ApiProperty({ description: '会话过期时间（不再使用时）' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: '是否为当前请求所在的会话' })
+  current: boolean;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: '管理员登录时返回的挑战令牌' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '身份验证器中的6位动态验证码，部分接口也接受恢复码',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: '管理员登录时返回的挑战令牌' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class TwoFactorEnrollmentDto {
+  @ApiProperty({ description: 'Base32密钥，无法扫码时手动输入' })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth URI，前端将其生成二维码供身份验证器扫描',
+    example:
+      'otpauth://totp/igCircle%20Blog:admin?secret=...&issuer=igCircle+Blog',
+  })
+  otpauthUri: string;
+
+  @ApiProperty({ description: '密钥有效期（秒），过期前需完成确认' })
+  expiresIn: number;
+}
+
+export class TwoFactorStatusDto {
+  @ApiProperty({ description: '是否已开启' })
+  enabled: boolean;
+
+  @ApiPropertyOptional({ description: '开启时间' })
+  enabledAt: Date | null;
+
+  @ApiProperty({ description: '是否被系统配置强制开启' })
+  required: boolean;
+
+  @ApiProperty({ description: '剩余可用恢复码数量' })
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorRecoveryCodesDto {
+  @ApiProperty({
+    description: '恢复码，每个只能使用一次，请妥善保存',
+    type: [String],
+  })
+  recoveryCodes: string[];
+}
+
+export class UnlockAccountDto {
+  @ApiProperty({ description: '账户锁定邮件中的解锁令牌' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class UnlockAccountResponseDto {
+  @ApiProperty({ description: '是否成功' })
+  @Type(() => Boolean)
+  success: boolean;
+
+  @ApiProperty({ description: '消息' })
+  message: string;
+}
+
+export class LoginLockoutStatusDto {
+  @ApiProperty({ description: '连续登录失败次数' })
+  failures: number;
+
+  @ApiProperty({ description: '是否已被临时锁定' })
+  locked: boolean;
+
+  @ApiPropertyOptional({ description: '锁定到期时间' })
+  lockedUntil: Date | null;
+
+  @ApiPropertyOptional({ description: '退避期间下次允许登录的时间' })
+  nextAttemptAt: Date | null;
+}
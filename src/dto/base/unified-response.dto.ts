@@ -390,6 +390,119 @@ export class UnifiedArticleDto extends UnifiedBaseEntityDto {
   tags: UnifiedTagDto[];
 }
 
+/**
+ * 文章搜索高亮片段DTO
+ * 内容已做HTML转义，命中词以 <mark> 标签包裹
+ */
+export class ArticleSearchHighlightDto {
+  @PublicField({ description: '高亮后的标题', type: String })
+  title: string;
+
+  @PublicField({ description: '高亮后的摘要', type: String, optional: true })
+  summary?: string;
+
+  @PublicField({
+    description: '正文中命中位置附近的高亮片段',
+    type: String,
+    optional: true,
+  })
+  content?: string;
+
+  @PublicField({
+    description: '命中的标签名称',
+    type: String,
+    isArray: true,
+    optional: true,
+  })
+  tags?: string[];
+}
+
+/**
+ * 文章搜索结果DTO
+ */
+export class UnifiedArticleSearchResultDto extends UnifiedArticleDto {
+  @PublicField({ description: '相关度得分', type: Number })
+  relevance: number;
+
+  @PublicField({
+    description: '高亮片段',
+    type: ArticleSearchHighlightDto,
+  })
+  highlight: ArticleSearchHighlightDto;
+}
+
+/**
+ * 文章目录项DTO
+ */
+export class ArticleTocItemDto {
+  @PublicField({ description: '标题锚点ID', type: String })
+  id: string;
+
+  @PublicField({ description: '标题文本', type: String })
+  text: string;
+
+  @PublicField({ description: '标题级别（1-6）', type: Number })
+  level: number;
+
+  @PublicField({
+    description: '下级标题',
+    type: () => ArticleTocItemDto,
+    isArray: true,
+  })
+  children: ArticleTocItemDto[];
+}
+
+/**
+ * 系列导航中的文章DTO
+ */
+export class SeriesNavigationArticleDto {
+  @PublicField({ description: '文章ID', type: String })
+  id: string;
+
+  @PublicField({ description: '文章标题', type: String })
+  title: string;
+
+  @PublicField({ description: '文章slug', type: String })
+  slug: string;
+}
+
+/**
+ * 文章所在系列及上一篇/下一篇DTO
+ */
+export class ArticleSeriesNavigationDto {
+  @PublicField({ description: '系列ID', type: String })
+  id: string;
+
+  @PublicField({ description: '系列标题', type: String })
+  title: string;
+
+  @PublicField({ description: '系列slug', type: String })
+  slug: string;
+
+  @PublicField({
+    description: '当前文章在系列中的序号（从1开始）',
+    type: Number,
+  })
+  position: number;
+
+  @PublicField({ description: '系列中已发布的文章数', type: Number })
+  total: number;
+
+  @PublicField({
+    description: '上一篇（第一篇时为 null）',
+    type: () => SeriesNavigationArticleDto,
+    optional: true,
+  })
+  previous: SeriesNavigationArticleDto | null;
+
+  @PublicField({
+    description: '下一篇（最后一篇时为 null）',
+    type: () => SeriesNavigationArticleDto,
+    optional: true,
+  })
+  next: SeriesNavigationArticleDto | null;
+}
+
 /**
  * 统一的文章详情响应DTO
  */
@@ -399,6 +512,78 @@ export class UnifiedArticleDetailDto extends UnifiedArticleDto {
     type: String,
   })
   content: string;
+
+  @PublicField({
+    description: '渲染后的HTML（仅在 includeHtml=true 时返回）',
+    type: String,
+    optional: true,
+  })
+  contentHtml?: string;
+
+  @PublicField({
+    description: '文章目录（仅在 includeHtml=true 时返回）',
+    type: () => ArticleTocItemDto,
+    isArray: true,
+    optional: true,
+  })
+  toc?: ArticleTocItemDto[];
+
+  @PublicField({
+    description: '文章所在系列及上一篇/下一篇（不属于系列时为 null）',
+    type: () => ArticleSeriesNavigationDto,
+    optional: true,
+  })
+  series: ArticleSeriesNavigationDto | null;
+}
+
+/**
+ * 系列中的文章DTO
+ */
+export class UnifiedSeriesArticleDto extends SeriesNavigationArticleDto {
+  @PublicField({ description: '文章摘要', type: String, optional: true })
+  summary: string | null;
+
+  @PublicField({ description: '封面图片', type: String, optional: true })
+  coverImage: string | null;
+
+  @TimeField([VisibilityContext.PUBLIC, VisibilityContext.ADMIN], {
+    description: '发布时间',
+    optional: true,
+  })
+  publishedAt: string | null;
+
+  @PublicField({ description: '预计阅读时间（分钟）', type: Number })
+  readingTime: number;
+}
+
+/**
+ * 统一的文章系列响应DTO
+ */
+export class UnifiedSeriesDto {
+  @PublicField({ description: '系列ID', type: String })
+  id: string;
+
+  @PublicField({ description: '系列标题', type: String })
+  title: string;
+
+  @PublicField({ description: '系列slug', type: String })
+  slug: string;
+
+  @PublicField({ description: '系列简介', type: String, optional: true })
+  description: string | null;
+
+  @PublicField({ description: '封面图片', type: String, optional: true })
+  coverImage: string | null;
+
+  @PublicField({ description: '已发布的文章数', type: Number })
+  articleCount: number;
+
+  @PublicField({
+    description: '按阅读顺序排列的文章',
+    type: () => UnifiedSeriesArticleDto,
+    isArray: true,
+  })
+  articles: UnifiedSeriesArticleDto[];
 }
 
 /**
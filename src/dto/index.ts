@@ -42,6 +42,7 @@ export * from './base/pagination.dto';
 
 // 认证相关DTO
 export * from './auth.dto';
+export * from './oauth.dto';
 
 // 用户相关DTO
 export * from './user.dto';
@@ -49,8 +50,10 @@ export * from './user.dto';
 // 文章相关DTO
 export * from './article.dto';
 export * from './article-import.dto';
+export * from './article-export.dto';
 export * from './article-interaction.dto';
 export * from './publish-article.dto';
+export * from './article-revision.dto';
 
 // 分类相关DTO
 export * from './category.dto';
@@ -58,5 +61,18 @@ export * from './category.dto';
 // 标签相关DTO
 export * from './tag.dto';
 
+// 文章系列相关DTO
+export * from './series.dto';
+
 // 评论相关DTO
 export * from './comment.dto';
+export * from './sensitive-word.dto';
+
+// 通知相关DTO
+export * from './notification.dto';
+
+// 媒体库相关DTO
+export * from './media.dto';
+
+// 站点备份相关DTO
+export * from './site-backup.dto';
@@ -0,0 +1,104 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { PaginationDto } from './base/pagination.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+/**
+ * 媒体字段长度限制
+ */
+const MEDIA_LIMITS = {
+  ALT: { MAX: 255 },
+  TAG: { MAX: 50 },
+  TAGS: { MAX: 20 },
+  KEYWORD: { MAX: 100 },
+} as const;
+
+/**
+ * 标签既可以是数组，也可以是逗号分隔的字符串（multipart表单）
+ */
+const toTagList = ({ value }: { value: unknown }): unknown => {
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list)) {
+    return list;
+  }
+  return Array.from(
+    new Set(
+      (list as unknown[])
+        .map((tag) => (typeof tag === 'string' ? tag.trim() : tag))
+        .filter((tag) => tag !== ''),
+    ),
+  );
+};
+
+/**
+ * 上传媒体 DTO（multipart表单字段）
+ */
+export class UploadMediaDto {
+  @ApiPropertyOptional({
+    description: '替代文本',
+    maxLength: MEDIA_LIMITS.ALT.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MEDIA_LIMITS.ALT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH('替代文本', MEDIA_LIMITS.ALT.MAX),
+  })
+  alt?: string;
+
+  @ApiPropertyOptional({
+    description: '标签（逗号分隔或数组）',
+    type: [String],
+    maxItems: MEDIA_LIMITS.TAGS.MAX,
+  })
+  @IsOptional()
+  @Transform(toTagList)
+  @IsArray()
+  @ArrayMaxSize(MEDIA_LIMITS.TAGS.MAX, {
+    message: VALIDATION_MESSAGES.ARRAY_MAX_SIZE('标签', MEDIA_LIMITS.TAGS.MAX),
+  })
+  @IsString({ each: true })
+  @MaxLength(MEDIA_LIMITS.TAG.MAX, {
+    each: true,
+    message: VALIDATION_MESSAGES.MAX_LENGTH('标签', MEDIA_LIMITS.TAG.MAX),
+  })
+  tags?: string[];
+}
+
+/**
+ * 更新媒体 DTO
+ */
+export class UpdateMediaDto extends UploadMediaDto {}
+
+/**
+ * 媒体查询 DTO
+ */
+export class MediaQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: '搜索关键词（文件名、替代文本）',
+    maxLength: MEDIA_LIMITS.KEYWORD.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MEDIA_LIMITS.KEYWORD.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '搜索关键词',
+      MEDIA_LIMITS.KEYWORD.MAX,
+    ),
+  })
+  keyword?: string;
+
+  @ApiPropertyOptional({ description: '标签' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MEDIA_LIMITS.TAG.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH('标签', MEDIA_LIMITS.TAG.MAX),
+  })
+  tag?: string;
+}
@@ -0,0 +1,101 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { PaginationDto } from './base/pagination.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+/**
+ * 通知类型枚举
+ */
+export enum NotificationType {
+  COMMENT_REPLY = 'comment_reply',
+  COMMENT_MENTION = 'comment_mention',
+  ARTICLE_COMMENT = 'article_comment',
+  COMMENT_LIKE = 'comment_like',
+  COMMENT_APPROVED = 'comment_approved',
+  COMMENT_REJECTED = 'comment_rejected',
+  COMMENT_HIDDEN = 'comment_hidden',
+  ANNOUNCEMENT = 'announcement',
+}
+
+/**
+ * 公告长度限制
+ */
+const ANNOUNCEMENT_LIMITS = {
+  TITLE: { MIN: 1, MAX: 200 },
+  CONTENT: { MAX: 5000 },
+  LINK: { MAX: 500 },
+} as const;
+
+/**
+ * 通知查询 DTO
+ */
+export class NotificationQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: '是否已读，不传时返回全部' })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否已读') })
+  @Transform(({ value }) => value === 'true' || value === true)
+  isRead?: boolean;
+
+  @ApiPropertyOptional({ description: '通知类型', enum: NotificationType })
+  @IsOptional()
+  @IsEnum(NotificationType, {
+    message: VALIDATION_MESSAGES.INVALID_ENUM('通知类型'),
+  })
+  type?: NotificationType;
+}
+
+/**
+ * 发布系统公告 DTO
+ */
+export class CreateAnnouncementDto {
+  @ApiProperty({
+    description: '公告标题',
+    maxLength: ANNOUNCEMENT_LIMITS.TITLE.MAX,
+  })
+  @IsString()
+  @MinLength(ANNOUNCEMENT_LIMITS.TITLE.MIN, {
+    message: VALIDATION_MESSAGES.REQUIRED('公告标题'),
+  })
+  @MaxLength(ANNOUNCEMENT_LIMITS.TITLE.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '公告标题',
+      ANNOUNCEMENT_LIMITS.TITLE.MAX,
+    ),
+  })
+  title: string;
+
+  @ApiProperty({
+    description: '公告内容',
+    maxLength: ANNOUNCEMENT_LIMITS.CONTENT.MAX,
+  })
+  @IsString()
+  @MaxLength(ANNOUNCEMENT_LIMITS.CONTENT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '公告内容',
+      ANNOUNCEMENT_LIMITS.CONTENT.MAX,
+    ),
+  })
+  content: string;
+
+  @ApiPropertyOptional({
+    description: '跳转链接',
+    maxLength: ANNOUNCEMENT_LIMITS.LINK.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ANNOUNCEMENT_LIMITS.LINK.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '跳转链接',
+      ANNOUNCEMENT_LIMITS.LINK.MAX,
+    ),
+  })
+  link?: string;
+}
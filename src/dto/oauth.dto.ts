@@ -0,0 +1,58 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OAuthCallbackDto {
+  @ApiProperty({ description: '第三方回调地址中的 code 参数' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  code: string;
+
+  @ApiProperty({ description: '第三方回调地址中的 state 参数' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  state: string;
+}
+
+export class OAuthProviderDto {
+  @ApiProperty({ description: '登录方式标识', example: 'github' })
+  name: string;
+
+  @ApiProperty({ description: '显示名称', example: 'GitHub' })
+  displayName: string;
+}
+
+export class OAuthAuthorizationDto {
+  @ApiProperty({
+    description:
+      '第三方授权页面地址，前端直接跳转，授权完成后回到配置的回调地址',
+  })
+  authorizationUrl: string;
+
+  @ApiProperty({ description: '授权有效期（秒），超时后需要重新发起' })
+  expiresIn: number;
+}
+
+export class OAuthAccountDto {
+  @ApiProperty({ description: '绑定ID，用于解除绑定' })
+  id: string;
+
+  @ApiProperty({ description: '登录方式标识', example: 'github' })
+  provider: string;
+
+  @ApiPropertyOptional({ description: '第三方账号邮箱' })
+  email: string | null;
+
+  @ApiPropertyOptional({ description: '第三方账号名称' })
+  displayName: string | null;
+
+  @ApiPropertyOptional({ description: '第三方账号头像' })
+  avatarUrl: string | null;
+
+  @ApiPropertyOptional({ description: '最近一次通过该账号登录的时间' })
+  lastLoginAt: Date | null;
+
+  @ApiProperty({ description: '绑定时间' })
+  createdAt: Date;
+}
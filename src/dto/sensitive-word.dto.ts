@@ -0,0 +1,244 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  MaxLength,
+  MinLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaginationDto } from './base/pagination.dto';
+import {
+  VALIDATION_LIMITS,
+  VALIDATION_MESSAGES,
+} from '@/common/constants/validation.constants';
+
+/**
+ * 敏感词长度及分值限制
+ */
+const SENSITIVE_WORD_LIMITS = {
+  WORD: { MIN: 1, MAX: 100 },
+  CATEGORY: { MAX: 50 },
+  WEIGHT: { MIN: 1, MAX: 100 },
+  BATCH: { MAX: 1000 },
+} as const;
+
+/**
+ * 创建敏感词 DTO
+ */
+export class CreateSensitiveWordDto {
+  @ApiProperty({
+    description: '敏感词',
+    maxLength: SENSITIVE_WORD_LIMITS.WORD.MAX,
+  })
+  @IsString()
+  @MinLength(SENSITIVE_WORD_LIMITS.WORD.MIN, {
+    message: VALIDATION_MESSAGES.REQUIRED('敏感词'),
+  })
+  @MaxLength(SENSITIVE_WORD_LIMITS.WORD.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '敏感词',
+      SENSITIVE_WORD_LIMITS.WORD.MAX,
+    ),
+  })
+  word: string;
+
+  @ApiPropertyOptional({
+    description: '分类',
+    maxLength: SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SENSITIVE_WORD_LIMITS.CATEGORY.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '分类',
+      SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+    ),
+  })
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: '命中时累加的风险分值',
+    default: 10,
+    minimum: SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    maximum: SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(SENSITIVE_WORD_LIMITS.WEIGHT.MIN, {
+    message: VALIDATION_MESSAGES.MIN_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    ),
+  })
+  @Max(SENSITIVE_WORD_LIMITS.WEIGHT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+    ),
+  })
+  weight?: number;
+}
+
+/**
+ * 更新敏感词 DTO
+ */
+export class UpdateSensitiveWordDto {
+  @ApiPropertyOptional({
+    description: '分类',
+    maxLength: SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SENSITIVE_WORD_LIMITS.CATEGORY.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '分类',
+      SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+    ),
+  })
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: '命中时累加的风险分值',
+    minimum: SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    maximum: SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(SENSITIVE_WORD_LIMITS.WEIGHT.MIN, {
+    message: VALIDATION_MESSAGES.MIN_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    ),
+  })
+  @Max(SENSITIVE_WORD_LIMITS.WEIGHT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+    ),
+  })
+  weight?: number;
+
+  @ApiPropertyOptional({ description: '是否启用' })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否启用') })
+  isActive?: boolean;
+}
+
+/**
+ * 批量导入敏感词 DTO
+ */
+export class BatchCreateSensitiveWordDto {
+  @ApiProperty({
+    description: '敏感词列表',
+    type: [String],
+    maxItems: SENSITIVE_WORD_LIMITS.BATCH.MAX,
+  })
+  @IsArray()
+  @ArrayNotEmpty({ message: VALIDATION_MESSAGES.REQUIRED('敏感词列表') })
+  @ArrayMaxSize(SENSITIVE_WORD_LIMITS.BATCH.MAX, {
+    message: VALIDATION_MESSAGES.ARRAY_MAX_SIZE(
+      '敏感词',
+      SENSITIVE_WORD_LIMITS.BATCH.MAX,
+    ),
+  })
+  @IsString({ each: true })
+  @MaxLength(SENSITIVE_WORD_LIMITS.WORD.MAX, {
+    each: true,
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '敏感词',
+      SENSITIVE_WORD_LIMITS.WORD.MAX,
+    ),
+  })
+  words: string[];
+
+  @ApiPropertyOptional({
+    description: '分类',
+    maxLength: SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SENSITIVE_WORD_LIMITS.CATEGORY.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '分类',
+      SENSITIVE_WORD_LIMITS.CATEGORY.MAX,
+    ),
+  })
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: '命中时累加的风险分值',
+    default: 10,
+    minimum: SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    maximum: SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(SENSITIVE_WORD_LIMITS.WEIGHT.MIN, {
+    message: VALIDATION_MESSAGES.MIN_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MIN,
+    ),
+  })
+  @Max(SENSITIVE_WORD_LIMITS.WEIGHT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_VALUE(
+      '风险分值',
+      SENSITIVE_WORD_LIMITS.WEIGHT.MAX,
+    ),
+  })
+  weight?: number;
+}
+
+/**
+ * 敏感词列表查询 DTO
+ */
+export class SensitiveWordQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: '关键词搜索' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SENSITIVE_WORD_LIMITS.WORD.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '关键词搜索',
+      SENSITIVE_WORD_LIMITS.WORD.MAX,
+    ),
+  })
+  keyword?: string;
+
+  @ApiPropertyOptional({ description: '分类' })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional({ description: '是否启用' })
+  @IsOptional()
+  @IsBoolean()
+  @Type(() => Boolean)
+  isActive?: boolean;
+}
+
+/**
+ * 评论内容过滤测试 DTO
+ */
+export class CommentFilterTestDto {
+  @ApiProperty({
+    description: '待检测的评论内容',
+    maxLength: VALIDATION_LIMITS.COMMENT_CONTENT.MAX,
+  })
+  @IsString()
+  @MaxLength(VALIDATION_LIMITS.COMMENT_CONTENT.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '评论内容',
+      VALIDATION_LIMITS.COMMENT_CONTENT.MAX,
+    ),
+  })
+  content: string;
+}
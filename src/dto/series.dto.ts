@@ -0,0 +1,134 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsUUID,
+  ArrayMaxSize,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { PaginationDto } from './base/pagination.dto';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+const SERIES_LIMITS = {
+  TITLE: { MIN: 1, MAX: 100 },
+  SLUG: { MAX: 100 },
+  ARTICLES: { MAX: 200 },
+} as const;
+
+/**
+ * 创建文章系列 DTO
+ */
+export class CreateSeriesDto {
+  @ApiProperty({
+    description: '系列标题',
+    maxLength: SERIES_LIMITS.TITLE.MAX,
+  })
+  @IsString()
+  @MinLength(SERIES_LIMITS.TITLE.MIN, {
+    message: VALIDATION_MESSAGES.REQUIRED('系列标题'),
+  })
+  @MaxLength(SERIES_LIMITS.TITLE.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '系列标题',
+      SERIES_LIMITS.TITLE.MAX,
+    ),
+  })
+  title: string;
+
+  @ApiPropertyOptional({
+    description: 'slug（不提供则根据标题生成）',
+    maxLength: SERIES_LIMITS.SLUG.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SERIES_LIMITS.SLUG.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH('slug', SERIES_LIMITS.SLUG.MAX),
+  })
+  slug?: string;
+
+  @ApiPropertyOptional({ description: '系列简介' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: '封面图片' })
+  @IsOptional()
+  @IsString()
+  coverImage?: string;
+
+  @ApiPropertyOptional({ description: '是否在前台展示', default: true })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否在前台展示') })
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: '系列内的文章ID，按阅读顺序排列',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', {
+    each: true,
+    message: VALIDATION_MESSAGES.INVALID_UUID('文章ID'),
+  })
+  @ArrayMaxSize(SERIES_LIMITS.ARTICLES.MAX, {
+    message: VALIDATION_MESSAGES.ARRAY_MAX_SIZE(
+      '文章ID',
+      SERIES_LIMITS.ARTICLES.MAX,
+    ),
+  })
+  articleIds?: string[];
+}
+
+/**
+ * 更新文章系列 DTO
+ */
+export class UpdateSeriesDto extends PartialType(CreateSeriesDto) {}
+
+/**
+ * 设置系列文章顺序 DTO
+ */
+export class SetSeriesArticlesDto {
+  @ApiProperty({
+    description: '系列内的文章ID，按阅读顺序排列（整体替换原有成员）',
+    type: [String],
+  })
+  @IsArray()
+  @IsUUID('4', {
+    each: true,
+    message: VALIDATION_MESSAGES.INVALID_UUID('文章ID'),
+  })
+  @ArrayMaxSize(SERIES_LIMITS.ARTICLES.MAX, {
+    message: VALIDATION_MESSAGES.ARRAY_MAX_SIZE(
+      '文章ID',
+      SERIES_LIMITS.ARTICLES.MAX,
+    ),
+  })
+  articleIds: string[];
+}
+
+/**
+ * 文章系列查询 DTO
+ */
+export class SeriesQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: '关键词搜索（标题）' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SERIES_LIMITS.TITLE.MAX, {
+    message: VALIDATION_MESSAGES.MAX_LENGTH(
+      '关键词搜索',
+      SERIES_LIMITS.TITLE.MAX,
+    ),
+  })
+  keyword?: string;
+
+  @ApiPropertyOptional({ description: '是否在前台展示' })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { VALIDATION_MESSAGES } from '@/common/constants/validation.constants';
+
+/**
+ * 站点导出查询 DTO
+ */
+export class SiteExportQueryDto {
+  @ApiPropertyOptional({
+    description:
+      '是否导出用户密码哈希，不导出时恢复后的用户需通过找回密码重新设置',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('是否导出密码') })
+  @Transform(({ value }) => value === 'true' || value === true)
+  includePasswords?: boolean;
+}
+
+/**
+ * 站点恢复结果 DTO
+ */
+export class SiteRestoreResultDto {
+  @ApiProperty({ description: '新建的用户数' })
+  users: number;
+
+  @ApiProperty({
+    description: '与当前已有用户（按ID、用户名或邮箱）匹配而未新建的用户数',
+  })
+  matchedUsers: number;
+
+  @ApiProperty({ description: '没有密码哈希、已设置随机密码的用户数' })
+  usersWithoutPassword: number;
+
+  @ApiProperty({ description: '恢复的分类数' })
+  categories: number;
+
+  @ApiProperty({ description: '恢复的标签数' })
+  tags: number;
+
+  @ApiProperty({ description: '恢复的文章数' })
+  articles: number;
+
+  @ApiProperty({ description: '恢复的评论数' })
+  comments: number;
+
+  @ApiProperty({ description: '警告信息', type: [String] })
+  warnings: string[];
+
+  @ApiProperty({ description: '耗时（毫秒）' })
+  duration: number;
+}
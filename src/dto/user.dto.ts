@@ -167,3 +167,18 @@ export class UserQueryDto extends BaseQueryDto {
   @Type(() => Boolean)
   emailVerified?: boolean;
 }
+
+/**
+ * 邮件通知设置 DTO
+ */
+export class UpdateNotificationSettingsDto {
+  @ApiPropertyOptional({ description: '评论被回复或被@提及时发送邮件' })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('回复通知') })
+  notifyOnReply?: boolean;
+
+  @ApiPropertyOptional({ description: '文章收到评论时发送邮件' })
+  @IsOptional()
+  @IsBoolean({ message: VALIDATION_MESSAGES.INVALID_BOOLEAN('文章评论通知') })
+  notifyOnArticleComment?: boolean;
+}
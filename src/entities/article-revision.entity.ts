@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Article } from './article.entity';
+import { User } from './user.entity';
+
+@Entity('article_revisions')
+@Index('IDX_revision_article_number', ['articleId', 'revisionNumber'], {
+  unique: true,
+})
+export class ArticleRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  articleId: string;
+
+  @ManyToOne(() => Article, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'articleId' })
+  article: Article;
+
+  @Column({ type: 'int' })
+  revisionNumber: number; // 文章内递增的版本号
+
+  @Column({
+    type: 'enum',
+    enum: ['create', 'update', 'publish', 'restore'],
+    default: 'update',
+  })
+  action: string; // 产生该版本的操作
+
+  // 文章内容快照
+  @Column({ length: 200 })
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  summary: string | null;
+
+  @Column({ type: 'longtext' })
+  content: string;
+
+  @Column({ length: 200 })
+  slug: string;
+
+  @Column({ type: 'text', nullable: true })
+  coverImage: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  metaDescription: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  metaKeywords: string[] | null;
+
+  @Column({ type: 'text', nullable: true })
+  socialImage: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  categoryId: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  tagIds: string[] | null;
+
+  @Column({ length: 20 })
+  status: string; // 快照时的文章状态
+
+  // 编辑者（系统操作时为空）
+  @Column({ type: 'varchar', nullable: true })
+  editorId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'editorId' })
+  editor: User | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  @Index()
+  createdAt: Date;
+}
@@ -16,8 +16,16 @@ import { User } from './user.entity';
 import { Tag } from './tag.entity';
 import { Category } from './category.entity';
 import { Comment } from './comment.entity';
+import type { ArticleTocItem } from '@/services/article/article-render.service';
 
 @Entity('articles')
+// 全文索引使用ngram解析器以支持中文分词
+@Index('FT_articles_search', ['title', 'summary', 'content'], {
+  fulltext: true,
+  parser: 'ngram',
+})
+@Index('FT_articles_title', ['title'], { fulltext: true, parser: 'ngram' })
+@Index('FT_articles_summary', ['summary'], { fulltext: true, parser: 'ngram' })
 export class Article {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -27,16 +35,27 @@ export class Article {
   title: string;
 
   @Column({ type: 'text', nullable: true })
-  summary: string;
+  summary: string | null;
 
   @Column({ type: 'longtext' })
   content: string;
 
+  // 正文渲染结果缓存，由 ArticleRenderService 维护，默认查询不加载
+  @Column({ type: 'longtext', nullable: true, select: false })
+  renderedHtml: string | null;
+
+  @Column({ type: 'json', nullable: true, select: false })
+  renderedToc: ArticleTocItem[] | null;
+
+  // 生成缓存时的正文哈希（含渲染规则版本），不一致时重新渲染
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  renderedHash: string | null;
+
   @Column({ length: 200, unique: true })
   slug: string;
 
   @Column({ type: 'text', nullable: true })
-  coverImage: string;
+  coverImage: string | null;
 
   @ManyToMany(() => Tag, { cascade: true })
   @JoinTable({
@@ -48,7 +67,7 @@ export class Article {
 
   @Column({
     type: 'enum',
-    enum: ['draft', 'published', 'archived'],
+    enum: ['draft', 'scheduled', 'published', 'archived'],
     default: 'draft',
   })
   @Index()
@@ -71,13 +90,13 @@ export class Article {
 
   // SEO 相关字段
   @Column({ type: 'text', nullable: true })
-  metaDescription: string;
+  metaDescription: string | null;
 
   @Column({ type: 'json', nullable: true })
-  metaKeywords: string[];
+  metaKeywords: string[] | null;
 
   @Column({ type: 'text', nullable: true })
-  socialImage: string; // 社交媒体分享图片
+  socialImage: string | null; // 社交媒体分享图片
 
   // 内容相关
   @Column({ type: 'int', nullable: true })
@@ -102,7 +121,7 @@ export class Article {
 
   // 分类关联
   @Column({ type: 'varchar', nullable: true })
-  categoryId: string;
+  categoryId: string | null;
 
   @ManyToOne(() => Category, 'articles', {
     eager: true,
@@ -29,7 +29,7 @@ export class Comment {
 
   @Column({
     type: 'enum',
-    enum: ['active', 'hidden', 'deleted'],
+    enum: ['pending', 'active', 'hidden', 'rejected', 'deleted'],
     default: 'active',
   })
   @Index()
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { ImportTask } from './import-task.entity';
+
+/**
+ * 导入任务中单个文件的处理结果
+ */
+@Entity('import_task_files')
+@Index(['taskId', 'sequence'])
+export class ImportTaskFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 64 })
+  taskId: string;
+
+  @ManyToOne(() => ImportTask, (task) => task.files, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'taskId' })
+  task: ImportTask;
+
+  @Column({ type: 'int' })
+  sequence: number; // 文件在任务中的处理顺序
+
+  @Column({ length: 500 })
+  filePath: string;
+
+  @Column({ type: 'boolean', default: false })
+  success: boolean;
+
+  @Column({ type: 'boolean', default: false })
+  skipped: boolean;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  articleId: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  title: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  warnings: string[] | null;
+
+  @Column({ type: 'int', nullable: true })
+  uploadedImages: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  importedComments: number | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+import { ImportTaskFile } from './import-task-file.entity';
+import type { ArticleImportConfigDto } from '@/dto/article-import.dto';
+
+/**
+ * 导入任务上传的原始文件（保存在本地工作目录，用于中断后恢复）
+ */
+export interface ImportTaskSource {
+  name: string;
+  mimeType: string;
+  size: number;
+  path: string; // 相对于工作目录的路径
+}
+
+@Entity('import_tasks')
+export class ImportTask {
+  @PrimaryColumn({ length: 64 })
+  id: string; // 任务ID，与进度查询接口中的 taskId 一致
+
+  @Column({
+    type: 'enum',
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending',
+  })
+  @Index()
+  status: string;
+
+  @Column({ type: 'int', default: 0 })
+  totalFiles: number;
+
+  @Column({ type: 'int', default: 0 })
+  processedFiles: number;
+
+  @Column({ type: 'int', default: 0 })
+  successCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  failureCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedCount: number;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  currentFile: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'json' })
+  config: ArticleImportConfigDto;
+
+  @Column({ type: 'json' })
+  sources: ImportTaskSource[];
+
+  @Column({ type: 'int', default: 0 })
+  resumeCount: number; // 中断后恢复执行的次数
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  authorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'authorId' })
+  author: User | null;
+
+  @OneToMany(() => ImportTaskFile, (file) => file.task)
+  files: ImportTaskFile[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  @Index()
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('media')
+export class Media {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 255, unique: true })
+  key: string; // 存储对象键
+
+  @Column({ length: 500 })
+  url: string;
+
+  @Column({ length: 255 })
+  @Index()
+  filename: string; // 上传时的原始文件名
+
+  @Column({ length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'int' })
+  size: number; // 字节数
+
+  @Column({ type: 'int', nullable: true })
+  width: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  height: number | null;
+
+  @Column({ type: 'json', nullable: true })
+  variants: Record<string, string> | null; // 缩略图名称 → 访问地址
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  alt: string | null; // 替代文本，生成Markdown时使用
+
+  @Column({ type: 'json', nullable: true })
+  tags: string[] | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  uploaderId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'uploaderId' })
+  uploader: User | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  @Index()
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
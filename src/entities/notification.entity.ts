@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('notifications')
+@Index(['userId', 'isRead']) // 未读数统计
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  userId: string; // 接收通知的用户
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: [
+      'comment_reply',
+      'comment_mention',
+      'article_comment',
+      'comment_like',
+      'comment_approved',
+      'comment_rejected',
+      'comment_hidden',
+      'announcement',
+    ],
+  })
+  @Index()
+  type: string;
+
+  @Column({ length: 200 })
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  content: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  link: string | null; // 点击通知后跳转的地址
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  actorId: string | null; // 触发通知的用户，系统通知为空
+
+  @Column({ type: 'json', nullable: true })
+  data: Record<string, any> | null; // 关联对象ID等附加信息
+
+  @Column({ type: 'boolean', default: false })
+  isRead: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  @Index()
+  createdAt: Date;
+}
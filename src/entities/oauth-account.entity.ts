@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * 第三方登录账号
+ * 一个第三方账号只能绑定一个用户，一个用户在每个登录方式下只能绑定一个账号
+ */
+@Entity('oauth_accounts')
+@Index('IDX_oauth_account_provider_user', ['provider', 'providerUserId'], {
+  unique: true,
+})
+@Index('IDX_oauth_account_user_provider', ['userId', 'provider'], {
+  unique: true,
+})
+export class OAuthAccount {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ length: 50 })
+  provider: string; // 登录方式，如 github、google
+
+  @Column({ length: 191 })
+  providerUserId: string; // 第三方用户ID（OIDC 中的 sub）
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  displayName: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  avatarUrl: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // 同一次登录轮换产生的令牌属于同一家族
+  @Column({ length: 36 })
+  @Index()
+  familyId: string;
+
+  @Column({ length: 64 })
+  tokenHash: string; // 令牌密钥部分的 SHA-256，不保存明文
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  @Index()
+  accessTokenId: string | null; // 同时签发的访问令牌 jti
+
+  @Column({ length: 50 })
+  source: string; // 登录来源，如 web-login、admin-login
+
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'timestamp' })
+  @Index()
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  // rotated: 已使用并换发新令牌；logout_all: 退出所有设备、修改密码或被强制退出；
+  // reuse_detected: 同一家族中已轮换的令牌被再次使用
+  @Column({
+    type: 'enum',
+    enum: ['rotated', 'logout', 'logout_all', 'reuse_detected'],
+    nullable: true,
+  })
+  revokeReason: string | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  replacedById: string | null; // 轮换后的新令牌ID
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
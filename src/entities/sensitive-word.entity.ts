@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('sensitive_words')
+export class SensitiveWord {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100, unique: true })
+  word: string; // 敏感词（统一存储为小写）
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  @Index()
+  category: string | null; // 分类，如 广告、辱骂、政治
+
+  @Column({ type: 'int', default: 10 })
+  weight: number; // 命中时累加的风险分值
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Article } from './article.entity';
+import { Series } from './series.entity';
+
+@Entity('series_articles')
+@Index('IDX_series_article_order', ['seriesId', 'sortOrder'])
+export class SeriesArticle {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  seriesId: string;
+
+  @ManyToOne(() => Series, (series) => series.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'seriesId' })
+  series: Series;
+
+  // 一篇文章只属于一个系列，上一篇/下一篇才有唯一结果
+  @Column({ unique: true })
+  articleId: string;
+
+  @ManyToOne(() => Article, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'articleId' })
+  article: Article;
+
+  @Column({ type: 'int', default: 0 })
+  sortOrder: number; // 系列内的顺序，从 0 开始
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -40,12 +40,32 @@ export class User {
   @Column({ type: 'enum', enum: ['user', 'admin'], default: 'user' })
   role: string;
 
+  @Column({ type: 'boolean', default: true })
+  notifyOnReply: boolean; // 评论被回复时发送邮件通知
+
+  @Column({ type: 'boolean', default: true })
+  notifyOnArticleComment: boolean; // 文章收到评论时发送邮件通知
+
   @Column({ type: 'timestamp', nullable: true })
   lastActiveAt: Date | null;
 
   @Column({ type: 'timestamp', nullable: true })
   forcedLogoutAt: Date | null;
 
+  @Column({ type: 'boolean', default: false })
+  twoFactorEnabled: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  twoFactorEnabledAt: Date | null;
+
+  // TOTP密钥（Base32），默认查询不返回
+  @Column({ length: 64, nullable: true, select: false })
+  twoFactorSecret: string | null;
+
+  // 未使用的恢复码哈希，默认查询不返回
+  @Column({ type: 'json', nullable: true, select: false })
+  twoFactorRecoveryCodes: string[] | null;
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
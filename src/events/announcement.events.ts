@@ -0,0 +1,16 @@
+/**
+ * 公告相关事件名称
+ */
+export const ANNOUNCEMENT_EVENTS = {
+  PUBLISHED: 'announcement.published',
+} as const;
+
+export class AnnouncementPublishedEvent {
+  constructor(
+    public readonly title: string,
+    public readonly content: string,
+    public readonly link?: string,
+    // 发布公告的管理员ID
+    public readonly publisherId?: string,
+  ) {}
+}
@@ -0,0 +1,33 @@
+import { Comment } from '@/entities/comment.entity';
+
+/**
+ * 评论相关事件名称
+ */
+export const COMMENT_EVENTS = {
+  // 评论公开显示（创建时直接通过或审核通过）
+  CREATED: 'comment.created',
+  LIKED: 'comment.liked',
+  MODERATED: 'comment.moderated',
+} as const;
+
+export type CommentModerationAction = 'approved' | 'rejected' | 'hidden';
+
+export class CommentCreatedEvent {
+  constructor(public readonly comment: Comment) {}
+}
+
+export class CommentLikedEvent {
+  constructor(
+    public readonly comment: Comment,
+    // 点赞用户ID
+    public readonly userId: string,
+  ) {}
+}
+
+export class CommentModeratedEvent {
+  constructor(
+    public readonly comment: Comment,
+    public readonly action: CommentModerationAction,
+    public readonly adminNote?: string,
+  ) {}
+}
@@ -0,0 +1,15 @@
+import type { ImportProgressDto } from '@/dto/article-import.dto';
+
+/**
+ * 文章导入相关事件名称
+ */
+export const IMPORT_EVENTS = {
+  PROGRESS_UPDATED: 'import.progress_updated',
+} as const;
+
+export class ImportProgressUpdatedEvent {
+  constructor(
+    // 更新后的完整进度快照
+    public readonly progress: ImportProgressDto,
+  ) {}
+}
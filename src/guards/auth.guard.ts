@@ -13,6 +13,7 @@ import { StructuredLoggerService } from '@/common/logger/structured-logger.servi
 interface JwtPayload {
   sub: string;
   username: string;
+  jti?: string; // token ID，对应一个登录会话
   iat?: number; // token签发时间
   exp?: number; // token过期时间
   [key: string]: any;
@@ -103,7 +104,7 @@ export class JwtAuthGuard implements CanActivate {
 
       // 更新用户最后活跃时间（失败时不影响认证）
       try {
-        await this.userService.updateUserLastActive(payload.sub);
+        await this.userService.updateUserLastActive(payload.sub, payload.jti);
       } catch (error) {
         // 更新活跃时间失败时记录日志但不阻止认证
         this.logger.warn('更新用户最后活跃时间失败', {
@@ -1,13 +1,16 @@
 import { NestFactory, Reflector } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import * as path from 'path';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { QueryArrayTransformPipe } from '@/common/pipes/query-array-transform.pipe';
 import { BooleanTransformPipe } from '@/common/pipes/boolean-transform.pipe';
+import { LocalStorageDriver } from '@/services/storage';
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const logger = await app.resolve(StructuredLoggerService);
   logger.setContext({ module: 'Bootstrap' });
 
@@ -28,8 +31,25 @@ async function bootstrap() {
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'], // 允许的请求头
     credentials: true, // 允许携带Cookie（需前端配合设置withCredentials）
   });
-  // 全局路由前缀
-  app.setGlobalPrefix('api');
+  // 全局路由前缀，robots.txt 和站点地图必须在站点根路径下提供给搜索引擎
+  app.setGlobalPrefix('api', {
+    exclude: [
+      { path: 'robots.txt', method: RequestMethod.GET },
+      { path: 'sitemap.xml', method: RequestMethod.GET },
+      { path: 'sitemaps/:type-:page.xml', method: RequestMethod.GET },
+    ],
+  });
+  // 本地存储的上传文件以静态资源提供（不受全局前缀影响）
+  if (configService.get<string>('STORAGE_DRIVER', 'local') === 'local') {
+    app.useStaticAssets(
+      path.resolve(configService.get<string>('UPLOAD_PATH', './uploads')),
+      {
+        prefix: LocalStorageDriver.URL_PREFIX,
+        maxAge: '365d',
+        immutable: true,
+      },
+    );
+  }
   // 全局管道：先参数转换，再进行验证
   app.useGlobalPipes(
     new BooleanTransformPipe(app.get(Reflector)),
@@ -66,12 +86,18 @@ async function bootstrap() {
     .addTag('1.4 管理端API - 评论管理')
     .addTag('1.5 管理端API - 标签管理')
     .addTag('1.6 管理端API - 用户管理')
+    .addTag('1.7 管理端API - 系统公告')
+    .addTag('1.8 管理端API - 媒体库')
     .addTag('2.1 用户端API - 文章操作')
     .addTag('2.2 用户端API - 评论管理')
     .addTag('2.3 用户端API - 个人资料')
+    .addTag('2.4 用户端API - 消息通知')
     .addTag('3.1 公共API - 文章')
     .addTag('3.2 公共API - 分类')
     .addTag('3.3 公共API - 标签')
+    .addTag('3.4 公共API - 订阅源')
+    .addTag('3.5 公共API - 站点地图')
+    .addTag('3.6 公共API - 邮件退订')
     .addTag('4.1 认证API - 登录注册')
     .addTag('4.2 开发工具API - RSA加密')
     .addTag('5 示例API - 示例接口')
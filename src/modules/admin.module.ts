@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { AdminArticleController } from '@/controllers/admin/article.controller';
+import { AdminArticleRevisionController } from '@/controllers/admin/article-revision.controller';
 import { AdminUserController } from '@/controllers/admin/user.controller';
 import { ArticleModule } from './article.module';
 import { UserModule } from './user.module';
 import { AuthModule } from './auth.module';
 import { ArticleImportModule } from './article-import.module';
+import { MediaModule } from './media.module';
+import { BackupModule } from './backup.module';
 import { CommonModule } from '@/common/common.module';
 
 @Module({
@@ -13,8 +16,14 @@ import { CommonModule } from '@/common/common.module';
     UserModule,
     AuthModule,
     ArticleImportModule,
+    MediaModule,
+    BackupModule,
     CommonModule,
   ],
-  controllers: [AdminArticleController, AdminUserController],
+  controllers: [
+    AdminArticleController,
+    AdminArticleRevisionController,
+    AdminUserController,
+  ],
 })
 export class AdminModule {}
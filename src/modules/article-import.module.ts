@@ -5,24 +5,45 @@ import { ArticleImportService } from '@/services/article-import/article-import.s
 import { ArticleParserService } from '@/services/article-import/article-parser.service';
 import { ImportProgressService } from '@/services/article-import/import-progress.service';
 import { ImportValidationService } from '@/services/article-import/import-validation.service';
+import { ArchiveExtractorService } from '@/services/article-import/archive-extractor.service';
+import { ImportAssetService } from '@/services/article-import/import-asset.service';
+import { WxrParserService } from '@/services/article-import/wxr-parser.service';
+import { WordPressImportService } from '@/services/article-import/wordpress-import.service';
+import { ImportPreviewService } from '@/services/article-import/import-preview.service';
+import { ImportTaskService } from '@/services/article-import/import-task.service';
+import { ImportTaskSchedulerService } from '@/services/article-import/import-task-scheduler.service';
+import { ImportProgressStreamService } from '@/services/article-import/import-progress-stream.service';
 import { FileValidationService } from '@/services/article-import/common/file-validation.service';
 import { ConfigValidationService } from '@/services/article-import/common/config-validation.service';
 import { AuthModule } from '@/modules/auth.module';
 import { ArticleModule } from '@/modules/article.module';
 import { TagModule } from '@/modules/tag.module';
 import { CategoryModule } from '@/modules/category.module';
+import { MediaModule } from '@/modules/media.module';
 import { Article } from '@/entities/article.entity';
 import { Tag } from '@/entities/tag.entity';
 import { Category } from '@/entities/category.entity';
 import { User } from '@/entities/user.entity';
+import { Comment } from '@/entities/comment.entity';
+import { ImportTask } from '@/entities/import-task.entity';
+import { ImportTaskFile } from '@/entities/import-task-file.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Article, Tag, Category, User]),
+    TypeOrmModule.forFeature([
+      Article,
+      Tag,
+      Category,
+      User,
+      Comment,
+      ImportTask,
+      ImportTaskFile,
+    ]),
     AuthModule,
     ArticleModule,
     TagModule,
     CategoryModule,
+    MediaModule,
   ],
   controllers: [ArticleImportController],
   providers: [
@@ -30,9 +51,21 @@ import { User } from '@/entities/user.entity';
     ArticleParserService,
     ImportProgressService,
     ImportValidationService,
+    ArchiveExtractorService,
+    ImportAssetService,
+    WxrParserService,
+    WordPressImportService,
+    ImportPreviewService,
+    ImportTaskService,
+    ImportTaskSchedulerService,
+    ImportProgressStreamService,
     FileValidationService,
     ConfigValidationService,
   ],
-  exports: [ArticleImportService],
+  exports: [
+    ArticleImportService,
+    ArticleParserService,
+    ArchiveExtractorService,
+  ],
 })
 export class ArticleImportModule {}
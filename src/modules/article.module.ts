@@ -4,6 +4,7 @@ import { Article } from '@/entities/article.entity';
 import { ArticleView } from '@/entities/article-view.entity';
 import { ArticleLike } from '@/entities/article-like.entity';
 import { ArticleFavorite } from '@/entities/article-favorite.entity';
+import { ArticleRevision } from '@/entities/article-revision.entity';
 import { Tag } from '@/entities/tag.entity';
 import { Category } from '@/entities/category.entity';
 import { ArticleService } from '@/services/article/article.service';
@@ -12,8 +13,16 @@ import { ArticleStatisticsService } from '@/services/article/article-statistics.
 import { ArticleStatusService } from '@/services/article/article-status.service';
 import { ArticleViewService } from '@/services/article/article-view.service';
 import { ArticleInteractionService } from '@/services/article/article-interaction.service';
+import { ArticleRevisionService } from '@/services/article/article-revision.service';
+import { ArticlePublishSchedulerService } from '@/services/article/article-publish-scheduler.service';
+import { ArticleFeedService } from '@/services/article/article-feed.service';
+import { ArticleRenderService } from '@/services/article/article-render.service';
+import { ArticleExportService } from '@/services/article/article-export.service';
+import { ArticleExportJobService } from '@/services/article/article-export-job.service';
+import { ArticleExportCleanupService } from '@/services/article/article-export-cleanup.service';
 import { TagService } from '@/services/tag.service';
 import { CategoryService } from '@/services/category.service';
+import { SitemapService } from '@/services/sitemap.service';
 import { AuthModule } from './auth.module';
 import { SharedAuthModule } from './shared-auth.module';
 import { CommonModule } from '@/common/common.module';
@@ -25,6 +34,7 @@ import { CommonModule } from '@/common/common.module';
       ArticleView,
       ArticleLike,
       ArticleFavorite,
+      ArticleRevision,
       Tag,
       Category,
     ]),
@@ -40,8 +50,16 @@ import { CommonModule } from '@/common/common.module';
     ArticleStatusService,
     ArticleViewService,
     ArticleInteractionService,
+    ArticleRevisionService,
+    ArticlePublishSchedulerService,
+    ArticleFeedService,
+    ArticleRenderService,
+    ArticleExportService,
+    ArticleExportJobService,
+    ArticleExportCleanupService,
     TagService,
     CategoryService,
+    SitemapService,
   ],
   exports: [
     ArticleService,
@@ -49,6 +67,12 @@ import { CommonModule } from '@/common/common.module';
     ArticleViewService,
     ArticleStatisticsService,
     ArticleInteractionService,
+    ArticleRevisionService,
+    ArticleFeedService,
+    ArticleRenderService,
+    ArticleExportService,
+    ArticleExportJobService,
+    SitemapService,
   ],
 })
 export class ArticleModule {}
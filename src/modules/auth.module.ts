@@ -1,16 +1,18 @@
 import { Module } from '@nestjs/common';
 import { AuthController } from '@/controllers/auth.controller';
 import { RsaController } from '@/controllers/rsa.controller';
+import { AdminTwoFactorController } from '@/controllers/admin/two-factor.controller';
 import { RsaService } from '@/services/rsa.service';
 import { EmailService } from '@/services/email.service';
+import { LoginAttemptService } from '@/services/login-attempt.service';
 import { CommonModule } from '@/common/common.module';
 
 import { SharedAuthModule } from './shared-auth.module';
 
 @Module({
   imports: [SharedAuthModule, CommonModule],
-  controllers: [AuthController, RsaController],
-  providers: [RsaService, EmailService],
-  exports: [SharedAuthModule, RsaService, EmailService],
+  controllers: [AuthController, RsaController, AdminTwoFactorController],
+  providers: [RsaService, EmailService, LoginAttemptService],
+  exports: [SharedAuthModule, RsaService, EmailService, LoginAttemptService],
 })
 export class AuthModule {}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '@/entities/user.entity';
+import { Category } from '@/entities/category.entity';
+import { Tag } from '@/entities/tag.entity';
+import { Article } from '@/entities/article.entity';
+import { Comment } from '@/entities/comment.entity';
+import { SiteExportService, SiteRestoreService } from '@/services/backup';
+import { AdminBackupController } from '@/controllers/admin/backup.controller';
+import { ArticleImportModule } from './article-import.module';
+import { AuthModule } from './auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User, Category, Tag, Article, Comment]),
+    ArticleImportModule,
+    AuthModule,
+  ],
+  controllers: [AdminBackupController],
+  providers: [SiteExportService, SiteRestoreService],
+  exports: [SiteExportService],
+})
+export class BackupModule {}
@@ -4,20 +4,50 @@ import { Comment } from '@/entities/comment.entity';
 import { CommentLike } from '@/entities/comment-like.entity';
 import { Article } from '@/entities/article.entity';
 import { User } from '@/entities/user.entity';
+import { SensitiveWord } from '@/entities/sensitive-word.entity';
 import { CommentService } from '@/services/comment.service';
+import { CommentModerationService } from '@/services/comment-moderation.service';
+import { CommentNotificationService } from '@/services/comment-notification.service';
+import {
+  CommentFilterService,
+  SensitiveWordService,
+  LinkCountFilter,
+  RepeatedContentFilter,
+  IpBurstFilter,
+} from '@/services/comment-filter';
 import { UserCommentController } from '@/controllers/user/comment.controller';
 import { AdminCommentController } from '@/controllers/admin/comment.controller';
+import { AdminSensitiveWordController } from '@/controllers/admin/sensitive-word.controller';
 import { AuthModule } from './auth.module';
 import { SharedAuthModule } from './shared-auth.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Comment, CommentLike, Article, User]),
+    TypeOrmModule.forFeature([
+      Comment,
+      CommentLike,
+      Article,
+      User,
+      SensitiveWord,
+    ]),
     AuthModule,
     SharedAuthModule,
   ],
-  controllers: [UserCommentController, AdminCommentController],
-  providers: [CommentService],
-  exports: [CommentService],
+  controllers: [
+    UserCommentController,
+    AdminCommentController,
+    AdminSensitiveWordController,
+  ],
+  providers: [
+    CommentService,
+    CommentModerationService,
+    CommentNotificationService,
+    CommentFilterService,
+    SensitiveWordService,
+    LinkCountFilter,
+    RepeatedContentFilter,
+    IpBurstFilter,
+  ],
+  exports: [CommentService, CommentFilterService, CommentNotificationService],
 })
 export class CommentModule {}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Media } from '@/entities/media.entity';
+import { Article } from '@/entities/article.entity';
+import { MediaService } from '@/services/media';
+import { AdminMediaController } from '@/controllers/admin/media.controller';
+import { StorageModule } from './storage.module';
+import { AuthModule } from './auth.module';
+import { SharedAuthModule } from './shared-auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Media, Article]),
+    StorageModule,
+    AuthModule,
+    SharedAuthModule,
+  ],
+  controllers: [AdminMediaController],
+  providers: [MediaService],
+  exports: [MediaService],
+})
+export class MediaModule {}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Notification } from '@/entities/notification.entity';
+import { Article } from '@/entities/article.entity';
+import { User } from '@/entities/user.entity';
+import {
+  NotificationService,
+  NotificationListener,
+} from '@/services/notification';
+import { UserNotificationController } from '@/controllers/user/notification.controller';
+import { AdminNotificationController } from '@/controllers/admin/notification.controller';
+import { CommentModule } from './comment.module';
+import { AuthModule } from './auth.module';
+import { SharedAuthModule } from './shared-auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Notification, Article, User]),
+    CommentModule,
+    AuthModule,
+    SharedAuthModule,
+  ],
+  controllers: [UserNotificationController, AdminNotificationController],
+  providers: [NotificationService, NotificationListener],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
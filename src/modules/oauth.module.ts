@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OAuthAccount } from '@/entities/oauth-account.entity';
+import { OAuthController } from '@/controllers/oauth.controller';
+import { OAuthService } from '@/services/oauth';
+import { SharedAuthModule } from './shared-auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OAuthAccount]), SharedAuthModule],
+  controllers: [OAuthController],
+  providers: [OAuthService],
+  exports: [OAuthService],
+})
+export class OAuthModule {}
@@ -3,9 +3,16 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PublicArticleController } from '@/controllers/public/article.controller';
 import { PublicCategoryController } from '@/controllers/public/category.controller';
 import { PublicTagController } from '@/controllers/public/tag.controller';
+import { PublicFeedController } from '@/controllers/public/feed.controller';
+import { PublicSitemapController } from '@/controllers/public/sitemap.controller';
+import { PublicUnsubscribeController } from '@/controllers/public/unsubscribe.controller';
+import { PublicExportDownloadController } from '@/controllers/public/export-download.controller';
+import { PublicSeriesController } from '@/controllers/public/series.controller';
 import { ArticleModule } from './article.module';
 import { CategoryModule } from './category.module';
 import { TagModule } from './tag.module';
+import { SeriesModule } from './series.module';
+import { CommentModule } from './comment.module';
 import { Article } from '@/entities/article.entity';
 
 @Module({
@@ -14,11 +21,18 @@ import { Article } from '@/entities/article.entity';
     ArticleModule,
     CategoryModule,
     TagModule,
+    SeriesModule,
+    CommentModule,
   ],
   controllers: [
     PublicArticleController,
     PublicCategoryController,
     PublicTagController,
+    PublicFeedController,
+    PublicSitemapController,
+    PublicUnsubscribeController,
+    PublicExportDownloadController,
+    PublicSeriesController,
   ],
 })
 export class PublicModule {}
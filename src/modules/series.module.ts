@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Series } from '@/entities/series.entity';
+import { SeriesArticle } from '@/entities/series-article.entity';
+import { AdminSeriesController } from '@/controllers/admin/series.controller';
+import { SeriesService } from '@/services/series.service';
+import { AuthModule } from './auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Series, SeriesArticle]), AuthModule],
+  controllers: [AdminSeriesController],
+  providers: [SeriesService],
+  exports: [SeriesService],
+})
+export class SeriesModule {}
@@ -5,20 +5,36 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { RolesGuard } from '@/guards/roles.guard';
 import { jwtConfigFactory } from '@/config/jwt.config';
 import { User } from '@/entities/user.entity';
+import { RefreshToken } from '@/entities/refresh-token.entity';
 import { UserService } from '@/services/user.service';
+import { AuthTokenService } from '@/services/auth-token.service';
+import { AuthTokenCleanupService } from '@/services/auth-token-cleanup.service';
+import { TwoFactorService } from '@/services/two-factor.service';
 
 /**
  * 共享认证模块
- * 专门提供认证相关的核心服务：JWT模块、用户服务和角色守卫
+ * 专门提供认证相关的核心服务：JWT模块、用户服务、令牌服务、双因素认证服务和角色守卫
  * 为全局守卫和其他模块提供必要的依赖
  */
 @Module({
   imports: [
     ConfigModule,
     JwtModule.registerAsync(jwtConfigFactory),
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, RefreshToken]),
+  ],
+  providers: [
+    UserService,
+    AuthTokenService,
+    AuthTokenCleanupService,
+    TwoFactorService,
+    RolesGuard,
+  ],
+  exports: [
+    JwtModule,
+    RolesGuard,
+    UserService,
+    AuthTokenService,
+    TwoFactorService,
   ],
-  providers: [UserService, RolesGuard],
-  exports: [JwtModule, RolesGuard, UserService],
 })
 export class SharedAuthModule {}
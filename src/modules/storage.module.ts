@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  StorageService,
+  ImageService,
+  LocalStorageDriver,
+  S3StorageDriver,
+  STORAGE_DRIVER,
+} from '@/services/storage';
+
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('STORAGE_DRIVER') === 's3'
+          ? new S3StorageDriver(configService)
+          : new LocalStorageDriver(configService),
+      inject: [ConfigService],
+    },
+    StorageService,
+    ImageService,
+  ],
+  exports: [StorageService, ImageService],
+})
+export class StorageModule {}
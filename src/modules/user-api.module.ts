@@ -5,9 +5,16 @@ import { UserModule } from './user.module';
 import { ArticleModule } from './article.module';
 import { AuthModule } from './auth.module';
 import { SharedAuthModule } from './shared-auth.module';
+import { OAuthModule } from './oauth.module';
 
 @Module({
-  imports: [UserModule, ArticleModule, AuthModule, SharedAuthModule],
+  imports: [
+    UserModule,
+    ArticleModule,
+    AuthModule,
+    SharedAuthModule,
+    OAuthModule,
+  ],
   controllers: [UserProfileController, UserArticleController],
 })
 export class UserApiModule {}
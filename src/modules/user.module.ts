@@ -1,15 +1,24 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '@/entities/user.entity';
+import { RefreshToken } from '@/entities/refresh-token.entity';
 import { UserService } from '@/services/user.service';
+import { UserAvatarService } from '@/services/user-avatar.service';
 import { AdminUserController } from '@/controllers/admin/user.controller';
 
 import { SharedAuthModule } from './shared-auth.module';
+import { AuthModule } from './auth.module';
+import { StorageModule } from './storage.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User]), SharedAuthModule],
+  imports: [
+    TypeOrmModule.forFeature([User, RefreshToken]),
+    SharedAuthModule,
+    AuthModule,
+    StorageModule,
+  ],
   controllers: [AdminUserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [UserService, UserAvatarService],
+  exports: [UserService, UserAvatarService],
 })
 export class UserModule {}
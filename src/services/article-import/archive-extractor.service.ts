@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import * as yauzl from 'yauzl';
+import { ValidationException } from '@/common/exceptions/business.exception';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 压缩包中的文件
+ */
+export interface ArchiveEntry {
+  path: string;
+  buffer: Buffer;
+}
+
+/**
+ * 解压结果（只保留Markdown、图片和JSON数据文件，其余文件忽略）
+ */
+export interface ExtractedArchive {
+  name: string;
+  markdownFiles: ArchiveEntry[];
+  // 规范化路径 → 图片内容
+  assets: Map<string, Buffer>;
+  // 规范化路径 → JSON文件内容（站点备份使用，文章导入忽略）
+  dataFiles: Map<string, Buffer>;
+  // 因安全限制被拒绝的条目
+  rejected: { path: string; reason: string }[];
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp'];
+const DATA_EXTENSIONS = ['.json'];
+
+// Unix文件类型掩码及符号链接类型（位于外部属性高16位）
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * 压缩包解压服务
+ * 全部在内存中完成，不落盘；对路径穿越（zip-slip）和压缩炸弹做以下防护：
+ * - 拒绝绝对路径、包含 .. 的路径、符号链接和加密条目
+ * - 限制条目数量、单个文件大小、解压总大小和压缩比
+ * - 读取时按实际解压字节数计数，不信任条目头中声明的大小
+ */
+@Injectable()
+export class ArchiveExtractorService {
+  static readonly MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 压缩包本身 50MB
+  private static readonly MAX_ENTRIES = 5000;
+  private static readonly MAX_ENTRY_SIZE = 10 * 1024 * 1024; // 单个文件 10MB
+  private static readonly MAX_TOTAL_SIZE = 200 * 1024 * 1024; // 解压总大小 200MB
+  private static readonly MAX_COMPRESSION_RATIO = 100;
+  // 小文件（如纯文本）的压缩比天然较高，只对超过该大小的条目检查压缩比
+  private static readonly RATIO_CHECK_THRESHOLD = 1024 * 1024;
+
+  constructor(private readonly logger: StructuredLoggerService) {}
+
+  /**
+   * 是否为zip压缩包
+   */
+  isArchive(fileName: string, mimeType?: string): boolean {
+    return (
+      fileName.toLowerCase().endsWith('.zip') ||
+      mimeType === 'application/zip' ||
+      mimeType === 'application/x-zip-compressed'
+    );
+  }
+
+  /**
+   * 解压压缩包
+   */
+  async extract(name: string, buffer: Buffer): Promise<ExtractedArchive> {
+    const result: ExtractedArchive = {
+      name,
+      markdownFiles: [],
+      assets: new Map(),
+      dataFiles: new Map(),
+      rejected: [],
+    };
+
+    let zipFile: yauzl.ZipFile;
+    try {
+      zipFile = await yauzl.fromBufferPromise(buffer, {
+        lazyEntries: true,
+        validateEntrySizes: true,
+      });
+    } catch (error) {
+      throw new ValidationException(
+        `压缩包 ${name} 无法解析: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (zipFile.entryCount > ArchiveExtractorService.MAX_ENTRIES) {
+      zipFile.close();
+      throw new ValidationException(
+        `压缩包 ${name} 包含的文件过多，最多允许 ${ArchiveExtractorService.MAX_ENTRIES} 个`,
+      );
+    }
+
+    let totalSize = 0;
+    try {
+      for await (const entry of zipFile.eachEntry()) {
+        const entryPath = this.normalizeEntryPath(entry.fileName);
+        if (entryPath === null) {
+          result.rejected.push({
+            path: entry.fileName,
+            reason: '路径非法（绝对路径或包含 ..）',
+          });
+          continue;
+        }
+
+        const kind = this.classify(entryPath);
+        if (!kind) {
+          continue;
+        }
+
+        const reason = this.checkEntry(entry);
+        if (reason) {
+          result.rejected.push({ path: entryPath, reason });
+          continue;
+        }
+
+        if (
+          totalSize + entry.uncompressedSize >
+          ArchiveExtractorService.MAX_TOTAL_SIZE
+        ) {
+          throw new ValidationException(
+            `压缩包 ${name} 解压后超过 ${ArchiveExtractorService.MAX_TOTAL_SIZE / 1024 / 1024}MB`,
+          );
+        }
+
+        const content = await this.readEntry(zipFile, entry);
+        totalSize += content.length;
+
+        if (kind === 'markdown') {
+          result.markdownFiles.push({ path: entryPath, buffer: content });
+        } else if (kind === 'data') {
+          result.dataFiles.set(entryPath, content);
+        } else {
+          result.assets.set(entryPath, content);
+        }
+      }
+    } catch (error) {
+      if (error instanceof ValidationException) {
+        throw error;
+      }
+      // yauzl 对非法文件名、声明大小不符等情况直接报错
+      throw new ValidationException(
+        `压缩包 ${name} 解压失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      zipFile.close();
+    }
+
+    this.logger.log(`解压压缩包 ${name}`, {
+      action: 'extractArchive',
+      metadata: {
+        name,
+        markdownFiles: result.markdownFiles.length,
+        assets: result.assets.size,
+        dataFiles: result.dataFiles.size,
+        rejected: result.rejected.length,
+        totalSize,
+      },
+    });
+    return result;
+  }
+
+  /**
+   * 规范化条目路径，路径非法时返回null
+   */
+  private normalizeEntryPath(fileName: string): string | null {
+    const unified = fileName.replace(/\\/g, '/');
+    if (
+      unified.startsWith('/') ||
+      /^[a-zA-Z]:/.test(unified) ||
+      unified.split('/').includes('..')
+    ) {
+      return null;
+    }
+    return path.posix.normalize(unified).replace(/^\.\//, '');
+  }
+
+  /**
+   * 按扩展名区分文件类型，目录、隐藏文件和 macOS 元数据忽略
+   */
+  private classify(entryPath: string): 'markdown' | 'asset' | 'data' | null {
+    if (
+      entryPath.endsWith('/') ||
+      entryPath.startsWith('__MACOSX/') ||
+      entryPath.split('/').some((segment) => segment.startsWith('.'))
+    ) {
+      return null;
+    }
+
+    const extension = path.posix.extname(entryPath).toLowerCase();
+    if (MARKDOWN_EXTENSIONS.includes(extension)) {
+      return 'markdown';
+    }
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+      return 'asset';
+    }
+    if (DATA_EXTENSIONS.includes(extension)) {
+      return 'data';
+    }
+    return null;
+  }
+
+  /**
+   * 检查条目是否允许解压，不允许时返回原因
+   */
+  private checkEntry(entry: yauzl.Entry): string | null {
+    if (((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+      return '不支持符号链接';
+    }
+    if (entry.isEncrypted()) {
+      return '不支持加密文件';
+    }
+    if (entry.uncompressedSize > ArchiveExtractorService.MAX_ENTRY_SIZE) {
+      return `文件超过大小限制（${ArchiveExtractorService.MAX_ENTRY_SIZE / 1024 / 1024}MB）`;
+    }
+    if (
+      entry.uncompressedSize > ArchiveExtractorService.RATIO_CHECK_THRESHOLD &&
+      entry.uncompressedSize / Math.max(entry.compressedSize, 1) >
+        ArchiveExtractorService.MAX_COMPRESSION_RATIO
+    ) {
+      return '压缩比异常';
+    }
+    return null;
+  }
+
+  /**
+   * 读取条目内容，实际解压字节数超过单文件限制时中止
+   */
+  private async readEntry(
+    zipFile: yauzl.ZipFile,
+    entry: yauzl.Entry,
+  ): Promise<Buffer> {
+    const stream = await zipFile.openReadStreamPromise(entry);
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+      const data = chunk as Buffer;
+      size += data.length;
+      if (size > ArchiveExtractorService.MAX_ENTRY_SIZE) {
+        stream.destroy();
+        throw new ValidationException(
+          `压缩包条目 ${entry.fileName} 解压后超过大小限制`,
+        );
+      }
+      chunks.push(data);
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { HttpStatus, Injectable } from '@nestjs/common';
 import { Article } from '@/entities/article.entity';
 import { ArticleService } from '../article/article.service';
 import { TagService } from '../tag.service';
@@ -10,16 +10,70 @@ import {
   ParsedArticleData,
   ImportProgressDto,
   StartImportResponseDto,
+  ArticleImportPreviewResponseDto,
+  ArticleImportPreviewItemDto,
+  ImportPreviewAction,
+  ResolvedArticleValues,
+  ImportStatus,
 } from '@/dto/article-import.dto';
-import { ValidationException } from '@/common/exceptions/business.exception';
+import {
+  BusinessException,
+  ValidationException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { ImportTask } from '@/entities/import-task.entity';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { ArticleParserService } from './article-parser.service';
 import { ImportProgressService } from './import-progress.service';
 import { ImportValidationService } from './import-validation.service';
 import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import {
+  ArchiveExtractorService,
+  ExtractedArchive,
+} from './archive-extractor.service';
+import { ImportAssetService } from './import-asset.service';
+import { WxrDocument, WxrParserService, WxrPost } from './wxr-parser.service';
+import { WordPressImportService } from './wordpress-import.service';
+import { ImportPreviewService } from './import-preview.service';
+import {
+  ImportCounters,
+  ImportTaskService,
+  ImportUploadFile,
+} from './import-task.service';
+
+/**
+ * 待导入的单个文件（直接上传的Markdown文件或压缩包中的Markdown文件）
+ */
+export interface ImportSourceFile {
+  filePath: string;
+  buffer: Buffer;
+  // 来自压缩包时为所属压缩包及文件在包内的路径
+  archive?: ExtractedArchive;
+  entryPath?: string;
+  // 来自 WordPress 导出文件时为解析后的文章
+  wordpress?: { document: WxrDocument; post: WxrPost };
+  // 因安全限制被拒绝的压缩包条目或不导入的 WordPress 内容，直接记为跳过
+  skipReason?: string;
+}
+
+/**
+ * 解析并通过校验、待写入的文章
+ */
+interface PreparedImport {
+  data: ParsedArticleData;
+  warnings: string[];
+  // 开启覆盖且匹配到已有文章时为被覆盖的文章
+  existingArticle?: Article;
+}
+
+// 任务超过该时间未更新进度时视为执行进程已中断，可被恢复
+const STALE_TASK_TIMEOUT = 5 * 60 * 1000;
 
 @Injectable()
 export class ArticleImportService {
+  // 当前进程中正在执行的任务
+  private readonly runningTasks = new Set<string>();
+
   constructor(
     private readonly articleService: ArticleService,
     private readonly tagService: TagService,
@@ -29,6 +83,12 @@ export class ArticleImportService {
     private readonly importProgressService: ImportProgressService,
     private readonly importValidationService: ImportValidationService,
     private readonly blogCacheService: BlogCacheService,
+    private readonly archiveExtractorService: ArchiveExtractorService,
+    private readonly importAssetService: ImportAssetService,
+    private readonly wxrParserService: WxrParserService,
+    private readonly wordPressImportService: WordPressImportService,
+    private readonly importPreviewService: ImportPreviewService,
+    private readonly importTaskService: ImportTaskService,
   ) {}
 
   /**
@@ -54,8 +114,23 @@ export class ArticleImportService {
     // 验证作者存在
     await this.importValidationService.validateAuthor(authorId);
 
+    // 展开压缩包，压缩包内的每个Markdown文件单独计入进度
+    const sources = await this.expandFiles(files);
+    if (sources.length === 0) {
+      throw new ValidationException('没有找到可导入的Markdown文件');
+    }
+
     const taskId = this.importProgressService.generateTaskId();
-    const totalFiles = files.length;
+    const totalFiles = sources.length;
+
+    // 持久化任务和原始文件，服务重启后可恢复
+    await this.importTaskService.create(
+      taskId,
+      files,
+      authorId,
+      config,
+      totalFiles,
+    );
 
     this.logger.log(
       `开始导入任务 ${taskId}，共 ${totalFiles} 个文件，作者ID: ${authorId}`,
@@ -69,49 +144,322 @@ export class ArticleImportService {
     );
 
     // 异步执行导入
-    this.executeImport(taskId, files, authorId, config).catch((error) => {
-      this.logger.error(
-        `导入任务 ${taskId} 执行失败`,
-        error instanceof Error ? error.stack : undefined,
-        {
+    this.runImportInBackground(taskId, sources, authorId, config);
+
+    return response;
+  }
+
+  /**
+   * 手动恢复导入任务
+   * 失败的任务可直接恢复；未完成的任务需执行进程已中断（超过5分钟未更新进度）
+   */
+  async resumeImportTask(taskId: string): Promise<StartImportResponseDto> {
+    const task = await this.importTaskService.findById(taskId);
+    const claimed =
+      (task.status as ImportStatus) !== ImportStatus.COMPLETED &&
+      !this.runningTasks.has(taskId) &&
+      (await this.importTaskService.claimForResume(
+        taskId,
+        new Date(Date.now() - STALE_TASK_TIMEOUT),
+      ));
+    if (!claimed) {
+      throw new BusinessException(
+        ErrorCode.IMPORT_TASK_NOT_RESUMABLE,
+        undefined,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    return await this.resumeClaimedTask(task);
+  }
+
+  /**
+   * 恢复执行进程已中断的导入任务（由定时任务调用）
+   * @returns 恢复的任务数量
+   */
+  async resumeStaleTasks(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_TASK_TIMEOUT);
+    const tasks = await this.importTaskService.findStale(staleBefore);
+    let resumed = 0;
+
+    for (const task of tasks) {
+      if (
+        this.runningTasks.has(task.id) ||
+        !(await this.importTaskService.claimForResume(task.id, staleBefore))
+      ) {
+        continue;
+      }
+
+      try {
+        await this.resumeClaimedTask(task);
+        resumed++;
+      } catch (error) {
+        this.logger.warn(`恢复导入任务 ${task.id} 失败`, {
           metadata: {
-            taskId,
+            taskId: task.id,
             error: error instanceof Error ? error.message : '未知错误',
           },
+        });
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * 导入预演（dry-run）
+   * 按与正式导入相同的规则逐个文件判断新建、更新或跳过，不写入任何数据
+   */
+  async previewImportArticles(
+    files: Express.Multer.File[],
+    authorId: string,
+    config: ArticleImportConfigDto = {},
+  ): Promise<ArticleImportPreviewResponseDto> {
+    const configErrors =
+      this.importValidationService.validateImportConfig(config);
+    if (configErrors.length > 0) {
+      throw new ValidationException('导入配置无效', configErrors);
+    }
+
+    const fileErrors = this.importValidationService.validateFiles(files);
+    if (fileErrors.length > 0) {
+      throw new ValidationException('文件验证失败', fileErrors);
+    }
+
+    await this.importValidationService.validateAuthor(authorId);
+
+    const sources = await this.expandFiles(files);
+    const response: ArticleImportPreviewResponseDto = {
+      totalFiles: sources.length,
+      createCount: 0,
+      updateCount: 0,
+      skippedCount: 0,
+      failureCount: 0,
+      newTags: [],
+      newCategories: [],
+      results: [],
+    };
+    const newTags = new Set<string>();
+    const newCategories = new Set<string>();
+
+    for (const file of sources) {
+      const item = await this.previewFile(file, authorId, config);
+      response.results.push(item);
+      item.newTags?.forEach((tag) => newTags.add(tag));
+      if (item.newCategory) {
+        newCategories.add(item.newCategory);
+      }
+
+      switch (item.action) {
+        case ImportPreviewAction.CREATE:
+          response.createCount++;
+          break;
+        case ImportPreviewAction.UPDATE:
+          response.updateCount++;
+          break;
+        case ImportPreviewAction.SKIP:
+          response.skippedCount++;
+          break;
+        default:
+          response.failureCount++;
+      }
+    }
+
+    response.newTags = [...newTags];
+    response.newCategories = [...newCategories];
+    return response;
+  }
+
+  /**
+   * 获取导入进度，内存中没有时（如服务重启后）从任务记录读取
+   */
+  async getImportProgress(taskId: string): Promise<ImportProgressDto | null> {
+    return (
+      this.importProgressService.getImportProgress(taskId) ??
+      (await this.importTaskService.getProgress(taskId))
+    );
+  }
+
+  /**
+   * 重新展开已抢占任务的原始文件，跳过已记录结果的文件继续执行
+   */
+  private async resumeClaimedTask(
+    task: ImportTask,
+  ): Promise<StartImportResponseDto> {
+    let sources: ImportSourceFile[];
+    try {
+      if (!task.authorId) {
+        throw new ValidationException('导入者账户已删除，无法恢复任务');
+      }
+      sources = await this.expandFiles(
+        await this.importTaskService.loadSources(task),
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      await this.importTaskService.markFailed(task.id, errorMessage);
+      throw error;
+    }
+
+    const completed = await this.importTaskService.getResults(task.id);
+    this.logger.log(
+      `恢复导入任务 ${task.id}，已处理 ${completed.length}/${sources.length} 个文件`,
+      {
+        metadata: {
+          taskId: task.id,
+          processedFiles: completed.length,
+          totalFiles: sources.length,
+          resumeCount: task.resumeCount + 1,
         },
+      },
+    );
+
+    const response = this.importProgressService.initializeProgress(
+      task.id,
+      sources.length,
+    );
+    this.runImportInBackground(
+      task.id,
+      sources,
+      task.authorId,
+      task.config,
+      completed,
+    );
+
+    return { ...response, message: '导入任务已恢复' };
+  }
+
+  /**
+   * 在后台执行导入任务
+   */
+  private runImportInBackground(
+    taskId: string,
+    sources: ImportSourceFile[],
+    authorId: string,
+    config: ArticleImportConfigDto,
+    completed: ArticleImportResultDto[] = [],
+  ): void {
+    this.executeImport(taskId, sources, authorId, config, completed).catch(
+      (error) => {
+        this.logger.error(
+          `导入任务 ${taskId} 执行失败`,
+          error instanceof Error ? error.stack : undefined,
+          {
+            metadata: {
+              taskId,
+              error: error instanceof Error ? error.message : '未知错误',
+            },
+          },
+        );
+      },
+    );
+  }
+
+  /**
+   * 将上传的文件展开为待导入文件列表
+   */
+  private async expandFiles(
+    files: ImportUploadFile[],
+  ): Promise<ImportSourceFile[]> {
+    const sources: ImportSourceFile[] = [];
+
+    for (const file of files) {
+      const fileName = this.articleParserService.decodeFileName(
+        file.originalname,
       );
-    });
+      if (this.wxrParserService.isWxrFile(fileName, file.mimetype)) {
+        sources.push(...this.expandWxrFile(fileName, file.buffer));
+        continue;
+      }
+      if (!this.archiveExtractorService.isArchive(fileName, file.mimetype)) {
+        sources.push({ filePath: fileName, buffer: file.buffer });
+        continue;
+      }
 
-    return response;
+      const archive = await this.archiveExtractorService.extract(
+        fileName,
+        file.buffer,
+      );
+      for (const { path: entryPath, reason } of archive.rejected) {
+        sources.push({
+          filePath: `${fileName}/${entryPath}`,
+          buffer: Buffer.alloc(0),
+          skipReason: reason,
+        });
+      }
+      for (const entry of archive.markdownFiles) {
+        sources.push({
+          filePath: `${fileName}/${entry.path}`,
+          buffer: entry.buffer,
+          archive,
+          entryPath: entry.path,
+        });
+      }
+    }
+
+    return sources;
   }
 
   /**
-   * 获取导入进度
+   * 将 WordPress 导出文件展开为待导入文章，每篇文章单独计入进度
    */
-  getImportProgress(taskId: string): ImportProgressDto | null {
-    return this.importProgressService.getImportProgress(taskId);
+  private expandWxrFile(fileName: string, buffer: Buffer): ImportSourceFile[] {
+    const document = this.wxrParserService.parse(fileName, buffer);
+    const sources: ImportSourceFile[] = document.skipped.map(
+      ({ title, reason }) => ({
+        filePath: `${fileName}/${title}`,
+        buffer: Buffer.alloc(0),
+        skipReason: reason,
+      }),
+    );
+
+    for (const post of document.posts) {
+      sources.push({
+        filePath: `${fileName}/${post.data.title || post.id}`,
+        buffer: Buffer.alloc(0),
+        wordpress: { document, post },
+      });
+    }
+
+    this.logger.log(
+      `解析 WordPress 导出文件 ${fileName}，文章 ${document.posts.length} 篇，跳过 ${document.skipped.length} 项`,
+      {
+        metadata: {
+          fileName,
+          siteUrl: document.siteUrl,
+          posts: document.posts.length,
+          skipped: document.skipped.length,
+        },
+      },
+    );
+
+    return sources;
   }
 
   /**
    * 执行导入任务
+   * @param completed 恢复任务时已记录结果的文件，不再重复处理
    */
   private async executeImport(
     taskId: string,
-    files: Express.Multer.File[],
+    files: ImportSourceFile[],
     authorId: string,
     config: ArticleImportConfigDto,
+    completed: ArticleImportResultDto[] = [],
   ): Promise<void> {
+    this.runningTasks.add(taskId);
     try {
       this.logger.log(`开始执行导入任务 ${taskId}`, { metadata: { taskId } });
 
       // 更新状态为处理中
       this.importProgressService.markAsProcessing(taskId);
+      await this.importTaskService.markProcessing(taskId);
 
       const result = await this.processImportTask(
         files,
         authorId,
         config,
         taskId,
+        completed,
       );
 
       this.logger.log(
@@ -127,6 +475,11 @@ export class ArticleImportService {
       );
 
       // 更新为完成状态
+      await this.importTaskService.markCompleted(taskId, files.length, {
+        successCount: result.successCount,
+        failureCount: result.failureCount,
+        skippedCount: result.skippedCount,
+      });
       this.importProgressService.markTaskCompleted(taskId, result.results);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '未知错误';
@@ -138,6 +491,16 @@ export class ArticleImportService {
 
       // 更新为失败状态
       this.importProgressService.markAsFailed(taskId, errorMessage);
+      await this.importTaskService
+        .markFailed(taskId, errorMessage)
+        .catch((markError: unknown) =>
+          this.logger.error(
+            `更新导入任务 ${taskId} 状态失败`,
+            markError instanceof Error ? markError.stack : undefined,
+          ),
+        );
+    } finally {
+      this.runningTasks.delete(taskId);
     }
   }
 
@@ -145,16 +508,24 @@ export class ArticleImportService {
    * 处理导入任务
    */
   private async processImportTask(
-    files: Express.Multer.File[],
+    files: ImportSourceFile[],
     authorId: string,
     config: ArticleImportConfigDto = {},
     taskId?: string,
+    completed: ArticleImportResultDto[] = [],
   ): Promise<ArticleImportResponseDto> {
     const startTime = Date.now();
 
     // 处理文件
     const { results, successCount, failureCount, skippedCount } =
-      await this.processFiles(files, authorId, config, taskId, startTime);
+      await this.processFiles(
+        files,
+        authorId,
+        config,
+        taskId,
+        startTime,
+        completed,
+      );
 
     // 清除相关缓存，确保用户端能看到最新数据
     await this.clearCachesAfterImport();
@@ -177,32 +548,50 @@ export class ArticleImportService {
    * 处理所有文件
    */
   private async processFiles(
-    files: Express.Multer.File[],
+    files: ImportSourceFile[],
     authorId: string,
     config: ArticleImportConfigDto,
     taskId: string | undefined,
     startTime: number,
+    completed: ArticleImportResultDto[] = [],
   ): Promise<{
     results: ArticleImportResultDto[];
     successCount: number;
     failureCount: number;
     skippedCount: number;
   }> {
-    const results: ArticleImportResultDto[] = [];
-    const counters = { successCount: 0, failureCount: 0, skippedCount: 0 };
+    const results: ArticleImportResultDto[] = [...completed];
+    const counters: ImportCounters = {
+      successCount: 0,
+      failureCount: 0,
+      skippedCount: 0,
+    };
+    completed.forEach((result) => this.updateCounters(result, counters));
+    // 展开结果按路径计数，同名文件按出现顺序依次跳过
+    const remainingCompleted = new Map<string, number>();
+    for (const { filePath } of completed) {
+      remainingCompleted.set(
+        filePath,
+        (remainingCompleted.get(filePath) ?? 0) + 1,
+      );
+    }
     const batchSize = 5; // 批量处理大小
     const maxConcurrency = 3; // 最大并发数
 
     // 分批处理文件
     for (let i = 0; i < files.length; i += batchSize) {
-      const batch = files.slice(i, i + batchSize);
+      const batch = files
+        .slice(i, i + batchSize)
+        .map((file, batchIndex) => ({ file, globalIndex: i + batchIndex }))
+        .filter(({ file }) => {
+          const count = remainingCompleted.get(file.filePath) ?? 0;
+          remainingCompleted.set(file.filePath, count - 1);
+          return count <= 0;
+        });
 
       // 并发处理当前批次，但限制并发数
-      const batchPromises = batch.map(async (file, batchIndex) => {
-        const globalIndex = i + batchIndex;
-        const fileName = this.articleParserService.decodeFileName(
-          file.originalname,
-        );
+      const batchPromises = batch.map(async ({ file, globalIndex }) => {
+        const fileName = file.filePath;
 
         // 更新当前处理的文件
         if (taskId) {
@@ -214,9 +603,9 @@ export class ArticleImportService {
           );
         }
 
+        let result: ArticleImportResultDto;
         try {
-          const result = await this.processFile(file, authorId, config);
-          return { result, index: globalIndex };
+          result = await this.processFile(file, authorId, config);
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : '未知错误';
@@ -224,14 +613,21 @@ export class ArticleImportService {
             metadata: { fileName, error: errorMessage },
           });
 
-          return {
-            result: this.importValidationService.createErrorResult(
-              fileName,
-              errorMessage,
-            ),
-            index: globalIndex,
-          };
+          result = this.importValidationService.createErrorResult(
+            fileName,
+            errorMessage,
+          );
         }
+
+        // 逐个文件记录结果，恢复任务时据此跳过已处理的文件
+        if (taskId) {
+          await this.importTaskService.recordResult(
+            taskId,
+            globalIndex,
+            result,
+          );
+        }
+        return { result, index: globalIndex };
       });
 
       // 限制并发执行
@@ -256,6 +652,12 @@ export class ArticleImportService {
           counters,
           startTime,
         );
+        await this.importTaskService.updateProgress(
+          taskId,
+          processedCount,
+          counters,
+          batch[batch.length - 1]?.file.filePath,
+        );
       }
     }
 
@@ -318,17 +720,129 @@ export class ArticleImportService {
    * 处理单个文件
    */
   private async processFile(
-    file: Express.Multer.File,
+    file: ImportSourceFile,
     authorId: string,
     config: ArticleImportConfigDto,
   ): Promise<ArticleImportResultDto> {
-    const filePath = this.articleParserService.decodeFileName(
-      file.originalname,
-    );
+    const filePath = file.filePath;
 
     try {
+      const prepared = await this.prepareSource(file, config);
+      if (!('data' in prepared)) {
+        return prepared;
+      }
+
+      if (file.wordpress) {
+        return await this.processWordPressPost(
+          filePath,
+          file.wordpress,
+          prepared,
+          authorId,
+          config,
+        );
+      }
+
+      const { data: parsedData, warnings } = prepared;
+
+      // 压缩包中的文章：上传引用的本地图片并改写链接
+      let uploadedImages: number | undefined;
+      if (file.archive && file.entryPath) {
+        const rewrite = await this.importAssetService.rewriteContent(
+          parsedData.content ?? '',
+          file.entryPath,
+          file.archive,
+          authorId,
+        );
+        parsedData.content = rewrite.content;
+        parsedData.coverImage = await this.importAssetService.rewriteUrl(
+          parsedData.coverImage,
+          file.entryPath,
+          file.archive,
+          authorId,
+        );
+        parsedData.socialImage = await this.importAssetService.rewriteUrl(
+          parsedData.socialImage,
+          file.entryPath,
+          file.archive,
+          authorId,
+        );
+        uploadedImages = rewrite.uploadedImages;
+        rewrite.missing.forEach((url) =>
+          warnings.push(`图片 ${url} 未在压缩包中找到或上传失败，保留原链接`),
+        );
+      }
+
+      // 创建文章
+      const article = await this.createArticleFromData(
+        parsedData,
+        authorId,
+        config,
+        prepared.existingArticle,
+      );
+
+      this.logger.debug(`成功处理文件: ${filePath}, 文章ID: ${article.id}`, {
+        metadata: { filePath, articleId: article.id },
+      });
+
+      return {
+        filePath,
+        success: true,
+        articleId: article.id,
+        title: article.title,
+        warnings,
+        uploadedImages,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      this.logger.error(
+        `处理文件 ${filePath} 失败: ${errorMessage}`,
+        error instanceof Error ? error.stack : undefined,
+        {
+          metadata: { filePath, error: errorMessage },
+        },
+      );
+      return this.importValidationService.createErrorResult(
+        filePath,
+        errorMessage,
+      );
+    }
+  }
+
+  /**
+   * 解析并校验待导入文件，得到可写入的文章数据（导入和预演共用，不写入任何数据）
+   * 文件被跳过或校验失败时返回对应的结果
+   */
+  private async prepareSource(
+    file: ImportSourceFile,
+    config: ArticleImportConfigDto,
+  ): Promise<PreparedImport | ArticleImportResultDto> {
+    const filePath = file.filePath;
+
+    if (file.skipReason) {
+      return this.importValidationService.createSkippedResult(
+        filePath,
+        file.skipReason,
+      );
+    }
+
+    let parsedData: ParsedArticleData;
+    let warnings: string[];
+    if (file.wordpress) {
+      // 每次导入使用副本，避免改写影响解析结果
+      parsedData = { ...file.wordpress.post.data };
+      warnings = [...file.wordpress.post.warnings];
+      if (!parsedData.title) {
+        return this.importValidationService.createErrorResult(
+          filePath,
+          '文章标题为空',
+        );
+      }
+    } else {
       // 验证单个文件
-      const fileErrors = this.importValidationService.validateSingleFile(file);
+      const fileErrors = this.importValidationService.validateSingleFile(
+        file.buffer,
+        filePath,
+      );
       if (fileErrors.length > 0) {
         return this.importValidationService.createErrorResult(
           filePath,
@@ -367,66 +881,174 @@ export class ArticleImportService {
         }
       }
 
-      const parsedData = validationResult.data!;
+      parsedData = validationResult.data!;
+      warnings = [...validationResult.warnings];
+    }
 
-      // 验证解析后的数据
-      const dataErrors =
-        this.importValidationService.validateParsedData(parsedData);
-      const dateErrors = this.importValidationService.validateDates(parsedData);
-      const allErrors = [...dataErrors, ...dateErrors];
+    // 验证解析后的数据
+    const dataErrors =
+      this.importValidationService.validateParsedData(parsedData);
+    const dateErrors = this.importValidationService.validateDates(parsedData);
+    const allErrors = [...dataErrors, ...dateErrors];
 
-      if (allErrors.length > 0) {
-        return this.importValidationService.createErrorResult(
+    if (allErrors.length > 0) {
+      return this.importValidationService.createErrorResult(
+        filePath,
+        allErrors.join('; '),
+      );
+    }
+
+    // 检查是否已存在相同的文章
+    const importCheck =
+      await this.importValidationService.validateFileForImport(
+        parsedData,
+        config,
+        filePath,
+      );
+
+    if (!importCheck.canImport) {
+      return importCheck.result!;
+    }
+
+    return {
+      data: parsedData,
+      warnings,
+      existingArticle: importCheck.existingArticle,
+    };
+  }
+
+  /**
+   * 预演单个文件
+   */
+  private async previewFile(
+    file: ImportSourceFile,
+    authorId: string,
+    config: ArticleImportConfigDto,
+  ): Promise<ArticleImportPreviewItemDto> {
+    const filePath = file.filePath;
+
+    try {
+      const prepared = await this.prepareSource(file, config);
+      if (!('data' in prepared)) {
+        return {
           filePath,
-          allErrors.join('; '),
-        );
+          action: prepared.skipped
+            ? ImportPreviewAction.SKIP
+            : ImportPreviewAction.ERROR,
+          error: prepared.error,
+          warnings: prepared.warnings,
+        };
       }
 
-      // 检查是否已存在相同的文章
-      const validationResult2 =
-        await this.importValidationService.validateFileForImport(
-          parsedData,
-          config,
-          filePath,
-        );
+      const { data, warnings, existingArticle } = prepared;
+      const values = this.resolveArticleValues(data, config);
+      const item: ArticleImportPreviewItemDto = {
+        filePath,
+        action: existingArticle
+          ? ImportPreviewAction.UPDATE
+          : ImportPreviewAction.CREATE,
+        title: data.title,
+        existingArticleId: existingArticle?.id,
+        ...(await this.importPreviewService.findNewTerms(values)),
+        warnings,
+      };
 
-      if (!validationResult2.canImport) {
-        return validationResult2.result!;
+      if (existingArticle) {
+        item.diff = await this.importPreviewService.diff(
+          existingArticle.id,
+          values,
+        );
       }
 
-      // 创建文章
-      const article = await this.createArticleFromData(
-        parsedData,
-        authorId,
-        config,
-        validationResult2.existingArticle,
-      );
+      // 压缩包中的图片在正式导入时才上传，差异中的图片地址为原始相对路径
+      if (file.archive && file.entryPath) {
+        const assets = this.importAssetService.inspectContent(
+          data.content,
+          file.entryPath,
+          file.archive,
+          [data.coverImage, data.socialImage],
+        );
+        item.images = assets.images;
+        assets.missing.forEach((url) =>
+          warnings.push(`图片 ${url} 未在压缩包中找到，将保留原链接`),
+        );
+      }
 
-      this.logger.debug(`成功处理文件: ${filePath}, 文章ID: ${article.id}`, {
-        metadata: { filePath, articleId: article.id },
-      });
+      if (file.wordpress) {
+        const { document, post } = file.wordpress;
+        const author = await this.wordPressImportService.resolveAuthor(
+          document,
+          post.authorLogin,
+          authorId,
+        );
+        if (author.warning) {
+          warnings.push(author.warning);
+        }
+        item.comments = existingArticle ? 0 : post.comments.length;
+        if (existingArticle && post.comments.length > 0) {
+          warnings.push('覆盖已存在的文章时不导入评论');
+        }
+      }
 
+      return item;
+    } catch (error) {
       return {
         filePath,
-        success: true,
-        articleId: article.id,
-        title: article.title,
-        warnings: validationResult.warnings,
+        action: ImportPreviewAction.ERROR,
+        error: error instanceof Error ? error.message : '未知错误',
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
-      this.logger.error(
-        `处理文件 ${filePath} 失败: ${errorMessage}`,
-        error instanceof Error ? error.stack : undefined,
-        {
-          metadata: { filePath, error: errorMessage },
-        },
-      );
-      return this.importValidationService.createErrorResult(
-        filePath,
-        errorMessage,
+    }
+  }
+
+  /**
+   * 处理 WordPress 导出文件中的单篇文章
+   * 作者按邮箱或用户名匹配本站用户，新建文章时一并导入已批准的评论
+   */
+  private async processWordPressPost(
+    filePath: string,
+    { document, post }: { document: WxrDocument; post: WxrPost },
+    { data: parsedData, warnings, existingArticle }: PreparedImport,
+    importerId: string,
+    config: ArticleImportConfigDto,
+  ): Promise<ArticleImportResultDto> {
+    const author = await this.wordPressImportService.resolveAuthor(
+      document,
+      post.authorLogin,
+      importerId,
+    );
+    if (author.warning) {
+      warnings.push(author.warning);
+    }
+
+    const article = await this.createArticleFromData(
+      parsedData,
+      author.authorId,
+      config,
+      existingArticle,
+    );
+
+    // 覆盖已有文章时评论已存在，不重复导入
+    let importedComments: number | undefined;
+    if (existingArticle) {
+      if (post.comments.length > 0) {
+        warnings.push('覆盖已存在的文章时不导入评论');
+      }
+    } else {
+      importedComments = await this.wordPressImportService.importComments(
+        document,
+        article.id,
+        post.comments,
       );
     }
+
+    return {
+      filePath,
+      success: true,
+      articleId: article.id,
+      title: article.title,
+      warnings,
+      importedComments,
+    };
   }
 
   /**
@@ -458,21 +1080,52 @@ export class ArticleImportService {
     config: ArticleImportConfigDto,
     existingArticle?: Article,
   ): Promise<Article> {
+    const { categoryName, tagNames, fields } = this.resolveArticleValues(
+      data,
+      config,
+    );
+
     // 处理分类
     let categoryId: string | undefined;
-    const categoryName = data.category || config.defaultCategory;
     if (categoryName) {
       // 使用CategoryService创建或查找分类
       const category = await this.categoryService.findOrCreate(categoryName);
       categoryId = category.id;
     }
 
-    // 处理标签
-    const tagNames = [...(data.tags || []), ...(config.defaultTags || [])];
     // 使用TagService创建或查找标签
     const tags = await this.tagService.createOrFindTags(tagNames);
     const tagIds = tags.map((tag) => tag.id);
 
+    // 处理覆盖逻辑
+    if (config.overwriteExisting && existingArticle) {
+      // 更新现有文章
+      const updateData = { ...fields, categoryId, tagIds };
+
+      // 使用ArticleService的update方法
+      return await this.articleService.update(existingArticle.id, updateData);
+    }
+
+    // 创建新文章 - 使用ArticleService的create方法
+    const createData = {
+      ...fields,
+      slug: data.slug, // 可能为undefined，让ArticleService处理
+      categoryId,
+      authorId,
+      tagIds,
+      isVisible: true,
+    };
+
+    return await this.articleService.create(createData);
+  }
+
+  /**
+   * 计算写入文章的分类、标签和字段值（导入和预演共用）
+   */
+  private resolveArticleValues(
+    data: ParsedArticleData,
+    config: ArticleImportConfigDto,
+  ): ResolvedArticleValues {
     // 生成摘要（如果没有）
     const summary =
       data.summary || this.articleParserService.generateSummary(data.content);
@@ -480,19 +1133,15 @@ export class ArticleImportService {
     // 确定状态
     const status = config.autoPublish ? 'published' : data.status || 'draft';
 
-    // 处理覆盖逻辑
-    if (config.overwriteExisting && existingArticle) {
-      // 更新现有文章
-      const updateData = {
+    return {
+      categoryName: data.category || config.defaultCategory,
+      tagNames: [...(data.tags || []), ...(config.defaultTags || [])],
+      fields: {
         title: data.title,
         content: data.content,
         summary,
         coverImage: data.coverImage,
         status,
-        categoryId,
-        tagIds,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt,
         publishedAt:
           status === 'published'
             ? data.publishedAt || new Date()
@@ -505,41 +1154,10 @@ export class ArticleImportService {
         socialImage: data.socialImage,
         readingTime: data.readingTime,
         weight: data.weight || 0,
-      };
-
-      // 使用ArticleService的update方法
-      return await this.articleService.update(existingArticle.id, updateData);
-    }
-
-    // 创建新文章 - 使用ArticleService的create方法
-    const createData = {
-      title: data.title,
-      content: data.content,
-      summary,
-      slug: data.slug, // 可能为undefined，让ArticleService处理
-      coverImage: data.coverImage,
-      status,
-      categoryId,
-      authorId,
-      tagIds,
-      publishedAt:
-        status === 'published'
-          ? data.publishedAt || new Date()
-          : data.publishedAt,
-      isFeatured: data.isFeatured || false,
-      isTop: data.isTop || false,
-      allowComment: data.allowComment !== false,
-      metaDescription: data.metaDescription,
-      metaKeywords: data.metaKeywords,
-      socialImage: data.socialImage,
-      readingTime: data.readingTime,
-      weight: data.weight || 0,
-      isVisible: true,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+      },
     };
-
-    return await this.articleService.create(createData);
   }
 
   /**
@@ -273,7 +273,9 @@ export class ArticleParserService {
   /**
    * 标准化关键词
    */
-  private normalizeKeywords(keywords: string | string[] | undefined): string[] {
+  private normalizeKeywords(
+    keywords: string | string[] | null | undefined,
+  ): string[] {
     if (!keywords) return [];
 
     if (typeof keywords === 'string') {
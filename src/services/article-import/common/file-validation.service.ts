@@ -57,6 +57,17 @@ export class FileValidationService {
    */
   validateFilesContent(files: Express.Multer.File[]): FileValidationResponse {
     const results = files.map((file): FileValidationResultItem => {
+      if (/\.(zip|xml|wxr)$/i.test(file.originalname)) {
+        return {
+          filename: file.originalname,
+          isValid: false,
+          errors: ['不支持验证压缩包和WordPress导出文件，请直接导入'],
+          warnings: [],
+          title: undefined,
+          hasContent: false,
+        };
+      }
+
       try {
         const content = file.buffer.toString('utf-8');
         const validation = this.articleParserService.validateAndParseFile(
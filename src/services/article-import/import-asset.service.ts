@@ -0,0 +1,277 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { MediaService } from '@/services/media';
+import { ExtractedArchive } from './archive-extractor.service';
+
+/**
+ * 改写结果
+ */
+export interface AssetRewriteResult {
+  content: string;
+  // 本篇文章引用并成功关联的图片数量
+  uploadedImages: number;
+  // 在压缩包中找不到的图片引用
+  missing: string[];
+}
+
+// Markdown图片：![alt](url "title")
+const MARKDOWN_IMAGE_PATTERN =
+  /(!\[[^\]]*\]\(\s*)(<[^>]+>|[^)\s]+)((?:\s+(?:"[^"]*"|'[^']*'))?\s*\))/g;
+// 引用式链接定义：[id]: url "title"
+const REFERENCE_DEFINITION_PATTERN = /^(\s{0,3}\[[^\]]+\]:\s*)(<[^>]+>|\S+)/gm;
+// HTML图片：<img src="url">
+const HTML_IMAGE_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+// Hexo资源标签：{% asset_img name.png 标题 %}
+const HEXO_ASSET_PATTERN = /\{%\s*asset_img\s+(\S+)(?:\s+(.*?))?\s*%\}/g;
+
+const IMAGE_URL_PATTERN = /\.(jpe?g|png|gif|webp)(?:[?#].*)?$/i;
+
+// Hugo、Hexo 中站点根路径对应的静态资源目录
+const STATIC_ROOTS = ['', 'static', 'source', 'public'];
+
+/**
+ * 导入资源服务
+ * 将压缩包内 Markdown 引用的本地图片上传到媒体库，并把相对路径改写为访问地址
+ */
+@Injectable()
+export class ImportAssetService {
+  // 同一压缩包内的图片只上传一次（并发导入时共享同一个上传Promise）
+  private readonly uploads = new WeakMap<
+    ExtractedArchive,
+    Map<string, Promise<string>>
+  >();
+
+  constructor(private readonly mediaService: MediaService) {}
+
+  /**
+   * 改写正文中的图片引用
+   * @param markdownPath 文章在压缩包中的路径，用于解析相对路径
+   */
+  async rewriteContent(
+    content: string,
+    markdownPath: string,
+    archive: ExtractedArchive,
+    uploaderId: string,
+  ): Promise<AssetRewriteResult> {
+    const resolved = this.collectReferences(content, markdownPath, archive);
+
+    const urls = new Map<string, string>();
+    const missing: string[] = [];
+    for (const [url, assetPath] of resolved) {
+      if (!assetPath) {
+        if (this.isLocalReference(url)) {
+          missing.push(url);
+        }
+        continue;
+      }
+      try {
+        urls.set(url, await this.upload(assetPath, archive, uploaderId));
+      } catch {
+        missing.push(url);
+      }
+    }
+
+    const rewritten = content
+      .replace(
+        MARKDOWN_IMAGE_PATTERN,
+        (whole, head: string, url: string, tail: string) => {
+          const target = urls.get(this.unwrap(url));
+          return target ? `${head}${target}${tail}` : whole;
+        },
+      )
+      .replace(
+        REFERENCE_DEFINITION_PATTERN,
+        (whole, head: string, url: string) => {
+          const target = urls.get(this.unwrap(url));
+          return target ? `${head}${target}` : whole;
+        },
+      )
+      .replace(
+        HTML_IMAGE_PATTERN,
+        (whole, head: string, quote: string, url: string) => {
+          const target = urls.get(url);
+          return target ? `${head}${quote}${target}${quote}` : whole;
+        },
+      )
+      .replace(HEXO_ASSET_PATTERN, (whole, url: string, title?: string) => {
+        const target = urls.get(url);
+        return target ? `![${title ?? ''}](${target})` : whole;
+      });
+
+    return { content: rewritten, uploadedImages: urls.size, missing };
+  }
+
+  /**
+   * 统计正文和指定图片地址中能在压缩包内找到的图片，不上传（用于导入预演）
+   */
+  inspectContent(
+    content: string,
+    markdownPath: string,
+    archive: ExtractedArchive,
+    extraUrls: (string | null | undefined)[] = [],
+  ): { images: number; missing: string[] } {
+    const resolved = this.collectReferences(content, markdownPath, archive);
+    for (const url of extraUrls) {
+      if (url && !resolved.has(url)) {
+        resolved.set(url, this.resolveAsset(url, markdownPath, archive));
+      }
+    }
+
+    const assets = new Set<string>();
+    const missing: string[] = [];
+    for (const [url, assetPath] of resolved) {
+      if (assetPath) {
+        assets.add(assetPath);
+      } else if (this.isLocalReference(url)) {
+        missing.push(url);
+      }
+    }
+    return { images: assets.size, missing };
+  }
+
+  /**
+   * 改写单个图片地址（封面图、社交分享图），找不到时原样返回
+   */
+  async rewriteUrl(
+    url: string | null | undefined,
+    markdownPath: string,
+    archive: ExtractedArchive,
+    uploaderId: string,
+  ): Promise<string | null | undefined> {
+    if (!url) {
+      return url;
+    }
+    const assetPath = this.resolveAsset(url, markdownPath, archive);
+    return assetPath ? await this.upload(assetPath, archive, uploaderId) : url;
+  }
+
+  /**
+   * 收集正文中的图片引用，并解析为压缩包内的资源路径（找不到时为 null）
+   */
+  private collectReferences(
+    content: string,
+    markdownPath: string,
+    archive: ExtractedArchive,
+  ): Map<string, string | null> {
+    const resolved = new Map<string, string | null>();
+    const collect = (url: string): void => {
+      if (!resolved.has(url)) {
+        resolved.set(url, this.resolveAsset(url, markdownPath, archive));
+      }
+    };
+
+    for (const match of content.matchAll(MARKDOWN_IMAGE_PATTERN)) {
+      collect(this.unwrap(match[2]));
+    }
+    // 引用式定义也可能是普通链接，只处理图片
+    for (const match of content.matchAll(REFERENCE_DEFINITION_PATTERN)) {
+      const url = this.unwrap(match[2]);
+      if (IMAGE_URL_PATTERN.test(url)) {
+        collect(url);
+      }
+    }
+    for (const match of content.matchAll(HTML_IMAGE_PATTERN)) {
+      collect(match[3]);
+    }
+    for (const match of content.matchAll(HEXO_ASSET_PATTERN)) {
+      collect(match[1]);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * 在压缩包中查找图片引用对应的文件
+   * 依次尝试：相对文章所在目录、Hexo 资源文件夹（与文章同名的目录）、
+   * 站点根路径（含 static/source/public 目录），最后按路径后缀匹配
+   */
+  private resolveAsset(
+    url: string,
+    markdownPath: string,
+    archive: ExtractedArchive,
+  ): string | null {
+    if (!this.isLocalReference(url)) {
+      return null;
+    }
+
+    let reference: string;
+    try {
+      reference = decodeURIComponent(url.replace(/[?#].*$/, ''));
+    } catch {
+      reference = url.replace(/[?#].*$/, '');
+    }
+
+    const dir = path.posix.dirname(markdownPath);
+    const candidates: string[] = [];
+    if (reference.startsWith('/')) {
+      STATIC_ROOTS.forEach((root) =>
+        candidates.push(path.posix.join(root, reference)),
+      );
+    } else {
+      const assetFolder = path.posix.join(
+        dir,
+        path.posix.basename(markdownPath, path.posix.extname(markdownPath)),
+      );
+      candidates.push(
+        path.posix.join(dir, reference),
+        path.posix.join(assetFolder, reference),
+      );
+    }
+
+    for (const candidate of candidates) {
+      const normalized = path.posix.normalize(candidate).replace(/^\/+/, '');
+      if (!normalized.startsWith('..') && archive.assets.has(normalized)) {
+        return normalized;
+      }
+    }
+
+    // 压缩包通常带有一层顶级目录，按路径后缀匹配，取最短的路径
+    const suffix = `/${path.posix.normalize(reference).replace(/^(\.\.?\/)+|^\/+/g, '')}`;
+    const matches = Array.from(archive.assets.keys())
+      .filter((assetPath) => `/${assetPath}`.endsWith(suffix))
+      .sort((a, b) => a.length - b.length);
+    return matches[0] ?? null;
+  }
+
+  private async upload(
+    assetPath: string,
+    archive: ExtractedArchive,
+    uploaderId: string,
+  ): Promise<string> {
+    let uploads = this.uploads.get(archive);
+    if (!uploads) {
+      uploads = new Map();
+      this.uploads.set(archive, uploads);
+    }
+
+    let pending = uploads.get(assetPath);
+    if (!pending) {
+      pending = this.mediaService
+        .uploadBuffer(
+          archive.assets.get(assetPath)!,
+          path.posix.basename(assetPath),
+          { tags: ['import'] },
+          uploaderId,
+        )
+        .then((media) => media.url);
+      uploads.set(assetPath, pending);
+    }
+    return await pending;
+  }
+
+  /**
+   * 是否为指向本地文件的引用（排除带协议的地址、协议相对地址、锚点和data URL）
+   */
+  private isLocalReference(url: string): boolean {
+    return (
+      url.length > 0 &&
+      !/^[a-z][a-z0-9+.-]*:/i.test(url) &&
+      !url.startsWith('//') &&
+      !url.startsWith('#')
+    );
+  }
+
+  private unwrap(url: string): string {
+    return url.startsWith('<') && url.endsWith('>') ? url.slice(1, -1) : url;
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Article } from '@/entities/article.entity';
+import { Tag } from '@/entities/tag.entity';
+import { Category } from '@/entities/category.entity';
+import {
+  ArticleImportFieldDiffDto,
+  ResolvedArticleValues,
+} from '@/dto/article-import.dto';
+
+/**
+ * 导入预演服务
+ * 只读查询，计算导入将新建的标签、分类以及覆盖已有文章时的字段差异
+ */
+@Injectable()
+export class ImportPreviewService {
+  constructor(
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+  ) {}
+
+  /**
+   * 查找导入时会新建的标签和分类（与 TagService、CategoryService 一样按名称匹配）
+   */
+  async findNewTerms(
+    values: ResolvedArticleValues,
+  ): Promise<{ newTags: string[]; newCategory?: string }> {
+    const tagNames = [...new Set(values.tagNames)];
+    const existingTags =
+      tagNames.length > 0
+        ? await this.tagRepository.find({
+            where: { name: In(tagNames) },
+            select: ['name'],
+          })
+        : [];
+    const existingTagNames = existingTags.map((tag) => tag.name);
+
+    let newCategory: string | undefined;
+    if (values.categoryName) {
+      const exists = await this.categoryRepository.exists({
+        where: { name: values.categoryName },
+      });
+      newCategory = exists ? undefined : values.categoryName;
+    }
+
+    return {
+      newTags: tagNames.filter((name) => !existingTagNames.includes(name)),
+      newCategory,
+    };
+  }
+
+  /**
+   * 计算覆盖已有文章时会发生变化的字段
+   * 未提供的字段（undefined）更新时保持原值，不计入差异
+   */
+  async diff(
+    articleId: string,
+    values: ResolvedArticleValues,
+  ): Promise<ArticleImportFieldDiffDto[]> {
+    const article = await this.articleRepository.findOne({
+      where: { id: articleId },
+      relations: ['category', 'tags'],
+    });
+    if (!article) {
+      return [];
+    }
+
+    const diff: ArticleImportFieldDiffDto[] = [];
+    const compare = (field: string, before: unknown, after: unknown): void => {
+      if (after === undefined) {
+        return;
+      }
+      const normalizedBefore = this.normalize(before);
+      const normalizedAfter = this.normalize(after);
+      if (
+        JSON.stringify(normalizedBefore) !== JSON.stringify(normalizedAfter)
+      ) {
+        diff.push({
+          field,
+          before: normalizedBefore,
+          after: normalizedAfter,
+        });
+      }
+    };
+
+    for (const [field, value] of Object.entries(values.fields)) {
+      compare(field, article[field as keyof Article], value);
+    }
+    compare('category', article.category?.name, values.categoryName);
+    // 标签按导入结果整体替换
+    compare(
+      'tags',
+      (article.tags ?? []).map((tag) => tag.name).sort(),
+      [...new Set(values.tagNames)].sort(),
+    );
+
+    return diff;
+  }
+
+  /**
+   * 统一比较格式：日期转为ISO字符串，空值统一为 null
+   */
+  private normalize(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value.toISOString();
+    }
+    return value;
+  }
+}
@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  Observable,
+  Subject,
+  defer,
+  distinctUntilChanged,
+  filter,
+  interval,
+  map,
+  merge,
+  startWith,
+  switchMap,
+  takeWhile,
+} from 'rxjs';
+import { ImportProgressDto, ImportStatus } from '@/dto/article-import.dto';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import {
+  IMPORT_EVENTS,
+  ImportProgressUpdatedEvent,
+} from '@/events/import.events';
+import { ArticleImportService } from './article-import.service';
+import { ImportProgressService } from './import-progress.service';
+
+// 心跳间隔，避免代理或负载均衡因连接空闲而断开
+const HEARTBEAT_INTERVAL = 15 * 1000;
+// 任务不在本实例内存中时（服务重启后或在其他实例执行），轮询任务记录的间隔
+const POLL_INTERVAL = 5 * 1000;
+
+const HEARTBEAT_FRAME = ': heartbeat\n\n';
+
+interface ProgressMessage {
+  id: string;
+  progress: ImportProgressDto;
+}
+
+/**
+ * 导入进度 SSE 推送服务
+ * 监听进度更新事件并转换为 text/event-stream 帧，支持心跳和 Last-Event-ID 断线重连
+ */
+@Injectable()
+export class ImportProgressStreamService {
+  private readonly updates = new Subject<ImportProgressDto>();
+  // 各任务最近一次进度快照及其事件ID，进度未变化时重连不重复推送
+  private readonly snapshots = new Map<string, { id: string; json: string }>();
+  private sequence = Date.now();
+
+  constructor(
+    private readonly articleImportService: ArticleImportService,
+    private readonly importProgressService: ImportProgressService,
+  ) {}
+
+  @OnEvent(IMPORT_EVENTS.PROGRESS_UPDATED)
+  handleProgressUpdated(event: ImportProgressUpdatedEvent): void {
+    this.updates.next(event.progress);
+  }
+
+  /**
+   * 订阅任务进度，返回待写入响应的 SSE 帧，任务结束后完成
+   * 先推送当前进度（与 Last-Event-ID 一致时跳过），之后推送每次更新
+   * @returns 任务已结束且客户端已收到最终进度时返回 null
+   */
+  async stream(
+    taskId: string,
+    lastEventId?: string,
+  ): Promise<Observable<string> | null> {
+    const progress = await this.articleImportService.getImportProgress(taskId);
+    if (!progress) {
+      throw new NotFoundException(
+        ErrorCode.COMMON_NOT_FOUND,
+        '导入任务不存在或已过期',
+      );
+    }
+    if (this.isFinished(progress) && this.toEventId(progress) === lastEventId) {
+      return null;
+    }
+
+    const local$ = this.updates.pipe(
+      filter((update) => update.taskId === taskId),
+    );
+    const remote$ = interval(POLL_INTERVAL).pipe(
+      filter(() => !this.importProgressService.getImportProgress(taskId)),
+      switchMap(() => this.articleImportService.getImportProgress(taskId)),
+      filter((update): update is ImportProgressDto => update !== null),
+    );
+
+    // 订阅时再读取内存中的最新进度，避免错过查询期间的更新
+    const progress$ = defer(() =>
+      merge(local$, remote$).pipe(
+        startWith(
+          this.importProgressService.getImportProgress(taskId) ?? progress,
+        ),
+      ),
+    ).pipe(
+      map(
+        (update): ProgressMessage => ({
+          id: this.toEventId(update),
+          progress: update,
+        }),
+      ),
+      distinctUntilChanged((previous, current) => previous.id === current.id),
+      filter((message) => message.id !== lastEventId),
+    );
+
+    const heartbeat$ = interval(HEARTBEAT_INTERVAL).pipe(map(() => null));
+
+    return merge(progress$, heartbeat$).pipe(
+      takeWhile(
+        (message) => message === null || !this.isFinished(message.progress),
+        true,
+      ),
+      map((message) =>
+        message
+          ? `id: ${message.id}\nevent: progress\ndata: ${JSON.stringify(message.progress)}\n\n`
+          : HEARTBEAT_FRAME,
+      ),
+    );
+  }
+
+  /**
+   * 计算进度对应的事件ID
+   * 结束状态使用固定ID，服务重启后重连仍能识别客户端已收到最终进度
+   */
+  private toEventId(progress: ImportProgressDto): string {
+    if (this.isFinished(progress)) {
+      this.snapshots.delete(progress.taskId);
+      return progress.status;
+    }
+
+    const json = JSON.stringify(progress);
+    const snapshot = this.snapshots.get(progress.taskId);
+    if (snapshot?.json === json) {
+      return snapshot.id;
+    }
+
+    const id = String(++this.sequence);
+    this.snapshots.set(progress.taskId, { id, json });
+    return id;
+  }
+
+  private isFinished(progress: ImportProgressDto): boolean {
+    return (
+      progress.status === ImportStatus.COMPLETED ||
+      progress.status === ImportStatus.FAILED
+    );
+  }
+}
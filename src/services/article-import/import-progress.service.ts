@@ -1,17 +1,25 @@
 import { Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   ImportProgressDto,
   ImportStatus,
   StartImportResponseDto,
 } from '@/dto/article-import.dto';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import {
+  IMPORT_EVENTS,
+  ImportProgressUpdatedEvent,
+} from '@/events/import.events';
 
 @Injectable()
 export class ImportProgressService {
   // 内存存储进度信息
   private progressStore = new Map<string, ImportProgressDto>();
 
-  constructor(private readonly logger: StructuredLoggerService) {}
+  constructor(
+    private readonly logger: StructuredLoggerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
 
   /**
    * 初始化导入进度
@@ -39,6 +47,7 @@ export class ImportProgressService {
     };
 
     this.progressStore.set(taskId, progress);
+    this.publish(progress);
 
     return {
       taskId,
@@ -63,6 +72,7 @@ export class ImportProgressService {
     if (current) {
       const updated = { ...current, ...updates };
       this.progressStore.set(taskId, updated);
+      this.publish(updated);
     }
   }
 
@@ -140,6 +150,16 @@ export class ImportProgressService {
     });
   }
 
+  /**
+   * 发布进度更新事件，供 SSE 推送
+   */
+  private publish(progress: ImportProgressDto): void {
+    this.eventEmitter.emit(
+      IMPORT_EVENTS.PROGRESS_UPDATED,
+      new ImportProgressUpdatedEvent({ ...progress }),
+    );
+  }
+
   /**
    * 计算预计剩余时间
    */
@@ -201,6 +221,7 @@ export class ImportProgressService {
     if (progress) {
       progress.status = ImportStatus.FAILED;
       this.progressStore.set(taskId, progress);
+      this.publish(progress);
       return true;
     }
     return false;
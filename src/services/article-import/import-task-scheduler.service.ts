@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { ArticleImportService } from './article-import.service';
+
+/**
+ * 导入任务恢复
+ * 每分钟检查一次执行进程已中断（如服务重启）的导入任务并继续执行
+ */
+@Injectable()
+export class ImportTaskSchedulerService {
+  private isRunning = false;
+
+  constructor(
+    private readonly articleImportService: ArticleImportService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ImportTaskSchedulerService' });
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async resumeStaleTasks(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const count = await this.articleImportService.resumeStaleTasks();
+      if (count > 0) {
+        this.logger.log('已恢复中断的导入任务', {
+          action: 'resume_import_tasks',
+          metadata: { resumed: count },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        '恢复导入任务失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,446 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ImportTask, ImportTaskSource } from '@/entities/import-task.entity';
+import { ImportTaskFile } from '@/entities/import-task-file.entity';
+import {
+  ArticleImportConfigDto,
+  ArticleImportResultDto,
+  ImportProgressDto,
+  ImportReportFormat,
+  ImportStatus,
+  ImportTaskQueryDto,
+} from '@/dto/article-import.dto';
+import {
+  BusinessException,
+  NotFoundException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 上传的待导入文件（恢复任务时从工作目录读取）
+ */
+export type ImportUploadFile = Pick<
+  Express.Multer.File,
+  'originalname' | 'mimetype' | 'buffer' | 'size'
+>;
+
+/**
+ * 导入计数
+ */
+export interface ImportCounters {
+  successCount: number;
+  failureCount: number;
+  skippedCount: number;
+}
+
+// 未完成的任务状态
+const UNFINISHED_STATUSES = [ImportStatus.PENDING, ImportStatus.PROCESSING];
+
+/**
+ * 导入任务持久化服务
+ * 记录任务配置、进度和每个文件的处理结果，并在工作目录保存上传的原始文件，
+ * 服务重启后可据此跳过已处理的文件继续导入
+ */
+@Injectable()
+export class ImportTaskService {
+  private readonly workPath: string;
+
+  constructor(
+    @InjectRepository(ImportTask)
+    private readonly taskRepository: Repository<ImportTask>,
+    @InjectRepository(ImportTaskFile)
+    private readonly fileRepository: Repository<ImportTaskFile>,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ImportTaskService' });
+    this.workPath = path.resolve(
+      this.configService.get<string>('IMPORT_TASK_PATH', './data/imports'),
+    );
+  }
+
+  /**
+   * 创建导入任务并保存上传的原始文件
+   */
+  async create(
+    taskId: string,
+    files: ImportUploadFile[],
+    authorId: string,
+    config: ArticleImportConfigDto,
+    totalFiles: number,
+  ): Promise<ImportTask> {
+    const taskDir = path.join(this.workPath, taskId);
+    await fs.mkdir(taskDir, { recursive: true });
+
+    // 文件名可能包含任意字符，磁盘上按序号保存
+    const sources: ImportTaskSource[] = [];
+    for (const [index, file] of files.entries()) {
+      const relativePath = path.join(
+        taskId,
+        `${index}${path.extname(file.originalname).toLowerCase()}`,
+      );
+      await fs.writeFile(path.join(this.workPath, relativePath), file.buffer);
+      sources.push({
+        name: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        path: relativePath,
+      });
+    }
+
+    return await this.taskRepository.save(
+      this.taskRepository.create({
+        id: taskId,
+        status: ImportStatus.PENDING,
+        totalFiles,
+        config,
+        sources,
+        authorId,
+      }),
+    );
+  }
+
+  /**
+   * 读取任务保存的原始文件
+   */
+  async loadSources(task: ImportTask): Promise<ImportUploadFile[]> {
+    try {
+      return await Promise.all(
+        task.sources.map(async (source) => ({
+          originalname: source.name,
+          mimetype: source.mimeType,
+          size: source.size,
+          buffer: await fs.readFile(path.join(this.workPath, source.path)),
+        })),
+      );
+    } catch {
+      throw new BusinessException(ErrorCode.IMPORT_TASK_SOURCE_MISSING);
+    }
+  }
+
+  /**
+   * 查找任务，不存在时抛出异常
+   */
+  async findById(taskId: string): Promise<ImportTask> {
+    const task = await this.taskRepository.findOne({ where: { id: taskId } });
+    if (!task) {
+      throw new NotFoundException(ErrorCode.IMPORT_TASK_NOT_FOUND);
+    }
+    return task;
+  }
+
+  /**
+   * 抢占任务以恢复执行
+   * 失败的任务可直接恢复；未完成的任务需超过 staleBefore 未更新（执行进程已中断）
+   * 使用条件更新保证多实例部署时只有一个进程恢复同一任务
+   */
+  async claimForResume(taskId: string, staleBefore: Date): Promise<boolean> {
+    const result = await this.taskRepository
+      .createQueryBuilder()
+      .update(ImportTask)
+      .set({
+        status: ImportStatus.PROCESSING,
+        error: null,
+        resumeCount: () => 'resumeCount + 1',
+      })
+      .where('id = :taskId', { taskId })
+      .andWhere(
+        '(status = :failed OR (status IN (:...unfinished) AND updatedAt < :staleBefore))',
+        {
+          failed: ImportStatus.FAILED,
+          unfinished: UNFINISHED_STATUSES,
+          staleBefore,
+        },
+      )
+      .execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 查找执行进程已中断的任务
+   */
+  async findStale(staleBefore: Date): Promise<ImportTask[]> {
+    return await this.taskRepository.find({
+      where: {
+        status: In(UNFINISHED_STATUSES),
+        updatedAt: LessThan(staleBefore),
+      },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async markProcessing(taskId: string): Promise<void> {
+    await this.taskRepository
+      .createQueryBuilder()
+      .update(ImportTask)
+      .set({
+        status: ImportStatus.PROCESSING,
+        startedAt: () => 'COALESCE(startedAt, CURRENT_TIMESTAMP)',
+      })
+      .where('id = :taskId', { taskId })
+      .execute();
+  }
+
+  /**
+   * 更新进度，同时作为任务仍在执行的心跳
+   */
+  async updateProgress(
+    taskId: string,
+    processedFiles: number,
+    counters: ImportCounters,
+    currentFile?: string,
+  ): Promise<void> {
+    await this.taskRepository.update(taskId, {
+      processedFiles,
+      ...counters,
+      currentFile: currentFile?.slice(0, 500) ?? null,
+    });
+  }
+
+  /**
+   * 记录单个文件的处理结果
+   * @param sequence 文件在任务中的序号，用于报告排序
+   */
+  async recordResult(
+    taskId: string,
+    sequence: number,
+    result: ArticleImportResultDto,
+  ): Promise<void> {
+    await this.fileRepository.save(
+      this.fileRepository.create({
+        taskId,
+        sequence,
+        filePath: result.filePath.slice(0, 500),
+        success: result.success,
+        skipped: result.skipped ?? false,
+        articleId: result.articleId ?? null,
+        title: result.title?.slice(0, 255) ?? null,
+        error: result.error ?? null,
+        warnings: result.warnings?.length ? result.warnings : null,
+        uploadedImages: result.uploadedImages ?? null,
+        importedComments: result.importedComments ?? null,
+      }),
+    );
+  }
+
+  /**
+   * 获取任务已记录的文件结果
+   */
+  async getResults(taskId: string): Promise<ArticleImportResultDto[]> {
+    const files = await this.fileRepository.find({
+      where: { taskId },
+      order: { sequence: 'ASC' },
+    });
+    return files.map((file) => this.toResultDto(file));
+  }
+
+  /**
+   * 标记任务完成并删除工作目录中的原始文件
+   */
+  async markCompleted(
+    taskId: string,
+    processedFiles: number,
+    counters: ImportCounters,
+  ): Promise<void> {
+    await this.taskRepository.update(taskId, {
+      status: ImportStatus.COMPLETED,
+      processedFiles,
+      ...counters,
+      currentFile: null,
+      finishedAt: new Date(),
+    });
+    await this.removeSources(taskId);
+  }
+
+  /**
+   * 标记任务失败，保留原始文件以便手动恢复
+   */
+  async markFailed(taskId: string, error: string): Promise<void> {
+    await this.taskRepository.update(taskId, {
+      status: ImportStatus.FAILED,
+      error,
+      currentFile: null,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * 分页查询历史任务
+   */
+  async findAll(
+    query: ImportTaskQueryDto,
+  ): Promise<{ items: ImportTask[]; total: number }> {
+    const { page = 1, limit = 10, status } = query;
+    const queryBuilder = this.createDetailQuery()
+      .orderBy('task.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+    if (status) {
+      queryBuilder.andWhere('task.status = :status', { status });
+    }
+
+    const [items, total] = await queryBuilder.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * 获取任务详情（含各文件结果）
+   */
+  async findOne(
+    taskId: string,
+  ): Promise<ImportTask & { results: ArticleImportResultDto[] }> {
+    const task = await this.createDetailQuery()
+      .where('task.id = :taskId', { taskId })
+      .getOne();
+    if (!task) {
+      throw new NotFoundException(ErrorCode.IMPORT_TASK_NOT_FOUND);
+    }
+    return Object.assign(task, { results: await this.getResults(taskId) });
+  }
+
+  /**
+   * 根据持久化记录构建进度信息（内存中没有该任务时使用）
+   */
+  async getProgress(taskId: string): Promise<ImportProgressDto | null> {
+    const task = await this.taskRepository.findOne({ where: { id: taskId } });
+    if (!task) {
+      return null;
+    }
+
+    const status = task.status as ImportStatus;
+    return {
+      taskId: task.id,
+      status,
+      totalFiles: task.totalFiles,
+      processedFiles: task.processedFiles,
+      successCount: task.successCount,
+      failureCount: task.failureCount,
+      skippedCount: task.skippedCount,
+      currentFile: task.currentFile ?? '',
+      progress:
+        task.totalFiles > 0
+          ? Math.round((task.processedFiles / task.totalFiles) * 100)
+          : 0,
+      startTime: (task.startedAt ?? task.createdAt).getTime(),
+      error: task.error ?? undefined,
+      results:
+        status === ImportStatus.COMPLETED
+          ? await this.getResults(taskId)
+          : undefined,
+    };
+  }
+
+  /**
+   * 生成导入报告
+   */
+  async buildReport(
+    taskId: string,
+    format: ImportReportFormat = ImportReportFormat.CSV,
+  ): Promise<{ filename: string; contentType: string; content: string }> {
+    const task = await this.findOne(taskId);
+
+    if (format === ImportReportFormat.JSON) {
+      const { author, sources, results, ...summary } = task;
+      return {
+        filename: `${task.id}.json`,
+        contentType: 'application/json; charset=utf-8',
+        content: JSON.stringify(
+          {
+            ...summary,
+            author,
+            files: sources.map(({ name, size }) => ({ name, size })),
+            results,
+          },
+          null,
+          2,
+        ),
+      };
+    }
+
+    const header = [
+      '文件',
+      '结果',
+      '文章ID',
+      '标题',
+      '错误信息',
+      '警告',
+      '上传图片数',
+      '导入评论数',
+    ];
+    const rows = task.results.map((result) => [
+      result.filePath,
+      result.success ? '成功' : result.skipped ? '跳过' : '失败',
+      result.articleId ?? '',
+      result.title ?? '',
+      result.error ?? '',
+      (result.warnings ?? []).join('; '),
+      result.uploadedImages ?? '',
+      result.importedComments ?? '',
+    ]);
+
+    // 添加 BOM，便于 Excel 正确识别中文
+    const content =
+      '\uFEFF' +
+      [header, ...rows]
+        .map((row) => row.map((cell) => this.escapeCsv(cell)).join(','))
+        .join('\r\n');
+
+    return {
+      filename: `${task.id}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content,
+    };
+  }
+
+  /**
+   * 任务查询，只关联导入者的公开字段
+   */
+  private createDetailQuery() {
+    return this.taskRepository
+      .createQueryBuilder('task')
+      .leftJoin('task.author', 'author')
+      .addSelect(['author.id', 'author.username', 'author.nickname']);
+  }
+
+  private toResultDto(file: ImportTaskFile): ArticleImportResultDto {
+    return {
+      filePath: file.filePath,
+      success: file.success,
+      skipped: file.skipped || undefined,
+      articleId: file.articleId ?? undefined,
+      title: file.title ?? undefined,
+      error: file.error ?? undefined,
+      warnings: file.warnings ?? undefined,
+      uploadedImages: file.uploadedImages ?? undefined,
+      importedComments: file.importedComments ?? undefined,
+    };
+  }
+
+  private escapeCsv(value: string | number): string {
+    const text = String(value);
+    // 以公式字符开头的单元格加前缀，防止在表格软件中被当作公式执行
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private async removeSources(taskId: string): Promise<void> {
+    try {
+      await fs.rm(path.join(this.workPath, taskId), {
+        recursive: true,
+        force: true,
+      });
+    } catch (error) {
+      this.logger.error(
+        '删除导入任务原始文件失败',
+        error instanceof Error ? error.stack : String(error),
+        { metadata: { taskId } },
+      );
+    }
+  }
+}
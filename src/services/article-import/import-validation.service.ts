@@ -11,6 +11,7 @@ import {
 import { BusinessException } from '@/common/exceptions/business.exception';
 import { ErrorCode } from '@/common/constants/error-codes';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { ArchiveExtractorService } from './archive-extractor.service';
 
 @Injectable()
 export class ImportValidationService {
@@ -130,11 +131,17 @@ export class ImportValidationService {
       return errors;
     }
 
-    // 检查文件大小限制（例如：每个文件不超过10MB）
+    // 检查文件大小限制（Markdown文件不超过10MB，压缩包和WordPress导出文件不超过50MB）
     const maxFileSize = 10 * 1024 * 1024; // 10MB
     for (const file of files) {
-      if (file.size > maxFileSize) {
-        errors.push(`文件 ${file.originalname} 超过大小限制（10MB）`);
+      const isArchive = /\.(zip|xml|wxr)$/i.test(file.originalname);
+      const limit = isArchive
+        ? ArchiveExtractorService.MAX_ARCHIVE_SIZE
+        : maxFileSize;
+      if (file.size > limit) {
+        errors.push(
+          `文件 ${file.originalname} 超过大小限制（${limit / 1024 / 1024}MB）`,
+        );
       }
     }
 
@@ -150,20 +157,20 @@ export class ImportValidationService {
   /**
    * 验证单个文件的基本信息
    */
-  validateSingleFile(file: Express.Multer.File): string[] {
+  validateSingleFile(buffer: Buffer, fileName: string): string[] {
     const errors: string[] = [];
 
-    if (!file.buffer || file.buffer.length === 0) {
+    if (!buffer || buffer.length === 0) {
       errors.push('文件内容为空');
     }
 
-    if (!file.originalname) {
+    if (!fileName) {
       errors.push('文件名为空');
     }
 
     // 检查文件编码是否有效
     try {
-      file.buffer.toString('utf-8');
+      buffer.toString('utf-8');
     } catch {
       errors.push('文件编码无效，请确保文件为UTF-8编码');
     }
@@ -2,3 +2,11 @@ export { ArticleImportService } from './article-import.service';
 export { ArticleParserService } from './article-parser.service';
 export { ImportProgressService } from './import-progress.service';
 export { ImportValidationService } from './import-validation.service';
+export { ArchiveExtractorService } from './archive-extractor.service';
+export { ImportAssetService } from './import-asset.service';
+export { WxrParserService } from './wxr-parser.service';
+export { WordPressImportService } from './wordpress-import.service';
+export { ImportPreviewService } from './import-preview.service';
+export { ImportTaskService } from './import-task.service';
+export { ImportTaskSchedulerService } from './import-task-scheduler.service';
+export { ImportProgressStreamService } from './import-progress-stream.service';
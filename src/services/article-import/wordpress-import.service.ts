@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, FindOptionsWhere, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomUUID } from 'crypto';
+import { User } from '@/entities/user.entity';
+import { Comment } from '@/entities/comment.entity';
+import { Article } from '@/entities/article.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { WxrComment, WxrDocument } from './wxr-parser.service';
+
+/**
+ * 作者匹配结果
+ */
+export interface WxrAuthorResolution {
+  authorId: string;
+  // 未匹配到本站用户时的提示
+  warning?: string;
+}
+
+// 评论者邮箱缺失时使用的占位域名（RFC 2606 保留域名，不会被投递）
+const PLACEHOLDER_EMAIL_DOMAIN = 'wordpress.invalid';
+
+/**
+ * WordPress 导入服务
+ * 负责将 WXR 中的作者映射到本站用户，并把已批准的评论写入文章
+ */
+@Injectable()
+export class WordPressImportService {
+  // 同一导出文件内的评论者只创建一次（并发导入文章时共享同一个Promise）
+  private readonly commenters = new WeakMap<
+    WxrDocument,
+    Map<string, Promise<string>>
+  >();
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly dataSource: DataSource,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'WordPressImportService' });
+  }
+
+  /**
+   * 按邮箱或用户名将 WordPress 作者匹配到本站用户，未匹配时归属到导入者
+   */
+  async resolveAuthor(
+    document: WxrDocument,
+    authorLogin: string | undefined,
+    fallbackAuthorId: string,
+  ): Promise<WxrAuthorResolution> {
+    if (!authorLogin) {
+      return { authorId: fallbackAuthorId };
+    }
+
+    const author = document.authors.get(authorLogin);
+    const conditions: FindOptionsWhere<User>[] = [{ username: authorLogin }];
+    if (author?.email) {
+      conditions.unshift({ email: author.email.toLowerCase() });
+    }
+    const user = await this.userRepository.findOne({ where: conditions });
+    if (user) {
+      return { authorId: user.id };
+    }
+
+    return {
+      authorId: fallbackAuthorId,
+      warning: `WordPress 作者 ${author?.displayName || authorLogin} 未匹配到本站用户，已归属到导入者`,
+    };
+  }
+
+  /**
+   * 导入文章的评论，保留回复关系和发表时间
+   * 直接写入数据库，不经过内容过滤，也不触发评论通知
+   * @returns 导入的评论数量
+   */
+  async importComments(
+    document: WxrDocument,
+    articleId: string,
+    comments: WxrComment[],
+  ): Promise<number> {
+    if (comments.length === 0) {
+      return 0;
+    }
+
+    const authorIds = new Map<WxrComment, string>();
+    for (const comment of comments) {
+      authorIds.set(comment, await this.resolveCommenter(document, comment));
+    }
+
+    // WordPress 评论ID自增，按ID排序保证父评论先于回复写入
+    const ordered = [...comments].sort((a, b) => Number(a.id) - Number(b.id));
+
+    return await this.dataSource.transaction(async (manager) => {
+      const commentRepository = manager.getRepository(Comment);
+      const idMap = new Map<string, Comment>();
+
+      for (const item of ordered) {
+        const parent = item.parentId ? idMap.get(item.parentId) : undefined;
+        const comment = await commentRepository.save(
+          commentRepository.create({
+            content: item.content,
+            status: 'active',
+            articleId,
+            authorId: authorIds.get(item),
+            parentId: parent?.id ?? null,
+            ipAddress: item.authorIp,
+            createdAt: item.createdAt,
+            updatedAt: item.createdAt,
+          }),
+        );
+        idMap.set(item.id, comment);
+        if (parent) {
+          parent.replyCount++;
+        }
+      }
+
+      for (const comment of idMap.values()) {
+        if (comment.replyCount > 0) {
+          await commentRepository.update(comment.id, {
+            replyCount: comment.replyCount,
+          });
+        }
+      }
+      await manager
+        .getRepository(Article)
+        .increment({ id: articleId }, 'commentCount', idMap.size);
+
+      return idMap.size;
+    });
+  }
+
+  /**
+   * 查找评论者对应的本站用户，不存在时创建未激活的占位账户
+   * 占位账户使用随机密码并关闭邮件通知；状态为未激活，无法登录或找回密码，需管理员激活后才能使用
+   */
+  private resolveCommenter(
+    document: WxrDocument,
+    comment: WxrComment,
+  ): Promise<string> {
+    let cache = this.commenters.get(document);
+    if (!cache) {
+      cache = new Map();
+      this.commenters.set(document, cache);
+    }
+
+    const key = comment.authorEmail || `name:${comment.authorName}`;
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = this.findOrCreateCommenter(comment);
+      // 失败时不缓存，后续评论重新尝试
+      pending.catch(() => cache.delete(key));
+      cache.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async findOrCreateCommenter(comment: WxrComment): Promise<string> {
+    const hash = createHash('sha1')
+      .update(comment.authorEmail || comment.authorName)
+      .digest('hex')
+      .slice(0, 12);
+    const username = `wp_${hash}`;
+    const email =
+      comment.authorEmail || `${username}@${PLACEHOLDER_EMAIL_DOMAIN}`;
+
+    const existing = await this.userRepository.findOne({
+      where: [{ email }, { username }],
+      withDeleted: true,
+    });
+    if (existing) {
+      return existing.id;
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        username,
+        email,
+        nickname: comment.authorName.slice(0, 50),
+        password: await bcrypt.hash(randomUUID(), 10),
+        status: 'inactive',
+        role: 'user',
+        notifyOnReply: false,
+        notifyOnArticleComment: false,
+      }),
+    );
+
+    this.logger.log(`为 WordPress 评论者创建占位账户 ${username}`, {
+      action: 'create_wordpress_commenter',
+      metadata: { userId: user.id, username },
+    });
+
+    return user.id;
+  }
+}
@@ -0,0 +1,438 @@
+import { Injectable } from '@nestjs/common';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import TurndownService from 'turndown';
+import { ValidationException } from '@/common/exceptions/business.exception';
+import { ParsedArticleData } from '@/dto/article-import.dto';
+
+/**
+ * WordPress 作者
+ */
+export interface WxrAuthor {
+  login: string;
+  email?: string;
+  displayName?: string;
+}
+
+/**
+ * WordPress 评论（仅包含已批准的普通评论）
+ */
+export interface WxrComment {
+  id: string;
+  parentId: string | null;
+  authorName: string;
+  authorEmail?: string;
+  authorIp?: string;
+  content: string;
+  createdAt?: Date;
+}
+
+/**
+ * WordPress 文章
+ */
+export interface WxrPost {
+  id: string;
+  data: ParsedArticleData;
+  authorLogin?: string;
+  comments: WxrComment[];
+  warnings: string[];
+}
+
+/**
+ * 解析后的 WXR 导出文件
+ */
+export interface WxrDocument {
+  name: string;
+  siteUrl?: string;
+  authors: Map<string, WxrAuthor>;
+  posts: WxrPost[];
+  // 不导入的内容（页面、回收站中的文章等），以标题和原因记录
+  skipped: { title: string; reason: string }[];
+}
+
+type XmlNode = Record<string, any>;
+
+// 需要始终解析为数组的节点
+const ARRAY_TAGS = new Set([
+  'item',
+  'category',
+  'wp:author',
+  'wp:comment',
+  'wp:postmeta',
+]);
+
+// 站点结构类内容，不计入导入结果
+const IGNORED_POST_TYPES = new Set([
+  'attachment',
+  'nav_menu_item',
+  'revision',
+  'custom_css',
+  'customize_changeset',
+  'oembed_cache',
+  'user_request',
+  'wp_block',
+  'wp_global_styles',
+  'wp_navigation',
+  'wp_template',
+  'wp_template_part',
+]);
+
+const STATUS_MAP: Record<string, string> = {
+  publish: 'published',
+  future: 'scheduled',
+  draft: 'draft',
+  pending: 'draft',
+  private: 'draft',
+};
+
+// 与导入校验保持一致的限制
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+const MAX_TAGS = 10;
+const MAX_SUMMARY_LENGTH = 500;
+
+// 未换行包裹的块级元素，自动分段时原样保留
+const BLOCK_TAG_PATTERN =
+  /^<\/?(div|pre|ul|ol|li|h[1-6]|blockquote|table|figure|hr|p|dl|section|iframe)\b/i;
+
+/**
+ * WordPress WXR 导出文件解析服务
+ * 将 WordPress「工具 → 导出」生成的 XML 解析为文章数据，正文由 HTML 转换为 Markdown
+ */
+@Injectable()
+export class WxrParserService {
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    // 只处理XML内置实体，不展开DTD中声明的实体
+    processEntities: true,
+    htmlEntities: false,
+    isArray: (tagName) => ARRAY_TAGS.has(tagName),
+  });
+
+  private readonly turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*',
+  });
+
+  /**
+   * 判断上传文件是否为 WXR 导出文件
+   */
+  isWxrFile(fileName: string, mimeType?: string): boolean {
+    const lowerName = fileName.toLowerCase();
+    return (
+      lowerName.endsWith('.xml') ||
+      lowerName.endsWith('.wxr') ||
+      mimeType === 'application/xml' ||
+      mimeType === 'text/xml'
+    );
+  }
+
+  /**
+   * 解析 WXR 文件
+   */
+  parse(fileName: string, buffer: Buffer): WxrDocument {
+    const xml = buffer.toString('utf-8');
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+      throw new ValidationException(
+        `文件 ${fileName} 不是有效的XML: ${validation.err.msg}（第 ${validation.err.line} 行）`,
+      );
+    }
+
+    let root: { rss?: { channel?: XmlNode } };
+    try {
+      root = this.parser.parse(xml) as typeof root;
+    } catch (error) {
+      // 包含外部实体声明等无法安全解析的内容
+      throw new ValidationException(
+        `文件 ${fileName} 解析失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      );
+    }
+    const channel = root?.rss?.channel;
+    if (!channel || !this.text(channel['wp:wxr_version'])) {
+      throw new ValidationException(
+        `文件 ${fileName} 不是 WordPress 导出文件（缺少 wp:wxr_version）`,
+      );
+    }
+
+    const authors = new Map<string, WxrAuthor>();
+    for (const node of (channel['wp:author'] ?? []) as XmlNode[]) {
+      const login = this.text(node['wp:author_login']);
+      if (login) {
+        authors.set(login, {
+          login,
+          email: this.text(node['wp:author_email']) || undefined,
+          displayName: this.text(node['wp:author_display_name']) || undefined,
+        });
+      }
+    }
+
+    const items = (channel.item ?? []) as XmlNode[];
+    const attachments = new Map<string, string>();
+    for (const item of items) {
+      if (this.text(item['wp:post_type']) === 'attachment') {
+        attachments.set(
+          this.text(item['wp:post_id']),
+          this.text(item['wp:attachment_url']),
+        );
+      }
+    }
+
+    const document: WxrDocument = {
+      name: fileName,
+      siteUrl:
+        this.text(channel['wp:base_blog_url']) ||
+        this.text(channel.link) ||
+        undefined,
+      authors,
+      posts: [],
+      skipped: [],
+    };
+
+    for (const item of items) {
+      const postType = this.text(item['wp:post_type']) || 'post';
+      if (IGNORED_POST_TYPES.has(postType)) {
+        continue;
+      }
+
+      const title = this.text(item.title) || '(无标题)';
+      const status = this.text(item['wp:status']);
+      if (postType !== 'post') {
+        document.skipped.push({
+          title,
+          reason: `暂不支持导入 ${postType} 类型的内容`,
+        });
+      } else if (!STATUS_MAP[status]) {
+        document.skipped.push({
+          title,
+          reason: `文章状态为 ${status || '未知'}，已跳过`,
+        });
+      } else {
+        document.posts.push(this.parsePost(item, attachments));
+      }
+    }
+
+    return document;
+  }
+
+  /**
+   * 将 WordPress 正文 HTML 转换为 Markdown
+   */
+  toMarkdown(html: string): string {
+    const normalized = this.autop(this.stripShortcodes(html));
+    return this.turndown.turndown(normalized).trim();
+  }
+
+  /**
+   * 解析单篇文章
+   */
+  private parsePost(item: XmlNode, attachments: Map<string, string>): WxrPost {
+    const warnings: string[] = [];
+    const wpStatus = this.text(item['wp:status']);
+    let status = STATUS_MAP[wpStatus];
+    if (wpStatus === 'private') {
+      warnings.push('WordPress 私密文章已导入为草稿');
+    }
+
+    const publishedAt =
+      this.parseDate(this.text(item['wp:post_date_gmt']), true) ??
+      this.parseDate(this.text(item['wp:post_date']), false);
+    // 导出后已过发布时间的定时文章直接发布
+    if (status === 'scheduled' && (!publishedAt || publishedAt <= new Date())) {
+      status = 'published';
+    }
+    const updatedAt =
+      this.parseDate(this.text(item['wp:post_modified_gmt']), true) ??
+      this.parseDate(this.text(item['wp:post_modified']), false);
+
+    const categories: string[] = [];
+    const tags: string[] = [];
+    for (const node of (item.category ?? []) as XmlNode[]) {
+      const name = this.text(node).trim();
+      if (!name) continue;
+      if (node['@_domain'] === 'post_tag') {
+        tags.push(name);
+      } else if (
+        node['@_domain'] === 'category' &&
+        node['@_nicename'] !== 'uncategorized'
+      ) {
+        categories.push(name);
+      }
+    }
+    if (categories.length > 1) {
+      warnings.push(
+        `文章属于多个分类，仅保留第一个分类「${categories[0]}」，忽略: ${categories.slice(1).join('、')}`,
+      );
+    }
+
+    const meta = new Map<string, string>();
+    for (const node of (item['wp:postmeta'] ?? []) as XmlNode[]) {
+      meta.set(
+        this.text(node['wp:meta_key']),
+        this.text(node['wp:meta_value']),
+      );
+    }
+    const thumbnailId = meta.get('_thumbnail_id');
+    const coverImage = thumbnailId ? attachments.get(thumbnailId) : undefined;
+
+    const uniqueTags = [...new Set(tags)];
+    if (uniqueTags.length > MAX_TAGS) {
+      warnings.push(
+        `标签超过 ${MAX_TAGS} 个，忽略: ${uniqueTags.slice(MAX_TAGS).join('、')}`,
+      );
+    }
+
+    const excerpt = this.text(item['excerpt:encoded']);
+    let summary = excerpt ? this.toMarkdown(excerpt) : undefined;
+    if (summary && summary.length > MAX_SUMMARY_LENGTH) {
+      summary = `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`;
+      warnings.push(`摘要超过 ${MAX_SUMMARY_LENGTH} 个字符，已截断`);
+    }
+
+    // 中文等别名不符合本站格式，交由文章服务按标题重新生成
+    let slug: string | undefined = this.decodeSlug(
+      this.text(item['wp:post_name']),
+    ).toLowerCase();
+    if (slug && !SLUG_PATTERN.test(slug)) {
+      warnings.push(`别名 ${slug} 包含不支持的字符，已按标题重新生成`);
+      slug = undefined;
+    }
+
+    const data: ParsedArticleData = {
+      title: this.text(item.title).trim(),
+      content: this.toMarkdown(this.text(item['content:encoded'])),
+      summary,
+      slug: slug || undefined,
+      status,
+      category: categories[0],
+      tags: uniqueTags.slice(0, MAX_TAGS),
+      coverImage: coverImage || undefined,
+      publishedAt,
+      // 定时文章的发布时间在未来，创建时间取导入时间
+      createdAt: status === 'scheduled' ? undefined : publishedAt,
+      updatedAt,
+      isTop: this.text(item['wp:is_sticky']) === '1',
+      allowComment: this.text(item['wp:comment_status']) !== 'closed',
+    };
+
+    return {
+      id: this.text(item['wp:post_id']),
+      data,
+      authorLogin: this.text(item['dc:creator']) || undefined,
+      comments: this.parseComments(item),
+      warnings,
+    };
+  }
+
+  /**
+   * 解析评论，只保留已批准的普通评论（排除 pingback / trackback）
+   */
+  private parseComments(item: XmlNode): WxrComment[] {
+    const comments: WxrComment[] = [];
+    for (const node of (item['wp:comment'] ?? []) as XmlNode[]) {
+      const type = this.text(node['wp:comment_type']);
+      if (
+        this.text(node['wp:comment_approved']) !== '1' ||
+        (type && type !== 'comment')
+      ) {
+        continue;
+      }
+
+      const content = this.toMarkdown(this.text(node['wp:comment_content']));
+      if (!content) continue;
+
+      const parentId = this.text(node['wp:comment_parent']);
+      comments.push({
+        id: this.text(node['wp:comment_id']),
+        parentId: parentId && parentId !== '0' ? parentId : null,
+        authorName: this.text(node['wp:comment_author']).trim() || '匿名',
+        authorEmail:
+          this.text(node['wp:comment_author_email']).trim().toLowerCase() ||
+          undefined,
+        authorIp: this.text(node['wp:comment_author_IP']) || undefined,
+        content,
+        createdAt:
+          this.parseDate(this.text(node['wp:comment_date_gmt']), true) ??
+          this.parseDate(this.text(node['wp:comment_date']), false),
+      });
+    }
+    return comments;
+  }
+
+  /**
+   * 去除 WordPress 短代码，[caption] 保留其中的图片和说明文字
+   */
+  private stripShortcodes(html: string): string {
+    return html
+      .replace(/\[caption[^\]]*\]([\s\S]*?)\[\/caption\]/gi, '$1')
+      .replace(/\[\/?embed[^\]]*\]/gi, '');
+  }
+
+  /**
+   * 经典编辑器的正文以空行分段且不含 <p> 标签，转换前补全段落
+   */
+  private autop(html: string): string {
+    if (/<p[\s>]/i.test(html)) {
+      return html;
+    }
+
+    // 暂存 <pre> 块，避免代码中的空行被拆分
+    const preBlocks: string[] = [];
+    const text = html.replace(/<pre[\s\S]*?<\/pre>/gi, (block) => {
+      preBlocks.push(block);
+      return `%%WXR_PRE_${preBlocks.length - 1}%%`;
+    });
+
+    return text
+      .split(/\n\s*\n/)
+      .map((chunk) => chunk.trim())
+      .filter(Boolean)
+      .map((chunk) =>
+        BLOCK_TAG_PATTERN.test(chunk) || /^%%WXR_PRE_\d+%%$/.test(chunk)
+          ? chunk
+          : `<p>${chunk.replace(/\n/g, '<br>\n')}</p>`,
+      )
+      .join('\n')
+      .replace(/%%WXR_PRE_(\d+)%%/g, (_, index: string) => preBlocks[+index]);
+  }
+
+  /**
+   * 解析 WordPress 日期（格式为 YYYY-MM-DD HH:mm:ss，草稿为 0000-00-00 00:00:00）
+   * @param utc 是否为 GMT 时间
+   */
+  private parseDate(value: string, utc: boolean): Date | undefined {
+    if (!value || value.startsWith('0000')) {
+      return undefined;
+    }
+    const date = new Date(`${value.trim().replace(' ', 'T')}${utc ? 'Z' : ''}`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * 中文等非ASCII字符的别名在导出文件中为URL编码
+   */
+  private decodeSlug(slug: string): string {
+    try {
+      return decodeURIComponent(slug);
+    } catch {
+      return slug;
+    }
+  }
+
+  /**
+   * 读取节点文本（带属性的节点为对象，文本位于 #text）
+   */
+  private text(node: unknown): string {
+    if (node === undefined || node === null) {
+      return '';
+    }
+    if (typeof node === 'object') {
+      return this.text((node as XmlNode)['#text']);
+    }
+    return String(node as string | number);
+  }
+}
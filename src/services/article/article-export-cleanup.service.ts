@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { ArticleExportJobService } from './article-export-job.service';
+
+/**
+ * 导出文件清理
+ * 每小时删除一次超过保留时间的导出任务和文件
+ */
+@Injectable()
+export class ArticleExportCleanupService {
+  private isRunning = false;
+
+  constructor(
+    private readonly articleExportJobService: ArticleExportJobService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleExportCleanupService' });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredExports(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const removed = await this.articleExportJobService.cleanupExpired();
+      if (removed > 0) {
+        this.logger.log('已清理过期的导出文件', {
+          action: 'cleanup_export_files',
+          metadata: { removed },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        '清理导出文件失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ArticleExportDto,
+  ArticleExportFormat,
+  ArticleExportJobDto,
+  ArticleExportJobStatus,
+} from '@/dto/article-export.dto';
+import {
+  BusinessException,
+  NotFoundException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import {
+  ARTICLE_EXPORT_CONTENT_TYPES,
+  ArticleExportService,
+} from './article-export.service';
+
+interface ArticleExportJob {
+  jobId: string;
+  status: ArticleExportJobStatus;
+  format: ArticleExportFormat;
+  total: number;
+  processed: number;
+  fileName: string;
+  fileSize?: number;
+  error?: string;
+  operatorId: string;
+  createdAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * 导出文件下载信息
+ */
+export interface ArticleExportDownload {
+  filePath: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+}
+
+/**
+ * 后台文章导出任务服务
+ * 导出文件写入工作目录，完成后生成带签名的下载链接；
+ * 任务状态保存在内存中，下载只依赖签名和文件，服务重启后已生成的链接在过期前仍可使用
+ */
+@Injectable()
+export class ArticleExportJobService {
+  // 导出文件保留时间
+  static readonly FILE_TTL = 24 * 60 * 60 * 1000;
+
+  private readonly workPath: string;
+  private readonly apiBaseUrl: string;
+  private readonly signSecret: string;
+  private readonly jobs = new Map<string, ArticleExportJob>();
+
+  constructor(
+    private readonly articleExportService: ArticleExportService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleExportJobService' });
+    this.workPath = path.resolve(
+      this.configService.get<string>('EXPORT_JOB_PATH', './data/exports'),
+    );
+    this.apiBaseUrl = SiteUrlUtil.getApiBaseUrl(this.configService);
+    this.signSecret =
+      this.configService.get<string>('JWT_SECRET') ||
+      'default-secret-key-change-in-production';
+  }
+
+  /**
+   * 创建导出任务并在后台执行
+   */
+  async createJob(
+    exportDto: ArticleExportDto,
+    operatorId: string,
+  ): Promise<ArticleExportJobDto> {
+    const format = exportDto.format ?? ArticleExportFormat.NDJSON;
+    const total = await this.articleExportService.count(exportDto);
+    await fs.mkdir(this.workPath, { recursive: true });
+
+    const job: ArticleExportJob = {
+      jobId: randomUUID(),
+      status: ArticleExportJobStatus.PENDING,
+      format,
+      total,
+      processed: 0,
+      fileName: this.articleExportService.getFileName(format),
+      operatorId,
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.jobId, job);
+
+    this.executeJob(job, { ...exportDto, format }).catch((error) => {
+      this.logger.error(
+        `导出任务 ${job.jobId} 执行失败`,
+        error instanceof Error ? error.stack : undefined,
+        {
+          metadata: {
+            jobId: job.jobId,
+            error: error instanceof Error ? error.message : '未知错误',
+          },
+        },
+      );
+    });
+
+    return this.toDto(job);
+  }
+
+  /**
+   * 查询导出任务
+   */
+  getJob(jobId: string): ArticleExportJobDto {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new NotFoundException(ErrorCode.EXPORT_JOB_NOT_FOUND);
+    }
+    return this.toDto(job);
+  }
+
+  /**
+   * 校验下载令牌并返回导出文件
+   */
+  async getDownload(token: string): Promise<ArticleExportDownload> {
+    const { jobId, format } = this.verifyDownloadToken(token);
+    const filePath = this.getFilePath(jobId, format);
+
+    let fileSize: number;
+    try {
+      fileSize = (await fs.stat(filePath)).size;
+    } catch {
+      throw new BusinessException(ErrorCode.EXPORT_DOWNLOAD_LINK_INVALID);
+    }
+
+    return {
+      filePath,
+      fileName:
+        this.jobs.get(jobId)?.fileName ??
+        this.articleExportService.getFileName(format),
+      contentType: ARTICLE_EXPORT_CONTENT_TYPES[format],
+      fileSize,
+    };
+  }
+
+  /**
+   * 清理过期的任务和导出文件，返回删除的文件数
+   * 按文件修改时间判断，服务重启前遗留的文件同样会被清理
+   */
+  async cleanupExpired(): Promise<number> {
+    const expireBefore = Date.now() - ArticleExportJobService.FILE_TTL;
+
+    for (const [jobId, job] of this.jobs) {
+      if (job.createdAt.getTime() < expireBefore) {
+        this.jobs.delete(jobId);
+      }
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.workPath);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const entry of entries) {
+      const filePath = path.join(this.workPath, entry);
+      const stat = await fs.stat(filePath).catch(() => null);
+      if (stat?.isFile() && stat.mtimeMs < expireBefore) {
+        await fs.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async executeJob(
+    job: ArticleExportJob,
+    exportDto: ArticleExportDto,
+  ): Promise<void> {
+    const filePath = this.getFilePath(job.jobId, job.format);
+    job.status = ArticleExportJobStatus.PROCESSING;
+
+    const output = createWriteStream(filePath);
+    // 写入失败时由 exportTo 检测到输出流已关闭并抛出，这里只避免未处理的 error 事件
+    let writeError: Error | undefined;
+    output.on('error', (error) => {
+      writeError = error;
+    });
+
+    try {
+      job.processed = await this.articleExportService.exportTo(
+        output,
+        exportDto,
+        (processed) => {
+          job.processed = processed;
+        },
+      );
+
+      job.fileSize = (await fs.stat(filePath)).size;
+      job.status = ArticleExportJobStatus.COMPLETED;
+      job.completedAt = new Date();
+      job.expiresAt = new Date(
+        job.createdAt.getTime() + ArticleExportJobService.FILE_TTL,
+      );
+
+      this.logger.log('导出任务完成', {
+        action: 'export_job_completed',
+        metadata: {
+          jobId: job.jobId,
+          format: job.format,
+          count: job.processed,
+          fileSize: job.fileSize,
+          operatorId: job.operatorId,
+        },
+      });
+    } catch (error) {
+      output.destroy();
+      job.status = ArticleExportJobStatus.FAILED;
+      job.error =
+        writeError?.message ??
+        (error instanceof Error ? error.message : '未知错误');
+      job.completedAt = new Date();
+      await fs.rm(filePath, { force: true });
+      throw error;
+    }
+  }
+
+  private toDto(job: ArticleExportJob): ArticleExportJobDto {
+    const completed = job.status === ArticleExportJobStatus.COMPLETED;
+    return {
+      jobId: job.jobId,
+      status: job.status,
+      format: job.format,
+      total: job.total,
+      processed: job.processed,
+      percentage:
+        job.total > 0
+          ? Math.min(100, Math.round((job.processed / job.total) * 100))
+          : completed
+            ? 100
+            : 0,
+      fileName: job.fileName,
+      fileSize: job.fileSize,
+      downloadUrl:
+        completed && job.expiresAt ? this.getDownloadUrl(job) : undefined,
+      expiresAt: job.expiresAt,
+      error: job.error,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    };
+  }
+
+  /**
+   * 生成下载链接，令牌包含任务ID、格式和过期时间（HMAC签名，无需存储）
+   */
+  private getDownloadUrl(job: ArticleExportJob): string {
+    const payload = Buffer.from(
+      `${job.jobId}:${job.format}:${job.expiresAt!.getTime()}`,
+    ).toString('base64url');
+    const token = `${payload}.${this.sign(payload)}`;
+    return `${this.apiBaseUrl}/exports/download?token=${encodeURIComponent(token)}`;
+  }
+
+  private verifyDownloadToken(token: string): {
+    jobId: string;
+    format: ArticleExportFormat;
+  } {
+    const [payload, signature] = (token || '').split('.');
+    if (!payload || !signature) {
+      throw new BusinessException(ErrorCode.EXPORT_DOWNLOAD_LINK_INVALID);
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new BusinessException(ErrorCode.EXPORT_DOWNLOAD_LINK_INVALID);
+    }
+
+    const [jobId, format, expiresAt] = Buffer.from(payload, 'base64url')
+      .toString()
+      .split(':');
+    if (
+      !jobId ||
+      !Object.values(ArticleExportFormat).includes(
+        format as ArticleExportFormat,
+      ) ||
+      !(Number(expiresAt) > Date.now())
+    ) {
+      throw new BusinessException(ErrorCode.EXPORT_DOWNLOAD_LINK_INVALID);
+    }
+
+    return { jobId, format: format as ArticleExportFormat };
+  }
+
+  private getFilePath(jobId: string, format: ArticleExportFormat): string {
+    return path.join(
+      this.workPath,
+      `${jobId}${path.extname(this.articleExportService.getFileName(format))}`,
+    );
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.signSecret)
+      .update(`article-export:${payload}`)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,484 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import archiver from 'archiver';
+import matter from 'gray-matter';
+import type { Readable, Writable } from 'stream';
+import type { EventEmitter } from 'events';
+import { Article } from '@/entities/article.entity';
+import {
+  ArticleExportDto,
+  ArticleExportFormat,
+} from '@/dto/article-export.dto';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 导出查询返回的原始行，布尔字段为 0/1，JSON 字段视驱动设置可能尚未解析
+ */
+interface ArticleExportRow {
+  id: string;
+  title: string;
+  slug: string;
+  summary: string | null;
+  content?: string;
+  status: string;
+  coverImage: string | null;
+  readingTime: number | null;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  shareCount: number;
+  isFeatured: number | boolean;
+  isTop: number | boolean;
+  isVisible: number | boolean;
+  allowComment: number | boolean;
+  metaDescription: string | null;
+  metaKeywords: string[] | string | null;
+  socialImage: string | null;
+  weight: number;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  publishedAt: Date | string | null;
+  authorId: string;
+  authorUsername: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  categorySlug: string | null;
+  tags: string[] | string | null;
+}
+
+/**
+ * 导出进度回调，processed 为已写出的文章数
+ */
+export type ArticleExportProgressCallback = (processed: number) => void;
+
+export const ARTICLE_EXPORT_CONTENT_TYPES: Record<ArticleExportFormat, string> =
+  {
+    [ArticleExportFormat.CSV]: 'text/csv; charset=utf-8',
+    [ArticleExportFormat.NDJSON]: 'application/x-ndjson; charset=utf-8',
+    [ArticleExportFormat.MARKDOWN]: 'application/zip',
+  };
+
+const ARTICLE_EXPORT_EXTENSIONS: Record<ArticleExportFormat, string> = {
+  [ArticleExportFormat.CSV]: 'csv',
+  [ArticleExportFormat.NDJSON]: 'ndjson',
+  [ArticleExportFormat.MARKDOWN]: 'zip',
+};
+
+const CSV_HEADERS = [
+  'ID',
+  '标题',
+  '摘要',
+  'Slug',
+  '状态',
+  '作者',
+  '分类',
+  '标签',
+  '阅读时间',
+  '浏览次数',
+  '点赞数',
+  '是否精选',
+  '是否置顶',
+  '创建时间',
+  '发布时间',
+];
+
+/**
+ * 文章流式导出服务
+ * 通过 TypeORM 查询流逐行读取文章并直接写入输出流，内存占用与文章数量无关；
+ * 输出流写满时暂停读取，客户端下载慢时不会在内存中堆积数据
+ */
+@Injectable()
+export class ArticleExportService {
+  constructor(
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleExportService' });
+  }
+
+  /**
+   * 统计符合条件的文章数
+   */
+  async count(exportDto: ArticleExportDto): Promise<number> {
+    return await this.createFilteredQuery(exportDto).getCount();
+  }
+
+  /**
+   * 导出文件名
+   */
+  getFileName(format: ArticleExportFormat): string {
+    return `articles_export_${new Date().toISOString().split('T')[0]}.${ARTICLE_EXPORT_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * 按指定格式导出文章并写入输出流，完成后关闭输出流，返回导出的文章数
+   * CSV 带 UTF-8 BOM，便于 Excel 正确识别中文
+   */
+  async exportTo(
+    output: Writable,
+    exportDto: ArticleExportDto,
+    onProgress?: ArticleExportProgressCallback,
+  ): Promise<number> {
+    const format = exportDto.format ?? ArticleExportFormat.NDJSON;
+    const startTime = Date.now();
+
+    let processed = 0;
+    const report = () => {
+      processed++;
+      onProgress?.(processed);
+    };
+
+    // 查询流打开后必须读完，所以先写入表头再打开
+    const openStream = () => this.createExportQuery(exportDto).stream();
+    switch (format) {
+      case ArticleExportFormat.CSV:
+        await this.writeChunk(output, `\uFEFF${CSV_HEADERS.join(',')}\n`);
+        await this.consumeRows(await openStream(), async (row) => {
+          await this.writeChunk(output, `${this.toCsvLine(row)}\n`);
+          report();
+        });
+        break;
+      case ArticleExportFormat.MARKDOWN:
+        await this.writeZip(output, await openStream(), report);
+        break;
+      case ArticleExportFormat.NDJSON:
+      default:
+        await this.consumeRows(await openStream(), async (row) => {
+          await this.writeChunk(
+            output,
+            `${JSON.stringify(this.toJson(row))}\n`,
+          );
+          report();
+        });
+        break;
+    }
+
+    const finished = this.waitFor(output, 'finish', output);
+    output.end();
+    await finished;
+
+    this.logger.log('导出文章', {
+      action: 'export_articles',
+      metadata: { format, count: processed, duration: Date.now() - startTime },
+    });
+
+    return processed;
+  }
+
+  /**
+   * 逐篇写入 zip，每个条目写入压缩流后再读取下一行
+   */
+  private async writeZip(
+    output: Writable,
+    stream: Readable,
+    report: () => void,
+  ): Promise<void> {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    archive.pipe(output, { end: false });
+
+    try {
+      await this.consumeRows(stream, async (row) => {
+        const entryWritten = this.waitFor(archive, 'entry', output);
+        archive.append(this.toMarkdown(row), {
+          name: `${this.toFileName(row)}.md`,
+          date: this.toDate(row.updatedAt) ?? new Date(),
+        });
+        await entryWritten;
+        report();
+      });
+
+      const finished = this.waitFor(archive, 'end', output);
+      await archive.finalize();
+      await finished;
+    } catch (error) {
+      archive.abort();
+      throw error;
+    }
+  }
+
+  /**
+   * 筛选条件查询，标签过滤使用 EXISTS 子查询，避免多标签文章产生重复行
+   */
+  private createFilteredQuery(
+    exportDto: ArticleExportDto,
+  ): SelectQueryBuilder<Article> {
+    const { ids, status, categoryId, tagIds } = exportDto;
+    const queryBuilder = this.articleRepository.createQueryBuilder('article');
+
+    if (ids && ids.length > 0) {
+      queryBuilder.andWhere('article.id IN (:...ids)', { ids });
+    }
+    if (status) {
+      queryBuilder.andWhere('article.status = :status', { status });
+    }
+    if (categoryId) {
+      queryBuilder.andWhere('article.categoryId = :categoryId', { categoryId });
+    }
+    if (tagIds && tagIds.length > 0) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM article_tags article_tag WHERE article_tag.articleId = article.id AND article_tag.tagId IN (:...tagIds))',
+        { tagIds },
+      );
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * 导出查询：作者和分类为单值关联直接连接，标签名聚合为 JSON 数组，每篇文章只产生一行
+   */
+  private createExportQuery(
+    exportDto: ArticleExportDto,
+  ): SelectQueryBuilder<Article> {
+    const includeContent =
+      exportDto.includeContent !== false &&
+      exportDto.format !== ArticleExportFormat.CSV;
+
+    const queryBuilder = this.createFilteredQuery(exportDto)
+      .leftJoin('article.author', 'author')
+      .leftJoin('article.category', 'category')
+      .select('article.id', 'id')
+      .addSelect('article.title', 'title')
+      .addSelect('article.slug', 'slug')
+      .addSelect('article.summary', 'summary')
+      .addSelect('article.status', 'status')
+      .addSelect('article.coverImage', 'coverImage')
+      .addSelect('article.readingTime', 'readingTime')
+      .addSelect('article.viewCount', 'viewCount')
+      .addSelect('article.likeCount', 'likeCount')
+      .addSelect('article.commentCount', 'commentCount')
+      .addSelect('article.shareCount', 'shareCount')
+      .addSelect('article.isFeatured', 'isFeatured')
+      .addSelect('article.isTop', 'isTop')
+      .addSelect('article.isVisible', 'isVisible')
+      .addSelect('article.allowComment', 'allowComment')
+      .addSelect('article.metaDescription', 'metaDescription')
+      .addSelect('article.metaKeywords', 'metaKeywords')
+      .addSelect('article.socialImage', 'socialImage')
+      .addSelect('article.weight', 'weight')
+      .addSelect('article.createdAt', 'createdAt')
+      .addSelect('article.updatedAt', 'updatedAt')
+      .addSelect('article.publishedAt', 'publishedAt')
+      .addSelect('article.authorId', 'authorId')
+      .addSelect('author.username', 'authorUsername')
+      .addSelect('category.id', 'categoryId')
+      .addSelect('category.name', 'categoryName')
+      .addSelect('category.slug', 'categorySlug')
+      .addSelect(
+        '(SELECT JSON_ARRAYAGG(tag.name) FROM article_tags article_tag INNER JOIN tags tag ON tag.id = article_tag.tagId AND tag.deletedAt IS NULL WHERE article_tag.articleId = article.id)',
+        'tags',
+      )
+      .orderBy('article.createdAt', 'ASC')
+      .addOrderBy('article.id', 'ASC');
+
+    if (includeContent) {
+      queryBuilder.addSelect('article.content', 'content');
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * 逐行处理查询流，处理完一行再读取下一行
+   * 出错时继续读完剩余的行：查询结束后连接才会归还连接池，直接销毁流会使连接一直处于暂停状态
+   */
+  private consumeRows(
+    stream: Readable,
+    handle: (row: ArticleExportRow) => Promise<void>,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let failed = false;
+      stream.on('data', (row: ArticleExportRow) => {
+        if (failed) {
+          return;
+        }
+        stream.pause();
+        handle(row).then(
+          () => stream.resume(),
+          (error: Error) => {
+            failed = true;
+            stream.resume();
+            reject(error);
+          },
+        );
+      });
+      stream.on('end', () => resolve());
+      stream.on('error', reject);
+    });
+  }
+
+  /**
+   * 写入输出流，缓冲区已满时等待 drain
+   */
+  private async writeChunk(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed || output.writableEnded) {
+      throw new Error('导出输出流已关闭');
+    }
+    if (!output.write(chunk)) {
+      await this.waitFor(output, 'drain', output);
+    }
+  }
+
+  /**
+   * 等待事件触发，输出流提前关闭或出错时失败
+   */
+  private waitFor(
+    emitter: EventEmitter,
+    event: string,
+    output: Writable,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        emitter.off(event, onEvent);
+        emitter.off('error', onError);
+        output.off('close', onClose);
+        output.off('error', onError);
+      };
+      const onEvent = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('导出输出流已关闭'));
+      };
+      emitter.on(event, onEvent);
+      emitter.on('error', onError);
+      output.on('close', onClose);
+      output.on('error', onError);
+    });
+  }
+
+  private toJson(row: ArticleExportRow): Record<string, unknown> {
+    return {
+      id: row.id,
+      title: row.title,
+      slug: row.slug,
+      summary: row.summary,
+      status: row.status,
+      coverImage: row.coverImage,
+      author: { id: row.authorId, username: row.authorUsername },
+      category: row.categoryId
+        ? { id: row.categoryId, name: row.categoryName, slug: row.categorySlug }
+        : null,
+      tags: this.parseJsonArray(row.tags),
+      readingTime: row.readingTime,
+      viewCount: row.viewCount,
+      likeCount: row.likeCount,
+      commentCount: row.commentCount,
+      shareCount: row.shareCount,
+      isFeatured: Boolean(row.isFeatured),
+      isTop: Boolean(row.isTop),
+      isVisible: Boolean(row.isVisible),
+      allowComment: Boolean(row.allowComment),
+      metaDescription: row.metaDescription,
+      metaKeywords: this.parseJsonArray(row.metaKeywords),
+      socialImage: row.socialImage,
+      weight: row.weight,
+      createdAt: this.toDate(row.createdAt),
+      updatedAt: this.toDate(row.updatedAt),
+      publishedAt: this.toDate(row.publishedAt),
+      ...(row.content !== undefined ? { content: row.content } : {}),
+    };
+  }
+
+  private toCsvLine(row: ArticleExportRow): string {
+    return [
+      row.id,
+      row.title,
+      row.summary,
+      row.slug,
+      row.status,
+      row.authorUsername,
+      row.categoryName,
+      this.parseJsonArray(row.tags).join(';'),
+      row.readingTime ?? 0,
+      row.viewCount ?? 0,
+      row.likeCount ?? 0,
+      row.isFeatured ? '是' : '否',
+      row.isTop ? '是' : '否',
+      this.toDate(row.createdAt)?.toISOString(),
+      this.toDate(row.publishedAt)?.toISOString(),
+    ]
+      .map((value) => this.escapeCsv(value))
+      .join(',');
+  }
+
+  /**
+   * 生成 frontmatter Markdown，字段名与 ArticleParserService 的解析规则一致
+   */
+  private toMarkdown(row: ArticleExportRow): string {
+    const data: Record<string, unknown> = {
+      title: row.title,
+      slug: row.slug,
+      summary: row.summary,
+      categories: row.categoryName,
+      tags: this.parseJsonArray(row.tags),
+      coverImage: row.coverImage,
+      status: row.status,
+      publishedAt: this.toDate(row.publishedAt),
+      createdAt: this.toDate(row.createdAt),
+      updatedAt: this.toDate(row.updatedAt),
+      isFeatured: Boolean(row.isFeatured),
+      isTop: Boolean(row.isTop),
+      allowComment: Boolean(row.allowComment),
+      metaDescription: row.metaDescription,
+      metaKeywords: this.parseJsonArray(row.metaKeywords),
+      socialImage: row.socialImage,
+      weight: row.weight,
+    };
+    const frontmatter = Object.fromEntries(
+      Object.entries(data).filter(
+        ([, value]) =>
+          value !== undefined &&
+          value !== null &&
+          !(Array.isArray(value) && value.length === 0),
+      ),
+    );
+
+    // gray-matter 会在 frontmatter 后追加空行，去掉后正文可原样解析回来
+    return (
+      matter.stringify('', frontmatter).replace(/\n$/, '') + (row.content ?? '')
+    );
+  }
+
+  /**
+   * slug 只含安全字符时用作文件名，否则使用文章ID
+   */
+  private toFileName(row: ArticleExportRow): string {
+    return /^[a-zA-Z0-9_-]+$/.test(row.slug) ? row.slug : row.id;
+  }
+
+  private escapeCsv(value: string | number | null | undefined): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private parseJsonArray(value: string[] | string | null): string[] {
+    if (!value) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value;
+    }
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private toDate(value: Date | string | null): Date | null {
+    if (!value) {
+      return null;
+    }
+    return value instanceof Date ? value : new Date(value);
+  }
+}
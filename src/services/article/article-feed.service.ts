@@ -0,0 +1,351 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Article } from '@/entities/article.entity';
+import { Category } from '@/entities/category.entity';
+import { Tag } from '@/entities/tag.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { XmlUtil } from '@/common/utils/xml.util';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import { ArticleQueryService } from './article-query.service';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export type FeedScope =
+  | { type: 'all' }
+  | { type: 'category'; slug: string }
+  | { type: 'tag'; slug: string };
+
+/**
+ * 订阅源频道信息
+ */
+interface FeedChannel {
+  title: string;
+  description: string;
+  homePageUrl: string;
+  // 订阅源路径前缀（不含文件名），如 ''、categories/tech/
+  feedPath: string;
+  articles: Article[];
+}
+
+const FEED_FILE_NAMES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+/**
+ * 文章订阅源服务
+ * 生成 RSS 2.0、Atom 1.0 和 JSON Feed 1.1 格式的订阅源
+ */
+@Injectable()
+export class ArticleFeedService {
+  private readonly siteUrl: string;
+  private readonly apiBaseUrl: string;
+  private readonly siteTitle: string;
+  private readonly siteDescription: string;
+  private readonly itemLimit: number;
+
+  constructor(
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    @Inject(ArticleQueryService)
+    private readonly articleQueryService: ArticleQueryService,
+    private readonly blogCacheService: BlogCacheService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleFeedService' });
+    this.siteUrl = SiteUrlUtil.getSiteUrl(this.configService);
+    this.apiBaseUrl = SiteUrlUtil.getApiBaseUrl(this.configService);
+    this.siteTitle = this.configService.get<string>(
+      'SITE_TITLE',
+      'igCircle Blog',
+    );
+    this.siteDescription = this.configService.get<string>(
+      'SITE_DESCRIPTION',
+      '',
+    );
+    this.itemLimit = this.configService.get<number>('FEED_ITEM_LIMIT', 20);
+  }
+
+  /**
+   * 获取订阅源内容（带缓存）
+   */
+  async getFeed(
+    format: FeedFormat,
+    scope: FeedScope = { type: 'all' },
+  ): Promise<string> {
+    const scopeKey =
+      scope.type === 'all' ? 'all' : `${scope.type}:${scope.slug}`;
+
+    const cached = await this.blogCacheService.getFeed(format, scopeKey);
+    if (cached) {
+      return cached;
+    }
+
+    const channel = await this.loadChannel(scope);
+    let content: string;
+    switch (format) {
+      case 'atom':
+        content = this.buildAtom(channel);
+        break;
+      case 'json':
+        content = this.buildJsonFeed(channel);
+        break;
+      default:
+        content = this.buildRss(channel);
+    }
+
+    await this.blogCacheService.setFeed(format, scopeKey, content);
+
+    this.logger.debug('订阅源已生成', {
+      metadata: { format, scope: scopeKey, items: channel.articles.length },
+    });
+
+    return content;
+  }
+
+  /**
+   * 根据订阅范围加载频道信息和文章
+   */
+  private async loadChannel(scope: FeedScope): Promise<FeedChannel> {
+    if (scope.type === 'category') {
+      const category = await this.categoryRepository.findOne({
+        where: { slug: scope.slug, isActive: true },
+      });
+      if (!category) {
+        throw new NotFoundException(ErrorCode.CATEGORY_NOT_FOUND);
+      }
+
+      const result = await this.articleQueryService.getArticlesByCategory(
+        category.id,
+        1,
+        this.itemLimit,
+      );
+      return {
+        title: `${this.siteTitle} - ${category.name}`,
+        description: category.description || this.siteDescription,
+        homePageUrl: SiteUrlUtil.category(this.siteUrl, category.slug),
+        feedPath: `categories/${category.slug}/`,
+        articles: result.items,
+      };
+    }
+
+    if (scope.type === 'tag') {
+      const tag = await this.tagRepository.findOne({
+        where: { slug: scope.slug, isActive: true },
+      });
+      if (!tag) {
+        throw new NotFoundException(ErrorCode.TAG_NOT_FOUND);
+      }
+
+      const result = await this.articleQueryService.getArticlesByTag(
+        tag.id,
+        1,
+        this.itemLimit,
+      );
+      return {
+        title: `${this.siteTitle} - ${tag.name}`,
+        description: tag.description || this.siteDescription,
+        homePageUrl: SiteUrlUtil.tag(this.siteUrl, tag.slug),
+        feedPath: `tags/${tag.slug}/`,
+        articles: result.items,
+      };
+    }
+
+    const result = await this.articleQueryService.getRecentArticles({
+      limit: this.itemLimit,
+    });
+    return {
+      title: this.siteTitle,
+      description: this.siteDescription,
+      homePageUrl: this.siteUrl,
+      feedPath: '',
+      // 最新文章缓存可能包含更多条目，这里按配置截取
+      articles: result.items.slice(0, this.itemLimit),
+    };
+  }
+
+  /**
+   * 生成 RSS 2.0
+   */
+  private buildRss(channel: FeedChannel): string {
+    const items = channel.articles.map((article) => {
+      const link = this.getArticleUrl(article);
+      const categories = this.getArticleTerms(article)
+        .map((term) => XmlUtil.element('category', term))
+        .join('');
+
+      return [
+        '<item>',
+        XmlUtil.element('title', article.title),
+        XmlUtil.element('link', link),
+        `<guid isPermaLink="true">${XmlUtil.escape(link)}</guid>`,
+        XmlUtil.element('description', this.getArticleSummary(article)),
+        XmlUtil.element(
+          'pubDate',
+          this.toDate(article.publishedAt).toUTCString(),
+        ),
+        XmlUtil.element('dc:creator', this.getAuthorName(article)),
+        categories,
+        '</item>',
+      ].join('');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '<channel>',
+      XmlUtil.element('title', channel.title),
+      XmlUtil.element('link', channel.homePageUrl),
+      `<description>${XmlUtil.escape(channel.description || channel.title)}</description>`,
+      '<language>zh-CN</language>',
+      XmlUtil.element(
+        'lastBuildDate',
+        this.getLastUpdated(channel).toUTCString(),
+      ),
+      `<atom:link href="${XmlUtil.escape(this.getFeedUrl(channel, 'rss'))}" rel="self" type="application/rss+xml"/>`,
+      ...items,
+      '</channel>',
+      '</rss>',
+    ].join('\n');
+  }
+
+  /**
+   * 生成 Atom 1.0
+   */
+  private buildAtom(channel: FeedChannel): string {
+    const feedUrl = this.getFeedUrl(channel, 'atom');
+    const entries = channel.articles.map((article) => {
+      const categories = this.getArticleTerms(article)
+        .map((term) => `<category term="${XmlUtil.escape(term)}"/>`)
+        .join('');
+
+      return [
+        '<entry>',
+        XmlUtil.element('id', `urn:uuid:${article.id}`),
+        XmlUtil.element('title', article.title),
+        `<link rel="alternate" type="text/html" href="${XmlUtil.escape(this.getArticleUrl(article))}"/>`,
+        XmlUtil.element(
+          'published',
+          this.toDate(article.publishedAt).toISOString(),
+        ),
+        XmlUtil.element(
+          'updated',
+          this.toDate(article.updatedAt || article.publishedAt).toISOString(),
+        ),
+        `<author>${XmlUtil.element('name', this.getAuthorName(article) || this.siteTitle)}</author>`,
+        XmlUtil.element('summary', this.getArticleSummary(article)),
+        categories,
+        '</entry>',
+      ].join('');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="zh-CN">',
+      XmlUtil.element('id', feedUrl),
+      XmlUtil.element('title', channel.title),
+      XmlUtil.element('subtitle', channel.description),
+      XmlUtil.element('updated', this.getLastUpdated(channel).toISOString()),
+      `<link rel="self" type="application/atom+xml" href="${XmlUtil.escape(feedUrl)}"/>`,
+      `<link rel="alternate" type="text/html" href="${XmlUtil.escape(channel.homePageUrl)}"/>`,
+      XmlUtil.element('generator', this.siteTitle),
+      ...entries,
+      '</feed>',
+    ].join('\n');
+  }
+
+  /**
+   * 生成 JSON Feed 1.1
+   */
+  private buildJsonFeed(channel: FeedChannel): string {
+    const feed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: channel.title,
+      home_page_url: channel.homePageUrl,
+      feed_url: this.getFeedUrl(channel, 'json'),
+      description: channel.description || undefined,
+      language: 'zh-CN',
+      items: channel.articles.map((article) => {
+        const authorName = this.getAuthorName(article);
+        return {
+          id: article.id,
+          url: this.getArticleUrl(article),
+          title: article.title,
+          summary: this.getArticleSummary(article),
+          content_text: article.content || this.getArticleSummary(article),
+          image: article.coverImage || undefined,
+          date_published: this.toDate(article.publishedAt).toISOString(),
+          date_modified: this.toDate(
+            article.updatedAt || article.publishedAt,
+          ).toISOString(),
+          authors: authorName ? [{ name: authorName }] : undefined,
+          tags: this.getArticleTerms(article),
+        };
+      }),
+    };
+
+    return JSON.stringify(feed);
+  }
+
+  private getArticleUrl(article: Article): string {
+    return SiteUrlUtil.article(this.siteUrl, article.slug);
+  }
+
+  private getFeedUrl(channel: FeedChannel, format: FeedFormat): string {
+    return `${this.apiBaseUrl}/${channel.feedPath}${FEED_FILE_NAMES[format]}`;
+  }
+
+  /**
+   * 文章摘要：优先使用summary，其次SEO描述，最后截取正文
+   */
+  private getArticleSummary(article: Article): string {
+    return (
+      article.summary ||
+      article.metaDescription ||
+      (article.content || '').slice(0, 200)
+    );
+  }
+
+  private getAuthorName(article: Article): string {
+    return article.author?.nickname || article.author?.username || '';
+  }
+
+  /**
+   * 文章的分类和标签名称
+   */
+  private getArticleTerms(article: Article): string[] {
+    const terms: string[] = [];
+    if (article.category?.name) {
+      terms.push(article.category.name);
+    }
+    for (const tag of article.tags || []) {
+      terms.push(tag.name);
+    }
+    return terms;
+  }
+
+  private getLastUpdated(channel: FeedChannel): Date {
+    const timestamps = channel.articles.map((article) =>
+      this.toDate(article.updatedAt || article.publishedAt).getTime(),
+    );
+    return timestamps.length > 0
+      ? new Date(Math.max(...timestamps))
+      : new Date();
+  }
+
+  /**
+   * 缓存中的文章日期为字符串，统一转换为Date
+   */
+  private toDate(value: Date | string | null | undefined): Date {
+    return value ? new Date(value) : new Date();
+  }
+}
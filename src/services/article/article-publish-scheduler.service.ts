@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { ArticleStatusService } from './article-status.service';
+
+/**
+ * 定时发布任务
+ * 每分钟检查一次到期的定时文章并发布
+ */
+@Injectable()
+export class ArticlePublishSchedulerService {
+  private isRunning = false;
+
+  constructor(
+    private readonly articleStatusService: ArticleStatusService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticlePublishSchedulerService' });
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async publishDueArticles(): Promise<void> {
+    // 上一轮尚未结束时跳过，避免重复发布
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const count = await this.articleStatusService.publishDueArticles();
+      if (count > 0) {
+        this.logger.log('定时发布任务执行完成', {
+          action: 'scheduled_publish',
+          metadata: { published: count },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        '定时发布任务执行失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
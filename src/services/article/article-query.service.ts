@@ -12,6 +12,7 @@ import { PaginationUtil } from '@/common/utils/pagination.util';
 import { BaseService } from '@/common/base/base.service';
 import { ConfigService } from '@nestjs/config';
 import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import { HighlightUtil } from '@/common/utils/highlight.util';
 
 export type ArticleQueryOptions = Omit<ArticleQueryDto, 'skip'>;
 
@@ -20,6 +21,26 @@ export interface ArticleQueryResult {
   total: number;
 }
 
+/**
+ * 搜索结果高亮片段（已转义HTML，命中词以<mark>包裹）
+ */
+export interface ArticleSearchHighlight {
+  title: string;
+  summary?: string;
+  content?: string;
+  tags?: string[];
+}
+
+export type ArticleSearchItem = Article & {
+  relevance: number;
+  highlight: ArticleSearchHighlight;
+};
+
+export interface ArticleSearchResult {
+  items: ArticleSearchItem[];
+  total: number;
+}
+
 export interface CurrentUser {
   sub: string;
   username: string;
@@ -221,7 +242,8 @@ export class ArticleQueryService extends BaseService<Article> {
   }
 
   /**
-   * 搜索文章（优化版）
+   * 搜索文章
+   * 默认使用全文索引（ngram）检索并按相关度排序，指定标题/摘要/内容模式或关键词过短时回退为LIKE匹配
    */
   async searchArticles(
     keyword: string,
@@ -229,7 +251,137 @@ export class ArticleQueryService extends BaseService<Article> {
       searchMode?: ArticleSearchMode;
     } = {},
     currentUser?: CurrentUser,
-  ): Promise<ArticleQueryResult> {
+  ): Promise<ArticleSearchResult> {
+    const searchMode = options.searchMode ?? ArticleSearchMode.FULLTEXT;
+    const terms = HighlightUtil.splitTerms(keyword.replace(/["]/g, ' '));
+
+    if (
+      searchMode === ArticleSearchMode.FULLTEXT &&
+      terms.length > 0 &&
+      terms.every((term) => term.length >= ArticleQueryService.NGRAM_TOKEN_SIZE)
+    ) {
+      return this.fulltextSearch(terms, options, currentUser);
+    }
+
+    return this.likeSearch(keyword, terms, options, currentUser);
+  }
+
+  /**
+   * 基于FULLTEXT索引的搜索
+   * 先查询命中文章ID与相关度并分页，再加载完整文章数据
+   */
+  private async fulltextSearch(
+    terms: string[],
+    options: Omit<ArticleQueryOptions, 'keyword'>,
+    currentUser?: CurrentUser,
+  ): Promise<ArticleSearchResult> {
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = 'relevance',
+      sortOrder = 'DESC',
+    } = options;
+    const skip = PaginationUtil.calculateSkip(page, limit);
+    const weights = ArticleQueryService.SEARCH_WEIGHTS;
+
+    // 布尔模式要求每个词都作为短语出现，自然语言模式用于计算相关度
+    const booleanQuery = terms.map((term) => `+"${term}"`).join(' ');
+    const naturalQuery = terms.join(' ');
+    const tagParameters: Record<string, string> = {};
+    const tagConditions = terms.map((term, index) => {
+      tagParameters[`searchTagTerm${index}`] = `%${term}%`;
+      return `searchTag.name LIKE :searchTagTerm${index}`;
+    });
+    const tagMatchSql = `EXISTS (SELECT 1 FROM article_tags searchArticleTag INNER JOIN tags searchTag ON searchTag.id = searchArticleTag.tagId WHERE searchArticleTag.articleId = article.id AND searchTag.deletedAt IS NULL AND (${tagConditions.join(' OR ')}))`;
+    const relevanceSql = `(MATCH(article.title) AGAINST (:naturalQuery) * ${weights.TITLE}
+      + MATCH(article.summary) AGAINST (:naturalQuery) * ${weights.SUMMARY}
+      + MATCH(article.title, article.summary, article.content) AGAINST (:naturalQuery) * ${weights.CONTENT}
+      + (CASE WHEN ${tagMatchSql} THEN ${weights.TAG} ELSE 0 END))`;
+
+    const baseQuery = this.articleRepository
+      .createQueryBuilder('article')
+      .where('article.status = :status', { status: ArticleStatus.PUBLISHED })
+      .andWhere('article.isVisible = :isVisible', { isVisible: true })
+      .andWhere(
+        `(MATCH(article.title, article.summary, article.content) AGAINST (:booleanQuery IN BOOLEAN MODE) OR ${tagMatchSql})`,
+      )
+      .setParameters({ booleanQuery, naturalQuery, ...tagParameters });
+
+    const isAdminQuery = currentUser?.role === 'admin';
+    this.applyFilters(
+      baseQuery,
+      { ...options, status: ArticleStatus.PUBLISHED, keyword: undefined },
+      isAdminQuery,
+    );
+
+    const countResult = await baseQuery
+      .clone()
+      .select('COUNT(DISTINCT article.id)', 'total')
+      .getRawOne<{ total: string | number }>();
+    const total = Number(countResult?.total ?? 0);
+    if (total === 0) {
+      return { items: [], total: 0 };
+    }
+
+    // 过滤条件可能关联标签表产生重复行，使用DISTINCT去重（排序字段需出现在查询列中）
+    const idQuery = baseQuery
+      .clone()
+      .select('article.id', 'id')
+      .addSelect(relevanceSql, 'relevance')
+      .addSelect('article.publishedAt', 'publishedAt')
+      .distinct(true);
+
+    if (
+      sortBy !== 'relevance' &&
+      ArticleQueryService.SEARCH_SORT_FIELDS.includes(sortBy)
+    ) {
+      idQuery
+        .addSelect(`article.${sortBy}`, 'sortValue')
+        .orderBy('sortValue', sortOrder)
+        .addOrderBy('relevance', 'DESC');
+    } else {
+      idQuery.orderBy('relevance', 'DESC').addOrderBy('publishedAt', 'DESC');
+    }
+
+    const rows = await idQuery
+      .offset(skip)
+      .limit(limit)
+      .getRawMany<{ id: string; relevance: string | number }>();
+
+    if (rows.length === 0) {
+      return { items: [], total };
+    }
+
+    const articles = await this.createOptimizedQueryBuilder('search')
+      .where('article.id IN (:...ids)', { ids: rows.map((row) => row.id) })
+      .getMany();
+    const articleMap = new Map(
+      articles.map((article) => [article.id, article]),
+    );
+
+    const items = rows
+      .map((row) => {
+        const article = articleMap.get(row.id);
+        return article
+          ? this.toSearchItem(article, terms, Number(row.relevance))
+          : null;
+      })
+      .filter((item): item is ArticleSearchItem => item !== null);
+
+    return { items, total };
+  }
+
+  /**
+   * 基于LIKE的搜索（指定字段搜索或关键词过短时使用）
+   */
+  private async likeSearch(
+    keyword: string,
+    terms: string[],
+    options: Omit<ArticleQueryOptions, 'keyword'> & {
+      searchMode?: ArticleSearchMode;
+    },
+    currentUser?: CurrentUser,
+  ): Promise<ArticleSearchResult> {
     const {
       page = 1,
       limit = 10,
@@ -241,7 +393,6 @@ export class ArticleQueryService extends BaseService<Article> {
     // 使用搜索优化的查询构建器，始终包含标签和分类
     const queryBuilder = this.createOptimizedQueryBuilder('search');
 
-    // 应用搜索条件（优化：使用全文搜索或更高效的LIKE查询）
     queryBuilder
       .where('article.status = :status', { status: 'published' })
       .andWhere('article.isVisible = :isVisible', { isVisible: true });
@@ -249,35 +400,58 @@ export class ArticleQueryService extends BaseService<Article> {
     // 应用所有过滤条件，包括关键词搜索
     // 搜索接口强制只返回已发布文章，所以这是用户端查询
     const isAdminQuery = currentUser?.role === 'admin';
-    this.applyFilters(queryBuilder, { ...options, keyword }, isAdminQuery);
-
-    // 应用排序（搜索结果可以按相关性排序）
-    if (sortBy === 'relevance') {
-      // 简单的相关性排序：标题匹配优先
-      queryBuilder
-        .addSelect(
-          `CASE 
-            WHEN article.title LIKE :titleKeyword THEN 3
-            WHEN article.summary LIKE :summaryKeyword THEN 2
-            ELSE 1
-          END`,
-          'relevance',
-        )
-        .setParameter('titleKeyword', `%${keyword}%`)
-        .setParameter('summaryKeyword', `%${keyword}%`)
-        .orderBy('relevance', 'DESC')
-        .addOrderBy('article.publishedAt', 'DESC');
-    } else {
+    this.applyFilters(
+      queryBuilder,
+      { ...options, status: ArticleStatus.PUBLISHED, keyword },
+      isAdminQuery,
+    );
+
+    // LIKE匹配无相关度，按相关度排序时退化为按发布时间排序
+    if (ArticleQueryService.SEARCH_SORT_FIELDS.includes(sortBy)) {
       queryBuilder.orderBy(`article.${sortBy}`, sortOrder);
+    } else {
+      queryBuilder.orderBy('article.publishedAt', 'DESC');
     }
 
-    // 分页
     queryBuilder.skip(skip).take(limit);
 
-    // 执行查询
-    const [items, total] = await queryBuilder.getManyAndCount();
+    const [articles, total] = await queryBuilder.getManyAndCount();
 
-    return { items, total };
+    return {
+      items: articles.map((article) => this.toSearchItem(article, terms, 0)),
+      total,
+    };
+  }
+
+  /**
+   * 为搜索结果附加相关度和高亮片段
+   */
+  private toSearchItem(
+    article: Article,
+    terms: string[],
+    relevance: number,
+  ): ArticleSearchItem {
+    const matchedTags = (article.tags || [])
+      .filter((tag) => HighlightUtil.contains(tag.name, terms))
+      .map((tag) => HighlightUtil.highlight(tag.name, terms));
+
+    const highlight: ArticleSearchHighlight = {
+      title: HighlightUtil.highlight(article.title, terms),
+    };
+    if (article.summary) {
+      highlight.summary = HighlightUtil.highlight(article.summary, terms);
+    }
+    if (HighlightUtil.contains(article.content, terms)) {
+      highlight.content = HighlightUtil.snippet(article.content, terms);
+    }
+    if (matchedTags.length > 0) {
+      highlight.tags = matchedTags;
+    }
+
+    return Object.assign(article, {
+      relevance: Math.round(relevance * 10000) / 10000,
+      highlight,
+    });
   }
 
   /**
@@ -525,6 +699,34 @@ export class ArticleQueryService extends BaseService<Article> {
     return queryBuilder;
   }
 
+  /**
+   * MySQL ngram全文解析器的分词长度（ngram_token_size默认值）
+   * 短于该长度的词无法通过全文索引检索
+   */
+  private static readonly NGRAM_TOKEN_SIZE = 2;
+
+  /**
+   * 搜索相关度权重：标题 > 摘要 > 正文，命中标签额外加分
+   */
+  private static readonly SEARCH_WEIGHTS = {
+    TITLE: 3,
+    SUMMARY: 2,
+    CONTENT: 1,
+    TAG: 5,
+  } as const;
+
+  /**
+   * 搜索结果允许的排序字段
+   */
+  private static readonly SEARCH_SORT_FIELDS: string[] = [
+    'publishedAt',
+    'createdAt',
+    'updatedAt',
+    'viewCount',
+    'likeCount',
+    'commentCount',
+  ];
+
   /**
    * 查询类型配置映射
    */
@@ -0,0 +1,293 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import MarkdownIt from 'markdown-it';
+import footnote from 'markdown-it-footnote';
+import sanitizeHtml from 'sanitize-html';
+import { Article } from '@/entities/article.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 目录项，children 为下级标题
+ */
+export interface ArticleTocItem {
+  id: string;
+  text: string;
+  level: number;
+  children: ArticleTocItem[];
+}
+
+/**
+ * 渲染结果
+ */
+export interface RenderedArticleContent {
+  html: string;
+  toc: ArticleTocItem[];
+}
+
+/**
+ * 单次渲染的状态，通过 markdown-it 的 env 在规则间传递
+ */
+interface RenderEnv extends MarkdownIt.Env {
+  headings: Omit<ArticleTocItem, 'children'>[];
+  usedIds: Set<string>;
+}
+
+// 渲染规则变化时递增，已缓存的结果会在下次读取时重新生成
+const RENDER_VERSION = 1;
+
+// 代码块语言名只保留安全字符，用作 class 和 data-lang
+const LANGUAGE_PATTERN = /^[a-zA-Z0-9_+#-]{1,32}$/;
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'del', 's', 'ins'],
+  allowedAttributes: {
+    a: ['href', 'title', 'id', 'class', 'rel', 'aria-hidden'],
+    img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+    h1: ['id'],
+    h2: ['id'],
+    h3: ['id'],
+    h4: ['id'],
+    h5: ['id'],
+    h6: ['id'],
+    pre: ['class', 'data-lang'],
+    code: ['class'],
+    li: ['id', 'class'],
+    sup: ['id', 'class'],
+    section: ['class'],
+    hr: ['class'],
+    ol: ['start', 'class'],
+    th: ['style', 'colspan', 'rowspan'],
+    td: ['style', 'colspan', 'rowspan'],
+  },
+  allowedClasses: {
+    a: ['heading-anchor', 'footnote-backref'],
+    pre: ['code-block'],
+    code: ['hljs', 'language-*'],
+    li: ['footnote-item'],
+    sup: ['footnote-ref'],
+    section: ['footnotes'],
+    hr: ['footnotes-sep'],
+    ol: ['footnotes-list'],
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] },
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  allowedSchemesAppliedToAttributes: ['href', 'src'],
+  allowProtocolRelative: true,
+  transformTags: {
+    // 外部链接不传递权重，并阻止新页面访问 window.opener
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: /^(https?:)?\/\//i.test(attribs.href ?? '')
+        ? { ...attribs, rel: 'nofollow noopener noreferrer' }
+        : attribs,
+    }),
+    img: (tagName, attribs) => ({
+      tagName,
+      attribs: { ...attribs, loading: 'lazy' },
+    }),
+  },
+};
+
+/**
+ * 文章 Markdown 渲染服务
+ * 生成经过净化的 HTML、标题锚点、目录、代码块语言标注和脚注，
+ * 结果与正文哈希一起保存在文章表中，正文变化或渲染规则升级后读取时自动重新生成
+ */
+@Injectable()
+export class ArticleRenderService {
+  private readonly markdown: MarkdownIt.MarkdownIt;
+
+  constructor(
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleRenderService' });
+    this.markdown = this.createMarkdown();
+  }
+
+  /**
+   * 渲染 Markdown
+   */
+  render(content: string): RenderedArticleContent {
+    const env: RenderEnv = { headings: [], usedIds: new Set() };
+    const html = this.markdown.render(content ?? '', env);
+
+    return {
+      html: sanitizeHtml(html, SANITIZE_OPTIONS),
+      toc: this.buildToc(env.headings),
+    };
+  }
+
+  /**
+   * 获取文章的渲染结果，缓存与正文不一致时重新渲染并保存
+   */
+  async getRendered(
+    article: Pick<Article, 'id' | 'content'>,
+  ): Promise<RenderedArticleContent> {
+    const cached = await this.articleRepository.findOne({
+      where: { id: article.id },
+      select: {
+        id: true,
+        renderedHtml: true,
+        renderedToc: true,
+        renderedHash: true,
+      },
+    });
+
+    if (
+      cached?.renderedHtml != null &&
+      cached.renderedHash === this.hash(article.content)
+    ) {
+      return { html: cached.renderedHtml, toc: cached.renderedToc ?? [] };
+    }
+
+    return await this.refresh(article);
+  }
+
+  /**
+   * 重新渲染文章正文并保存
+   */
+  async refresh(
+    article: Pick<Article, 'id' | 'content'>,
+  ): Promise<RenderedArticleContent> {
+    const rendered = this.render(article.content);
+    await this.articleRepository.update(article.id, {
+      renderedHtml: rendered.html,
+      renderedToc: rendered.toc,
+      renderedHash: this.hash(article.content),
+      // 缓存不属于文章内容修改，保持更新时间不变
+      updatedAt: () => 'updatedAt',
+    });
+
+    this.logger.debug('文章渲染结果已更新', {
+      action: 'render_article',
+      metadata: { articleId: article.id, length: rendered.html.length },
+    });
+
+    return rendered;
+  }
+
+  private createMarkdown(): MarkdownIt.MarkdownIt {
+    const markdown = new MarkdownIt({
+      html: true,
+      linkify: true,
+      typographer: false,
+    });
+    // 插件的类型声明基于 @types/markdown-it，与 markdown-it 自带的类型不一致
+    markdown.use(footnote as unknown as (md: MarkdownIt.MarkdownIt) => void);
+
+    // 解析完成后为标题生成锚点并收集目录
+    markdown.core.ruler.push('heading_anchor', (state) => {
+      const env = state.env as RenderEnv;
+      const tokens = state.tokens;
+
+      for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const inline = tokens[i + 1];
+        if (token.type !== 'heading_open' || inline?.type !== 'inline') {
+          continue;
+        }
+
+        const text = this.getInlineText(inline.children ?? []).trim();
+        const id = this.uniqueId(this.slugify(text), env.usedIds);
+        token.attrSet('id', id);
+        env.headings.push({ id, text, level: Number(token.tag.slice(1)) });
+
+        const linkOpen = new state.Token('link_open', 'a', 1);
+        linkOpen.attrSet('class', 'heading-anchor');
+        linkOpen.attrSet('href', `#${id}`);
+        linkOpen.attrSet('aria-hidden', 'true');
+        const linkText = new state.Token('text', '', 0);
+        linkText.content = '#';
+        const linkClose = new state.Token('link_close', 'a', -1);
+        inline.children = [
+          linkOpen,
+          linkText,
+          linkClose,
+          ...(inline.children ?? []),
+        ];
+      }
+    });
+
+    // 代码块标注语言，由客户端选择高亮方案
+    markdown.renderer.rules.fence = (tokens, index) => {
+      const token = tokens[index];
+      const language = token.info.trim().split(/\s+/)[0];
+      const escaped = markdown.utils.escapeHtml(token.content);
+
+      if (!language || !LANGUAGE_PATTERN.test(language)) {
+        return `<pre class="code-block"><code class="hljs">${escaped}</code></pre>\n`;
+      }
+      const normalized = language.toLowerCase();
+      return `<pre class="code-block" data-lang="${normalized}"><code class="hljs language-${normalized}">${escaped}</code></pre>\n`;
+    };
+
+    return markdown;
+  }
+
+  private getInlineText(tokens: MarkdownIt.Token[]): string {
+    return tokens
+      .filter((token) => token.type === 'text' || token.type === 'code_inline')
+      .map((token) => token.content)
+      .join('');
+  }
+
+  /**
+   * 标题文本转为锚点，保留中文等文字，去掉标点
+   */
+  private slugify(text: string): string {
+    const slug = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .trim()
+      .replace(/\s+/g, '-');
+    return slug || 'section';
+  }
+
+  private uniqueId(base: string, usedIds: Set<string>): string {
+    let id = base;
+    let suffix = 1;
+    while (usedIds.has(id)) {
+      id = `${base}-${suffix++}`;
+    }
+    usedIds.add(id);
+    return id;
+  }
+
+  /**
+   * 按标题级别组装目录树，跳级的标题挂在最近的上级标题下
+   */
+  private buildToc(
+    headings: Omit<ArticleTocItem, 'children'>[],
+  ): ArticleTocItem[] {
+    const root: ArticleTocItem[] = [];
+    const stack: ArticleTocItem[] = [];
+
+    for (const heading of headings) {
+      const item: ArticleTocItem = { ...heading, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= item.level) {
+        stack.pop();
+      }
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(item);
+      } else {
+        root.push(item);
+      }
+      stack.push(item);
+    }
+
+    return root;
+  }
+
+  private hash(content: string): string {
+    return createHash('sha256')
+      .update(`${RENDER_VERSION}:${content ?? ''}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,370 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { In, Repository } from 'typeorm';
+import { Article } from '@/entities/article.entity';
+import { ArticleRevision } from '@/entities/article-revision.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import { DiffUtil, DiffLine, DiffStats } from '@/common/utils/diff.util';
+
+export type ArticleRevisionAction = 'create' | 'update' | 'publish' | 'restore';
+
+/**
+ * 参与版本快照的文章字段
+ */
+const SNAPSHOT_FIELDS = [
+  'title',
+  'summary',
+  'content',
+  'slug',
+  'coverImage',
+  'metaDescription',
+  'metaKeywords',
+  'socialImage',
+  'categoryId',
+  'tagIds',
+  'status',
+] as const;
+
+type SnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+
+export type ArticleSnapshot = Pick<ArticleRevision, SnapshotField>;
+
+export interface RevisionFieldChange {
+  field: SnapshotField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ArticleRevisionDiff {
+  from: Omit<ArticleRevision, 'content'>;
+  to: Omit<ArticleRevision, 'content'>;
+  changes: RevisionFieldChange[];
+  content: {
+    lines: DiffLine[];
+    stats: DiffStats;
+  };
+}
+
+/**
+ * 文章版本历史服务
+ * 负责在文章创建/更新/发布时记录快照、版本对比以及按保留策略清理旧版本
+ */
+@Injectable()
+export class ArticleRevisionService {
+  private readonly maxRevisionsPerArticle: number;
+  private readonly retentionDays: number;
+
+  constructor(
+    @InjectRepository(ArticleRevision)
+    private readonly revisionRepository: Repository<ArticleRevision>,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'ArticleRevisionService' });
+    this.maxRevisionsPerArticle = Number(
+      this.configService.get<number>('ARTICLE_REVISION_MAX_COUNT', 50),
+    );
+    this.retentionDays = Number(
+      this.configService.get<number>('ARTICLE_REVISION_RETENTION_DAYS', 180),
+    );
+  }
+
+  /**
+   * 从文章实体提取快照
+   */
+  createSnapshot(article: Article): ArticleSnapshot {
+    return {
+      title: article.title,
+      summary: article.summary ?? null,
+      content: article.content ?? '',
+      slug: article.slug,
+      coverImage: article.coverImage ?? null,
+      metaDescription: article.metaDescription ?? null,
+      metaKeywords: article.metaKeywords ?? null,
+      socialImage: article.socialImage ?? null,
+      categoryId: article.categoryId ?? null,
+      tagIds: article.tags ? article.tags.map((tag) => tag.id).sort() : null,
+      status: article.status,
+    };
+  }
+
+  /**
+   * 记录文章版本
+   * 对于普通更新，如果内容与最新版本一致则不会重复记录
+   */
+  async recordRevision(
+    article: Article,
+    action: ArticleRevisionAction,
+    editorId?: string | null,
+  ): Promise<ArticleRevision | null> {
+    const snapshot = this.createSnapshot(article);
+
+    // 锁定文章行后再分配版本号，避免并发保存时生成重复的版本号
+    const savedRevision = await this.revisionRepository.manager.transaction(
+      async (manager) => {
+        await manager
+          .getRepository(Article)
+          .createQueryBuilder('article')
+          .select('article.id')
+          .where('article.id = :id', { id: article.id })
+          .withDeleted()
+          .setLock('pessimistic_write')
+          .getOne();
+
+        const revisionRepository = manager.getRepository(ArticleRevision);
+        const latest = await revisionRepository.findOne({
+          where: { articleId: article.id },
+          order: { revisionNumber: 'DESC' },
+        });
+
+        if (
+          latest &&
+          action === 'update' &&
+          this.getChanges(latest, snapshot).length === 0
+        ) {
+          return null;
+        }
+
+        return await revisionRepository.save(
+          revisionRepository.create({
+            ...snapshot,
+            articleId: article.id,
+            revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+            action,
+            editorId: editorId ?? null,
+          }),
+        );
+      },
+    );
+    if (!savedRevision) {
+      return null;
+    }
+
+    try {
+      await this.pruneByCount(article.id);
+    } catch (error) {
+      this.logger.error(
+        `清理文章旧版本失败: articleId=${article.id}, error=${(error as Error).message || error}`,
+      );
+    }
+
+    return savedRevision;
+  }
+
+  /**
+   * 为尚无版本记录的文章补录基线版本
+   * 用于功能上线前已存在的文章，确保首次修改前的内容不会丢失
+   */
+  async ensureBaseline(article: Article): Promise<void> {
+    const count = await this.revisionRepository.count({
+      where: { articleId: article.id },
+    });
+    if (count === 0) {
+      await this.recordRevision(article, 'create', article.authorId);
+    }
+  }
+
+  /**
+   * 批量记录文章版本（用于批量发布等操作）
+   */
+  async recordRevisionsForArticles(
+    articles: Article[],
+    action: ArticleRevisionAction,
+    editorId?: string | null,
+  ): Promise<void> {
+    for (const article of articles) {
+      try {
+        await this.recordRevision(article, action, editorId);
+      } catch (error) {
+        this.logger.error(
+          `记录文章版本失败: articleId=${article.id}, error=${(error as Error).message || error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 分页获取文章版本列表（不包含正文）
+   */
+  async findByArticle(
+    articleId: string,
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<{ items: ArticleRevision[]; total: number }> {
+    const [items, total] = await this.revisionRepository
+      .createQueryBuilder('revision')
+      .leftJoin('revision.editor', 'editor')
+      .select([
+        'revision.id',
+        'revision.articleId',
+        'revision.revisionNumber',
+        'revision.action',
+        'revision.title',
+        'revision.slug',
+        'revision.status',
+        'revision.editorId',
+        'revision.createdAt',
+        'editor.id',
+        'editor.username',
+        'editor.nickname',
+      ])
+      .where('revision.articleId = :articleId', { articleId })
+      .orderBy('revision.revisionNumber', 'DESC')
+      .skip(PaginationUtil.calculateSkip(page, limit))
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total };
+  }
+
+  /**
+   * 获取单个版本详情
+   */
+  async findOne(
+    articleId: string,
+    revisionId: string,
+  ): Promise<ArticleRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { id: revisionId, articleId },
+    });
+    if (!revision) {
+      throw new NotFoundException(ErrorCode.ARTICLE_REVISION_NOT_FOUND);
+    }
+    return revision;
+  }
+
+  /**
+   * 对比两个版本
+   * @param fromId 旧版本ID
+   * @param toId 新版本ID
+   */
+  async diff(
+    articleId: string,
+    fromId: string,
+    toId: string,
+  ): Promise<ArticleRevisionDiff> {
+    const revisions = await this.revisionRepository.find({
+      where: { articleId, id: In([fromId, toId]) },
+    });
+    const from = revisions.find((revision) => revision.id === fromId);
+    const to = revisions.find((revision) => revision.id === toId);
+    if (!from || !to) {
+      throw new NotFoundException(ErrorCode.ARTICLE_REVISION_NOT_FOUND);
+    }
+
+    const lines = DiffUtil.diffLines(from.content, to.content);
+
+    return {
+      from: this.omitContent(from),
+      to: this.omitContent(to),
+      changes: this.getChanges(from, to).filter(
+        (change) => change.field !== 'content',
+      ),
+      content: {
+        lines,
+        stats: DiffUtil.getStats(lines),
+      },
+    };
+  }
+
+  /**
+   * 每天凌晨3点执行：清理超过保留天数的版本（每篇文章始终保留最新版本）
+   */
+  @Cron('0 3 * * *')
+  async pruneExpiredRevisions(): Promise<void> {
+    if (this.retentionDays <= 0) {
+      return;
+    }
+
+    try {
+      const cutoff = new Date(
+        Date.now() - this.retentionDays * 24 * 60 * 60 * 1000,
+      );
+      const result: { affectedRows?: number } =
+        await this.revisionRepository.query(
+          `DELETE r FROM article_revisions r
+           JOIN (
+             SELECT articleId, MAX(revisionNumber) AS latestNumber
+             FROM article_revisions
+             GROUP BY articleId
+           ) latest ON latest.articleId = r.articleId
+           WHERE r.createdAt < ? AND r.revisionNumber < latest.latestNumber`,
+          [cutoff],
+        );
+
+      this.logger.log('过期文章版本清理完成', {
+        action: 'prune_article_revisions',
+        metadata: {
+          retentionDays: this.retentionDays,
+          deleted: result?.affectedRows ?? 0,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        '清理过期文章版本失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * 按数量上限清理单篇文章的旧版本
+   */
+  private async pruneByCount(articleId: string): Promise<void> {
+    if (this.maxRevisionsPerArticle <= 0) {
+      return;
+    }
+
+    const boundary = await this.revisionRepository.find({
+      select: ['revisionNumber'],
+      where: { articleId },
+      order: { revisionNumber: 'DESC' },
+      skip: this.maxRevisionsPerArticle,
+      take: 1,
+    });
+    if (boundary.length === 0) {
+      return;
+    }
+
+    await this.revisionRepository
+      .createQueryBuilder()
+      .delete()
+      .where('articleId = :articleId', { articleId })
+      .andWhere('revisionNumber <= :revisionNumber', {
+        revisionNumber: boundary[0].revisionNumber,
+      })
+      .execute();
+  }
+
+  /**
+   * 去除版本正文，用于对比结果中的版本摘要
+   */
+  private omitContent(
+    revision: ArticleRevision,
+  ): Omit<ArticleRevision, 'content'> {
+    const meta: Partial<ArticleRevision> = { ...revision };
+    delete meta.content;
+    return meta as Omit<ArticleRevision, 'content'>;
+  }
+
+  /**
+   * 比较两个快照的字段差异
+   */
+  private getChanges(
+    from: ArticleSnapshot,
+    to: ArticleSnapshot,
+  ): RevisionFieldChange[] {
+    return SNAPSHOT_FIELDS.filter(
+      (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]),
+    ).map((field) => ({
+      field,
+      oldValue: from[field],
+      newValue: to[field],
+    }));
+  }
+}
@@ -92,27 +92,46 @@ export class ArticleStatisticsService {
     total: number;
     published: number;
     draft: number;
+    scheduled: number;
     archived: number;
     featuredCount: number;
     topCount: number;
   }> {
-    const [total, published, draft, archived, featuredCount, topCount] =
-      await Promise.all([
-        this.articleRepository.count(),
-        this.articleRepository.count({
-          where: { status: ArticleStatus.PUBLISHED },
-        }),
-        this.articleRepository.count({
-          where: { status: ArticleStatus.DRAFT },
-        }),
-        this.articleRepository.count({
-          where: { status: ArticleStatus.ARCHIVED },
-        }),
-        this.articleRepository.count({ where: { isFeatured: true } }),
-        this.articleRepository.count({ where: { isTop: true } }),
-      ]);
+    const [
+      total,
+      published,
+      draft,
+      scheduled,
+      archived,
+      featuredCount,
+      topCount,
+    ] = await Promise.all([
+      this.articleRepository.count(),
+      this.articleRepository.count({
+        where: { status: ArticleStatus.PUBLISHED },
+      }),
+      this.articleRepository.count({
+        where: { status: ArticleStatus.DRAFT },
+      }),
+      this.articleRepository.count({
+        where: { status: ArticleStatus.SCHEDULED },
+      }),
+      this.articleRepository.count({
+        where: { status: ArticleStatus.ARCHIVED },
+      }),
+      this.articleRepository.count({ where: { isFeatured: true } }),
+      this.articleRepository.count({ where: { isTop: true } }),
+    ]);
 
-    return { total, published, draft, archived, featuredCount, topCount };
+    return {
+      total,
+      published,
+      draft,
+      scheduled,
+      archived,
+      featuredCount,
+      topCount,
+    };
   }
 
   /**
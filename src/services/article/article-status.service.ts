@@ -1,17 +1,21 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
 import { Article } from '@/entities/article.entity';
 import { ArticleStatus } from '@/dto/article.dto';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { BlogCacheService } from '@/common/cache/blog-cache.service';
 import { TagService } from '../tag.service';
 import { CategoryService } from '../category.service';
+import { ArticleRevisionService } from './article-revision.service';
+import { SitemapService } from '../sitemap.service';
 import {
+  BusinessException,
   NotFoundException,
   ConflictException,
 } from '@/common/exceptions/business.exception';
 import { ErrorCode } from '@/common/constants/error-codes';
+import { PaginationUtil } from '@/common/utils/pagination.util';
 
 @Injectable()
 export class ArticleStatusService {
@@ -24,17 +28,30 @@ export class ArticleStatusService {
     private readonly tagService: TagService,
     @Inject(CategoryService)
     private readonly categoryService: CategoryService,
+    @Inject(ArticleRevisionService)
+    private readonly articleRevisionService: ArticleRevisionService,
+    @Inject(SitemapService)
+    private readonly sitemapService: SitemapService,
   ) {
     this.logger.setContext({ module: 'ArticleStatusService' });
   }
 
   /**
    * 发布文章
+   * 如果指定的发布时间晚于当前时间，则转为定时发布
    */
   async publish(
     id: string,
     publishDto?: { publishedAt?: Date },
+    editorId?: string,
   ): Promise<Article> {
+    if (
+      publishDto?.publishedAt &&
+      new Date(publishDto.publishedAt).getTime() > Date.now()
+    ) {
+      return this.schedule(id, new Date(publishDto.publishedAt), editorId);
+    }
+
     const article = await this.articleRepository.findOne({
       where: { id },
       relations: ['tags'],
@@ -50,6 +67,9 @@ export class ArticleStatusService {
       );
     }
 
+    // 为历史文章补录发布前的基线版本
+    await this.articleRevisionService.ensureBaseline(article);
+
     // 使用update方法而不是save方法，避免意外覆盖其他字段
     await this.articleRepository.update(id, {
       status: 'published',
@@ -67,6 +87,13 @@ export class ArticleStatusService {
       throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
     }
 
+    // 记录发布版本
+    await this.articleRevisionService.recordRevision(
+      updatedArticle,
+      'publish',
+      editorId,
+    );
+
     // 更新标签和分类的文章数量
     const tagIds = article.tags?.map((tag) => tag.id) || [];
     setImmediate(() => {
@@ -98,6 +125,7 @@ export class ArticleStatusService {
 
     // 清除相关缓存 - 使用优化后的发布操作类型
     await this.blogCacheService.clearArticleCache(article.slug, 'publish');
+    this.refreshSitemap();
 
     this.logger.log('文章发布成功', {
       metadata: { articleId: id, title: article.title },
@@ -106,6 +134,214 @@ export class ArticleStatusService {
     return updatedArticle;
   }
 
+  /**
+   * 定时发布文章（也用于重新设置已定时文章的发布时间）
+   */
+  async schedule(
+    id: string,
+    publishAt: Date,
+    editorId?: string,
+  ): Promise<Article> {
+    if (
+      Number.isNaN(publishAt.getTime()) ||
+      publishAt.getTime() <= Date.now()
+    ) {
+      throw new BusinessException(ErrorCode.ARTICLE_SCHEDULE_TIME_INVALID);
+    }
+
+    const article = await this.articleRepository.findOne({
+      where: { id },
+      relations: ['tags'],
+    });
+    if (!article) {
+      throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
+    }
+
+    if (article.status !== 'draft' && article.status !== 'scheduled') {
+      throw new ConflictException(
+        ErrorCode.ARTICLE_INVALID_STATUS,
+        '只有草稿或定时发布中的文章可以设置定时发布',
+      );
+    }
+
+    await this.articleRevisionService.ensureBaseline(article);
+
+    await this.articleRepository.update(id, {
+      status: ArticleStatus.SCHEDULED,
+      publishedAt: publishAt,
+      updatedAt: new Date(),
+    });
+
+    const updatedArticle = await this.articleRepository.findOne({
+      where: { id },
+      relations: ['tags'],
+    });
+
+    if (!updatedArticle) {
+      throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
+    }
+
+    await this.articleRevisionService.recordRevision(
+      updatedArticle,
+      'update',
+      editorId,
+    );
+
+    // 定时文章对用户端不可见，只需清除详情缓存
+    await this.blogCacheService.clearArticleCache(article.slug, 'update');
+
+    this.logger.log('文章定时发布设置成功', {
+      metadata: {
+        articleId: id,
+        title: article.title,
+        publishedAt: publishAt.toISOString(),
+      },
+    });
+
+    return updatedArticle;
+  }
+
+  /**
+   * 取消定时发布，文章恢复为草稿
+   */
+  async cancelSchedule(id: string): Promise<Article> {
+    const article = await this.articleRepository.findOne({ where: { id } });
+    if (!article) {
+      throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
+    }
+
+    if (article.status !== 'scheduled') {
+      throw new ConflictException(
+        ErrorCode.ARTICLE_INVALID_STATUS,
+        '文章未设置定时发布',
+      );
+    }
+
+    await this.articleRepository.update(id, {
+      status: ArticleStatus.DRAFT,
+      publishedAt: null,
+      updatedAt: new Date(),
+    });
+
+    const updatedArticle = await this.articleRepository.findOne({
+      where: { id },
+      relations: ['tags'],
+    });
+
+    if (!updatedArticle) {
+      throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
+    }
+
+    await this.blogCacheService.clearArticleCache(article.slug, 'update');
+
+    this.logger.log('文章定时发布已取消', {
+      metadata: { articleId: id, title: article.title },
+    });
+
+    return updatedArticle;
+  }
+
+  /**
+   * 分页获取定时发布的文章（按计划发布时间升序）
+   */
+  async getScheduledArticles(
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<{ items: Article[]; total: number }> {
+    const [items, total] = await this.articleRepository.findAndCount({
+      where: { status: ArticleStatus.SCHEDULED },
+      relations: ['tags'],
+      order: { publishedAt: 'ASC' },
+      skip: PaginationUtil.calculateSkip(page, limit),
+      take: limit,
+    });
+
+    return { items, total };
+  }
+
+  /**
+   * 发布所有已到期的定时文章
+   * @returns 成功发布的文章数量
+   */
+  async publishDueArticles(now: Date = new Date()): Promise<number> {
+    const dueArticles = await this.articleRepository.find({
+      where: {
+        status: ArticleStatus.SCHEDULED,
+        publishedAt: LessThanOrEqual(now),
+      },
+      relations: ['tags'],
+      order: { publishedAt: 'ASC' },
+    });
+
+    let publishedCount = 0;
+    for (const article of dueArticles) {
+      try {
+        // 带状态条件更新，避免与取消定时等操作并发冲突
+        const result = await this.articleRepository.update(
+          { id: article.id, status: ArticleStatus.SCHEDULED },
+          {
+            status: ArticleStatus.PUBLISHED,
+            updatedAt: new Date(),
+          },
+        );
+        if (!result.affected) {
+          continue;
+        }
+
+        article.status = ArticleStatus.PUBLISHED;
+        await this.articleRevisionService.recordRevision(article, 'publish');
+
+        const tagIds = article.tags?.map((tag) => tag.id) || [];
+        setImmediate(() => {
+          void (async () => {
+            for (const tagId of tagIds) {
+              try {
+                await this.tagService.updateArticleCount(tagId);
+              } catch (error) {
+                this.logger.error(
+                  `定时发布文章后更新标签文章数量失败: tagId=${tagId}, error=${(error as Error).message || error}`,
+                );
+              }
+            }
+            if (article.categoryId) {
+              try {
+                await this.categoryService.updateArticleCount(
+                  article.categoryId,
+                );
+              } catch (error) {
+                this.logger.error(
+                  `定时发布文章后更新分类文章数量失败: categoryId=${article.categoryId}, error=${(error as Error).message || error}`,
+                );
+              }
+            }
+          })();
+        });
+
+        await this.blogCacheService.clearArticleCache(article.slug, 'publish');
+        publishedCount++;
+
+        this.logger.log('定时文章发布成功', {
+          action: 'scheduled_publish',
+          metadata: {
+            articleId: article.id,
+            title: article.title,
+            publishedAt: article.publishedAt,
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `定时文章发布失败: articleId=${article.id}, error=${(error as Error).message || error}`,
+        );
+      }
+    }
+
+    if (publishedCount > 0) {
+      this.refreshSitemap();
+    }
+
+    return publishedCount;
+  }
+
   /**
    * 取消发布文章
    */
@@ -171,6 +407,7 @@ export class ArticleStatusService {
 
     // 清除相关缓存 - 取消发布操作
     await this.blogCacheService.clearArticleCache(article.slug, 'archive');
+    this.refreshSitemap();
 
     this.logger.log('文章取消发布成功', {
       metadata: { articleId: id, title: article.title },
@@ -212,6 +449,7 @@ export class ArticleStatusService {
 
     // 清除相关缓存 - 归档操作
     await this.blogCacheService.clearArticleCache(article.slug, 'archive');
+    this.refreshSitemap();
 
     this.logger.log('文章归档成功', {
       metadata: { articleId: id, title: article.title },
@@ -254,6 +492,7 @@ export class ArticleStatusService {
 
     // 清除相关缓存
     await this.blogCacheService.clearArticleCache(article.slug, 'archive');
+    this.refreshSitemap();
 
     this.logger.log('文章恢复成功', {
       metadata: { articleId: id, title: article.title },
@@ -360,6 +599,7 @@ export class ArticleStatusService {
 
     // 清除文章相关缓存
     await this.blogCacheService.clearArticleCache(article.slug);
+    this.refreshSitemap();
 
     this.logger.log(`文章可见性切换成功`, {
       metadata: {
@@ -374,11 +614,18 @@ export class ArticleStatusService {
 
   /**
    * 批量发布文章
+   * 指定的发布时间晚于当前时间时转为定时发布，由定时任务到期发布
    */
-  async batchPublish(ids: string[]): Promise<void> {
-    const articles = await this.articleRepository.findByIds(ids);
+  async batchPublish(ids: string[], publishedAt?: Date): Promise<void> {
+    const publishDate = publishedAt ?? new Date();
+    const isScheduled = publishDate.getTime() > Date.now();
+
+    const articles = await this.articleRepository.find({
+      where: { id: In(ids) },
+      relations: ['tags'],
+    });
     const publishableArticles = articles.filter(
-      (article) => article.status === 'draft',
+      (article) => article.status === 'draft' || article.status === 'scheduled',
     );
 
     if (publishableArticles.length === 0) {
@@ -388,20 +635,39 @@ export class ArticleStatusService {
       );
     }
 
-    const now = new Date();
-    await this.articleRepository.update(
-      publishableArticles.map((article) => article.id),
-      {
-        status: ArticleStatus.PUBLISHED,
-        publishedAt: now,
-        updatedAt: now,
-      },
+    const publishableIds = publishableArticles.map((article) => article.id);
+    await this.articleRepository.update(publishableIds, {
+      status: isScheduled ? ArticleStatus.SCHEDULED : ArticleStatus.PUBLISHED,
+      publishedAt: publishDate,
+      updatedAt: new Date(),
+    });
+
+    // 记录发布版本
+    const publishedArticles = await this.articleRepository.find({
+      where: { id: In(publishableIds) },
+      relations: ['tags'],
+    });
+    await this.articleRevisionService.recordRevisionsForArticles(
+      publishedArticles,
+      isScheduled ? 'update' : 'publish',
     );
 
-    this.logger.log('批量发布文章成功', {
+    if (isScheduled) {
+      // 定时文章对用户端不可见，只需清除详情缓存
+      for (const article of publishableArticles) {
+        await this.blogCacheService.clearArticleCache(article.slug, 'update');
+      }
+    } else {
+      this.refreshArticleCounts(publishableArticles, '批量发布文章后');
+      await this.blogCacheService.clearArticleCache(undefined, 'publish');
+      this.refreshSitemap();
+    }
+
+    this.logger.log(isScheduled ? '批量设置定时发布成功' : '批量发布文章成功', {
       metadata: {
         count: publishableArticles.length,
-        articleIds: publishableArticles.map((a) => a.id),
+        articleIds: publishableIds,
+        publishedAt: publishDate.toISOString(),
       },
     });
   }
@@ -429,6 +695,9 @@ export class ArticleStatusService {
         updatedAt: new Date(),
       },
     );
+    // 清除列表、订阅源和站点地图缓存
+    await this.blogCacheService.clearArticleCache(undefined, 'archive');
+    this.refreshSitemap();
 
     this.logger.log('批量归档文章成功', {
       metadata: {
@@ -438,20 +707,68 @@ export class ArticleStatusService {
     });
   }
 
+  /**
+   * 在后台重新统计文章所属标签和分类的文章数量
+   */
+  private refreshArticleCounts(articles: Article[], operation: string): void {
+    const tagIds = new Set(
+      articles.flatMap((article) => article.tags?.map((tag) => tag.id) ?? []),
+    );
+    const categoryIds = new Set(
+      articles
+        .map((article) => article.categoryId)
+        .filter((categoryId): categoryId is string => !!categoryId),
+    );
+
+    setImmediate(() => {
+      void (async () => {
+        for (const tagId of tagIds) {
+          try {
+            await this.tagService.updateArticleCount(tagId);
+          } catch (error) {
+            this.logger.error(
+              `${operation}更新标签文章数量失败: tagId=${tagId}, error=${(error as Error).message || error}`,
+            );
+          }
+        }
+        for (const categoryId of categoryIds) {
+          try {
+            await this.categoryService.updateArticleCount(categoryId);
+          } catch (error) {
+            this.logger.error(
+              `${operation}更新分类文章数量失败: categoryId=${categoryId}, error=${(error as Error).message || error}`,
+            );
+          }
+        }
+      })();
+    });
+  }
+
+  /**
+   * 文章状态或可见性变更后，在后台重新生成站点地图
+   */
+  private refreshSitemap(): void {
+    setImmediate(() => {
+      void this.sitemapService.regenerate();
+    });
+  }
+
   /**
    * 获取不同状态的文章数量
    */
   async getStatusCounts(): Promise<{
     draft: number;
+    scheduled: number;
     published: number;
     archived: number;
   }> {
-    const [draft, published, archived] = await Promise.all([
+    const [draft, scheduled, published, archived] = await Promise.all([
       this.articleRepository.count({ where: { status: 'draft' } }),
+      this.articleRepository.count({ where: { status: 'scheduled' } }),
       this.articleRepository.count({ where: { status: 'published' } }),
       this.articleRepository.count({ where: { status: 'archived' } }),
     ]);
 
-    return { draft, published, archived };
+    return { draft, scheduled, published, archived };
   }
 }
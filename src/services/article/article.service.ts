@@ -1,5 +1,8 @@
 import { Injectable, NotFoundException, Inject } from '@nestjs/common';
-import { ConflictException } from '@/common/exceptions/business.exception';
+import {
+  BusinessException,
+  ConflictException,
+} from '@/common/exceptions/business.exception';
 import { ErrorCode } from '@/common/constants/error-codes';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource, In, Not } from 'typeorm';
@@ -23,13 +26,29 @@ import {
   ArticleQueryOptions,
 } from './article-query.service';
 import { ArticleStatusService } from './article-status.service';
+import {
+  ArticleRevisionService,
+  ArticleRevisionAction,
+} from './article-revision.service';
+import { ArticleRenderService } from './article-render.service';
 import { TagService } from '../tag.service';
+import { SitemapService } from '../sitemap.service';
 import { CategoryService } from '../category.service';
 import { ConfigService } from '@nestjs/config';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { BlogCacheService } from '@/common/cache/blog-cache.service';
 import readingTime from 'reading-time';
 
+/**
+ * 文章更新选项
+ */
+export interface ArticleUpdateOptions {
+  /** 编辑者ID，用于版本记录 */
+  editorId?: string;
+  /** 版本记录的操作类型，默认为 update */
+  revisionAction?: ArticleRevisionAction;
+}
+
 @Injectable()
 export class ArticleService extends BaseService<Article> {
   constructor(
@@ -42,18 +61,39 @@ export class ArticleService extends BaseService<Article> {
     private readonly articleQueryService: ArticleQueryService,
     @Inject(ArticleStatusService)
     private readonly articleStatusService: ArticleStatusService,
+    @Inject(ArticleRevisionService)
+    private readonly articleRevisionService: ArticleRevisionService,
+    @Inject(ArticleRenderService)
+    private readonly articleRenderService: ArticleRenderService,
     @Inject(BlogCacheService)
     private readonly blogCacheService: BlogCacheService,
     @Inject(TagService)
     private readonly tagService: TagService,
     @Inject(CategoryService)
     private readonly categoryService: CategoryService,
+    @Inject(SitemapService)
+    private readonly sitemapService: SitemapService,
     @Inject(ConfigService) configService: ConfigService,
     @Inject(StructuredLoggerService) logger: StructuredLoggerService,
   ) {
     super(articleRepository, 'article', configService, logger);
   }
 
+  /**
+   * 校验定时发布时间：定时状态的文章必须有晚于当前时间的发布时间
+   */
+  private assertValidSchedule(
+    status: string | undefined,
+    publishedAt: Date | string | null | undefined,
+  ): void {
+    if (status !== 'scheduled') {
+      return;
+    }
+    if (!publishedAt || new Date(publishedAt).getTime() <= Date.now()) {
+      throw new BusinessException(ErrorCode.ARTICLE_SCHEDULE_TIME_INVALID);
+    }
+  }
+
   /**
    * 计算阅读时间
    * 使用 reading-time 库计算
@@ -75,6 +115,8 @@ export class ArticleService extends BaseService<Article> {
       const createArticleDto = createDataOrDto;
       const { tagIds, ...articleData } = createArticleDto;
 
+      this.assertValidSchedule(articleData.status, articleData.publishedAt);
+
       // 检查slug是否已存在
       let finalSlug = articleData.slug;
       if (!finalSlug) {
@@ -89,70 +131,82 @@ export class ArticleService extends BaseService<Article> {
         throw new ConflictException(ErrorCode.ARTICLE_SLUG_EXISTS);
       }
 
-      return this.dataSource.transaction(async (manager) => {
-        // 设置默认状态
-        const status = articleData.status || 'draft';
-        // 计算阅读时间（优先使用前端传入的值）
-        const readingTime =
-          articleData.readingTime !== undefined
-            ? articleData.readingTime
-            : articleData.content
-              ? this.calculateReadingTime(articleData.content)
-              : 5;
-        // 构建文章创建数据
-        const articleCreateData: any = {
-          ...articleData,
-          slug: finalSlug,
-          status,
-          readingTime,
-        };
-
-        const article = manager.create(Article, articleCreateData);
-
-        // 处理标签关联
-        if (tagIds && tagIds.length > 0) {
-          const tags = await manager.getRepository(Tag).find({
-            where: { id: In(tagIds) },
-          });
-          article.tags = tags;
-        }
-
-        const savedArticle = await manager.save(article);
+      const createdArticle = await this.dataSource.transaction(
+        async (manager) => {
+          // 设置默认状态
+          const status = articleData.status || 'draft';
+          // 计算阅读时间（优先使用前端传入的值）
+          const readingTime =
+            articleData.readingTime !== undefined
+              ? articleData.readingTime
+              : articleData.content
+                ? this.calculateReadingTime(articleData.content)
+                : 5;
+          // 构建文章创建数据
+          const articleCreateData: any = {
+            ...articleData,
+            slug: finalSlug,
+            status,
+            readingTime,
+          };
+
+          const article = manager.create(Article, articleCreateData);
+
+          // 处理标签关联
+          if (tagIds && tagIds.length > 0) {
+            const tags = await manager.getRepository(Tag).find({
+              where: { id: In(tagIds) },
+            });
+            article.tags = tags;
+          }
 
-        // 如果文章已发布，更新标签和分类的文章数量
-        if (savedArticle.status === 'published') {
-          setImmediate(() => {
-            void (async () => {
-              // 更新标签文章数量
-              if (tagIds && tagIds.length > 0) {
-                for (const tagId of tagIds) {
+          const savedArticle = await manager.save(article);
+
+          // 如果文章已发布，更新标签和分类的文章数量
+          if (savedArticle.status === 'published') {
+            setImmediate(() => {
+              void (async () => {
+                // 更新标签文章数量
+                if (tagIds && tagIds.length > 0) {
+                  for (const tagId of tagIds) {
+                    try {
+                      await this.tagService.updateArticleCount(tagId);
+                    } catch (error) {
+                      this.logger.error(
+                        `更新标签文章数量失败: tagId=${tagId}, error=${(error as Error).message || error}`,
+                      );
+                    }
+                  }
+                }
+                // 更新分类文章数量
+                if (savedArticle.categoryId) {
                   try {
-                    await this.tagService.updateArticleCount(tagId);
+                    await this.categoryService.updateArticleCount(
+                      savedArticle.categoryId,
+                    );
                   } catch (error) {
                     this.logger.error(
-                      `更新标签文章数量失败: tagId=${tagId}, error=${(error as Error).message || error}`,
+                      `更新分类文章数量失败: categoryId=${savedArticle.categoryId}, error=${(error as Error).message || error}`,
                     );
                   }
                 }
-              }
-              // 更新分类文章数量
-              if (savedArticle.categoryId) {
-                try {
-                  await this.categoryService.updateArticleCount(
-                    savedArticle.categoryId,
-                  );
-                } catch (error) {
-                  this.logger.error(
-                    `更新分类文章数量失败: categoryId=${savedArticle.categoryId}, error=${(error as Error).message || error}`,
-                  );
-                }
-              }
-            })();
-          });
-        }
+              })();
+            });
+          }
 
-        return savedArticle;
-      });
+          return savedArticle;
+        },
+      );
+
+      // 记录初始版本
+      await this.articleRevisionService.recordRevision(
+        createdArticle,
+        'create',
+        createdArticle.authorId,
+      );
+      await this.articleRenderService.refresh(createdArticle);
+
+      return createdArticle;
     } else {
       const entityData = createDataOrDto as Partial<Article>;
       // 计算阅读时间（优先使用传入的值）
@@ -163,6 +217,14 @@ export class ArticleService extends BaseService<Article> {
       const article = this.repository.create(entityData);
       const savedArticle = await this.repository.save(article);
 
+      // 记录初始版本
+      await this.articleRevisionService.recordRevision(
+        savedArticle,
+        'create',
+        savedArticle.authorId,
+      );
+      await this.articleRenderService.refresh(savedArticle);
+
       return savedArticle;
     }
   }
@@ -224,16 +286,26 @@ export class ArticleService extends BaseService<Article> {
   }
 
   // 更新文章
-  async update(id: string, updateData: Partial<Article>): Promise<Article>;
+  async update(
+    id: string,
+    updateData: Partial<Article>,
+    options?: ArticleUpdateOptions,
+  ): Promise<Article>;
   async update(
     id: string,
     updateArticleDto: UpdateArticleDto,
+    options?: ArticleUpdateOptions,
   ): Promise<Article>;
   async update(
     id: string,
     updateDataOrDto: Partial<Article> | UpdateArticleDto,
+    options: ArticleUpdateOptions = {},
   ): Promise<Article> {
     const article = await this.findById(id);
+    const previousStatus = article.status;
+
+    // 首次修改前为历史文章补录基线版本，必须在合并更新数据之前执行
+    await this.articleRevisionService.ensureBaseline(article);
 
     // 判断是否为UpdateArticleDto类型
     const isUpdateDto =
@@ -284,8 +356,30 @@ export class ArticleService extends BaseService<Article> {
     if (updatedArticle.status === 'published') {
       updatedArticle.publishedAt = updatedArticle.publishedAt ?? new Date();
     }
+    // 仅在状态或发布时间发生变化时校验定时发布时间
+    if (
+      updatedArticle.status !== previousStatus ||
+      'publishedAt' in updateDataOrDto
+    ) {
+      this.assertValidSchedule(
+        updatedArticle.status,
+        updatedArticle.publishedAt,
+      );
+    }
     const savedArticle = await this.repository.save(updatedArticle);
 
+    // 记录更新后的版本
+    await this.articleRevisionService.recordRevision(
+      savedArticle,
+      options.revisionAction ?? 'update',
+      options.editorId,
+    );
+
+    // 正文变化时重新生成渲染缓存
+    if (updateDataOrDto.content !== undefined) {
+      await this.articleRenderService.refresh(savedArticle);
+    }
+
     // 如果文章已发布，更新标签和分类的文章数量
     if (savedArticle.status === 'published') {
       setImmediate(() => {
@@ -344,6 +438,11 @@ export class ArticleService extends BaseService<Article> {
 
     // 清除相关缓存
     await this.blogCacheService.clearArticleCache(savedArticle.slug, 'update');
+    // 已发布文章的内容或发布状态变化时，订阅源需要重新生成
+    if (savedArticle.status === 'published' || previousStatus === 'published') {
+      await this.blogCacheService.clearFeedCache();
+      this.refreshSitemap();
+    }
 
     return savedArticle;
   }
@@ -351,8 +450,81 @@ export class ArticleService extends BaseService<Article> {
   async publish(
     id: string,
     publishDto?: { publishedAt?: Date },
+    editorId?: string,
+  ): Promise<Article> {
+    return this.articleStatusService.publish(id, publishDto, editorId);
+  }
+
+  /**
+   * 设置或修改文章的定时发布时间
+   */
+  async schedule(
+    id: string,
+    publishedAt: Date,
+    editorId?: string,
+  ): Promise<Article> {
+    return this.articleStatusService.schedule(id, publishedAt, editorId);
+  }
+
+  async cancelSchedule(id: string): Promise<Article> {
+    return this.articleStatusService.cancelSchedule(id);
+  }
+
+  async getScheduled(
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<{ items: Article[]; total: number }> {
+    return this.articleStatusService.getScheduledArticles(page, limit);
+  }
+
+  /**
+   * 将文章恢复到指定版本
+   * 恢复本身会产生一个新的版本，因此可以再次撤销
+   */
+  async restoreRevision(
+    id: string,
+    revisionId: string,
+    editorId?: string,
   ): Promise<Article> {
-    return this.articleStatusService.publish(id, publishDto);
+    const revision = await this.articleRevisionService.findOne(id, revisionId);
+
+    // 过滤掉已被删除的标签
+    let tagIds: string[] | undefined;
+    if (revision.tagIds) {
+      const tags = await this.dataSource.getRepository(Tag).find({
+        where: { id: In(revision.tagIds) },
+      });
+      tagIds = tags.map((tag) => tag.id);
+    }
+
+    // 快照中为空的字段同样恢复为空，保证恢复后的内容与该版本一致
+    const restoreData: Partial<Article> & { tagIds?: string[] } = {
+      title: revision.title,
+      summary: revision.summary,
+      content: revision.content,
+      slug: revision.slug,
+      coverImage: revision.coverImage,
+      categoryId: revision.categoryId,
+      tagIds,
+      metaDescription: revision.metaDescription,
+      metaKeywords: revision.metaKeywords,
+      socialImage: revision.socialImage,
+    };
+
+    const article = await this.update(id, restoreData, {
+      editorId,
+      revisionAction: 'restore',
+    });
+
+    this.logger.log('文章版本恢复成功', {
+      metadata: {
+        articleId: id,
+        revisionId,
+        revisionNumber: revision.revisionNumber,
+      },
+    });
+
+    return article;
   }
 
   /**
@@ -374,6 +546,9 @@ export class ArticleService extends BaseService<Article> {
 
     // 清除相关缓存
     await this.blogCacheService.clearArticleCache(article.slug, 'delete');
+    if (article.status === 'published') {
+      this.refreshSitemap();
+    }
 
     // 如果文章已发布，更新标签和分类的文章数量
     if (article.status === 'published') {
@@ -420,6 +595,7 @@ export class ArticleService extends BaseService<Article> {
     total: number;
     published: number;
     draft: number;
+    scheduled: number;
     archived: number;
   }> {
     return this.articleStatisticsService.getStatistics();
@@ -493,10 +669,22 @@ export class ArticleService extends BaseService<Article> {
 
         // 清除相关缓存
         await this.blogCacheService.clearArticleCache(undefined, 'delete');
+        if (articles.some((article) => article.status === 'published')) {
+          await this.sitemapService.regenerate();
+        }
       })();
     });
   }
 
+  /**
+   * 已发布文章变更后，在后台重新生成站点地图
+   */
+  private refreshSitemap(): void {
+    setImmediate(() => {
+      void this.sitemapService.regenerate();
+    });
+  }
+
   async batchPublish(ids: string[]): Promise<void> {
     return this.articleStatusService.batchPublish(ids);
   }
@@ -505,27 +693,43 @@ export class ArticleService extends BaseService<Article> {
     return this.articleStatusService.batchArchive(ids);
   }
 
-  async batchUpdate(batchUpdateDto: BatchUpdateArticleDto): Promise<void> {
-    const { ids, ...updateData } = batchUpdateDto;
+  async batchUpdate(
+    batchUpdateDto: BatchUpdateArticleDto,
+    editorId?: string,
+  ): Promise<void> {
+    const { ids, status, ...updateData } = batchUpdateDto;
+
+    // 状态变更交给 ArticleStatusService，保证计数、缓存和站点地图同步更新；
+    // 定时发布需要发布时间，取消发布需逐篇操作，批量修改不支持
+    if (
+      status !== undefined &&
+      status !== ArticleStatus.PUBLISHED &&
+      status !== ArticleStatus.ARCHIVED
+    ) {
+      throw new ConflictException(
+        ErrorCode.ARTICLE_INVALID_STATUS,
+        '批量修改只支持发布和归档，定时发布请使用批量发布并指定发布时间',
+      );
+    }
 
     // 验证文章是否存在
     const articles = await this.articleRepository.find({
       where: { id: In(ids) },
+      relations: ['tags'],
     });
     if (articles.length !== ids.length) {
       throw new NotFoundException(ErrorCode.ARTICLE_NOT_FOUND);
     }
 
-    return this.dataSource.transaction(async (manager) => {
+    // 首次修改前为历史文章补录基线版本
+    for (const article of articles) {
+      await this.articleRevisionService.ensureBaseline(article);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
       const updateFields: Partial<Article> = {};
 
       // 处理基本字段更新
-      if (updateData.status !== undefined) {
-        updateFields.status = updateData.status;
-        if (updateData.status === ArticleStatus.PUBLISHED) {
-          updateFields.publishedAt = new Date();
-        }
-      }
       if (updateData.isFeatured !== undefined) {
         updateFields.isFeatured = updateData.isFeatured;
       }
@@ -567,35 +771,46 @@ export class ArticleService extends BaseService<Article> {
         }
       }
     });
-  }
 
-  async batchPublishWithDate(
-    batchPublishDto: BatchPublishArticleDto,
-  ): Promise<void> {
-    const { ids, publishedAt } = batchPublishDto;
-    const publishDate = publishedAt ? new Date(publishedAt) : new Date();
+    // 批量修改可能改变已发布文章集合或其内容，订阅源需要重新生成
+    await this.blogCacheService.clearFeedCache();
 
-    const articles = await this.articleRepository.find({
+    // 只处理状态确实需要变化的文章，已处于目标状态的文章不报错
+    if (status === ArticleStatus.PUBLISHED) {
+      const publishableIds = articles
+        .filter((article) => ['draft', 'scheduled'].includes(article.status))
+        .map((article) => article.id);
+      if (publishableIds.length > 0) {
+        await this.articleStatusService.batchPublish(publishableIds);
+      }
+    } else if (status === ArticleStatus.ARCHIVED) {
+      const archivableIds = articles
+        .filter((article) => article.status !== 'archived')
+        .map((article) => article.id);
+      if (archivableIds.length > 0) {
+        await this.articleStatusService.batchArchive(archivableIds);
+      }
+    }
+
+    // 记录批量修改后的版本，内容与最新版本一致的文章不会重复记录
+    const updatedArticles = await this.articleRepository.find({
       where: { id: In(ids) },
+      relations: ['tags'],
     });
-    const publishableArticles = articles.filter(
-      (article) => article.status === 'draft',
+    await this.articleRevisionService.recordRevisionsForArticles(
+      updatedArticles,
+      'update',
+      editorId,
     );
+  }
 
-    if (publishableArticles.length === 0) {
-      throw new ConflictException(
-        ErrorCode.ARTICLE_INVALID_STATUS,
-        '没有可发布的文章',
-      );
-    }
-
-    await this.articleRepository.update(
-      publishableArticles.map((article) => article.id),
-      {
-        status: ArticleStatus.PUBLISHED,
-        publishedAt: publishDate,
-        updatedAt: new Date(),
-      },
+  async batchPublishWithDate(
+    batchPublishDto: BatchPublishArticleDto,
+  ): Promise<void> {
+    const { ids, publishedAt } = batchPublishDto;
+    return this.articleStatusService.batchPublish(
+      ids,
+      publishedAt ? new Date(publishedAt) : undefined,
     );
   }
 
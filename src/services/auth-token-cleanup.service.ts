@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { AuthTokenService } from './auth-token.service';
+
+/**
+ * 刷新令牌清理
+ * 每天删除一次已过期的刷新令牌
+ */
+@Injectable()
+export class AuthTokenCleanupService {
+  private isRunning = false;
+
+  constructor(
+    private readonly authTokenService: AuthTokenService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'AuthTokenCleanupService' });
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async cleanupExpiredTokens(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const removed = await this.authTokenService.cleanupExpired();
+      if (removed > 0) {
+        this.logger.log('已清理过期的刷新令牌', {
+          action: 'cleanup_refresh_tokens',
+          metadata: { removed },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        '清理刷新令牌失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,476 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Repository,
+  EntityManager,
+  IsNull,
+  In,
+  LessThan,
+  MoreThan,
+} from 'typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { RefreshToken } from '@/entities/refresh-token.entity';
+import { User } from '@/entities/user.entity';
+import { UserService } from '@/services/user.service';
+import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import {
+  NotFoundException,
+  UnauthorizedException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { DeviceInfo, UserAgentUtil } from '@/common/utils/user-agent.util';
+
+/**
+ * 签发令牌时的客户端信息
+ */
+export interface TokenClientInfo {
+  source: string; // 登录来源，如 web-login、admin-login
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * 签发的令牌对
+ */
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // 访问令牌有效期（秒）
+  refreshExpiresAt: Date;
+}
+
+/**
+ * 登录会话，即一个刷新令牌家族
+ */
+export interface UserSession {
+  id: string; // 会话ID（令牌家族ID）
+  device: string;
+  deviceType: DeviceInfo['deviceType'];
+  source: string;
+  ipAddress: string | null; // 最近一次登录或刷新时的IP
+  userAgent: string | null;
+  createdAt: Date; // 登录时间
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean; // 是否为发起请求的会话
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 访问令牌与刷新令牌服务
+ * 访问令牌短期有效；刷新令牌每次使用后轮换，同一次登录轮换出的令牌组成一个家族，
+ * 已轮换的令牌再次出现时视为泄露，吊销整个家族并使其访问令牌失效
+ */
+@Injectable()
+export class AuthTokenService {
+  private readonly refreshTtl: number;
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokenRepository: Repository<RefreshToken>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly userService: UserService,
+    private readonly cacheService: BlogCacheService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'AuthTokenService' });
+    this.refreshTtl = this.parseDuration(
+      this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '7d'),
+    );
+  }
+
+  /**
+   * 登录成功后签发令牌对，开启新的令牌家族
+   */
+  async issueTokens(
+    user: User,
+    client: TokenClientInfo,
+  ): Promise<IssuedTokens> {
+    const accessTokenId = randomUUID();
+    const refresh = await this.createRefreshToken(
+      this.refreshTokenRepository.manager,
+      user.id,
+      randomUUID(),
+      accessTokenId,
+      client,
+    );
+    const access = await this.signAccessToken(
+      user,
+      accessTokenId,
+      client.source,
+    );
+
+    return {
+      accessToken: access.accessToken,
+      expiresIn: access.expiresIn,
+      refreshToken: refresh.token,
+      refreshExpiresAt: refresh.record.expiresAt,
+    };
+  }
+
+  /**
+   * 使用刷新令牌换发新的令牌对，旧刷新令牌及其访问令牌随即失效
+   */
+  async refresh(
+    refreshToken: string,
+    client: Omit<TokenClientInfo, 'source'>,
+  ): Promise<{ user: User; tokens: IssuedTokens }> {
+    const record = await this.findByToken(refreshToken);
+
+    if (record.revokedAt) {
+      if (record.revokeReason === 'rotated') {
+        await this.handleReuse(record, client);
+        throw new UnauthorizedException(ErrorCode.AUTH_REFRESH_TOKEN_REUSED);
+      }
+      throw new UnauthorizedException(ErrorCode.AUTH_REFRESH_TOKEN_INVALID);
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException(
+        ErrorCode.AUTH_REFRESH_TOKEN_INVALID,
+        '刷新令牌已过期，请重新登录',
+      );
+    }
+
+    // 用户被禁用或在令牌签发后被强制退出时不再换发
+    const user = await this.userService.findById(record.userId);
+    if (
+      !user ||
+      user.status !== 'active' ||
+      (user.forcedLogoutAt && record.createdAt < user.forcedLogoutAt)
+    ) {
+      await this.revokeFamily(record.familyId, 'logout_all');
+      throw new UnauthorizedException(ErrorCode.AUTH_REFRESH_TOKEN_INVALID);
+    }
+
+    const accessTokenId = randomUUID();
+    let next: { token: string; record: RefreshToken };
+    try {
+      next = await this.refreshTokenRepository.manager.transaction(
+        async (manager) => {
+          const created = await this.createRefreshToken(
+            manager,
+            user.id,
+            record.familyId,
+            accessTokenId,
+            {
+              source: record.source,
+              ipAddress: client.ipAddress ?? record.ipAddress,
+              userAgent: client.userAgent ?? record.userAgent,
+            },
+          );
+
+          // 条件更新保证同一令牌只能成功轮换一次
+          const result = await manager.update(
+            RefreshToken,
+            { id: record.id, revokedAt: IsNull() },
+            {
+              revokedAt: new Date(),
+              revokeReason: 'rotated',
+              replacedById: created.record.id,
+            },
+          );
+          if (!result.affected) {
+            throw new UnauthorizedException(
+              ErrorCode.AUTH_REFRESH_TOKEN_REUSED,
+            );
+          }
+
+          return created;
+        },
+      );
+    } catch (error) {
+      // 并发请求已先一步使用了该令牌，同样按重复使用处理
+      if (error instanceof UnauthorizedException) {
+        await this.handleReuse(record, client);
+      }
+      throw error;
+    }
+
+    const access = await this.signAccessToken(
+      user,
+      accessTokenId,
+      record.source,
+    );
+    if (record.accessTokenId) {
+      await this.cacheService.clearUserToken(user.id, record.accessTokenId);
+    }
+
+    this.logger.debug('刷新令牌已轮换', {
+      action: 'refresh_token_rotated',
+      userId: user.id,
+      metadata: { familyId: record.familyId, tokenId: next.record.id },
+    });
+
+    return {
+      user,
+      tokens: {
+        accessToken: access.accessToken,
+        expiresIn: access.expiresIn,
+        refreshToken: next.token,
+        refreshExpiresAt: next.record.expiresAt,
+      },
+    };
+  }
+
+  /**
+   * 退出登录时吊销访问令牌所在的令牌家族
+   */
+  async revokeByAccessToken(
+    userId: string,
+    accessTokenId: string,
+  ): Promise<void> {
+    const record = await this.refreshTokenRepository.findOne({
+      where: { userId, accessTokenId },
+      select: { id: true, familyId: true },
+    });
+    if (record) {
+      await this.revokeFamily(record.familyId, 'logout');
+    }
+  }
+
+  /**
+   * 获取用户的有效登录会话，按最后使用时间倒序
+   * 每个家族只有最新轮换出的令牌处于有效状态
+   */
+  async listSessions(
+    userId: string,
+    currentTokenId?: string,
+  ): Promise<UserSession[]> {
+    const heads = await this.refreshTokenRepository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    if (heads.length === 0) {
+      return [];
+    }
+
+    const startedRows = await this.refreshTokenRepository
+      .createQueryBuilder('token')
+      .select('token.familyId', 'familyId')
+      .addSelect('MIN(token.createdAt)', 'createdAt')
+      .where('token.familyId IN (:...familyIds)', {
+        familyIds: heads.map((head) => head.familyId),
+      })
+      .groupBy('token.familyId')
+      .getRawMany<{ familyId: string; createdAt: Date | string }>();
+    const startedAt = new Map(
+      startedRows.map((row) => [row.familyId, new Date(row.createdAt)]),
+    );
+
+    const sessions = await Promise.all(
+      heads.map(async (head): Promise<UserSession> => {
+        // 访问令牌的最后使用时间由认证守卫记录在缓存中
+        const lastSeenAt = head.accessTokenId
+          ? await this.cacheService.getUserTokenLastSeen(
+              userId,
+              head.accessTokenId,
+            )
+          : null;
+        const { deviceType } = UserAgentUtil.parse(head.userAgent);
+
+        return {
+          id: head.familyId,
+          device: UserAgentUtil.describe(head.userAgent),
+          deviceType,
+          source: head.source,
+          ipAddress: head.ipAddress,
+          userAgent: head.userAgent,
+          createdAt: startedAt.get(head.familyId) ?? head.createdAt,
+          lastSeenAt: lastSeenAt ? new Date(lastSeenAt) : head.createdAt,
+          expiresAt: head.expiresAt,
+          current: !!currentTokenId && head.accessTokenId === currentTokenId,
+        };
+      }),
+    );
+
+    return sessions.sort(
+      (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime(),
+    );
+  }
+
+  /**
+   * 吊销用户的单个登录会话
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const active = await this.refreshTokenRepository.findOne({
+      where: { userId, familyId: sessionId, revokedAt: IsNull() },
+      select: { id: true },
+    });
+    if (!active) {
+      throw new NotFoundException(ErrorCode.AUTH_SESSION_NOT_FOUND);
+    }
+
+    await this.revokeFamily(sessionId, 'logout');
+
+    this.logger.log('登录会话已吊销', {
+      action: 'revoke_session',
+      userId,
+      metadata: { sessionId },
+    });
+  }
+
+  /**
+   * 删除过期的刷新令牌，返回删除数量
+   * 过期后令牌已无法使用，不再需要保留用于重复使用检测
+   */
+  async cleanupExpired(): Promise<number> {
+    const result = await this.refreshTokenRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * 吊销家族中仍有效的令牌，并使对应的访问令牌失效
+   */
+  private async revokeFamily(familyId: string, reason: string): Promise<void> {
+    const active = await this.refreshTokenRepository.find({
+      where: { familyId, revokedAt: IsNull() },
+      select: { id: true, userId: true, accessTokenId: true },
+    });
+    if (active.length === 0) {
+      return;
+    }
+
+    await this.refreshTokenRepository.update(
+      { id: In(active.map((item) => item.id)) },
+      { revokedAt: new Date(), revokeReason: reason },
+    );
+    await Promise.all(
+      active
+        .filter((item) => item.accessTokenId)
+        .map((item) =>
+          this.cacheService.clearUserToken(item.userId, item.accessTokenId!),
+        ),
+    );
+  }
+
+  private async handleReuse(
+    record: RefreshToken,
+    client: Omit<TokenClientInfo, 'source'>,
+  ): Promise<void> {
+    await this.revokeFamily(record.familyId, 'reuse_detected');
+
+    this.logger.security('检测到刷新令牌被重复使用，已吊销该登录会话', 'warn', {
+      action: 'refresh_token_reuse',
+      userId: record.userId,
+      ip: client.ipAddress ?? undefined,
+      userAgent: client.userAgent ?? undefined,
+      metadata: {
+        familyId: record.familyId,
+        tokenId: record.id,
+        source: record.source,
+      },
+    });
+  }
+
+  /**
+   * 解析并校验刷新令牌，格式为 `记录ID.随机密钥`
+   */
+  private async findByToken(token: string): Promise<RefreshToken> {
+    const [id, secret] = (token || '').split('.');
+    if (!id || !secret || !/^[0-9a-f-]{36}$/i.test(id)) {
+      throw new UnauthorizedException(ErrorCode.AUTH_REFRESH_TOKEN_INVALID);
+    }
+
+    const record = await this.refreshTokenRepository.findOne({
+      where: { id },
+    });
+    const expected = Buffer.from(record?.tokenHash ?? '');
+    const actual = Buffer.from(this.hash(secret));
+    if (
+      !record ||
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new UnauthorizedException(ErrorCode.AUTH_REFRESH_TOKEN_INVALID);
+    }
+
+    return record;
+  }
+
+  private async createRefreshToken(
+    manager: EntityManager,
+    userId: string,
+    familyId: string,
+    accessTokenId: string,
+    client: TokenClientInfo,
+  ): Promise<{ token: string; record: RefreshToken }> {
+    const secret = randomBytes(32).toString('base64url');
+    const record = await manager.save(
+      manager.create(RefreshToken, {
+        userId,
+        familyId,
+        accessTokenId,
+        tokenHash: this.hash(secret),
+        source: client.source,
+        ipAddress: client.ipAddress?.slice(0, 45) ?? null,
+        userAgent: client.userAgent?.slice(0, 500) ?? null,
+        expiresAt: new Date(Date.now() + this.refreshTtl),
+      }),
+    );
+
+    return { token: `${record.id}.${secret}`, record };
+  }
+
+  /**
+   * 签发访问令牌并登记到缓存，未登记的令牌会被认证守卫拒绝
+   */
+  private async signAccessToken(
+    user: User,
+    tokenId: string,
+    source: string,
+  ): Promise<{ accessToken: string; expiresIn: number }> {
+    const accessToken = this.jwtService.sign({
+      sub: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      jti: tokenId,
+    });
+
+    const decoded: { exp?: number; iat?: number } | null =
+      this.jwtService.decode(accessToken);
+    const expiresAt = (decoded?.exp ?? 0) * 1000;
+    await this.cacheService.setUserToken(
+      user.id,
+      tokenId,
+      accessToken,
+      expiresAt,
+      source,
+    );
+
+    return {
+      accessToken,
+      expiresIn: Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+    };
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * 解析 "15m"、"7d" 形式的时长（格式已在配置校验中限定）
+   */
+  private parseDuration(value: string): number {
+    const match = /^(\d+)([smhd])$/.exec(value);
+    return match
+      ? Number(match[1]) * DURATION_UNITS[match[2]]
+      : 7 * DURATION_UNITS.d;
+  }
+}
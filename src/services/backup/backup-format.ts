@@ -0,0 +1,121 @@
+/**
+ * 站点备份压缩包格式
+ *
+ * manifest.json        格式标识、版本和各类数据数量
+ * users.json           用户（默认不含密码哈希）
+ * categories.json      分类树（children 为子分类）
+ * tags.json            标签
+ * articles.json        文章的作者、分类、标签、状态和计数，file 指向对应的 Markdown 文件
+ * articles/*.md        文章正文及 frontmatter，可直接通过文章导入功能导入
+ * comments.json        评论（含点赞数和回复数）
+ *
+ * 日期字段均为 ISO 8601 字符串
+ */
+export const BACKUP_FORMAT = 'nestjs-blog-backup';
+export const BACKUP_VERSION = 1;
+
+export const BACKUP_FILES = {
+  MANIFEST: 'manifest.json',
+  USERS: 'users.json',
+  CATEGORIES: 'categories.json',
+  TAGS: 'tags.json',
+  ARTICLES: 'articles.json',
+  COMMENTS: 'comments.json',
+  ARTICLE_DIR: 'articles',
+} as const;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  // 是否包含用户密码哈希
+  includesPasswords: boolean;
+  counts: {
+    users: number;
+    categories: number;
+    tags: number;
+    articles: number;
+    comments: number;
+  };
+}
+
+export interface BackupUser {
+  id: string;
+  username: string;
+  email: string;
+  password?: string;
+  nickname: string | null;
+  avatar: string | null;
+  bio: string | null;
+  status: string;
+  role: string;
+  notifyOnReply: boolean;
+  notifyOnArticleComment: boolean;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface BackupCategory {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  coverImage: string | null;
+  color: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  articleCount: number;
+  createdAt: string;
+  updatedAt: string;
+  children: BackupCategory[];
+}
+
+export interface BackupTag {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  color: string | null;
+  isActive: boolean;
+  articleCount: number;
+  popularity: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 文章元数据，正文和可编辑字段在 Markdown 文件中
+ */
+export interface BackupArticle {
+  id: string;
+  file: string;
+  slug: string;
+  authorId: string;
+  categoryId: string | null;
+  tagIds: string[];
+  status: string;
+  isVisible: boolean;
+  readingTime: number | null;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  shareCount: number;
+}
+
+export interface BackupComment {
+  id: string;
+  articleId: string;
+  authorId: string;
+  parentId: string | null;
+  content: string;
+  status: string;
+  isTop: boolean;
+  adminNote: string | null;
+  likeCount: number;
+  replyCount: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
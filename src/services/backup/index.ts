@@ -0,0 +1,4 @@
+export { SiteExportService } from './site-export.service';
+export type { SiteExportOptions } from './site-export.service';
+export { SiteRestoreService } from './site-restore.service';
+export * from './backup-format';
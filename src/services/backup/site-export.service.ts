@@ -0,0 +1,307 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import archiver from 'archiver';
+import matter from 'gray-matter';
+import type { Writable } from 'stream';
+import { User } from '@/entities/user.entity';
+import { Category } from '@/entities/category.entity';
+import { Tag } from '@/entities/tag.entity';
+import { Article } from '@/entities/article.entity';
+import { Comment } from '@/entities/comment.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import {
+  BACKUP_FILES,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupArticle,
+  BackupCategory,
+  BackupComment,
+  BackupManifest,
+  BackupTag,
+  BackupUser,
+} from './backup-format';
+
+/**
+ * 站点导出选项
+ */
+export interface SiteExportOptions {
+  // 是否导出用户密码哈希
+  includePasswords?: boolean;
+}
+
+/**
+ * 站点完整导出服务
+ * 将用户、分类树、标签、文章（frontmatter Markdown）和评论打包为zip，格式见 backup-format.ts
+ * 软删除的文章、分类、标签和评论不导出；用户包含已删除的账户，保证评论作者完整
+ */
+@Injectable()
+export class SiteExportService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    @InjectRepository(Comment)
+    private readonly commentRepository: Repository<Comment>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'SiteExportService' });
+  }
+
+  /**
+   * 导出站点数据并写入输出流
+   */
+  async exportSite(
+    output: Writable,
+    options: SiteExportOptions = {},
+  ): Promise<BackupManifest> {
+    const [users, categories, tags, articles, comments] = await Promise.all([
+      this.userRepository.find({
+        withDeleted: true,
+        order: { createdAt: 'ASC' },
+      }),
+      this.categoryRepository.find({ order: { createdAt: 'ASC' } }),
+      this.tagRepository.find({ order: { createdAt: 'ASC' } }),
+      this.articleRepository.find({
+        relations: { category: true, tags: true },
+        loadEagerRelations: false,
+        order: { createdAt: 'ASC' },
+      }),
+      this.commentRepository.find({
+        loadEagerRelations: false,
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      includesPasswords: Boolean(options.includePasswords),
+      counts: {
+        users: users.length,
+        categories: categories.length,
+        tags: tags.length,
+        articles: articles.length,
+        comments: comments.length,
+      },
+    };
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const done = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('finish', resolve);
+      archive.on('error', reject);
+    });
+    archive.pipe(output);
+
+    const appendJson = (name: string, data: unknown): void => {
+      archive.append(JSON.stringify(data, null, 2), { name });
+    };
+
+    appendJson(BACKUP_FILES.MANIFEST, manifest);
+    appendJson(
+      BACKUP_FILES.USERS,
+      users.map((user) => this.toBackupUser(user, options.includePasswords)),
+    );
+    appendJson(BACKUP_FILES.CATEGORIES, this.buildCategoryTree(categories));
+    appendJson(
+      BACKUP_FILES.TAGS,
+      tags.map((tag) => this.toBackupTag(tag)),
+    );
+
+    const articleIds = new Set(articles.map((article) => article.id));
+    const backupArticles: BackupArticle[] = [];
+    for (const article of articles) {
+      const file = `${BACKUP_FILES.ARTICLE_DIR}/${this.toFileName(article)}.md`;
+      archive.append(this.toMarkdown(article), { name: file });
+      backupArticles.push(this.toBackupArticle(article, file));
+    }
+    appendJson(BACKUP_FILES.ARTICLES, backupArticles);
+    appendJson(
+      BACKUP_FILES.COMMENTS,
+      comments
+        .filter((comment) => articleIds.has(comment.articleId))
+        .map((comment) => this.toBackupComment(comment)),
+    );
+
+    await archive.finalize();
+    await done;
+
+    this.logger.log('导出站点备份', {
+      action: 'export_site',
+      metadata: {
+        ...manifest.counts,
+        includesPasswords: manifest.includesPasswords,
+      },
+    });
+    if (manifest.includesPasswords) {
+      this.logger.security('站点备份包含用户密码哈希', 'warn', {
+        action: 'export_site_with_passwords',
+        metadata: { users: users.length },
+      });
+    }
+
+    return manifest;
+  }
+
+  /**
+   * 生成 frontmatter Markdown，字段名与 ArticleParserService 的解析规则一致
+   */
+  private toMarkdown(article: Article): string {
+    const data: Record<string, unknown> = {
+      title: article.title,
+      slug: article.slug,
+      summary: article.summary,
+      categories: article.category?.name,
+      tags: article.tags?.map((tag) => tag.name),
+      coverImage: article.coverImage,
+      status: article.status,
+      publishedAt: article.publishedAt,
+      createdAt: article.createdAt,
+      updatedAt: article.updatedAt,
+      isFeatured: article.isFeatured,
+      isTop: article.isTop,
+      allowComment: article.allowComment,
+      metaDescription: article.metaDescription,
+      metaKeywords: article.metaKeywords?.length
+        ? article.metaKeywords
+        : undefined,
+      socialImage: article.socialImage,
+      weight: article.weight,
+    };
+    const frontmatter = Object.fromEntries(
+      Object.entries(data).filter(
+        ([, value]) =>
+          value !== undefined &&
+          value !== null &&
+          !(Array.isArray(value) && value.length === 0),
+      ),
+    );
+
+    // gray-matter 会在 frontmatter 后追加空行，去掉后正文可原样解析回来
+    return (
+      matter.stringify('', frontmatter).replace(/\n$/, '') + article.content
+    );
+  }
+
+  /**
+   * slug 只含安全字符时用作文件名，否则使用文章ID
+   */
+  private toFileName(article: Article): string {
+    return /^[a-zA-Z0-9_-]+$/.test(article.slug) ? article.slug : article.id;
+  }
+
+  /**
+   * 按 parentId 组装分类树，父分类已删除的分类作为根节点
+   */
+  private buildCategoryTree(categories: Category[]): BackupCategory[] {
+    const nodes = new Map<string, BackupCategory>();
+    for (const category of categories) {
+      nodes.set(category.id, {
+        id: category.id,
+        name: category.name,
+        slug: category.slug,
+        description: category.description ?? null,
+        coverImage: category.coverImage ?? null,
+        color: category.color ?? null,
+        sortOrder: category.sortOrder,
+        isActive: category.isActive,
+        articleCount: category.articleCount,
+        createdAt: category.createdAt.toISOString(),
+        updatedAt: category.updatedAt.toISOString(),
+        children: [],
+      });
+    }
+
+    const roots: BackupCategory[] = [];
+    for (const category of categories) {
+      const node = nodes.get(category.id)!;
+      const parent = category.parentId
+        ? nodes.get(category.parentId)
+        : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  private toBackupUser(user: User, includePassword?: boolean): BackupUser {
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      ...(includePassword ? { password: user.password } : {}),
+      nickname: user.nickname ?? null,
+      avatar: user.avatar ?? null,
+      bio: user.bio ?? null,
+      status: user.status,
+      role: user.role,
+      notifyOnReply: user.notifyOnReply,
+      notifyOnArticleComment: user.notifyOnArticleComment,
+      createdAt: user.createdAt.toISOString(),
+      updatedAt: user.updatedAt.toISOString(),
+      deletedAt: user.deletedAt?.toISOString() ?? null,
+    };
+  }
+
+  private toBackupTag(tag: Tag): BackupTag {
+    return {
+      id: tag.id,
+      name: tag.name,
+      slug: tag.slug,
+      description: tag.description ?? null,
+      color: tag.color ?? null,
+      isActive: tag.isActive,
+      articleCount: tag.articleCount,
+      popularity: tag.popularity,
+      createdAt: tag.createdAt.toISOString(),
+      updatedAt: tag.updatedAt.toISOString(),
+    };
+  }
+
+  private toBackupArticle(article: Article, file: string): BackupArticle {
+    return {
+      id: article.id,
+      file,
+      slug: article.slug,
+      authorId: article.authorId,
+      categoryId: article.category ? article.categoryId : null,
+      tagIds: (article.tags ?? []).map((tag) => tag.id),
+      status: article.status,
+      isVisible: article.isVisible,
+      readingTime: article.readingTime ?? null,
+      viewCount: article.viewCount,
+      likeCount: article.likeCount,
+      commentCount: article.commentCount,
+      shareCount: article.shareCount,
+    };
+  }
+
+  private toBackupComment(comment: Comment): BackupComment {
+    return {
+      id: comment.id,
+      articleId: comment.articleId,
+      authorId: comment.authorId,
+      parentId: comment.parentId,
+      content: comment.content,
+      status: comment.status,
+      isTop: comment.isTop,
+      adminNote: comment.adminNote ?? null,
+      likeCount: comment.likeCount,
+      replyCount: comment.replyCount,
+      ipAddress: comment.ipAddress ?? null,
+      userAgent: comment.userAgent ?? null,
+      createdAt: comment.createdAt.toISOString(),
+      updatedAt: comment.updatedAt.toISOString(),
+    };
+  }
+}
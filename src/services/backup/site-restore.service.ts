@@ -0,0 +1,544 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import {
+  DataSource,
+  EntityManager,
+  EntityTarget,
+  ObjectLiteral,
+} from 'typeorm';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
+import { User } from '@/entities/user.entity';
+import { Category } from '@/entities/category.entity';
+import { Tag } from '@/entities/tag.entity';
+import { Article } from '@/entities/article.entity';
+import { Comment } from '@/entities/comment.entity';
+import { ParsedArticleData } from '@/dto/article-import.dto';
+import { SiteRestoreResultDto } from '@/dto/site-backup.dto';
+import {
+  BusinessException,
+  ValidationException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import {
+  ArchiveExtractorService,
+  ExtractedArchive,
+} from '../article-import/archive-extractor.service';
+import { ArticleParserService } from '../article-import/article-parser.service';
+import {
+  BACKUP_FILES,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupArticle,
+  BackupCategory,
+  BackupComment,
+  BackupManifest,
+  BackupTag,
+  BackupUser,
+} from './backup-format';
+
+/**
+ * 解析后的文章：正文和字段来自 Markdown，作者、分类、标签和计数来自 articles.json
+ */
+interface RestoredArticle {
+  meta: BackupArticle;
+  data: ParsedArticleData;
+}
+
+// 每条 INSERT 语句写入的行数（文章正文较大，单独设置）
+const INSERT_CHUNK_SIZE = 200;
+const ARTICLE_CHUNK_SIZE = 50;
+
+/**
+ * 站点恢复服务
+ * 将 SiteExportService 导出的备份恢复到空数据库，保留原有ID、时间和计数
+ * 全部数据在一个事务中写入，任一步骤失败时不留下部分数据
+ */
+@Injectable()
+export class SiteRestoreService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly archiveExtractorService: ArchiveExtractorService,
+    private readonly articleParserService: ArticleParserService,
+    private readonly blogCacheService: BlogCacheService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'SiteRestoreService' });
+  }
+
+  /**
+   * 从备份压缩包恢复站点
+   * @param operatorId 执行恢复的管理员，作者不在备份中的文章归属到该用户
+   */
+  async restoreSite(
+    fileName: string,
+    buffer: Buffer,
+    operatorId: string,
+  ): Promise<SiteRestoreResultDto> {
+    const startTime = Date.now();
+    const archive = await this.archiveExtractorService.extract(
+      fileName,
+      buffer,
+    );
+
+    const manifest = this.readJson<BackupManifest>(
+      archive,
+      BACKUP_FILES.MANIFEST,
+    );
+    if (manifest.format !== BACKUP_FORMAT) {
+      throw new BusinessException(ErrorCode.BACKUP_INVALID_ARCHIVE);
+    }
+    if (manifest.version !== BACKUP_VERSION) {
+      throw new BusinessException(
+        ErrorCode.BACKUP_INVALID_ARCHIVE,
+        `不支持的备份版本: ${manifest.version}`,
+      );
+    }
+
+    const users = this.readList<BackupUser>(archive, BACKUP_FILES.USERS);
+    const categories = this.readList<BackupCategory>(
+      archive,
+      BACKUP_FILES.CATEGORIES,
+    );
+    const tags = this.readList<BackupTag>(archive, BACKUP_FILES.TAGS);
+    const comments = this.readList<BackupComment>(
+      archive,
+      BACKUP_FILES.COMMENTS,
+    );
+    // 先解析全部文章，有无效文件时不写入任何数据
+    const articles = this.parseArticles(
+      archive,
+      this.readList<BackupArticle>(archive, BACKUP_FILES.ARTICLES),
+    );
+
+    const result = await this.dataSource.transaction(async (manager) => {
+      await this.ensureEmpty(manager);
+
+      const warnings: string[] = [];
+      const userResult = await this.restoreUsers(manager, users);
+      const categoryIds = await this.restoreCategories(manager, categories);
+      const tagIds = await this.restoreTags(manager, tags);
+      const articleIds = await this.restoreArticles(
+        manager,
+        articles,
+        { users: userResult.idMap, categoryIds, tagIds, operatorId },
+        warnings,
+      );
+      const commentCount = await this.restoreComments(
+        manager,
+        comments,
+        { users: userResult.idMap, articleIds },
+        warnings,
+      );
+
+      return {
+        users: userResult.created,
+        matchedUsers: userResult.matched,
+        usersWithoutPassword: userResult.withoutPassword,
+        categories: categoryIds.size,
+        tags: tagIds.size,
+        articles: articleIds.size,
+        comments: commentCount,
+        warnings,
+      };
+    });
+
+    await this.clearCaches();
+
+    const duration = Date.now() - startTime;
+    this.logger.log('站点备份恢复完成', {
+      action: 'restore_site',
+      metadata: {
+        fileName,
+        operatorId,
+        exportedAt: manifest.exportedAt,
+        ...result,
+        warnings: result.warnings.length,
+        duration,
+      },
+    });
+
+    return { ...result, duration };
+  }
+
+  /**
+   * 只允许恢复到没有文章、分类、标签和评论的数据库（用户可以存在，如执行恢复的管理员）
+   */
+  private async ensureEmpty(manager: EntityManager): Promise<void> {
+    for (const entity of [Article, Category, Tag, Comment]) {
+      const count = await manager.count(entity, { withDeleted: true });
+      if (count > 0) {
+        throw new BusinessException(
+          ErrorCode.BACKUP_DATABASE_NOT_EMPTY,
+          undefined,
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+  }
+
+  /**
+   * 恢复用户，按ID、用户名或邮箱与已有用户匹配的不再新建
+   * 备份不含密码哈希时设置随机密码，用户需通过找回密码重新设置
+   */
+  private async restoreUsers(
+    manager: EntityManager,
+    users: BackupUser[],
+  ): Promise<{
+    idMap: Map<string, string>;
+    created: number;
+    matched: number;
+    withoutPassword: number;
+  }> {
+    const existingUsers = await manager.find(User, {
+      select: { id: true, username: true, email: true },
+      withDeleted: true,
+    });
+    const findExisting = (user: BackupUser): User | undefined =>
+      existingUsers.find(
+        (existing) =>
+          existing.id === user.id ||
+          existing.username === user.username ||
+          existing.email.toLowerCase() === user.email.toLowerCase(),
+      );
+
+    const idMap = new Map<string, string>();
+    const rows: QueryDeepPartialEntity<User>[] = [];
+    let randomPassword: string | undefined;
+    let withoutPassword = 0;
+
+    for (const user of users) {
+      const existing = findExisting(user);
+      if (existing) {
+        idMap.set(user.id, existing.id);
+        continue;
+      }
+
+      // 无法登录的随机密码，所有无密码用户共用一个哈希以避免逐个计算
+      let password = user.password;
+      if (!password) {
+        randomPassword ??= await bcrypt.hash(randomUUID(), 10);
+        password = randomPassword;
+        withoutPassword++;
+      }
+
+      rows.push({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        password,
+        nickname: user.nickname ?? undefined,
+        avatar: user.avatar ?? undefined,
+        bio: user.bio ?? undefined,
+        status: user.status,
+        role: user.role,
+        notifyOnReply: user.notifyOnReply,
+        notifyOnArticleComment: user.notifyOnArticleComment,
+        createdAt: new Date(user.createdAt),
+        updatedAt: new Date(user.updatedAt),
+        deletedAt: user.deletedAt ? new Date(user.deletedAt) : null,
+      });
+      idMap.set(user.id, user.id);
+    }
+
+    await this.insertInChunks(manager, User, rows);
+    return {
+      idMap,
+      created: rows.length,
+      matched: users.length - rows.length,
+      withoutPassword,
+    };
+  }
+
+  /**
+   * 展开分类树并按先父后子的顺序写入
+   */
+  private async restoreCategories(
+    manager: EntityManager,
+    tree: BackupCategory[],
+  ): Promise<Set<string>> {
+    const rows: QueryDeepPartialEntity<Category>[] = [];
+    const flatten = (nodes: BackupCategory[], parentId: string | null) => {
+      for (const { children, ...category } of nodes) {
+        rows.push({
+          ...category,
+          description: category.description ?? undefined,
+          coverImage: category.coverImage ?? undefined,
+          color: category.color ?? undefined,
+          parentId: parentId ?? undefined,
+          createdAt: new Date(category.createdAt),
+          updatedAt: new Date(category.updatedAt),
+        });
+        flatten(children ?? [], category.id);
+      }
+    };
+    flatten(tree, null);
+
+    await this.insertInChunks(manager, Category, rows);
+    return new Set(rows.map((row) => row.id as string));
+  }
+
+  private async restoreTags(
+    manager: EntityManager,
+    tags: BackupTag[],
+  ): Promise<Set<string>> {
+    await this.insertInChunks(
+      manager,
+      Tag,
+      tags.map((tag) => ({
+        ...tag,
+        description: tag.description ?? undefined,
+        color: tag.color ?? undefined,
+        createdAt: new Date(tag.createdAt),
+        updatedAt: new Date(tag.updatedAt),
+      })),
+    );
+    return new Set(tags.map((tag) => tag.id));
+  }
+
+  /**
+   * 恢复文章及文章标签关联
+   */
+  private async restoreArticles(
+    manager: EntityManager,
+    articles: RestoredArticle[],
+    refs: {
+      users: Map<string, string>;
+      categoryIds: Set<string>;
+      tagIds: Set<string>;
+      operatorId: string;
+    },
+    warnings: string[],
+  ): Promise<Set<string>> {
+    let reassigned = 0;
+    const rows: QueryDeepPartialEntity<Article>[] = [];
+    const articleTags: { articleId: string; tagId: string }[] = [];
+
+    for (const { meta, data } of articles) {
+      let authorId = refs.users.get(meta.authorId);
+      if (!authorId) {
+        authorId = refs.operatorId;
+        reassigned++;
+      }
+
+      rows.push({
+        id: meta.id,
+        title: data.title,
+        content: data.content,
+        summary: data.summary,
+        slug: data.slug || meta.slug,
+        coverImage: data.coverImage,
+        status: meta.status,
+        viewCount: meta.viewCount,
+        likeCount: meta.likeCount,
+        commentCount: meta.commentCount,
+        shareCount: meta.shareCount,
+        allowComment: data.allowComment !== false,
+        publishedAt: data.publishedAt ?? null,
+        metaDescription: data.metaDescription,
+        metaKeywords: data.metaKeywords?.length ? data.metaKeywords : undefined,
+        socialImage: data.socialImage,
+        readingTime: meta.readingTime ?? data.readingTime,
+        isFeatured: Boolean(data.isFeatured),
+        isTop: Boolean(data.isTop),
+        isVisible: meta.isVisible,
+        weight: data.weight ?? 0,
+        categoryId:
+          meta.categoryId && refs.categoryIds.has(meta.categoryId)
+            ? meta.categoryId
+            : undefined,
+        authorId,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+      });
+
+      for (const tagId of new Set(meta.tagIds ?? [])) {
+        if (refs.tagIds.has(tagId)) {
+          articleTags.push({ articleId: meta.id, tagId });
+        }
+      }
+    }
+
+    await this.insertInChunks(manager, Article, rows, ARTICLE_CHUNK_SIZE);
+    for (let i = 0; i < articleTags.length; i += INSERT_CHUNK_SIZE) {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into('article_tags', ['articleId', 'tagId'])
+        .values(articleTags.slice(i, i + INSERT_CHUNK_SIZE))
+        .execute();
+    }
+
+    if (reassigned > 0) {
+      warnings.push(`${reassigned} 篇文章的作者不在备份中，已归属到当前管理员`);
+    }
+    return new Set(rows.map((row) => row.id as string));
+  }
+
+  /**
+   * 恢复评论，父评论先于回复写入；父评论不在备份中的回复作为顶级评论
+   * @returns 恢复的评论数量
+   */
+  private async restoreComments(
+    manager: EntityManager,
+    comments: BackupComment[],
+    refs: { users: Map<string, string>; articleIds: Set<string> },
+    warnings: string[],
+  ): Promise<number> {
+    const restorable = comments.filter(
+      (comment) =>
+        refs.articleIds.has(comment.articleId) &&
+        refs.users.has(comment.authorId),
+    );
+    const skipped = comments.length - restorable.length;
+
+    const byId = new Map(restorable.map((comment) => [comment.id, comment]));
+    const depths = new Map<string, number>();
+    const depthOf = (comment: BackupComment): number => {
+      const cached = depths.get(comment.id);
+      if (cached !== undefined) {
+        return cached;
+      }
+      // 先占位，防止异常数据中的循环引用导致无限递归
+      depths.set(comment.id, 0);
+      const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+      const depth = parent ? depthOf(parent) + 1 : 0;
+      depths.set(comment.id, depth);
+      return depth;
+    };
+    const ordered = [...restorable].sort((a, b) => depthOf(a) - depthOf(b));
+
+    await this.insertInChunks(
+      manager,
+      Comment,
+      ordered.map((comment) => ({
+        ...comment,
+        authorId: refs.users.get(comment.authorId),
+        parentId: this.isRestorableParent(comment, byId, depthOf)
+          ? comment.parentId
+          : null,
+        adminNote: comment.adminNote ?? undefined,
+        ipAddress: comment.ipAddress ?? undefined,
+        userAgent: comment.userAgent ?? undefined,
+        createdAt: new Date(comment.createdAt),
+        updatedAt: new Date(comment.updatedAt),
+      })),
+    );
+
+    if (skipped > 0) {
+      warnings.push(`${skipped} 条评论所属的文章或作者不在备份中，已跳过`);
+    }
+    return ordered.length;
+  }
+
+  /**
+   * 父评论在备份中且排在回复之前时保留回复关系
+   */
+  private isRestorableParent(
+    comment: BackupComment,
+    byId: Map<string, BackupComment>,
+    depthOf: (comment: BackupComment) => number,
+  ): boolean {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    return parent !== undefined && depthOf(parent) < depthOf(comment);
+  }
+
+  /**
+   * 解析备份中的文章 Markdown，有无效文件时整体拒绝
+   */
+  private parseArticles(
+    archive: ExtractedArchive,
+    metas: BackupArticle[],
+  ): RestoredArticle[] {
+    const files = new Map(
+      archive.markdownFiles.map((file) => [file.path, file.buffer]),
+    );
+    const articles: RestoredArticle[] = [];
+    const errors: string[] = [];
+
+    for (const meta of metas) {
+      const buffer = files.get(meta.file);
+      if (!buffer) {
+        errors.push(`${meta.file}: 文件不存在`);
+        continue;
+      }
+
+      const result = this.articleParserService.validateAndParseFile(
+        buffer.toString('utf-8'),
+        meta.file,
+      );
+      if (!result.isValid || !result.data) {
+        errors.push(`${meta.file}: ${result.errors.join('; ')}`);
+        continue;
+      }
+      articles.push({ meta, data: result.data });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationException('备份中的文章文件无效', errors);
+    }
+    return articles;
+  }
+
+  private readJson<T>(archive: ExtractedArchive, fileName: string): T {
+    const buffer = archive.dataFiles.get(fileName);
+    if (!buffer) {
+      throw new BusinessException(
+        ErrorCode.BACKUP_INVALID_ARCHIVE,
+        `备份文件缺少 ${fileName}`,
+      );
+    }
+
+    try {
+      return JSON.parse(buffer.toString('utf-8')) as T;
+    } catch {
+      throw new BusinessException(
+        ErrorCode.BACKUP_INVALID_ARCHIVE,
+        `${fileName} 不是有效的JSON`,
+      );
+    }
+  }
+
+  private readList<T>(archive: ExtractedArchive, fileName: string): T[] {
+    const data = this.readJson<unknown>(archive, fileName);
+    if (!Array.isArray(data)) {
+      throw new BusinessException(
+        ErrorCode.BACKUP_INVALID_ARCHIVE,
+        `${fileName} 格式无效`,
+      );
+    }
+    return data as T[];
+  }
+
+  private async insertInChunks<T extends ObjectLiteral>(
+    manager: EntityManager,
+    target: EntityTarget<T>,
+    rows: QueryDeepPartialEntity<T>[],
+    chunkSize = INSERT_CHUNK_SIZE,
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      await manager.insert(target, rows.slice(i, i + chunkSize));
+    }
+  }
+
+  /**
+   * 恢复后清除文章、分类和标签缓存
+   */
+  private async clearCaches(): Promise<void> {
+    try {
+      await this.blogCacheService.clearArticleCache(undefined, 'import');
+      await this.blogCacheService.clearCategoryCache();
+      await this.blogCacheService.clearTagCache();
+    } catch (error) {
+      // 缓存清除失败不影响恢复结果
+      this.logger.error('恢复站点后清除缓存失败', undefined, {
+        action: 'clear_cache_after_restore_failed',
+        metadata: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Injectable, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { SensitiveWordService } from './sensitive-word.service';
+import { LinkCountFilter } from './link-count.filter';
+import { RepeatedContentFilter } from './repeated-content.filter';
+import { IpBurstFilter } from './ip-burst.filter';
+import {
+  CommentFilter,
+  CommentFilterContext,
+  CommentFilterResult,
+} from './comment-filter.types';
+
+/**
+ * 评论内容过滤服务
+ * 依次执行已注册的过滤器并累加风险分值：
+ * 低于 COMMENT_FILTER_QUEUE_SCORE 直接通过，达到该值进入待审核队列，
+ * 达到 COMMENT_FILTER_REJECT_SCORE 时拒绝并返回分值最高的命中对应的错误码
+ */
+@Injectable()
+export class CommentFilterService {
+  private readonly filters: CommentFilter[] = [];
+  private readonly queueScore: number;
+  private readonly rejectScore: number;
+
+  constructor(
+    sensitiveWordService: SensitiveWordService,
+    linkCountFilter: LinkCountFilter,
+    repeatedContentFilter: RepeatedContentFilter,
+    ipBurstFilter: IpBurstFilter,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'CommentFilterService' });
+    this.queueScore = Number(
+      this.configService.get<number>('COMMENT_FILTER_QUEUE_SCORE', 5),
+    );
+    this.rejectScore = Number(
+      this.configService.get<number>('COMMENT_FILTER_REJECT_SCORE', 10),
+    );
+
+    [
+      sensitiveWordService,
+      linkCountFilter,
+      repeatedContentFilter,
+      ipBurstFilter,
+    ].forEach((filter) => this.register(filter));
+  }
+
+  /**
+   * 注册自定义过滤器
+   */
+  register(filter: CommentFilter): void {
+    if (this.filters.some((item) => item.name === filter.name)) {
+      return;
+    }
+    this.filters.push(filter);
+  }
+
+  /**
+   * 执行全部过滤器并给出处理决定
+   */
+  async evaluate(context: CommentFilterContext): Promise<CommentFilterResult> {
+    const result: CommentFilterResult = {
+      decision: 'accept',
+      score: 0,
+      hits: [],
+    };
+
+    for (const filter of this.filters) {
+      const hit = await filter.check(context);
+      if (hit) {
+        result.hits.push(hit);
+        result.score += hit.score;
+      }
+    }
+
+    if (result.score >= this.rejectScore) {
+      result.decision = 'reject';
+    } else if (result.score >= this.queueScore) {
+      result.decision = 'queue';
+    }
+
+    return result;
+  }
+
+  /**
+   * 检测评论内容，需要拒绝时抛出对应错误码的业务异常
+   */
+  async assertAcceptable(
+    context: CommentFilterContext,
+  ): Promise<CommentFilterResult> {
+    const result = await this.evaluate(context);
+    if (result.decision !== 'reject') {
+      return result;
+    }
+
+    const primaryHit = result.hits.reduce((max, hit) =>
+      hit.score > max.score ? hit : max,
+    );
+
+    this.logger.security('评论被内容过滤拒绝', 'warn', {
+      ip: context.ipAddress,
+      userId: context.authorId,
+      metadata: {
+        event: 'comment_rejected',
+        score: result.score,
+        hits: result.hits.map((hit) => ({
+          filter: hit.filter,
+          score: hit.score,
+          reason: hit.reason,
+        })),
+      },
+    });
+
+    throw new BusinessException(
+      primaryHit.errorCode,
+      undefined,
+      primaryHit.errorCode === ErrorCode.COMMENT_TOO_FREQUENT
+        ? HttpStatus.TOO_MANY_REQUESTS
+        : HttpStatus.BAD_REQUEST,
+    );
+  }
+}
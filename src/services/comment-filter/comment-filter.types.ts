@@ -0,0 +1,45 @@
+import { ErrorCode } from '@/common/constants/error-codes';
+
+/**
+ * 过滤器检测的评论上下文
+ */
+export interface CommentFilterContext {
+  content: string;
+  authorId?: string;
+  ipAddress?: string;
+  // 仅检测内容，不记录频率等副作用（用于管理端测试）
+  dryRun?: boolean;
+}
+
+/**
+ * 单个过滤器的命中结果
+ */
+export interface CommentFilterHit {
+  filter: string;
+  // 风险分值，各过滤器命中分值累加
+  score: number;
+  // 该命中导致拒绝时返回的错误码
+  errorCode: ErrorCode;
+  reason: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * 评论过滤器
+ * 实现该接口并通过 CommentFilterService.register 注册即可接入过滤流程
+ */
+export interface CommentFilter {
+  readonly name: string;
+  check(context: CommentFilterContext): Promise<CommentFilterHit | null>;
+}
+
+export type CommentFilterDecision = 'accept' | 'queue' | 'reject';
+
+/**
+ * 过滤流程的最终结果
+ */
+export interface CommentFilterResult {
+  decision: CommentFilterDecision;
+  score: number;
+  hits: CommentFilterHit[];
+}
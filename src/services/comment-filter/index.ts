@@ -0,0 +1,6 @@
+export { CommentFilterService } from './comment-filter.service';
+export { SensitiveWordService } from './sensitive-word.service';
+export { LinkCountFilter } from './link-count.filter';
+export { RepeatedContentFilter } from './repeated-content.filter';
+export { IpBurstFilter } from './ip-burst.filter';
+export * from './comment-filter.types';
@@ -0,0 +1,81 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { ErrorCode } from '@/common/constants/error-codes';
+import {
+  CommentFilter,
+  CommentFilterContext,
+  CommentFilterHit,
+} from './comment-filter.types';
+
+interface BurstRecord {
+  count: number;
+  resetTime: number;
+}
+
+// 超出频率限制时的分值（直接达到拒绝阈值）
+const BURST_SCORE = 10;
+
+/**
+ * IP突发评论过滤器
+ * 同一IP在时间窗口内发表的评论数超过 COMMENT_BURST_LIMIT 时命中
+ */
+@Injectable()
+export class IpBurstFilter implements CommentFilter {
+  readonly name = 'ip_burst';
+
+  private static readonly CACHE_PREFIX = 'comment:burst:';
+  private readonly limit: number;
+  private readonly windowMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cache: Cache,
+  ) {
+    this.limit = Number(
+      this.configService.get<number>('COMMENT_BURST_LIMIT', 5),
+    );
+    this.windowMs =
+      Number(this.configService.get<number>('COMMENT_BURST_WINDOW', 60)) * 1000;
+  }
+
+  async check(context: CommentFilterContext): Promise<CommentFilterHit | null> {
+    if (!context.ipAddress) {
+      return null;
+    }
+
+    const cacheKey = `${IpBurstFilter.CACHE_PREFIX}${context.ipAddress}`;
+    const now = Date.now();
+    const cached = await this.cache.get<BurstRecord>(cacheKey);
+    const record: BurstRecord =
+      cached && now <= cached.resetTime
+        ? { count: cached.count + 1, resetTime: cached.resetTime }
+        : { count: 1, resetTime: now + this.windowMs };
+
+    // 测试时只读取当前计数，不累加
+    if (!context.dryRun) {
+      await this.cache.set(
+        cacheKey,
+        record,
+        Math.max(1000, record.resetTime - now),
+      );
+    }
+
+    if (record.count <= this.limit) {
+      return null;
+    }
+
+    return {
+      filter: this.name,
+      score: BURST_SCORE,
+      errorCode: ErrorCode.COMMENT_TOO_FREQUENT,
+      reason: '同一IP评论过于频繁',
+      details: {
+        count: record.count,
+        limit: this.limit,
+        windowSeconds: this.windowMs / 1000,
+      },
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ErrorCode } from '@/common/constants/error-codes';
+import {
+  CommentFilter,
+  CommentFilterContext,
+  CommentFilterHit,
+} from './comment-filter.types';
+
+// 匹配 http(s) 链接和 www. 开头的地址
+const LINK_PATTERN = /(https?:\/\/|www\.)[^\s)\]]+/gi;
+
+// 超出允许数量后每个链接累加的分值
+const SCORE_PER_EXTRA_LINK = 3;
+
+/**
+ * 链接数量过滤器
+ * 评论中的链接数超过 COMMENT_FILTER_MAX_LINKS 时按超出数量累加分值
+ */
+@Injectable()
+export class LinkCountFilter implements CommentFilter {
+  readonly name = 'link_count';
+
+  private readonly maxLinks: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxLinks = Number(
+      this.configService.get<number>('COMMENT_FILTER_MAX_LINKS', 2),
+    );
+  }
+
+  check(context: CommentFilterContext): Promise<CommentFilterHit | null> {
+    const linkCount = (context.content.match(LINK_PATTERN) || []).length;
+    if (linkCount <= this.maxLinks) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve({
+      filter: this.name,
+      score: (linkCount - this.maxLinks) * SCORE_PER_EXTRA_LINK,
+      errorCode: ErrorCode.COMMENT_SPAM_DETECTED,
+      reason: '链接数量过多',
+      details: { linkCount, maxLinks: this.maxLinks },
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { Comment } from '@/entities/comment.entity';
+import { ErrorCode } from '@/common/constants/error-codes';
+import {
+  CommentFilter,
+  CommentFilterContext,
+  CommentFilterHit,
+} from './comment-filter.types';
+
+// 检测重复发表的时间范围
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// 同一用户重复发表相同内容的分值（直接达到拒绝阈值）
+const DUPLICATE_SCORE = 10;
+
+// 内容自身大量重复（如刷屏字符）的分值
+const FLOOD_SCORE = 5;
+
+// 同一字符连续出现的次数上限
+const MAX_CHAR_REPEAT = 10;
+
+// 内容较长时，不同字符占比低于该值视为刷屏
+const MIN_UNIQUE_CHAR_RATIO = 0.1;
+const UNIQUE_RATIO_MIN_LENGTH = 50;
+
+/**
+ * 重复内容过滤器
+ * 检测同一用户短时间内重复发表相同评论，以及刷屏式的重复字符
+ */
+@Injectable()
+export class RepeatedContentFilter implements CommentFilter {
+  readonly name = 'repeated_content';
+
+  constructor(
+    @InjectRepository(Comment)
+    private readonly commentRepository: Repository<Comment>,
+  ) {}
+
+  async check(context: CommentFilterContext): Promise<CommentFilterHit | null> {
+    if (context.authorId) {
+      const duplicateCount = await this.commentRepository.count({
+        where: {
+          authorId: context.authorId,
+          content: context.content,
+          createdAt: MoreThan(new Date(Date.now() - DUPLICATE_WINDOW_MS)),
+        },
+      });
+      if (duplicateCount > 0) {
+        return {
+          filter: this.name,
+          score: DUPLICATE_SCORE,
+          errorCode: ErrorCode.COMMENT_DUPLICATE_CONTENT,
+          reason: '重复发表相同评论',
+          details: { duplicateCount },
+        };
+      }
+    }
+
+    if (this.isFlooding(context.content)) {
+      return {
+        filter: this.name,
+        score: FLOOD_SCORE,
+        errorCode: ErrorCode.COMMENT_SPAM_DETECTED,
+        reason: '内容存在大量重复字符',
+      };
+    }
+
+    return null;
+  }
+
+  private isFlooding(content: string): boolean {
+    const chars = Array.from(content.replace(/\s+/g, ''));
+
+    let run = 1;
+    for (let i = 1; i < chars.length; i++) {
+      run = chars[i] === chars[i - 1] ? run + 1 : 1;
+      if (run >= MAX_CHAR_REPEAT) {
+        return true;
+      }
+    }
+
+    return (
+      chars.length >= UNIQUE_RATIO_MIN_LENGTH &&
+      new Set(chars).size / chars.length < MIN_UNIQUE_CHAR_RATIO
+    );
+  }
+}
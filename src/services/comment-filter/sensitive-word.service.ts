@@ -0,0 +1,244 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { SensitiveWord } from '@/entities/sensitive-word.entity';
+import {
+  CreateSensitiveWordDto,
+  UpdateSensitiveWordDto,
+  BatchCreateSensitiveWordDto,
+  SensitiveWordQueryDto,
+} from '@/dto/sensitive-word.dto';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import {
+  ConflictException,
+  NotFoundException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { AhoCorasick } from '@/common/utils/aho-corasick.util';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import {
+  CommentFilter,
+  CommentFilterContext,
+  CommentFilterHit,
+} from './comment-filter.types';
+
+/**
+ * 敏感词命中信息
+ */
+export interface SensitiveWordMatch {
+  word: string;
+  category: string | null;
+  weight: number;
+  count: number;
+}
+
+/**
+ * 敏感词词库服务
+ * 管理敏感词并维护内存中的 Aho-Corasick 自动机，同时作为评论过滤器使用
+ */
+@Injectable()
+export class SensitiveWordService implements CommentFilter, OnModuleInit {
+  readonly name = 'sensitive_words';
+
+  private matcher = new AhoCorasick([]);
+  private dictionary = new Map<string, SensitiveWord>();
+
+  constructor(
+    @InjectRepository(SensitiveWord)
+    private readonly sensitiveWordRepository: Repository<SensitiveWord>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'SensitiveWordService' });
+  }
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.reload();
+    } catch (error) {
+      this.logger.error(
+        '加载敏感词词库失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * 从数据库重新加载启用的敏感词并重建自动机
+   */
+  async reload(): Promise<void> {
+    const words = await this.sensitiveWordRepository.find({
+      where: { isActive: true },
+    });
+
+    this.dictionary = new Map(words.map((item) => [item.word, item]));
+    this.matcher = new AhoCorasick(words.map((item) => item.word));
+
+    this.logger.log('敏感词词库已加载', {
+      action: 'reload',
+      metadata: { count: words.length },
+    });
+  }
+
+  /**
+   * 查找文本中命中的敏感词（同一词多次命中合并计数）
+   */
+  match(text: string): SensitiveWordMatch[] {
+    const matches = new Map<string, SensitiveWordMatch>();
+    for (const { word } of this.matcher.search(text)) {
+      const existing = matches.get(word);
+      if (existing) {
+        existing.count += 1;
+        continue;
+      }
+      const entry = this.dictionary.get(word);
+      matches.set(word, {
+        word,
+        category: entry?.category ?? null,
+        weight: entry?.weight ?? 0,
+        count: 1,
+      });
+    }
+    return Array.from(matches.values());
+  }
+
+  /**
+   * 评论过滤：按命中敏感词的分值累加（同一词只计一次）
+   */
+  check(context: CommentFilterContext): Promise<CommentFilterHit | null> {
+    const matches = this.match(context.content);
+    if (matches.length === 0) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve({
+      filter: this.name,
+      score: matches.reduce((total, item) => total + item.weight, 0),
+      errorCode: ErrorCode.COMMENT_SENSITIVE_WORD,
+      reason: '包含敏感词',
+      details: { words: matches.map((item) => item.word) },
+    });
+  }
+
+  /**
+   * 分页查询敏感词
+   */
+  async findAll(
+    query: SensitiveWordQueryDto,
+  ): Promise<{ items: SensitiveWord[]; total: number }> {
+    const { page = 1, limit = 10, keyword, category, isActive } = query;
+    const queryBuilder = this.sensitiveWordRepository
+      .createQueryBuilder('word')
+      .orderBy('word.createdAt', 'DESC')
+      .skip(PaginationUtil.calculateSkip(page, limit))
+      .take(limit);
+
+    if (keyword) {
+      queryBuilder.andWhere('word.word LIKE :keyword', {
+        keyword: `%${keyword.toLowerCase()}%`,
+      });
+    }
+    if (category) {
+      queryBuilder.andWhere('word.category = :category', { category });
+    }
+    if (isActive !== undefined) {
+      queryBuilder.andWhere('word.isActive = :isActive', { isActive });
+    }
+
+    const [items, total] = await queryBuilder.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * 添加敏感词
+   */
+  async create(dto: CreateSensitiveWordDto): Promise<SensitiveWord> {
+    const word = this.normalize(dto.word);
+    const existing = await this.sensitiveWordRepository.findOne({
+      where: { word },
+    });
+    if (existing) {
+      throw new ConflictException(ErrorCode.SENSITIVE_WORD_EXISTS);
+    }
+
+    const saved = await this.sensitiveWordRepository.save(
+      this.sensitiveWordRepository.create({
+        word,
+        category: dto.category || null,
+        weight: dto.weight,
+      }),
+    );
+    await this.reload();
+    return saved;
+  }
+
+  /**
+   * 批量导入敏感词，已存在的词跳过
+   */
+  async batchCreate(
+    dto: BatchCreateSensitiveWordDto,
+  ): Promise<{ created: number; skipped: string[] }> {
+    const words = Array.from(
+      new Set(dto.words.map((word) => this.normalize(word)).filter(Boolean)),
+    );
+    if (words.length === 0) {
+      return { created: 0, skipped: [] };
+    }
+
+    const existing = await this.sensitiveWordRepository.find({
+      select: ['id', 'word'],
+      where: { word: In(words) },
+    });
+    const existingWords = new Set(existing.map((item) => item.word));
+    const newWords = words.filter((word) => !existingWords.has(word));
+
+    if (newWords.length > 0) {
+      await this.sensitiveWordRepository.save(
+        newWords.map((word) =>
+          this.sensitiveWordRepository.create({
+            word,
+            category: dto.category || null,
+            weight: dto.weight,
+          }),
+        ),
+      );
+      await this.reload();
+    }
+
+    return { created: newWords.length, skipped: Array.from(existingWords) };
+  }
+
+  /**
+   * 更新敏感词分类、分值或启用状态
+   */
+  async update(
+    id: string,
+    dto: UpdateSensitiveWordDto,
+  ): Promise<SensitiveWord> {
+    const entity = await this.sensitiveWordRepository.findOne({
+      where: { id },
+    });
+    if (!entity) {
+      throw new NotFoundException(ErrorCode.SENSITIVE_WORD_NOT_FOUND);
+    }
+
+    Object.assign(entity, dto);
+    const saved = await this.sensitiveWordRepository.save(entity);
+    await this.reload();
+    return saved;
+  }
+
+  /**
+   * 删除敏感词
+   */
+  async remove(id: string): Promise<void> {
+    const result = await this.sensitiveWordRepository.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(ErrorCode.SENSITIVE_WORD_NOT_FOUND);
+    }
+    await this.reload();
+  }
+
+  private normalize(word: string): string {
+    return word.trim().toLowerCase();
+  }
+}
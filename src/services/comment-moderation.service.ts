@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { Comment } from '@/entities/comment.entity';
+import { CommentStatus } from '@/dto/comment.dto';
+
+/**
+ * 评论审核规则
+ */
+export type CommentModerationRule = 'first_time' | 'links' | 'keywords';
+
+export interface CommentModerationResult {
+  // 是否需要进入待审核队列
+  pending: boolean;
+  // 命中的规则
+  rules: CommentModerationRule[];
+}
+
+// 匹配 http(s) 链接、www. 开头的地址以及Markdown链接
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\[[^\]]*\]\([^)]+\)/i;
+
+/**
+ * 评论审核服务
+ * 根据配置的规则判断新评论是否需要进入待审核队列
+ */
+@Injectable()
+export class CommentModerationService {
+  private readonly moderateFirstTime: boolean;
+  private readonly moderateLinks: boolean;
+  private readonly keywords: string[];
+
+  constructor(
+    @InjectRepository(Comment)
+    private readonly commentRepository: Repository<Comment>,
+    private readonly configService: ConfigService,
+  ) {
+    this.moderateFirstTime =
+      String(
+        this.configService.get('COMMENT_MODERATION_FIRST_TIME', 'true'),
+      ) !== 'false';
+    this.moderateLinks =
+      String(this.configService.get('COMMENT_MODERATION_LINKS', 'true')) !==
+      'false';
+    this.keywords = this.configService
+      .get<string>('COMMENT_MODERATION_KEYWORDS', '')
+      .split(',')
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * 评估新评论命中的审核规则
+   */
+  async evaluate(
+    content: string,
+    authorId: string,
+  ): Promise<CommentModerationResult> {
+    const rules: CommentModerationRule[] = [];
+
+    if (this.keywords.length > 0) {
+      const lowerContent = content.toLowerCase();
+      if (this.keywords.some((keyword) => lowerContent.includes(keyword))) {
+        rules.push('keywords');
+      }
+    }
+
+    if (this.moderateLinks && LINK_PATTERN.test(content)) {
+      rules.push('links');
+    }
+
+    if (this.moderateFirstTime && (await this.isFirstTimeCommenter(authorId))) {
+      rules.push('first_time');
+    }
+
+    return { pending: rules.length > 0, rules };
+  }
+
+  /**
+   * 用户没有任何已通过审核的评论时视为首次评论
+   */
+  private async isFirstTimeCommenter(authorId: string): Promise<boolean> {
+    const approvedCount = await this.commentRepository.count({
+      where: {
+        authorId,
+        status: In([CommentStatus.ACTIVE, CommentStatus.HIDDEN]),
+      },
+    });
+    return approvedCount === 0;
+  }
+}
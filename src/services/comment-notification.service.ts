@@ -0,0 +1,442 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OnEvent } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Comment } from '@/entities/comment.entity';
+import { Article } from '@/entities/article.entity';
+import { User } from '@/entities/user.entity';
+import { EmailService } from '@/services/email.service';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import {
+  EmailTemplates,
+  CommentNotificationItem,
+} from '@/common/templates/email.templates';
+import {
+  COMMENT_EVENTS,
+  CommentCreatedEvent,
+  CommentModeratedEvent,
+} from '@/events/comment.events';
+
+/**
+ * 退订类型：reply 回复通知，comment 文章评论通知，all 全部
+ */
+export type UnsubscribeType = 'reply' | 'comment' | 'all';
+
+/**
+ * 评论通知对象
+ */
+export interface CommentRecipient {
+  user: User;
+  type: CommentNotificationItem['type'];
+}
+
+interface PendingDigest {
+  email: string;
+  items: CommentNotificationItem[];
+}
+
+// 摘要邮件中最多展示的通知条数
+const DIGEST_MAX_ITEMS = 20;
+
+// 单条评论最多通知的@提及用户数
+const MAX_MENTIONS = 10;
+
+// 匹配评论中的 @用户名
+const MENTION_PATTERN = /@([A-Za-z0-9_-]{3,20})/g;
+
+/**
+ * 评论邮件通知服务
+ * 评论被回复、被@提及或文章收到评论时通知相关用户（提及沿用回复通知的开关）。同一用户在摘要窗口内只会立即收到第一封邮件，
+ * 之后的通知在窗口结束时合并为一封摘要邮件发送（摘要队列保存在内存中）
+ */
+@Injectable()
+export class CommentNotificationService {
+  private readonly siteUrl: string;
+  private readonly apiBaseUrl: string;
+  private readonly digestWindowMs: number;
+  private readonly unsubscribeSecret: string;
+
+  private readonly pendingDigests = new Map<string, PendingDigest>();
+  private readonly lastSentAt = new Map<string, number>();
+  private isFlushing = false;
+
+  constructor(
+    @InjectRepository(Comment)
+    private readonly commentRepository: Repository<Comment>,
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'CommentNotificationService' });
+    this.siteUrl = SiteUrlUtil.getSiteUrl(this.configService);
+    this.apiBaseUrl = SiteUrlUtil.getApiBaseUrl(this.configService);
+    this.digestWindowMs =
+      Number(this.configService.get('COMMENT_NOTIFY_DIGEST_WINDOW', 10)) *
+      60 *
+      1000;
+    this.unsubscribeSecret =
+      this.configService.get<string>('EMAIL_UNSUBSCRIBE_SECRET') ||
+      this.configService.get<string>('JWT_SECRET') ||
+      'default-secret-key-change-in-production';
+  }
+
+  /**
+   * 评论公开显示后通知父评论作者、被提及用户和文章作者（异步执行，失败不影响评论流程）
+   */
+  @OnEvent(COMMENT_EVENTS.CREATED)
+  handleCommentCreated({ comment }: CommentCreatedEvent): void {
+    setImmediate(() => {
+      void (async () => {
+        try {
+          await this.dispatch(comment);
+        } catch (error) {
+          this.logger.error(
+            '发送评论通知失败',
+            error instanceof Error ? error.stack : String(error),
+            { metadata: { commentId: comment.id } },
+          );
+        }
+      })();
+    });
+  }
+
+  /**
+   * 评论审核通过后通知评论作者
+   */
+  @OnEvent(COMMENT_EVENTS.MODERATED)
+  handleCommentModerated({ comment, action }: CommentModeratedEvent): void {
+    const email = comment.author?.email;
+    if (action !== 'approved' || !email) {
+      return;
+    }
+
+    setImmediate(() => {
+      void (async () => {
+        try {
+          const article = await this.articleRepository.findOne({
+            select: ['id', 'title', 'slug'],
+            where: { id: comment.articleId },
+          });
+          if (!article) {
+            return;
+          }
+
+          await this.emailService.sendCommentApprovedEmail(email, {
+            content: comment.content,
+            articleTitle: article.title,
+            articleSlug: article.slug,
+          });
+        } catch (error) {
+          this.logger.error(
+            '发送评论审核通过通知失败',
+            error instanceof Error ? error.stack : String(error),
+            { metadata: { commentId: comment.id } },
+          );
+        }
+      })();
+    });
+  }
+
+  /**
+   * 确定评论需要通知的用户：父评论作者（回复）、被@提及的用户、文章作者
+   * 同一用户只通知一次，且不通知评论者本人
+   */
+  async resolveRecipients(comment: Comment): Promise<CommentRecipient[]> {
+    const recipients: CommentRecipient[] = [];
+    const notified = new Set<string>([comment.authorId]);
+
+    if (comment.parentId) {
+      // 评论作者关联为eager加载
+      const parent = await this.commentRepository.findOne({
+        where: { id: comment.parentId },
+      });
+      if (parent?.author && !notified.has(parent.author.id)) {
+        notified.add(parent.author.id);
+        recipients.push({ user: parent.author, type: 'reply' });
+      }
+    }
+
+    for (const user of await this.findMentionedUsers(comment.content)) {
+      if (!notified.has(user.id)) {
+        notified.add(user.id);
+        recipients.push({ user, type: 'mention' });
+      }
+    }
+
+    const article = await this.articleRepository.findOne({
+      select: ['id', 'authorId'],
+      where: { id: comment.articleId },
+    });
+    if (article && !notified.has(article.authorId)) {
+      const author = await this.userRepository.findOne({
+        where: { id: article.authorId },
+      });
+      if (author) {
+        recipients.push({ user: author, type: 'comment' });
+      }
+    }
+
+    return recipients;
+  }
+
+  /**
+   * 定时发送到期的摘要邮件
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async flushDigests(): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      const now = Date.now();
+      for (const [userId, digest] of this.pendingDigests) {
+        if (now - (this.lastSentAt.get(userId) ?? 0) < this.digestWindowMs) {
+          continue;
+        }
+        this.pendingDigests.delete(userId);
+        this.lastSentAt.set(userId, now);
+        await this.sendDigest(userId, digest);
+      }
+
+      // 清理已过窗口且没有待发送摘要的记录
+      for (const [userId, sentAt] of this.lastSentAt) {
+        if (
+          now - sentAt >= this.digestWindowMs &&
+          !this.pendingDigests.has(userId)
+        ) {
+          this.lastSentAt.delete(userId);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * 生成退订令牌（HMAC签名，无需存储）
+   */
+  createUnsubscribeToken(userId: string, type: UnsubscribeType): string {
+    const payload = Buffer.from(`${userId}:${type}`).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * 生成一键退订链接
+   */
+  getUnsubscribeUrl(userId: string, type: UnsubscribeType): string {
+    const token = this.createUnsubscribeToken(userId, type);
+    return `${this.apiBaseUrl}/email/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * 校验退订令牌并关闭对应的邮件通知
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeType> {
+    const { userId, type } = this.verifyUnsubscribeToken(token);
+
+    const preferences: Partial<User> = {};
+    if (type === 'reply' || type === 'all') {
+      preferences.notifyOnReply = false;
+    }
+    if (type === 'comment' || type === 'all') {
+      preferences.notifyOnArticleComment = false;
+    }
+
+    const result = await this.userRepository.update(userId, preferences);
+    if (!result.affected) {
+      throw new BusinessException(ErrorCode.EMAIL_UNSUBSCRIBE_TOKEN_INVALID);
+    }
+
+    // 已排队的摘要中移除已退订类型的通知
+    const pending = this.pendingDigests.get(userId);
+    if (pending) {
+      pending.items = pending.items.filter(
+        (item) => type !== 'all' && this.getUnsubscribeType(item) !== type,
+      );
+      if (!pending.items.length) {
+        this.pendingDigests.delete(userId);
+      }
+    }
+
+    this.logger.log('用户已退订评论通知邮件', {
+      action: 'unsubscribe',
+      metadata: { userId, type },
+    });
+    return type;
+  }
+
+  /**
+   * 按用户的邮件通知设置投递
+   */
+  private async dispatch(comment: Comment): Promise<void> {
+    const article = await this.articleRepository.findOne({
+      select: ['id', 'title', 'slug', 'authorId'],
+      where: { id: comment.articleId },
+    });
+    if (!article) {
+      return;
+    }
+
+    const item: Omit<CommentNotificationItem, 'type'> = {
+      commenterName:
+        comment.author?.nickname || comment.author?.username || '匿名用户',
+      content: comment.content,
+      articleTitle: article.title,
+      articleUrl: `${SiteUrlUtil.article(this.siteUrl, article.slug)}#comment-${comment.id}`,
+      createdAt: comment.createdAt,
+    };
+
+    for (const { user, type } of await this.resolveRecipients(comment)) {
+      const enabled =
+        type === 'comment' ? user.notifyOnArticleComment : user.notifyOnReply;
+      if (enabled) {
+        await this.enqueue(user, { ...item, type });
+      }
+    }
+  }
+
+  private async findMentionedUsers(content: string): Promise<User[]> {
+    const usernames = Array.from(
+      new Set(Array.from(content.matchAll(MENTION_PATTERN), (m) => m[1])),
+    ).slice(0, MAX_MENTIONS);
+    if (usernames.length === 0) {
+      return [];
+    }
+    return this.userRepository.find({ where: { username: In(usernames) } });
+  }
+
+  /**
+   * 窗口内首次通知立即发送，其余进入摘要队列
+   */
+  private async enqueue(
+    user: User,
+    item: CommentNotificationItem,
+  ): Promise<void> {
+    if (!user.email || user.status !== 'active') {
+      return;
+    }
+
+    const pending = this.pendingDigests.get(user.id);
+    if (pending) {
+      pending.items.push(item);
+      return;
+    }
+
+    const lastSentAt = this.lastSentAt.get(user.id);
+    if (lastSentAt && Date.now() - lastSentAt < this.digestWindowMs) {
+      this.pendingDigests.set(user.id, { email: user.email, items: [item] });
+      return;
+    }
+
+    // 单个收件人发送失败不影响其他收件人；发送成功后才开始摘要窗口
+    try {
+      const unsubscribeUrl = this.getUnsubscribeUrl(
+        user.id,
+        this.getUnsubscribeType(item),
+      );
+      const { subject, html } = EmailTemplates.commentNotification(
+        item,
+        unsubscribeUrl,
+      );
+      await this.emailService.sendNotificationEmail(
+        user.email,
+        subject,
+        html,
+        unsubscribeUrl,
+      );
+      this.lastSentAt.set(user.id, Date.now());
+    } catch (error) {
+      this.logger.error(
+        '发送评论通知邮件失败',
+        error instanceof Error ? error.stack : String(error),
+        { metadata: { userId: user.id, type: item.type } },
+      );
+    }
+  }
+
+  private async sendDigest(
+    userId: string,
+    digest: PendingDigest,
+  ): Promise<void> {
+    try {
+      const unsubscribeUrl =
+        digest.items.length === 1
+          ? this.getUnsubscribeUrl(
+              userId,
+              this.getUnsubscribeType(digest.items[0]),
+            )
+          : this.getUnsubscribeUrl(userId, 'all');
+      const { subject, html } =
+        digest.items.length === 1
+          ? EmailTemplates.commentNotification(digest.items[0], unsubscribeUrl)
+          : EmailTemplates.commentDigest(
+              digest.items.slice(-DIGEST_MAX_ITEMS),
+              unsubscribeUrl,
+              digest.items.length,
+            );
+
+      await this.emailService.sendNotificationEmail(
+        digest.email,
+        subject,
+        html,
+        unsubscribeUrl,
+      );
+    } catch (error) {
+      this.logger.error(
+        '发送评论通知摘要失败',
+        error instanceof Error ? error.stack : String(error),
+        { metadata: { userId, count: digest.items.length } },
+      );
+    }
+  }
+
+  private getUnsubscribeType(item: CommentNotificationItem): UnsubscribeType {
+    return item.type === 'comment' ? 'comment' : 'reply';
+  }
+
+  private verifyUnsubscribeToken(token: string): {
+    userId: string;
+    type: UnsubscribeType;
+  } {
+    const [payload, signature] = (token || '').split('.');
+    if (!payload || !signature) {
+      throw new BusinessException(ErrorCode.EMAIL_UNSUBSCRIBE_TOKEN_INVALID);
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new BusinessException(ErrorCode.EMAIL_UNSUBSCRIBE_TOKEN_INVALID);
+    }
+
+    const [userId, type] = Buffer.from(payload, 'base64url')
+      .toString()
+      .split(':');
+    if (!userId || !['reply', 'comment', 'all'].includes(type)) {
+      throw new BusinessException(ErrorCode.EMAIL_UNSUBSCRIBE_TOKEN_INVALID);
+    }
+
+    return { userId, type: type as UnsubscribeType };
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.unsubscribeSecret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
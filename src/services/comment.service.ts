@@ -1,5 +1,6 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository, In, SelectQueryBuilder } from 'typeorm';
 import { Comment } from '@/entities/comment.entity';
 import { CommentLike } from '@/entities/comment-like.entity';
@@ -15,6 +16,7 @@ import { ArticleStatus } from '@/dto/article.dto';
 import {
   NotFoundException,
   ForbiddenException,
+  BusinessException,
 } from '@/common/exceptions/business.exception';
 import { ErrorCode } from '@/common/constants/error-codes';
 import { BaseService } from '@/common/base/base.service';
@@ -22,6 +24,17 @@ import { BaseService } from '@/common/base/base.service';
 import { ConfigService } from '@nestjs/config';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { PaginationUtil } from '@/common/utils/pagination.util';
+import {
+  CommentModerationService,
+  CommentModerationResult,
+} from '@/services/comment-moderation.service';
+import { CommentFilterService } from '@/services/comment-filter';
+import {
+  COMMENT_EVENTS,
+  CommentCreatedEvent,
+  CommentLikedEvent,
+  CommentModeratedEvent,
+} from '@/events/comment.events';
 
 // 扩展Comment接口，添加articleTitle属性
 interface CommentWithArticleTitle extends Comment {
@@ -37,6 +50,9 @@ export class CommentService extends BaseService<Comment> {
     private commentLikeRepository: Repository<CommentLike>,
     @InjectRepository(Article)
     private articleRepository: Repository<Article>,
+    private readonly commentModerationService: CommentModerationService,
+    private readonly commentFilterService: CommentFilterService,
+    private readonly eventEmitter: EventEmitter2,
 
     @Inject(ConfigService) configService: ConfigService,
     @Inject(StructuredLoggerService) logger: StructuredLoggerService,
@@ -47,12 +63,14 @@ export class CommentService extends BaseService<Comment> {
 
   /**
    * 创建评论
+   * 命中审核规则的评论进入待审核状态，审核通过前不计入评论数和回复数
    */
   async createComment(
     createCommentDto: CreateCommentDto,
     authorId: string,
     ipAddress?: string,
     userAgent?: string,
+    isAdmin = false,
   ): Promise<Comment> {
     const { articleId, parentId, content } = createCommentDto;
 
@@ -92,34 +110,58 @@ export class CommentService extends BaseService<Comment> {
       }
     }
 
+    // 管理员发表的评论无需过滤和审核
+    // 内容过滤：风险分值过高时直接拒绝，达到审核阈值时进入待审核队列
+    const filterResult = isAdmin
+      ? null
+      : await this.commentFilterService.assertAcceptable({
+          content,
+          authorId,
+          ipAddress,
+        });
+    const moderation: CommentModerationResult = isAdmin
+      ? { pending: false, rules: [] }
+      : await this.commentModerationService.evaluate(content, authorId);
+    const pending = moderation.pending || filterResult?.decision === 'queue';
+
     // TypeORM 装饰器会自动管理 createdAt 和 updatedAt
     const comment = this.commentRepository.create({
       content,
       articleId,
       authorId,
       parentId: parentId || null,
+      status: pending ? CommentStatus.PENDING : CommentStatus.ACTIVE,
       ipAddress,
       userAgent,
     });
 
     const savedComment = await this.commentRepository.save(comment);
 
-    // 更新文章评论数
-    await this.articleRepository.increment(
-      { id: articleId },
-      'commentCount',
-      1,
-    );
-
-    // 如果是回复，更新父评论的回复数
-    if (parentId) {
-      await this.commentRepository.increment({ id: parentId }, 'replyCount', 1);
+    if (pending) {
+      this.logger.log('评论进入待审核队列', {
+        action: 'createComment',
+        metadata: {
+          commentId: savedComment.id,
+          rules: moderation.rules,
+          filterScore: filterResult?.score,
+          filterHits: filterResult?.hits.map((hit) => hit.filter),
+        },
+      });
+    } else {
+      await this.incrementCounts(savedComment);
     }
 
     const result = await this.findById(savedComment.id);
     if (!result) {
       throw new NotFoundException(ErrorCode.COMMENT_NOT_FOUND);
     }
+
+    if (!pending) {
+      this.eventEmitter.emit(
+        COMMENT_EVENTS.CREATED,
+        new CommentCreatedEvent(result),
+      );
+    }
     return result;
   }
 
@@ -276,6 +318,8 @@ export class CommentService extends BaseService<Comment> {
       );
     }
 
+    const previousStatus = comment.status;
+
     // 普通用户只能编辑内容
     if (!isAdmin) {
       const { content } = updateCommentDto as UpdateCommentDto;
@@ -285,12 +329,36 @@ export class CommentService extends BaseService<Comment> {
     } else {
       // 管理员可以编辑所有字段
       const adminDto = updateCommentDto as AdminUpdateCommentDto;
+      // 审核状态的变更必须走审核流程，否则评论数和回复数会与实际不符
+      const nextStatus: string | undefined = adminDto.status;
+      if (
+        nextStatus !== undefined &&
+        nextStatus !== previousStatus &&
+        (this.isAwaitingModeration(previousStatus) ||
+          this.isAwaitingModeration(nextStatus))
+      ) {
+        throw new BusinessException(ErrorCode.COMMENT_MODERATION_REQUIRED);
+      }
       Object.assign(comment, adminDto);
     }
 
     // 使用BaseService的update方法
     const updatedComment = await super.update(id, comment);
 
+    if (
+      updatedComment.status === 'hidden' &&
+      previousStatus !== updatedComment.status
+    ) {
+      this.eventEmitter.emit(
+        COMMENT_EVENTS.MODERATED,
+        new CommentModeratedEvent(
+          updatedComment,
+          'hidden',
+          updatedComment.adminNote,
+        ),
+      );
+    }
+
     return updatedComment;
   }
 
@@ -314,6 +382,11 @@ export class CommentService extends BaseService<Comment> {
     // 使用BaseService的softRemove方法
     await super.softRemove(id);
 
+    // 待审核和已拒绝的评论未计入评论数
+    if (comment.status === 'pending' || comment.status === 'rejected') {
+      return;
+    }
+
     // 更新文章评论数
     await this.articleRepository.decrement(
       { id: comment.articleId },
@@ -331,6 +404,117 @@ export class CommentService extends BaseService<Comment> {
     }
   }
 
+  /**
+   * 审核通过评论，计入评论数并通知评论作者
+   */
+  async approve(id: string, adminNote?: string): Promise<Comment> {
+    const comment = await this.findPendingComment(id);
+
+    // 按状态条件更新，避免并发审核时重复计数
+    const result = await this.commentRepository.update(
+      { id, status: CommentStatus.PENDING },
+      { status: CommentStatus.ACTIVE, adminNote: adminNote || '审核通过' },
+    );
+    if (!result.affected) {
+      throw new BusinessException(ErrorCode.COMMENT_NOT_PENDING);
+    }
+
+    await this.incrementCounts(comment);
+
+    const approvedComment = await this.findById(id);
+    if (!approvedComment) {
+      throw new NotFoundException(ErrorCode.COMMENT_NOT_FOUND);
+    }
+
+    this.eventEmitter.emit(
+      COMMENT_EVENTS.MODERATED,
+      new CommentModeratedEvent(approvedComment, 'approved', adminNote),
+    );
+    this.eventEmitter.emit(
+      COMMENT_EVENTS.CREATED,
+      new CommentCreatedEvent(approvedComment),
+    );
+    return approvedComment;
+  }
+
+  /**
+   * 拒绝待审核评论
+   */
+  async reject(id: string, adminNote?: string): Promise<Comment> {
+    await this.findPendingComment(id);
+
+    const result = await this.commentRepository.update(
+      { id, status: CommentStatus.PENDING },
+      { status: CommentStatus.REJECTED, adminNote: adminNote || '审核拒绝' },
+    );
+    if (!result.affected) {
+      throw new BusinessException(ErrorCode.COMMENT_NOT_PENDING);
+    }
+
+    const rejectedComment = await this.findById(id);
+    if (!rejectedComment) {
+      throw new NotFoundException(ErrorCode.COMMENT_NOT_FOUND);
+    }
+
+    this.eventEmitter.emit(
+      COMMENT_EVENTS.MODERATED,
+      new CommentModeratedEvent(rejectedComment, 'rejected', adminNote),
+    );
+    return rejectedComment;
+  }
+
+  /**
+   * 批量审核通过评论，跳过不存在或不在待审核状态的评论
+   */
+  async batchApprove(
+    commentIds: string[],
+    adminNote?: string,
+  ): Promise<{ approved: string[]; skipped: string[] }> {
+    const approved: string[] = [];
+    const skipped: string[] = [];
+
+    for (const id of commentIds) {
+      try {
+        await this.approve(id, adminNote);
+        approved.push(id);
+      } catch (error) {
+        if (!(error instanceof BusinessException)) {
+          throw error;
+        }
+        skipped.push(id);
+      }
+    }
+
+    return { approved, skipped };
+  }
+
+  /**
+   * 批量隐藏评论，跳过待审核和已拒绝的评论
+   */
+  async batchHide(
+    commentIds: string[],
+    adminNote?: string,
+  ): Promise<Comment[]> {
+    const hidden: Comment[] = [];
+
+    for (const id of commentIds) {
+      const comment = await super.findById(id);
+      if (comment && this.isAwaitingModeration(comment.status)) {
+        continue;
+      }
+      hidden.push(
+        await this.update(
+          id,
+          { status: CommentStatus.HIDDEN, adminNote: adminNote || '批量隐藏' },
+          undefined,
+          true,
+        ),
+      );
+    }
+
+    return hidden;
+  }
+
   /**
    * 点赞/取消点赞评论
    */
@@ -383,6 +567,13 @@ export class CommentService extends BaseService<Comment> {
       throw new NotFoundException(ErrorCode.COMMENT_NOT_FOUND);
     }
 
+    if (liked) {
+      this.eventEmitter.emit(
+        COMMENT_EVENTS.LIKED,
+        new CommentLikedEvent(updatedComment, userId),
+      );
+    }
+
     return {
       liked,
       likeCount: updatedComment.likeCount,
@@ -422,6 +613,46 @@ export class CommentService extends BaseService<Comment> {
     return likeMap;
   }
 
+  /**
+   * 查找待审核评论
+   */
+  private async findPendingComment(id: string): Promise<Comment> {
+    const comment = await super.findById(id);
+    if (!comment) {
+      throw new NotFoundException(ErrorCode.COMMENT_NOT_FOUND);
+    }
+    if (comment.status !== 'pending') {
+      throw new BusinessException(ErrorCode.COMMENT_NOT_PENDING);
+    }
+    return comment;
+  }
+
+  /**
+   * 待审核和已拒绝的评论未计入评论数，只能通过审核变更状态
+   */
+  private isAwaitingModeration(status: string): boolean {
+    return status === 'pending' || status === 'rejected';
+  }
+
+  /**
+   * 更新文章评论数和父评论回复数
+   */
+  private async incrementCounts(comment: Comment): Promise<void> {
+    await this.articleRepository.increment(
+      { id: comment.articleId },
+      'commentCount',
+      1,
+    );
+
+    if (comment.parentId) {
+      await this.commentRepository.increment(
+        { id: comment.parentId },
+        'replyCount',
+        1,
+      );
+    }
+  }
+
   /**
    * 创建查询构建器
    */
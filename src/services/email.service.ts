@@ -6,6 +6,8 @@ import type { Cache } from 'cache-manager';
 import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
 import { BusinessException } from '@/common/exceptions/business.exception';
 import { ErrorCode } from '@/common/constants/error-codes';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import { EmailTemplates } from '@/common/templates/email.templates';
 
 @Injectable()
 export class EmailService {
@@ -275,4 +277,137 @@ export class EmailService {
     const cacheKey = `${EmailService.PASSWORD_RESET_PREFIX}${token}`;
     await this.cache.del(cacheKey);
   }
+
+  /**
+   * 发送账户锁定通知邮件
+   */
+  async sendAccountLockedEmail(
+    email: string,
+    username: string,
+    lockMinutes: number,
+    unlockToken: string,
+  ): Promise<void> {
+    const unlockUrl = `${this.configService.get<string>('FRONTEND_URL')}/unlock-account?token=${unlockToken}`;
+    const { subject, html } = EmailTemplates.accountLocked(
+      username,
+      lockMinutes,
+      unlockUrl,
+    );
+
+    const mailOptions = {
+      from: this.configService.get<string>('MAIL_USER'),
+      to: email,
+      subject,
+      html,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      this.logger.log('账户锁定邮件发送成功', {
+        action: 'sendAccountLockedEmail',
+        metadata: { email, timestamp: new Date().toISOString() },
+      });
+    } catch (error) {
+      this.logger.error(
+        '发送账户锁定邮件失败',
+        error instanceof Error ? error.stack : undefined,
+        {
+          metadata: { email, operation: 'sendAccountLockedEmail' },
+        },
+      );
+      throw new BusinessException(
+        ErrorCode.EMAIL_SEND_FAILED,
+        '发送账户锁定邮件失败',
+      );
+    }
+  }
+
+  /**
+   * 发送评论审核通过通知邮件
+   */
+  async sendCommentApprovedEmail(
+    email: string,
+    comment: { content: string; articleTitle: string; articleSlug: string },
+  ): Promise<void> {
+    const articleUrl = SiteUrlUtil.article(
+      SiteUrlUtil.getSiteUrl(this.configService),
+      comment.articleSlug,
+    );
+    const { subject, html } = EmailTemplates.commentApproved(
+      comment.content,
+      comment.articleTitle,
+      articleUrl,
+    );
+
+    const mailOptions = {
+      from: this.configService.get<string>('MAIL_USER'),
+      to: email,
+      subject,
+      html,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      this.logger.log('评论审核通过邮件发送成功', {
+        action: 'sendCommentApprovedEmail',
+        metadata: { email, timestamp: new Date().toISOString() },
+      });
+    } catch (error) {
+      this.logger.error(
+        '发送评论审核通过邮件失败',
+        error instanceof Error ? error.stack : undefined,
+        {
+          metadata: { email, operation: 'sendCommentApprovedEmail' },
+        },
+      );
+      throw new BusinessException(
+        ErrorCode.EMAIL_SEND_FAILED,
+        '发送评论审核通过邮件失败',
+      );
+    }
+  }
+
+  /**
+   * 发送通知类邮件
+   * 提供退订链接时附带 List-Unsubscribe 头，支持邮件客户端一键退订（RFC 8058）
+   */
+  async sendNotificationEmail(
+    email: string,
+    subject: string,
+    html: string,
+    unsubscribeUrl?: string,
+  ): Promise<void> {
+    const mailOptions = {
+      from: this.configService.get<string>('MAIL_USER'),
+      to: email,
+      subject,
+      html,
+      headers: unsubscribeUrl
+        ? {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+        : undefined,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      this.logger.log('通知邮件发送成功', {
+        action: 'sendNotificationEmail',
+        metadata: { email, subject, timestamp: new Date().toISOString() },
+      });
+    } catch (error) {
+      this.logger.error(
+        '发送通知邮件失败',
+        error instanceof Error ? error.stack : undefined,
+        {
+          metadata: { email, operation: 'sendNotificationEmail' },
+        },
+      );
+      throw new BusinessException(
+        ErrorCode.EMAIL_SEND_FAILED,
+        '发送通知邮件失败',
+      );
+    }
+  }
 }
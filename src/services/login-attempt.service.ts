@@ -0,0 +1,334 @@
+import { Injectable, Inject, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { randomBytes } from 'crypto';
+import { User } from '@/entities/user.entity';
+import { EmailService } from '@/services/email.service';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 账户登录保护状态
+ */
+export interface LoginLockoutStatus {
+  failures: number; // 连续失败次数
+  locked: boolean;
+  lockedUntil: Date | null;
+  nextAttemptAt: Date | null; // 退避期间下次允许尝试的时间
+}
+
+interface LoginAttemptRecord {
+  failures: number;
+  nextAttemptAt: number;
+  lockedUntil: number | null;
+}
+
+/**
+ * 登录失败保护服务
+ * 按账户（用户名）而非IP统计连续失败次数，分布式撞库同样会被拦截：
+ * 超过免退避次数后每次失败的等待时间翻倍，达到上限后临时锁定账户并发送解锁邮件。
+ * 不存在的用户名同样计数和锁定，避免通过响应差异探测账户是否存在。
+ * 校验密码前先预占一次失败计数，并发的猜测请求同样受退避和锁定限制
+ */
+@Injectable()
+export class LoginAttemptService {
+  private static readonly RECORD_PREFIX = 'auth:login-attempts:';
+  private static readonly UNLOCK_PREFIX = 'auth:login-unlock:';
+  private static readonly FAILURE_WINDOW = 24 * 60 * 60 * 1000; // 失败记录保留24小时（毫秒）
+  private static readonly BACKOFF_FREE_FAILURES = 3; // 前3次失败不退避
+  private static readonly BACKOFF_BASE = 1000; // 1秒（毫秒）
+  private static readonly BACKOFF_MAX = 5 * 60 * 1000; // 5分钟（毫秒）
+
+  private readonly maxFailures: number;
+  private readonly lockoutDuration: number; // 毫秒
+  // 按账户串行化计数记录的读写（缓存为进程内存储）
+  private readonly recordLocks = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+    @Inject(CACHE_MANAGER) private readonly cache: Cache,
+  ) {
+    this.logger.setContext({ module: 'LoginAttemptService' });
+    this.maxFailures = this.configService.get<number>('LOGIN_MAX_FAILURES', 10);
+    this.lockoutDuration =
+      this.configService.get<number>('LOGIN_LOCKOUT_DURATION', 30) * 60 * 1000;
+  }
+
+  /**
+   * 校验密码前调用，预占一次失败计数并返回计入本次后的失败次数
+   * 账户锁定或处于退避期时拒绝本次登录；预占后并发请求立即受退避和锁定限制
+   */
+  async reserveAttempt(username: string, ip?: string): Promise<number> {
+    return this.withRecordLock(username, async () => {
+      const now = Date.now();
+      const previous = await this.getRecord(username);
+
+      if (previous?.lockedUntil && previous.lockedUntil > now) {
+        this.logger.security('已锁定账户的登录被拒绝', 'warn', {
+          action: 'login_locked_rejected',
+          ip,
+          metadata: { username, lockedUntil: new Date(previous.lockedUntil) },
+        });
+        throw new BusinessException(
+          ErrorCode.AUTH_ACCOUNT_LOCKED,
+          undefined,
+          HttpStatus.LOCKED,
+          { retryAfter: Math.ceil((previous.lockedUntil - now) / 1000) },
+        );
+      }
+
+      if (previous && previous.nextAttemptAt > now) {
+        throw new BusinessException(
+          ErrorCode.AUTH_LOGIN_THROTTLED,
+          undefined,
+          HttpStatus.TOO_MANY_REQUESTS,
+          { retryAfter: Math.ceil((previous.nextAttemptAt - now) / 1000) },
+        );
+      }
+
+      // 锁定到期后重新计数
+      const expired = !!previous?.lockedUntil;
+      const failures = (previous && !expired ? previous.failures : 0) + 1;
+      await this.saveRecord(username, {
+        failures,
+        nextAttemptAt: now + this.getBackoff(failures),
+        lockedUntil:
+          failures >= this.maxFailures ? now + this.lockoutDuration : null,
+      });
+      return failures;
+    });
+  }
+
+  /**
+   * 确认预占的尝试失败，user 为空表示用户名不存在
+   * @param failures reserveAttempt 返回的失败次数
+   */
+  async recordFailure(
+    username: string,
+    user: User | null,
+    failures: number,
+    ip?: string,
+  ): Promise<void> {
+    if (failures >= this.maxFailures) {
+      this.logger.security('连续登录失败次数过多，账户已被临时锁定', 'error', {
+        action: 'account_locked',
+        userId: user?.id,
+        ip,
+        metadata: {
+          username,
+          failures,
+          lockedUntil: new Date(Date.now() + this.lockoutDuration),
+        },
+      });
+
+      if (user?.email) {
+        await this.sendUnlockEmail(username, user);
+      }
+      return;
+    }
+
+    this.logger.security('登录失败', 'warn', {
+      action: 'login_failed',
+      userId: user?.id,
+      ip,
+      metadata: {
+        username,
+        failures,
+        userExists: !!user,
+        nextAttemptAt: new Date(Date.now() + this.getBackoff(failures)),
+      },
+    });
+  }
+
+  /**
+   * 凭据校验通过但登录尚未完成（如等待双因素认证）时退还预占的计数
+   * 之前的失败次数保留，直到登录完成后由 recordSuccess 清除
+   */
+  async releaseAttempt(username: string): Promise<void> {
+    await this.withRecordLock(username, async () => {
+      const record = await this.getRecord(username);
+      if (!record) {
+        return;
+      }
+
+      const failures = record.failures - 1;
+      if (failures <= 0) {
+        await this.cache.del(this.getRecordKey(username));
+        return;
+      }
+
+      await this.saveRecord(username, {
+        failures,
+        nextAttemptAt: 0,
+        lockedUntil: failures >= this.maxFailures ? record.lockedUntil : null,
+      });
+    });
+  }
+
+  /**
+   * 登录成功后清除失败记录（包括本次预占的计数）
+   */
+  async recordSuccess(username: string): Promise<void> {
+    await this.withRecordLock(username, () =>
+      this.cache.del(this.getRecordKey(username)),
+    );
+  }
+
+  /**
+   * 查询账户的登录保护状态
+   */
+  async getStatus(username: string): Promise<LoginLockoutStatus> {
+    const record = await this.getRecord(username);
+    const now = Date.now();
+    const locked = !!record?.lockedUntil && record.lockedUntil > now;
+    const expired = !!record?.lockedUntil && !locked;
+
+    if (!record || expired) {
+      return {
+        failures: 0,
+        locked: false,
+        lockedUntil: null,
+        nextAttemptAt: null,
+      };
+    }
+
+    return {
+      failures: record.failures,
+      locked,
+      lockedUntil: locked ? new Date(record.lockedUntil!) : null,
+      nextAttemptAt:
+        record.nextAttemptAt > now ? new Date(record.nextAttemptAt) : null,
+    };
+  }
+
+  /**
+   * 凭解锁邮件中的令牌解锁账户，令牌只能使用一次
+   */
+  async unlockWithToken(token: string, ip?: string): Promise<void> {
+    const key = `${LoginAttemptService.UNLOCK_PREFIX}${token}`;
+    const username = await this.cache.get<string>(key);
+    if (!username) {
+      throw new BusinessException(ErrorCode.AUTH_UNLOCK_TOKEN_INVALID);
+    }
+
+    await this.cache.del(key);
+    await this.recordSuccess(username);
+
+    this.logger.security('用户通过邮件解锁账户', 'info', {
+      action: 'account_unlocked',
+      ip,
+      metadata: { username, method: 'email' },
+    });
+  }
+
+  /**
+   * 管理员解锁账户
+   */
+  async unlock(user: User, operatorId: string): Promise<void> {
+    await this.recordSuccess(user.username);
+
+    this.logger.security('管理员解锁账户', 'info', {
+      action: 'account_unlocked',
+      userId: user.id,
+      metadata: { username: user.username, method: 'admin', operatorId },
+    });
+  }
+
+  /**
+   * 指数退避：超过免退避次数后，每次失败的等待时间翻倍
+   */
+  private getBackoff(failures: number): number {
+    const exponent = failures - LoginAttemptService.BACKOFF_FREE_FAILURES;
+    if (exponent < 0) {
+      return 0;
+    }
+    return Math.min(
+      LoginAttemptService.BACKOFF_BASE * 2 ** exponent,
+      LoginAttemptService.BACKOFF_MAX,
+    );
+  }
+
+  /**
+   * 生成解锁令牌并发送邮件，令牌有效期与锁定时长一致
+   * 邮件发送失败不影响锁定，账户到期后仍会自动解锁
+   */
+  private async sendUnlockEmail(username: string, user: User): Promise<void> {
+    const token = randomBytes(32).toString('base64url');
+    await this.cache.set(
+      `${LoginAttemptService.UNLOCK_PREFIX}${token}`,
+      this.normalize(username),
+      this.lockoutDuration,
+    );
+
+    try {
+      await this.emailService.sendAccountLockedEmail(
+        user.email,
+        user.username,
+        this.lockoutDuration / 60000,
+        token,
+      );
+    } catch {
+      await this.cache.del(`${LoginAttemptService.UNLOCK_PREFIX}${token}`);
+    }
+  }
+
+  /**
+   * 同一账户的计数记录读写串行执行，保证预占计数的检查和写入是原子的
+   */
+  private async withRecordLock<T>(
+    username: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const key = this.normalize(username);
+    const previous = this.recordLocks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const current = previous.then(() => released);
+    this.recordLocks.set(key, current);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (this.recordLocks.get(key) === current) {
+        this.recordLocks.delete(key);
+      }
+    }
+  }
+
+  private async getRecord(
+    username: string,
+  ): Promise<LoginAttemptRecord | null> {
+    const record = await this.cache.get<LoginAttemptRecord>(
+      this.getRecordKey(username),
+    );
+    return record ?? null;
+  }
+
+  private async saveRecord(
+    username: string,
+    record: LoginAttemptRecord,
+  ): Promise<void> {
+    await this.cache.set(
+      this.getRecordKey(username),
+      record,
+      Math.max(LoginAttemptService.FAILURE_WINDOW, this.lockoutDuration),
+    );
+  }
+
+  /**
+   * 用户名不区分大小写，统一小写后作为计数键
+   */
+  private getRecordKey(username: string): string {
+    return `${LoginAttemptService.RECORD_PREFIX}${this.normalize(username)}`;
+  }
+
+  private normalize(username: string): string {
+    return username.trim().toLowerCase();
+  }
+}
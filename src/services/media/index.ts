@@ -0,0 +1,6 @@
+export { MediaService, ARTICLE_IMAGE_OPTIONS } from './media.service';
+export type {
+  MediaReference,
+  MediaMarkdown,
+  MediaWithMarkdown,
+} from './media.service';
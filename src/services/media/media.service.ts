@@ -0,0 +1,279 @@
+import { Injectable, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Brackets } from 'typeorm';
+import type { Express } from 'express';
+import { Media } from '@/entities/media.entity';
+import { Article } from '@/entities/article.entity';
+import { MediaQueryDto, UploadMediaDto, UpdateMediaDto } from '@/dto/media.dto';
+import { ImageService } from '@/services/storage';
+import {
+  BusinessException,
+  NotFoundException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+// 文章图片原图最长边及缩略图尺寸
+export const ARTICLE_IMAGE_OPTIONS = {
+  maxSize: 1920,
+  variants: { thumb: 320, medium: 960 },
+};
+
+type ReferenceField = 'content' | 'coverImage' | 'socialImage';
+
+/**
+ * 引用媒体的文章
+ */
+export interface MediaReference {
+  id: string;
+  title: string;
+  slug: string;
+  status: string;
+  fields: ReferenceField[];
+  deleted: boolean;
+}
+
+/**
+ * 可直接粘贴的Markdown片段
+ */
+export interface MediaMarkdown {
+  image: string;
+  // 缩略图名称 → 点击打开原图的缩略图片段
+  variants: Record<string, string>;
+}
+
+export type MediaWithMarkdown = Media & { markdown: MediaMarkdown };
+
+const REFERENCE_FIELDS: ReferenceField[] = [
+  'content',
+  'coverImage',
+  'socialImage',
+];
+
+/**
+ * 媒体库服务
+ * 文章对图片的引用通过扫描正文、封面图和社交分享图得到，匹配对象键去掉扩展名的部分，
+ * 因此引用缩略图或更换了访问域名（CDN）的地址同样会被识别
+ */
+@Injectable()
+export class MediaService {
+  constructor(
+    @InjectRepository(Media)
+    private readonly mediaRepository: Repository<Media>,
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    private readonly imageService: ImageService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'MediaService' });
+  }
+
+  /**
+   * 上传图片到媒体库
+   */
+  async upload(
+    file: Express.Multer.File,
+    dto: UploadMediaDto,
+    uploaderId?: string,
+  ): Promise<MediaWithMarkdown> {
+    return await this.uploadBuffer(
+      file.buffer,
+      Buffer.from(file.originalname, 'latin1').toString('utf8'),
+      dto,
+      uploaderId,
+    );
+  }
+
+  /**
+   * 将内存中的图片保存到媒体库（如导入压缩包中的图片）
+   */
+  async uploadBuffer(
+    buffer: Buffer,
+    filename: string,
+    dto: UploadMediaDto,
+    uploaderId?: string,
+  ): Promise<MediaWithMarkdown> {
+    const image = await this.imageService.store(
+      buffer,
+      'articles',
+      ARTICLE_IMAGE_OPTIONS,
+    );
+
+    const media = await this.mediaRepository.save(
+      this.mediaRepository.create({
+        key: image.key,
+        url: image.url,
+        filename,
+        mimeType: image.contentType,
+        size: image.size,
+        width: image.width,
+        height: image.height,
+        variants: image.variants,
+        alt: dto.alt ?? null,
+        tags: dto.tags?.length ? dto.tags : null,
+        uploaderId: uploaderId ?? null,
+      }),
+    );
+
+    this.logger.log('媒体上传成功', {
+      action: 'upload',
+      metadata: { mediaId: media.id, key: media.key, uploaderId },
+    });
+    return this.withMarkdown(media);
+  }
+
+  /**
+   * 获取媒体列表
+   */
+  async findAll(
+    query: MediaQueryDto,
+  ): Promise<{ items: MediaWithMarkdown[]; total: number }> {
+    const { page = 1, limit = 10, keyword, tag } = query;
+    const queryBuilder = this.mediaRepository
+      .createQueryBuilder('media')
+      .orderBy('media.createdAt', 'DESC')
+      .skip(PaginationUtil.calculateSkip(page, limit))
+      .take(limit);
+
+    if (keyword) {
+      queryBuilder.andWhere(
+        new Brackets((qb) => {
+          qb.where('media.filename LIKE :keyword', {
+            keyword: `%${keyword}%`,
+          }).orWhere('media.alt LIKE :keyword', { keyword: `%${keyword}%` });
+        }),
+      );
+    }
+    if (tag) {
+      queryBuilder.andWhere('JSON_CONTAINS(media.tags, :tag)', {
+        tag: JSON.stringify(tag),
+      });
+    }
+
+    const [items, total] = await queryBuilder.getManyAndCount();
+    return { items: items.map((media) => this.withMarkdown(media)), total };
+  }
+
+  /**
+   * 获取媒体详情，包含引用它的文章
+   */
+  async findOne(
+    id: string,
+  ): Promise<MediaWithMarkdown & { references: MediaReference[] }> {
+    const media = await this.findById(id);
+    return {
+      ...this.withMarkdown(media),
+      references: await this.findReferences(media),
+    };
+  }
+
+  /**
+   * 更新替代文本和标签
+   */
+  async update(id: string, dto: UpdateMediaDto): Promise<MediaWithMarkdown> {
+    const media = await this.findById(id);
+    if (dto.alt !== undefined) {
+      media.alt = dto.alt || null;
+    }
+    if (dto.tags !== undefined) {
+      media.tags = dto.tags.length ? dto.tags : null;
+    }
+    return this.withMarkdown(await this.mediaRepository.save(media));
+  }
+
+  /**
+   * 删除媒体及存储中的文件，仍被文章引用时拒绝删除
+   */
+  async remove(id: string): Promise<void> {
+    const media = await this.findById(id);
+    const references = await this.findReferences(media);
+    if (references.length > 0) {
+      throw new BusinessException(
+        ErrorCode.MEDIA_IN_USE,
+        undefined,
+        HttpStatus.CONFLICT,
+        { references },
+      );
+    }
+
+    await this.mediaRepository.remove(media);
+    await this.imageService.remove(
+      media.key,
+      Object.keys(media.variants ?? {}),
+    );
+
+    this.logger.log('媒体删除成功', {
+      action: 'remove',
+      metadata: { mediaId: id, key: media.key },
+    });
+  }
+
+  /**
+   * 查找引用媒体的文章（含已删除、可恢复的文章）
+   */
+  async findReferences(media: Media): Promise<MediaReference[]> {
+    // 对象键由uuid生成，不含LIKE通配符
+    const pattern = `%${media.key.replace(/\.[^./]+$/, '')}%`;
+    const articles = await this.articleRepository
+      .createQueryBuilder('article')
+      .withDeleted()
+      .select([
+        'article.id',
+        'article.title',
+        'article.slug',
+        'article.status',
+        'article.content',
+        'article.coverImage',
+        'article.socialImage',
+        'article.deletedAt',
+      ])
+      .where(
+        new Brackets((qb) => {
+          REFERENCE_FIELDS.forEach((field) =>
+            qb.orWhere(`article.${field} LIKE :pattern`, { pattern }),
+          );
+        }),
+      )
+      .orderBy('article.updatedAt', 'DESC')
+      .getMany();
+
+    const needle = pattern.slice(1, -1);
+    return articles.map((article) => ({
+      id: article.id,
+      title: article.title,
+      slug: article.slug,
+      status: article.status,
+      fields: REFERENCE_FIELDS.filter((field) =>
+        article[field]?.includes(needle),
+      ),
+      deleted: article.deletedAt !== null,
+    }));
+  }
+
+  /**
+   * 生成Markdown片段，替代文本缺省时使用文件名
+   */
+  buildMarkdown(media: Media): MediaMarkdown {
+    const alt = (media.alt || media.filename.replace(/\.[^.]+$/, ''))
+      .replace(/([[\]\\])/g, '\\$1')
+      .replace(/\s+/g, ' ');
+    const variants: Record<string, string> = {};
+    for (const [name, url] of Object.entries(media.variants ?? {})) {
+      variants[name] = `[![${alt}](${url})](${media.url})`;
+    }
+    return { image: `![${alt}](${media.url})`, variants };
+  }
+
+  private async findById(id: string): Promise<Media> {
+    const media = await this.mediaRepository.findOne({ where: { id } });
+    if (!media) {
+      throw new NotFoundException(ErrorCode.MEDIA_NOT_FOUND);
+    }
+    return media;
+  }
+
+  private withMarkdown(media: Media): MediaWithMarkdown {
+    return Object.assign(media, { markdown: this.buildMarkdown(media) });
+  }
+}
@@ -0,0 +1,3 @@
+export { NotificationService } from './notification.service';
+export type { CreateNotificationInput } from './notification.service';
+export { NotificationListener } from './notification.listener';
@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Article } from '@/entities/article.entity';
+import { User } from '@/entities/user.entity';
+import { NotificationType } from '@/dto/notification.dto';
+import {
+  COMMENT_EVENTS,
+  CommentCreatedEvent,
+  CommentLikedEvent,
+  CommentModeratedEvent,
+} from '@/events/comment.events';
+import {
+  ANNOUNCEMENT_EVENTS,
+  AnnouncementPublishedEvent,
+} from '@/events/announcement.events';
+import { CommentNotificationService } from '@/services/comment-notification.service';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import { NotificationService } from './notification.service';
+
+// 站内通知中评论摘录的最大长度
+const EXCERPT_LENGTH = 100;
+// 通知标题的最大长度，与 Notification.title 列长度一致
+const TITLE_LENGTH = 200;
+
+/**
+ * 站内通知事件监听器
+ * 将评论和公告事件转换为站内通知，事件处理失败只记录日志
+ */
+@Injectable()
+export class NotificationListener {
+  private readonly siteUrl: string;
+
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly commentNotificationService: CommentNotificationService,
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'NotificationListener' });
+    this.siteUrl = SiteUrlUtil.getSiteUrl(this.configService);
+  }
+
+  /**
+   * 评论公开显示：通知被回复者、被提及者和文章作者
+   */
+  @OnEvent(COMMENT_EVENTS.CREATED, { async: true })
+  async handleCommentCreated({ comment }: CommentCreatedEvent): Promise<void> {
+    await this.run('comment.created', comment.id, async () => {
+      const article = await this.findArticle(comment.articleId);
+      if (!article) {
+        return;
+      }
+
+      const commenter = this.displayName(comment.author);
+      const titles = {
+        reply: `${commenter} 回复了您的评论`,
+        mention: `${commenter} 在评论中提到了您`,
+        comment: `${commenter} 评论了您的文章《${article.title}》`,
+      };
+      const types = {
+        reply: NotificationType.COMMENT_REPLY,
+        mention: NotificationType.COMMENT_MENTION,
+        comment: NotificationType.ARTICLE_COMMENT,
+      };
+
+      const recipients =
+        await this.commentNotificationService.resolveRecipients(comment);
+      for (const { user, type } of recipients) {
+        // 单个收件人写入失败不影响其他收件人
+        try {
+          await this.notificationService.create({
+            userId: user.id,
+            type: types[type],
+            title: this.title(titles[type]),
+            content: this.excerpt(comment.content),
+            link: this.commentLink(article.slug, comment.id),
+            actorId: comment.authorId,
+            data: { commentId: comment.id, articleId: article.id },
+          });
+        } catch (error) {
+          this.logger.error(
+            '创建站内通知失败',
+            error instanceof Error ? error.stack : String(error),
+            { metadata: { commentId: comment.id, userId: user.id, type } },
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * 评论被点赞：通知评论作者，同一用户对同一评论的未读点赞通知只保留一条
+   */
+  @OnEvent(COMMENT_EVENTS.LIKED, { async: true })
+  async handleCommentLiked({
+    comment,
+    userId,
+  }: CommentLikedEvent): Promise<void> {
+    if (comment.authorId === userId) {
+      return;
+    }
+
+    await this.run('comment.liked', comment.id, async () => {
+      const article = await this.findArticle(comment.articleId);
+      if (!article) {
+        return;
+      }
+
+      const link = this.commentLink(article.slug, comment.id);
+      const exists = await this.notificationService.hasUnread(
+        comment.authorId,
+        NotificationType.COMMENT_LIKE,
+        userId,
+        link,
+      );
+      if (exists) {
+        return;
+      }
+
+      const liker = await this.userRepository.findOne({
+        select: ['id', 'username', 'nickname'],
+        where: { id: userId },
+      });
+      await this.notificationService.create({
+        userId: comment.authorId,
+        type: NotificationType.COMMENT_LIKE,
+        title: this.title(`${this.displayName(liker)} 赞了您的评论`),
+        content: this.excerpt(comment.content),
+        link,
+        actorId: userId,
+        data: { commentId: comment.id, articleId: article.id },
+      });
+    });
+  }
+
+  /**
+   * 评论审核结果：通知评论作者
+   */
+  @OnEvent(COMMENT_EVENTS.MODERATED, { async: true })
+  async handleCommentModerated({
+    comment,
+    action,
+    adminNote,
+  }: CommentModeratedEvent): Promise<void> {
+    await this.run('comment.moderated', comment.id, async () => {
+      const article = await this.findArticle(comment.articleId);
+      const articleTitle = article ? `《${article.title}》` : '';
+      const messages = {
+        approved: {
+          type: NotificationType.COMMENT_APPROVED,
+          title: `您在文章${articleTitle}下的评论已通过审核`,
+        },
+        rejected: {
+          type: NotificationType.COMMENT_REJECTED,
+          title: `您在文章${articleTitle}下的评论未通过审核`,
+        },
+        hidden: {
+          type: NotificationType.COMMENT_HIDDEN,
+          title: `您在文章${articleTitle}下的评论已被管理员隐藏`,
+        },
+      };
+      const { type, title } = messages[action];
+
+      await this.notificationService.create({
+        userId: comment.authorId,
+        type,
+        title: this.title(title),
+        content: this.excerpt(comment.content),
+        // 只有公开显示的评论才有可访问的链接
+        link:
+          action === 'approved' && article
+            ? this.commentLink(article.slug, comment.id)
+            : null,
+        data: {
+          commentId: comment.id,
+          articleId: comment.articleId,
+          ...(adminNote && action !== 'approved' ? { reason: adminNote } : {}),
+        },
+      });
+    });
+  }
+
+  /**
+   * 系统公告：发送给全部激活用户
+   */
+  @OnEvent(ANNOUNCEMENT_EVENTS.PUBLISHED, { async: true })
+  async handleAnnouncementPublished(
+    event: AnnouncementPublishedEvent,
+  ): Promise<void> {
+    await this.run('announcement.published', event.title, async () => {
+      await this.notificationService.publishAnnouncement(
+        event.title,
+        event.content,
+        event.link,
+        event.publisherId,
+      );
+    });
+  }
+
+  private async run(
+    event: string,
+    target: string,
+    handler: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await handler();
+    } catch (error) {
+      this.logger.error(
+        '处理站内通知事件失败',
+        error instanceof Error ? error.stack : String(error),
+        { metadata: { event, target } },
+      );
+    }
+  }
+
+  private async findArticle(id: string): Promise<Article | null> {
+    return await this.articleRepository.findOne({
+      select: ['id', 'title', 'slug'],
+      where: { id },
+    });
+  }
+
+  private commentLink(slug: string, commentId: string): string {
+    return `${SiteUrlUtil.article(this.siteUrl, slug)}#comment-${commentId}`;
+  }
+
+  private displayName(
+    user?: Pick<User, 'username' | 'nickname'> | null,
+  ): string {
+    return user?.nickname || user?.username || '匿名用户';
+  }
+
+  private excerpt(content: string): string {
+    return content.length > EXCERPT_LENGTH
+      ? `${content.slice(0, EXCERPT_LENGTH)}…`
+      : content;
+  }
+
+  /**
+   * 标题包含昵称和文章标题，可能超出列长度，超出部分截断
+   */
+  private title(title: string): string {
+    return title.length > TITLE_LENGTH
+      ? `${title.slice(0, TITLE_LENGTH - 1)}…`
+      : title;
+  }
+}
@@ -0,0 +1,198 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from '@/entities/notification.entity';
+import { User } from '@/entities/user.entity';
+import { NotificationQueryDto, NotificationType } from '@/dto/notification.dto';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 创建通知的参数
+ */
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  content?: string | null;
+  link?: string | null;
+  actorId?: string | null;
+  data?: Record<string, any> | null;
+}
+
+// 公告分批写入的用户数量
+const ANNOUNCEMENT_BATCH_SIZE = 500;
+
+/**
+ * 站内通知服务
+ */
+@Injectable()
+export class NotificationService {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'NotificationService' });
+  }
+
+  /**
+   * 创建通知
+   */
+  async create(input: CreateNotificationInput): Promise<Notification> {
+    return await this.notificationRepository.save(
+      this.notificationRepository.create({
+        userId: input.userId,
+        type: input.type,
+        title: input.title,
+        content: input.content ?? null,
+        link: input.link ?? null,
+        actorId: input.actorId ?? null,
+        data: input.data ?? null,
+      }),
+    );
+  }
+
+  /**
+   * 获取用户的通知列表
+   */
+  async findAll(
+    userId: string,
+    query: NotificationQueryDto,
+  ): Promise<{ items: Notification[]; total: number }> {
+    const { page = 1, limit = 10, isRead, type } = query;
+    const queryBuilder = this.notificationRepository
+      .createQueryBuilder('notification')
+      .where('notification.userId = :userId', { userId })
+      .orderBy('notification.createdAt', 'DESC')
+      .skip(PaginationUtil.calculateSkip(page, limit))
+      .take(limit);
+
+    if (isRead !== undefined) {
+      queryBuilder.andWhere('notification.isRead = :isRead', { isRead });
+    }
+    if (type) {
+      queryBuilder.andWhere('notification.type = :type', { type });
+    }
+
+    const [items, total] = await queryBuilder.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * 获取未读通知数量
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return await this.notificationRepository.count({
+      where: { userId, isRead: false },
+    });
+  }
+
+  /**
+   * 是否存在指定条件的未读通知（用于合并重复通知）
+   */
+  async hasUnread(
+    userId: string,
+    type: NotificationType,
+    actorId: string,
+    link: string,
+  ): Promise<boolean> {
+    return await this.notificationRepository.exists({
+      where: { userId, type, actorId, link, isRead: false },
+    });
+  }
+
+  /**
+   * 标记单条通知为已读
+   */
+  async markRead(id: string, userId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException(ErrorCode.NOTIFICATION_NOT_FOUND);
+    }
+
+    if (!notification.isRead) {
+      notification.isRead = true;
+      notification.readAt = new Date();
+      await this.notificationRepository.save(notification);
+    }
+    return notification;
+  }
+
+  /**
+   * 标记全部通知为已读
+   * @returns 本次标记的通知数量
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.notificationRepository.update(
+      { userId, isRead: false },
+      { isRead: true, readAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * 删除通知
+   */
+  async remove(id: string, userId: string): Promise<void> {
+    const result = await this.notificationRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException(ErrorCode.NOTIFICATION_NOT_FOUND);
+    }
+  }
+
+  /**
+   * 向全部激活用户发送系统公告
+   * 按批次分页读取用户并批量写入，避免一次性加载全部用户
+   * @returns 收到公告的用户数量
+   */
+  async publishAnnouncement(
+    title: string,
+    content: string,
+    link?: string,
+    publisherId?: string,
+  ): Promise<number> {
+    let delivered = 0;
+    let lastId = '';
+
+    for (;;) {
+      const users = await this.userRepository
+        .createQueryBuilder('user')
+        .select('user.id')
+        .where('user.status = :status', { status: 'active' })
+        .andWhere('user.id > :lastId', { lastId })
+        .orderBy('user.id', 'ASC')
+        .take(ANNOUNCEMENT_BATCH_SIZE)
+        .getMany();
+      if (users.length === 0) {
+        break;
+      }
+
+      await this.notificationRepository.insert(
+        users.map((user) => ({
+          userId: user.id,
+          type: NotificationType.ANNOUNCEMENT,
+          title,
+          content,
+          link: link ?? null,
+          actorId: publisherId ?? null,
+        })),
+      );
+
+      delivered += users.length;
+      lastId = users[users.length - 1].id;
+    }
+
+    this.logger.log('系统公告已发送', {
+      action: 'publishAnnouncement',
+      metadata: { title, delivered, publisherId },
+    });
+    return delivered;
+  }
+}
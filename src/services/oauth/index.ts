@@ -0,0 +1,8 @@
+export { OAuthService } from './oauth.service';
+export type { OAuthAuthorization, OAuthLoginResult } from './oauth.service';
+export {
+  OidcOAuthProvider,
+  GithubOAuthProvider,
+  createOAuthProviders,
+} from './oauth-providers';
+export * from './oauth.types';
@@ -0,0 +1,408 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createPublicKey,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto';
+import {
+  BusinessException,
+  UnauthorizedException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import type {
+  OAuthEndpoints,
+  OAuthProfile,
+  OAuthProvider,
+  OAuthTokens,
+} from './oauth.types';
+
+const REQUEST_TIMEOUT = 10000; // 10秒
+
+/**
+ * 请求第三方接口并解析 JSON，网络错误和非 2xx 响应统一转为 OAUTH_PROVIDER_ERROR
+ */
+export async function requestJson<T>(
+  url: string,
+  init: RequestInit = {},
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+  } catch (error) {
+    throw new BusinessException(
+      ErrorCode.OAUTH_PROVIDER_ERROR,
+      undefined,
+      HttpStatus.BAD_GATEWAY,
+      { url, error: error instanceof Error ? error.message : String(error) },
+    );
+  }
+
+  if (!response.ok) {
+    throw new BusinessException(
+      ErrorCode.OAUTH_PROVIDER_ERROR,
+      undefined,
+      HttpStatus.BAD_GATEWAY,
+      { url, status: response.status },
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+interface ProviderCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * OIDC 提供方配置
+ */
+export interface OidcProviderOptions {
+  issuer: string;
+  credentials: ProviderCredentials;
+  endpoints?: OAuthEndpoints; // 未指定时通过发现文档获取
+  issuerAliases?: string[]; // id_token 中可接受的其他 iss，如 Google 的 accounts.google.com
+}
+
+interface IdTokenClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  azp?: string;
+  exp?: number;
+  nonce?: string;
+}
+
+type SigningKeys = Map<string | undefined, KeyObject>;
+
+// 校验 id_token 过期时间时允许的时钟偏差（秒）
+const CLOCK_SKEW = 60;
+
+/**
+ * 标准 OIDC 提供方
+ * 未指定端点时通过 issuer 的 /.well-known/openid-configuration 获取；
+ * 读取用户信息前校验 id_token 的签名（RS256）、iss、aud、exp 和 nonce
+ */
+export class OidcOAuthProvider implements OAuthProvider {
+  readonly scopes = ['openid', 'email', 'profile'];
+  private endpoints: Promise<OAuthEndpoints> | null = null;
+  private signingKeys: Promise<SigningKeys> | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly displayName: string,
+    private readonly options: OidcProviderOptions,
+  ) {}
+
+  get clientId(): string {
+    return this.options.credentials.clientId;
+  }
+
+  get clientSecret(): string {
+    return this.options.credentials.clientSecret;
+  }
+
+  getEndpoints(): Promise<OAuthEndpoints> {
+    if (this.options.endpoints) {
+      return Promise.resolve(this.options.endpoints);
+    }
+    // 发现文档只请求一次，失败时下次重新请求
+    this.endpoints ??= this.discover().catch((error: unknown) => {
+      this.endpoints = null;
+      throw error;
+    });
+    return this.endpoints;
+  }
+
+  async fetchProfile(
+    tokens: OAuthTokens,
+    nonce: string,
+  ): Promise<OAuthProfile> {
+    const claims = await this.verifyIdToken(tokens.idToken, nonce);
+
+    const { userInfoUrl } = await this.getEndpoints();
+    const info = await requestJson<{
+      sub: string;
+      email?: string;
+      email_verified?: boolean | string;
+      name?: string;
+      preferred_username?: string;
+      picture?: string;
+    }>(userInfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.accessToken}` },
+    });
+
+    // 用户信息必须属于 id_token 标识的用户
+    if (String(info.sub) !== claims.sub) {
+      throw new UnauthorizedException(ErrorCode.OAUTH_ID_TOKEN_INVALID);
+    }
+
+    // 部分提供方以字符串返回 email_verified
+    const emailVerified = String(info.email_verified) === 'true';
+
+    return {
+      id: claims.sub,
+      email: info.email && emailVerified ? info.email : null,
+      username: info.preferred_username ?? info.email?.split('@')[0] ?? null,
+      displayName: info.name ?? null,
+      avatarUrl: info.picture ?? null,
+    };
+  }
+
+  /**
+   * 校验 id_token 并返回其中的用户标识
+   */
+  private async verifyIdToken(
+    idToken: string | null,
+    nonce: string,
+  ): Promise<IdTokenClaims & { sub: string }> {
+    const invalid = () =>
+      new UnauthorizedException(ErrorCode.OAUTH_ID_TOKEN_INVALID);
+
+    const parts = idToken?.split('.') ?? [];
+    if (parts.length !== 3) {
+      throw invalid();
+    }
+    const [encodedHeader, encodedClaims, signature] = parts;
+
+    let header: { alg?: string; kid?: string };
+    let claims: IdTokenClaims;
+    try {
+      header = JSON.parse(
+        Buffer.from(encodedHeader, 'base64url').toString(),
+      ) as typeof header;
+      claims = JSON.parse(
+        Buffer.from(encodedClaims, 'base64url').toString(),
+      ) as IdTokenClaims;
+    } catch {
+      throw invalid();
+    }
+    if (header.alg !== 'RS256') {
+      throw invalid();
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    const signed = verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      key,
+      Buffer.from(signature, 'base64url'),
+    );
+    if (!signed) {
+      throw invalid();
+    }
+
+    const issuers = [
+      this.options.issuer,
+      ...(this.options.issuerAliases ?? []),
+    ];
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      !claims.sub ||
+      !issuers.some((item) => this.sameIssuer(item, claims.iss)) ||
+      !audiences.includes(this.clientId) ||
+      (claims.azp !== undefined && claims.azp !== this.clientId) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp + CLOCK_SKEW < now ||
+      claims.nonce !== nonce
+    ) {
+      throw invalid();
+    }
+
+    return { ...claims, sub: String(claims.sub) };
+  }
+
+  /**
+   * 按 kid 查找签名公钥，找不到时重新获取一次（提供方可能已轮换密钥）
+   */
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    let keys = await this.loadSigningKeys(false);
+    if (!this.findKey(keys, kid)) {
+      keys = await this.loadSigningKeys(true);
+    }
+
+    const key = this.findKey(keys, kid);
+    if (!key) {
+      throw new UnauthorizedException(ErrorCode.OAUTH_ID_TOKEN_INVALID);
+    }
+    return key;
+  }
+
+  private findKey(
+    keys: SigningKeys,
+    kid: string | undefined,
+  ): KeyObject | undefined {
+    // 未指定 kid 时只有一个公钥才能确定
+    if (kid === undefined && keys.size === 1) {
+      return [...keys.values()][0];
+    }
+    return keys.get(kid);
+  }
+
+  private loadSigningKeys(refresh: boolean): Promise<SigningKeys> {
+    if (refresh) {
+      this.signingKeys = null;
+    }
+    this.signingKeys ??= this.fetchSigningKeys().catch((error: unknown) => {
+      this.signingKeys = null;
+      throw error;
+    });
+    return this.signingKeys;
+  }
+
+  private async fetchSigningKeys(): Promise<SigningKeys> {
+    const { jwksUrl } = await this.getEndpoints();
+    if (!jwksUrl) {
+      throw new UnauthorizedException(ErrorCode.OAUTH_ID_TOKEN_INVALID);
+    }
+
+    const { keys } = await requestJson<{
+      keys: (JsonWebKey & { kid?: string; use?: string })[];
+    }>(jwksUrl);
+
+    const result: SigningKeys = new Map();
+    for (const jwk of keys ?? []) {
+      if (jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+      result.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+    return result;
+  }
+
+  private sameIssuer(expected: string, actual: string | undefined): boolean {
+    const normalize = (value: string) => value.replace(/\/+$/, '');
+    return actual !== undefined && normalize(expected) === normalize(actual);
+  }
+
+  private async discover(): Promise<OAuthEndpoints> {
+    const document = await requestJson<{
+      authorization_endpoint: string;
+      token_endpoint: string;
+      userinfo_endpoint: string;
+      jwks_uri: string;
+    }>(
+      `${this.options.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    );
+
+    return {
+      authorizationUrl: document.authorization_endpoint,
+      tokenUrl: document.token_endpoint,
+      userInfoUrl: document.userinfo_endpoint,
+      jwksUrl: document.jwks_uri,
+    };
+  }
+}
+
+/**
+ * GitHub 提供方（OAuth2，不支持 OIDC）
+ * 用户未公开邮箱时从 /user/emails 读取已验证的主邮箱
+ */
+export class GithubOAuthProvider implements OAuthProvider {
+  readonly name = 'github';
+  readonly displayName = 'GitHub';
+  readonly scopes = ['read:user', 'user:email'];
+
+  constructor(
+    private readonly credentials: ProviderCredentials,
+    private readonly apiUrl: string = 'https://api.github.com',
+    private readonly webUrl: string = 'https://github.com',
+  ) {}
+
+  get clientId(): string {
+    return this.credentials.clientId;
+  }
+
+  get clientSecret(): string {
+    return this.credentials.clientSecret;
+  }
+
+  getEndpoints(): Promise<OAuthEndpoints> {
+    return Promise.resolve({
+      authorizationUrl: `${this.webUrl}/login/oauth/authorize`,
+      tokenUrl: `${this.webUrl}/login/oauth/access_token`,
+      userInfoUrl: `${this.apiUrl}/user`,
+    });
+  }
+
+  async fetchProfile(tokens: OAuthTokens): Promise<OAuthProfile> {
+    const headers = { Authorization: `Bearer ${tokens.accessToken}` };
+    const user = await requestJson<{
+      id: number;
+      login: string;
+      name: string | null;
+      avatar_url: string | null;
+    }>(`${this.apiUrl}/user`, { headers });
+    const emails = await requestJson<
+      { email: string; primary: boolean; verified: boolean }[]
+    >(`${this.apiUrl}/user/emails`, { headers });
+    const primary = emails.find((item) => item.primary && item.verified);
+
+    return {
+      id: String(user.id),
+      email: primary?.email ?? null,
+      username: user.login,
+      displayName: user.name,
+      avatarUrl: user.avatar_url,
+    };
+  }
+}
+
+/**
+ * 按配置创建已启用的提供方，未配置客户端ID和密钥的提供方不启用
+ */
+export function createOAuthProviders(
+  configService: ConfigService,
+): OAuthProvider[] {
+  const credentials = (prefix: string): ProviderCredentials | null => {
+    const clientId = configService.get<string>(`${prefix}_CLIENT_ID`);
+    const clientSecret = configService.get<string>(`${prefix}_CLIENT_SECRET`);
+    return clientId && clientSecret ? { clientId, clientSecret } : null;
+  };
+
+  const providers: OAuthProvider[] = [];
+
+  const github = credentials('OAUTH_GITHUB');
+  if (github) {
+    providers.push(new GithubOAuthProvider(github));
+  }
+
+  const google = credentials('OAUTH_GOOGLE');
+  if (google) {
+    providers.push(
+      new OidcOAuthProvider('google', 'Google', {
+        issuer: 'https://accounts.google.com',
+        issuerAliases: ['accounts.google.com'],
+        credentials: google,
+        endpoints: {
+          authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+          tokenUrl: 'https://oauth2.googleapis.com/token',
+          userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+          jwksUrl: 'https://www.googleapis.com/oauth2/v3/certs',
+        },
+      }),
+    );
+  }
+
+  // 通用 OIDC 提供方，如 Keycloak、Authing、自建身份服务
+  const oidc = credentials('OAUTH_OIDC');
+  const issuer = configService.get<string>('OAUTH_OIDC_ISSUER');
+  if (oidc && issuer) {
+    providers.push(
+      new OidcOAuthProvider(
+        'oidc',
+        configService.get<string>('OAUTH_OIDC_NAME', 'OIDC'),
+        { issuer, credentials: oidc },
+      ),
+    );
+  }
+
+  return providers;
+}
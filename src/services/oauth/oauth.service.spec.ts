@@ -0,0 +1,615 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createCache, type Cache } from 'cache-manager';
+import {
+  createHash,
+  createSign,
+  generateKeyPairSync,
+  randomBytes,
+  type KeyObject,
+} from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OAuthAccount } from '@/entities/oauth-account.entity';
+import { User } from '@/entities/user.entity';
+import { UserService } from '@/services/user.service';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import type { OAuthState } from './oauth.types';
+import { OAuthService } from './oauth.service';
+
+const CLIENT_ID = 'blog-client';
+const CLIENT_SECRET = 'blog-secret';
+const REDIRECT_URI = 'http://localhost:3000/oauth/callback';
+const STATE_PREFIX = 'auth:oauth:state:';
+
+interface IdpUser {
+  sub: string;
+  email: string;
+  name: string;
+  preferred_username: string;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  nonce: string | undefined;
+  user: IdpUser;
+}
+
+/**
+ * 本地模拟的 OIDC 身份提供方
+ * 提供发现文档、授权、令牌、用户信息和公钥端点；授权端点直接以 currentUser 身份同意授权
+ */
+class MockIdentityProvider {
+  readonly signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  readonly kid = 'test-key';
+  currentUser: IdpUser = {
+    sub: 'idp-user-1',
+    email: 'alice@example.com',
+    name: 'Alice',
+    preferred_username: 'alice',
+  };
+  // 覆盖签发的 id_token 声明或签名密钥，用于模拟伪造的令牌
+  idTokenClaims: Record<string, unknown> = {};
+  idTokenKey: KeyObject | null = null;
+  readonly tokenRequests: Record<string, string>[] = [];
+
+  private readonly codes = new Map<string, IssuedCode>();
+  private readonly accessTokens = new Map<string, IdpUser>();
+  private server: Server | null = null;
+  issuer = '';
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      void this.handle(req).then(
+        ({ status, body, headers }) => {
+          res.writeHead(status, {
+            'Content-Type': 'application/json',
+            ...headers,
+          });
+          res.end(body === undefined ? undefined : JSON.stringify(body));
+        },
+        () => {
+          res.writeHead(500);
+          res.end();
+        },
+      );
+    });
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.idTokenClaims = {};
+    this.idTokenKey = null;
+    this.tokenRequests.length = 0;
+  }
+
+  /**
+   * 模拟浏览器访问授权地址，返回回调中的 code 和 state
+   */
+  async authorize(
+    authorizationUrl: string,
+  ): Promise<{ code: string; state: string }> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = new URL(response.headers.get('location')!);
+    return {
+      code: location.searchParams.get('code')!,
+      state: location.searchParams.get('state')!,
+    };
+  }
+
+  private async handle(req: IncomingMessage): Promise<{
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+  }> {
+    const url = new URL(req.url!, this.issuer);
+
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration':
+        return {
+          status: 200,
+          body: {
+            issuer: this.issuer,
+            authorization_endpoint: `${this.issuer}/authorize`,
+            token_endpoint: `${this.issuer}/token`,
+            userinfo_endpoint: `${this.issuer}/userinfo`,
+            jwks_uri: `${this.issuer}/jwks`,
+          },
+        };
+
+      case 'GET /jwks':
+        return {
+          status: 200,
+          body: {
+            keys: [
+              {
+                ...this.signingKey.publicKey.export({ format: 'jwk' }),
+                kid: this.kid,
+                use: 'sig',
+                alg: 'RS256',
+              },
+            ],
+          },
+        };
+
+      case 'GET /authorize': {
+        const params = url.searchParams;
+        const code = randomBytes(16).toString('hex');
+        this.codes.set(code, {
+          clientId: params.get('client_id')!,
+          redirectUri: params.get('redirect_uri')!,
+          codeChallenge: params.get('code_challenge')!,
+          codeChallengeMethod: params.get('code_challenge_method')!,
+          nonce: params.get('nonce') ?? undefined,
+          user: { ...this.currentUser },
+        });
+        const location = new URL(params.get('redirect_uri')!);
+        location.searchParams.set('code', code);
+        location.searchParams.set('state', params.get('state')!);
+        return { status: 302, headers: { Location: location.toString() } };
+      }
+
+      case 'POST /token':
+        return this.token(await this.readForm(req));
+
+      case 'GET /userinfo': {
+        const token = req.headers.authorization?.replace(/^Bearer /, '');
+        const user = token ? this.accessTokens.get(token) : undefined;
+        if (!user) {
+          return { status: 401, body: { error: 'invalid_token' } };
+        }
+        return { status: 200, body: { ...user, email_verified: true } };
+      }
+
+      default:
+        return { status: 404, body: { error: 'not_found' } };
+    }
+  }
+
+  private token(form: Record<string, string>): {
+    status: number;
+    body: unknown;
+  } {
+    this.tokenRequests.push(form);
+
+    // 授权码只能使用一次
+    const issued = this.codes.get(form.code);
+    this.codes.delete(form.code);
+    const challenge = createHash('sha256')
+      .update(form.code_verifier ?? '')
+      .digest('base64url');
+    if (
+      !issued ||
+      form.client_id !== CLIENT_ID ||
+      form.client_secret !== CLIENT_SECRET ||
+      form.redirect_uri !== issued.redirectUri ||
+      issued.codeChallengeMethod !== 'S256' ||
+      challenge !== issued.codeChallenge
+    ) {
+      return { status: 400, body: { error: 'invalid_grant' } };
+    }
+
+    const accessToken = randomBytes(16).toString('hex');
+    this.accessTokens.set(accessToken, issued.user);
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      status: 200,
+      body: {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        id_token: this.signIdToken({
+          iss: this.issuer,
+          sub: issued.user.sub,
+          aud: issued.clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: issued.nonce,
+          ...this.idTokenClaims,
+        }),
+      },
+    };
+  }
+
+  private signIdToken(claims: Record<string, unknown>): string {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const data = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.kid })}.${encode(claims)}`;
+    const signature = createSign('RSA-SHA256')
+      .update(data)
+      .sign(this.idTokenKey ?? this.signingKey.privateKey, 'base64url');
+    return `${data}.${signature}`;
+  }
+
+  private async readForm(
+    req: IncomingMessage,
+  ): Promise<Record<string, string>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Object.fromEntries(
+      new URLSearchParams(Buffer.concat(chunks).toString()),
+    );
+  }
+}
+
+/**
+ * 内存中的第三方账号仓库，只实现 OAuthService 用到的方法
+ */
+class InMemoryOAuthAccountRepository {
+  readonly accounts: OAuthAccount[] = [];
+
+  constructor(private readonly users: User[]) {}
+
+  create(data: Partial<OAuthAccount>): OAuthAccount {
+    return { ...data } as OAuthAccount;
+  }
+
+  save(account: OAuthAccount): Promise<OAuthAccount> {
+    const saved = { ...account, id: randomBytes(8).toString('hex') };
+    this.accounts.push(saved);
+    return Promise.resolve(saved);
+  }
+
+  findOne(options: {
+    where: Partial<OAuthAccount>;
+    relations?: string[];
+  }): Promise<OAuthAccount | null> {
+    const account = this.accounts.find((item) =>
+      Object.entries(options.where).every(
+        ([key, value]) => item[key as keyof OAuthAccount] === value,
+      ),
+    );
+    if (!account) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(
+      options.relations?.includes('user')
+        ? {
+            ...account,
+            user: this.users.find((user) => user.id === account.userId)!,
+          }
+        : account,
+    );
+  }
+
+  update(id: string, data: Partial<OAuthAccount>): Promise<void> {
+    const account = this.accounts.find((item) => item.id === id);
+    Object.assign(account!, data);
+    return Promise.resolve();
+  }
+}
+
+describe('OAuthService', () => {
+  const idp = new MockIdentityProvider();
+  let service: OAuthService;
+  let cache: Cache;
+  let users: User[];
+  let accounts: InMemoryOAuthAccountRepository;
+
+  beforeAll(async () => {
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(async () => {
+    idp.reset();
+    users = [];
+    accounts = new InMemoryOAuthAccountRepository(users);
+    cache = createCache();
+
+    const userService = {
+      findByEmail: (email: string) =>
+        Promise.resolve(users.find((user) => user.email === email) ?? null),
+      findAll: ({ where }: { where: { username: string } }) =>
+        Promise.resolve(
+          users.filter((user) => user.username === where.username),
+        ),
+      create: (dto: { username: string; email: string }) => {
+        const user = { id: `user-${users.length + 1}`, ...dto } as User;
+        users.push(user);
+        return Promise.resolve(user);
+      },
+    };
+    const logger = {
+      setContext: jest.fn(),
+      log: jest.fn(),
+      warn: jest.fn(),
+      security: jest.fn(),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OAuthService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            OAUTH_REDIRECT_URL: REDIRECT_URI,
+            OAUTH_OIDC_ISSUER: idp.issuer,
+            OAUTH_OIDC_CLIENT_ID: CLIENT_ID,
+            OAUTH_OIDC_CLIENT_SECRET: CLIENT_SECRET,
+          }),
+        },
+        { provide: getRepositoryToken(OAuthAccount), useValue: accounts },
+        { provide: UserService, useValue: userService },
+        { provide: StructuredLoggerService, useValue: logger },
+        { provide: CACHE_MANAGER, useValue: cache },
+      ],
+    }).compile();
+
+    service = moduleRef.get(OAuthService);
+  });
+
+  const startFlow = async (
+    mode: OAuthState['mode'] = 'login',
+    userId?: string,
+  ) => {
+    const { authorizationUrl } = await service.createAuthorization(
+      'oidc',
+      mode,
+      userId,
+    );
+    return idp.authorize(authorizationUrl);
+  };
+
+  const expectError = async (
+    promise: Promise<unknown>,
+    code: ErrorCode,
+    status: number,
+  ) => {
+    const error = await promise.then(
+      () => null,
+      (reason: unknown) => reason,
+    );
+    expect(error).toBeInstanceOf(BusinessException);
+    expect((error as BusinessException).getStatus()).toBe(status);
+    expect((error as BusinessException).getResponse()).toMatchObject({
+      code,
+    });
+  };
+
+  describe('授权地址', () => {
+    it('附带 state、nonce 和 S256 PKCE 挑战', async () => {
+      const { authorizationUrl } = await service.createAuthorization(
+        'oidc',
+        'login',
+      );
+      const url = new URL(authorizationUrl);
+      const state = url.searchParams.get('state')!;
+      const record = await cache.get<OAuthState>(`${STATE_PREFIX}${state}`);
+
+      expect(url.origin + url.pathname).toBe(`${idp.issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(url.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('nonce')).toBe(record?.nonce);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(record!.codeVerifier).digest('base64url'),
+      );
+    });
+
+    it('回调返回发起授权时的 state，并以 code_verifier 换取令牌', async () => {
+      const { authorizationUrl } = await service.createAuthorization(
+        'oidc',
+        'login',
+      );
+      const sent = new URL(authorizationUrl).searchParams.get('state');
+      const { code, state } = await idp.authorize(authorizationUrl);
+      const record = await cache.get<OAuthState>(`${STATE_PREFIX}${state}`);
+
+      expect(state).toBe(sent);
+      await service.login(code, state);
+      expect(idp.tokenRequests[0]).toMatchObject({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: record!.codeVerifier,
+      });
+    });
+
+    it('code_verifier 与挑战不符时提供方拒绝换取令牌', async () => {
+      const { code, state } = await startFlow();
+      const key = `${STATE_PREFIX}${state}`;
+      const record = await cache.get<OAuthState>(key);
+      await cache.set(key, { ...record, codeVerifier: 'tampered-verifier' });
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_PROVIDER_ERROR,
+        502,
+      );
+    });
+  });
+
+  describe('登录', () => {
+    it('首次登录创建用户并绑定第三方账号', async () => {
+      const { code, state } = await startFlow();
+
+      const result = await service.login(code, state);
+
+      expect(result.isNewUser).toBe(true);
+      expect(result.provider).toBe('oidc');
+      expect(result.user).toMatchObject({
+        username: 'alice',
+        email: 'alice@example.com',
+      });
+      expect(accounts.accounts).toEqual([
+        expect.objectContaining({
+          userId: result.user.id,
+          provider: 'oidc',
+          providerUserId: 'idp-user-1',
+        }),
+      ]);
+    });
+
+    it('再次登录返回已绑定的用户', async () => {
+      const first = await startFlow();
+      const { user } = await service.login(first.code, first.state);
+
+      const second = await startFlow();
+      const result = await service.login(second.code, second.state);
+
+      expect(result.isNewUser).toBe(false);
+      expect(result.user.id).toBe(user.id);
+      expect(users).toHaveLength(1);
+    });
+
+    it('邮箱已被注册时返回 409，不自动接管已有账户', async () => {
+      users.push({
+        id: 'existing',
+        username: 'alice2',
+        email: 'alice@example.com',
+      } as User);
+      const { code, state } = await startFlow();
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_EMAIL_IN_USE,
+        409,
+      );
+      expect(accounts.accounts).toHaveLength(0);
+    });
+  });
+
+  describe('绑定', () => {
+    it('把第三方账号绑定到已有用户，之后可直接登录', async () => {
+      const existing = {
+        id: 'existing',
+        username: 'alice2',
+        email: 'alice@example.com',
+      } as User;
+      users.push(existing);
+
+      const linkFlow = await startFlow('link', existing.id);
+      const account = await service.link(
+        existing.id,
+        linkFlow.code,
+        linkFlow.state,
+      );
+      expect(account).toMatchObject({
+        userId: existing.id,
+        provider: 'oidc',
+        providerUserId: 'idp-user-1',
+      });
+
+      const loginFlow = await startFlow();
+      const result = await service.login(loginFlow.code, loginFlow.state);
+      expect(result.isNewUser).toBe(false);
+      expect(result.user.id).toBe(existing.id);
+    });
+
+    it('state 不属于当前用户时拒绝绑定', async () => {
+      const { code, state } = await startFlow('link', 'user-a');
+
+      await expectError(
+        service.link('user-b', code, state),
+        ErrorCode.OAUTH_STATE_INVALID,
+        401,
+      );
+    });
+  });
+
+  describe('state 校验', () => {
+    it('state 只能使用一次', async () => {
+      const { code, state } = await startFlow();
+      await service.login(code, state);
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_STATE_INVALID,
+        401,
+      );
+    });
+
+    it('拒绝已过期的 state', async () => {
+      const { code, state } = await startFlow();
+      const now = Date.now();
+      const spy = jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(now + 10 * 60 * 1000 + 1);
+
+      try {
+        await expectError(
+          service.login(code, state),
+          ErrorCode.OAUTH_STATE_INVALID,
+          401,
+        );
+      } finally {
+        spy.mockRestore();
+      }
+      expect(idp.tokenRequests).toHaveLength(0);
+    });
+
+    it('拒绝用途不符的 state', async () => {
+      const { code, state } = await startFlow('link', 'user-a');
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_STATE_INVALID,
+        401,
+      );
+    });
+  });
+
+  describe('id_token 校验', () => {
+    it.each([
+      ['nonce 不符', { nonce: 'other-nonce' }],
+      ['iss 不符', { iss: 'https://evil.example.com' }],
+      ['aud 不符', { aud: 'other-client' }],
+      ['已过期', { exp: Math.floor(Date.now() / 1000) - 3600 }],
+    ])('%s时拒绝登录', async (_, claims) => {
+      idp.idTokenClaims = claims;
+      const { code, state } = await startFlow();
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_ID_TOKEN_INVALID,
+        401,
+      );
+      expect(users).toHaveLength(0);
+    });
+
+    it('签名无效时拒绝登录', async () => {
+      idp.idTokenKey = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+      }).privateKey;
+      const { code, state } = await startFlow();
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_ID_TOKEN_INVALID,
+        401,
+      );
+    });
+
+    it('id_token 与用户信息的 sub 不一致时拒绝登录', async () => {
+      idp.idTokenClaims = { sub: 'someone-else' };
+      const { code, state } = await startFlow();
+
+      await expectError(
+        service.login(code, state),
+        ErrorCode.OAUTH_ID_TOKEN_INVALID,
+        401,
+      );
+    });
+  });
+});
@@ -0,0 +1,381 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { createHash, randomBytes } from 'crypto';
+import { OAuthAccount } from '@/entities/oauth-account.entity';
+import { User } from '@/entities/user.entity';
+import { UserService } from '@/services/user.service';
+import {
+  BusinessException,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { VALIDATION_LIMITS } from '@/common/constants/validation.constants';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import { createOAuthProviders, requestJson } from './oauth-providers';
+import type { OAuthProfile, OAuthProvider, OAuthState } from './oauth.types';
+
+/**
+ * 发起授权的结果，前端跳转到 authorizationUrl
+ */
+export interface OAuthAuthorization {
+  authorizationUrl: string;
+  expiresIn: number; // 秒
+}
+
+/**
+ * 第三方登录结果
+ */
+export interface OAuthLoginResult {
+  user: User;
+  provider: string;
+  isNewUser: boolean;
+}
+
+/**
+ * 第三方登录服务
+ * 使用授权码模式并始终附带 PKCE；state、code_verifier 和 OIDC nonce 保存在缓存中，回调时一次性取回。
+ * 第三方账号首次登录时创建新用户，邮箱已被注册的需先用密码登录后在个人资料中绑定，
+ * 避免仅凭第三方邮箱接管已有账户
+ */
+@Injectable()
+export class OAuthService {
+  private static readonly STATE_TTL = 10 * 60 * 1000; // 10分钟（毫秒）
+  private static readonly STATE_PREFIX = 'auth:oauth:state:';
+
+  private readonly providers: Map<string, OAuthProvider>;
+  private readonly redirectUri: string;
+
+  constructor(
+    @InjectRepository(OAuthAccount)
+    private readonly oauthAccountRepository: Repository<OAuthAccount>,
+    private readonly userService: UserService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+    @Inject(CACHE_MANAGER) private readonly cache: Cache,
+  ) {
+    this.logger.setContext({ module: 'OAuthService' });
+    this.providers = new Map(
+      createOAuthProviders(this.configService).map((provider) => [
+        provider.name,
+        provider,
+      ]),
+    );
+    this.redirectUri =
+      this.configService.get<string>('OAUTH_REDIRECT_URL') ||
+      `${SiteUrlUtil.getSiteUrl(this.configService)}/oauth/callback`;
+  }
+
+  /**
+   * 已启用的登录方式
+   */
+  listProviders(): { name: string; displayName: string }[] {
+    return [...this.providers.values()].map(({ name, displayName }) => ({
+      name,
+      displayName,
+    }));
+  }
+
+  /**
+   * 生成授权地址，mode 为 link 时需要传入发起绑定的用户
+   */
+  async createAuthorization(
+    providerName: string,
+    mode: OAuthState['mode'],
+    userId?: string,
+  ): Promise<OAuthAuthorization> {
+    const provider = this.getProvider(providerName);
+    const endpoints = await provider.getEndpoints();
+
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const record: OAuthState = {
+      provider: provider.name,
+      codeVerifier,
+      nonce,
+      redirectUri: this.redirectUri,
+      mode,
+      userId,
+    };
+    await this.cache.set(
+      `${OAuthService.STATE_PREFIX}${state}`,
+      record,
+      OAuthService.STATE_TTL,
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.redirectUri,
+      scope: provider.scopes.join(' '),
+      state,
+      nonce,
+      code_challenge: createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+
+    return {
+      authorizationUrl: `${endpoints.authorizationUrl}?${params.toString()}`,
+      expiresIn: OAuthService.STATE_TTL / 1000,
+    };
+  }
+
+  /**
+   * 处理登录回调，已绑定的账号直接登录，新账号创建用户
+   */
+  async login(code: string, state: string): Promise<OAuthLoginResult> {
+    const record = await this.consumeState(state, 'login');
+    const profile = await this.fetchProfile(record, code);
+
+    const account = await this.oauthAccountRepository.findOne({
+      where: { provider: record.provider, providerUserId: profile.id },
+      relations: ['user'],
+    });
+    if (account) {
+      if (!account.user) {
+        throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+      }
+      await this.oauthAccountRepository.update(account.id, {
+        ...this.toAccountFields(profile),
+        lastLoginAt: new Date(),
+      });
+      return {
+        user: account.user,
+        provider: record.provider,
+        isNewUser: false,
+      };
+    }
+
+    if (!profile.email) {
+      throw new BusinessException(ErrorCode.OAUTH_EMAIL_REQUIRED);
+    }
+    if (await this.userService.findByEmail(profile.email)) {
+      throw new ConflictException(ErrorCode.OAUTH_EMAIL_IN_USE);
+    }
+
+    // 随机密码，用户需要时可通过忘记密码设置
+    const user = await this.userService.create({
+      username: await this.generateUsername(profile),
+      email: profile.email,
+      password: randomBytes(24).toString('base64url'),
+      nickname:
+        profile.displayName?.slice(0, VALIDATION_LIMITS.NICKNAME.MAX) ??
+        undefined,
+    });
+    await this.oauthAccountRepository.save(
+      this.oauthAccountRepository.create({
+        userId: user.id,
+        provider: record.provider,
+        providerUserId: profile.id,
+        ...this.toAccountFields(profile),
+        lastLoginAt: new Date(),
+      }),
+    );
+
+    this.logger.log('通过第三方登录创建用户', {
+      action: 'oauth_register',
+      userId: user.id,
+      metadata: { provider: record.provider },
+    });
+
+    return { user, provider: record.provider, isNewUser: true };
+  }
+
+  /**
+   * 处理绑定回调，把第三方账号绑定到发起绑定的用户
+   */
+  async link(
+    userId: string,
+    code: string,
+    state: string,
+  ): Promise<OAuthAccount> {
+    const record = await this.consumeState(state, 'link');
+    if (record.userId !== userId) {
+      throw new UnauthorizedException(ErrorCode.OAUTH_STATE_INVALID);
+    }
+    const profile = await this.fetchProfile(record, code);
+
+    const existing = await this.oauthAccountRepository.findOne({
+      where: { provider: record.provider, providerUserId: profile.id },
+    });
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new ConflictException(ErrorCode.OAUTH_ACCOUNT_LINKED);
+      }
+      return existing;
+    }
+
+    const sameProvider = await this.oauthAccountRepository.findOne({
+      where: { userId, provider: record.provider },
+      select: { id: true },
+    });
+    if (sameProvider) {
+      throw new ConflictException(ErrorCode.OAUTH_PROVIDER_ALREADY_LINKED);
+    }
+
+    const account = await this.oauthAccountRepository.save(
+      this.oauthAccountRepository.create({
+        userId,
+        provider: record.provider,
+        providerUserId: profile.id,
+        ...this.toAccountFields(profile),
+      }),
+    );
+
+    this.logger.security('已绑定第三方账号', 'info', {
+      action: 'oauth_link',
+      userId,
+      metadata: { provider: record.provider, accountId: account.id },
+    });
+
+    return account;
+  }
+
+  /**
+   * 用户已绑定的第三方账号
+   */
+  async listAccounts(userId: string): Promise<OAuthAccount[]> {
+    return await this.oauthAccountRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 解除绑定
+   */
+  async unlink(userId: string, accountId: string): Promise<void> {
+    const account = await this.oauthAccountRepository.findOne({
+      where: { id: accountId, userId },
+    });
+    if (!account) {
+      throw new NotFoundException(ErrorCode.OAUTH_ACCOUNT_NOT_FOUND);
+    }
+
+    await this.oauthAccountRepository.delete(account.id);
+
+    this.logger.security('已解除第三方账号绑定', 'info', {
+      action: 'oauth_unlink',
+      userId,
+      metadata: { provider: account.provider, accountId },
+    });
+  }
+
+  private getProvider(name: string): OAuthProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundException(ErrorCode.OAUTH_PROVIDER_NOT_SUPPORTED);
+    }
+    return provider;
+  }
+
+  /**
+   * 取回并删除授权状态，每个 state 只能使用一次
+   */
+  private async consumeState(
+    state: string,
+    mode: OAuthState['mode'],
+  ): Promise<OAuthState> {
+    const key = `${OAuthService.STATE_PREFIX}${state}`;
+    const record = await this.cache.get<OAuthState>(key);
+    if (!record || record.mode !== mode) {
+      throw new UnauthorizedException(ErrorCode.OAUTH_STATE_INVALID);
+    }
+    await this.cache.del(key);
+    return record;
+  }
+
+  /**
+   * 用授权码和 code_verifier 换取访问令牌并读取用户信息
+   */
+  private async fetchProfile(
+    record: OAuthState,
+    code: string,
+  ): Promise<OAuthProfile> {
+    const provider = this.getProvider(record.provider);
+    const { tokenUrl } = await provider.getEndpoints();
+
+    const token = await requestJson<{
+      access_token?: string;
+      id_token?: string;
+      error?: string;
+      error_description?: string;
+    }>(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: record.redirectUri,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: record.codeVerifier,
+      }),
+    });
+
+    // GitHub 在授权码无效时仍返回 200，错误信息在响应体中
+    if (!token.access_token) {
+      this.logger.warn('第三方授权码换取令牌失败', {
+        action: 'oauth_token_exchange',
+        metadata: {
+          provider: provider.name,
+          error: token.error,
+          description: token.error_description,
+        },
+      });
+      throw new UnauthorizedException(ErrorCode.OAUTH_STATE_INVALID);
+    }
+
+    return await provider.fetchProfile(
+      { accessToken: token.access_token, idToken: token.id_token ?? null },
+      record.nonce,
+    );
+  }
+
+  private toAccountFields(
+    profile: OAuthProfile,
+  ): Pick<OAuthAccount, 'email' | 'displayName' | 'avatarUrl'> {
+    return {
+      email: profile.email,
+      displayName: profile.displayName?.slice(0, 100) ?? null,
+      avatarUrl: profile.avatarUrl?.slice(0, 500) ?? null,
+    };
+  }
+
+  /**
+   * 根据第三方用户名生成可用的用户名，重名时追加随机后缀
+   */
+  private async generateUsername(profile: OAuthProfile): Promise<string> {
+    const { MIN, MAX } = VALIDATION_LIMITS.USERNAME;
+    const source = profile.username ?? profile.email?.split('@')[0] ?? '';
+    let base = source.replace(/[^A-Za-z0-9_-]/g, '').slice(0, MAX - 5);
+    if (base.length < MIN) {
+      base = 'user';
+    }
+
+    let candidate = base;
+    for (let attempt = 0; attempt < 5; attempt++) {
+      // 已删除用户的用户名仍受唯一索引约束
+      const existing = await this.userService.findAll({
+        where: { username: candidate },
+        select: { id: true },
+        withDeleted: true,
+        take: 1,
+      });
+      if (existing.length === 0) {
+        return candidate;
+      }
+      candidate = `${base}_${randomBytes(2).toString('hex')}`;
+    }
+    return `user_${randomBytes(6).toString('hex')}`;
+  }
+}
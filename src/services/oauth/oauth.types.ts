@@ -0,0 +1,58 @@
+/**
+ * 授权码流程使用的端点
+ */
+export interface OAuthEndpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  jwksUrl?: string; // OIDC 提供方校验 id_token 签名的公钥地址
+}
+
+/**
+ * 授权码换取的令牌
+ */
+export interface OAuthTokens {
+  accessToken: string;
+  idToken: string | null; // 仅 OIDC 提供方返回
+}
+
+/**
+ * 统一后的第三方用户信息
+ */
+export interface OAuthProfile {
+  id: string; // 第三方用户ID
+  email: string | null; // 只返回已验证的邮箱
+  username: string | null; // 建议的用户名，如 GitHub login
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+/**
+ * 第三方登录提供方
+ * 授权码换取访问令牌由 OAuthService 统一处理，提供方只负责端点和用户信息的差异
+ */
+export interface OAuthProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly clientId: string;
+  readonly clientSecret: string;
+  readonly scopes: string[];
+  getEndpoints(): Promise<OAuthEndpoints>;
+  /**
+   * 读取用户信息，OIDC 提供方需先校验 id_token
+   * @param nonce 发起授权时生成的随机数，与 id_token 中的 nonce 比对
+   */
+  fetchProfile(tokens: OAuthTokens, nonce: string): Promise<OAuthProfile>;
+}
+
+/**
+ * 发起授权时保存的状态，回调时凭 state 取回
+ */
+export interface OAuthState {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  mode: 'login' | 'link';
+  userId?: string; // 绑定时发起请求的用户
+}
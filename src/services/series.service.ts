@@ -0,0 +1,382 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not, EntityManager } from 'typeorm';
+import { Series } from '@/entities/series.entity';
+import { SeriesArticle } from '@/entities/series-article.entity';
+import { Article } from '@/entities/article.entity';
+import {
+  CreateSeriesDto,
+  UpdateSeriesDto,
+  SeriesQueryDto,
+} from '@/dto/series.dto';
+import { ArticleStatus } from '@/dto/article.dto';
+import {
+  NotFoundException,
+  ConflictException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { PaginationUtil } from '@/common/utils/pagination.util';
+import { SlugUtil } from '@/common/utils/slug.util';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+/**
+ * 系列内的文章
+ */
+export interface SeriesArticleItem {
+  id: string;
+  title: string;
+  slug: string;
+  summary: string | null;
+  coverImage: string | null;
+  status: string;
+  publishedAt: Date | null;
+  readingTime: number;
+  sortOrder: number;
+}
+
+export type SeriesWithArticles = Series & { articles: SeriesArticleItem[] };
+
+/**
+ * 上一篇/下一篇中的文章
+ */
+export interface SeriesNavigationArticle {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+/**
+ * 文章在系列中的位置和前后文章
+ */
+export interface ArticleSeriesNavigation {
+  id: string;
+  title: string;
+  slug: string;
+  position: number;
+  total: number;
+  previous: SeriesNavigationArticle | null;
+  next: SeriesNavigationArticle | null;
+}
+
+/**
+ * 文章系列服务
+ * 系列成员按 sortOrder 排序，一篇文章最多属于一个系列；
+ * 前台只展示已发布且可见的文章，位置和上一篇/下一篇也只在这些文章之间计算
+ */
+@Injectable()
+export class SeriesService {
+  constructor(
+    @InjectRepository(Series)
+    private readonly seriesRepository: Repository<Series>,
+    @InjectRepository(SeriesArticle)
+    private readonly seriesArticleRepository: Repository<SeriesArticle>,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'SeriesService' });
+  }
+
+  /**
+   * 分页查询系列
+   */
+  async findAll(
+    query: SeriesQueryDto,
+  ): Promise<{ items: Series[]; total: number }> {
+    const { page = 1, limit = 10, keyword, isActive } = query;
+
+    const queryBuilder = this.seriesRepository.createQueryBuilder('series');
+
+    if (keyword) {
+      queryBuilder.andWhere('series.title LIKE :keyword', {
+        keyword: `%${keyword}%`,
+      });
+    }
+
+    if (typeof isActive === 'boolean') {
+      queryBuilder.andWhere('series.isActive = :isActive', { isActive });
+    }
+
+    const [items, total] = await queryBuilder
+      .orderBy('series.updatedAt', 'DESC')
+      .skip(PaginationUtil.calculateSkip(page, limit))
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total };
+  }
+
+  /**
+   * 获取系列详情（包含所有状态的文章）
+   */
+  async findById(id: string): Promise<SeriesWithArticles> {
+    const series = await this.seriesRepository.findOne({ where: { id } });
+    if (!series) {
+      throw new NotFoundException(ErrorCode.SERIES_NOT_FOUND);
+    }
+
+    return { ...series, articles: await this.getArticles(series.id, false) };
+  }
+
+  /**
+   * 获取前台展示的系列（只包含已发布且可见的文章）
+   */
+  async findPublishedBySlug(slug: string): Promise<SeriesWithArticles> {
+    const series = await this.seriesRepository.findOne({
+      where: { slug, isActive: true },
+    });
+    if (!series) {
+      throw new NotFoundException(ErrorCode.SERIES_NOT_FOUND);
+    }
+
+    const articles = await this.getArticles(series.id, true);
+    return { ...series, articleCount: articles.length, articles };
+  }
+
+  /**
+   * 创建系列
+   */
+  async create(createSeriesDto: CreateSeriesDto): Promise<SeriesWithArticles> {
+    const { articleIds, slug, ...seriesData } = createSeriesDto;
+    const finalSlug = slug || SlugUtil.forSeries(seriesData.title);
+    await this.ensureSlugAvailable(finalSlug);
+
+    const series = await this.seriesRepository.manager.transaction(
+      async (manager) => {
+        const saved = await manager.save(
+          manager.create(Series, { ...seriesData, slug: finalSlug }),
+        );
+        if (articleIds) {
+          saved.articleCount = await this.replaceArticles(
+            manager,
+            saved.id,
+            articleIds,
+          );
+        }
+        return saved;
+      },
+    );
+
+    this.logger.log('系列创建成功', {
+      action: 'create',
+      metadata: {
+        seriesId: series.id,
+        slug: series.slug,
+        articleCount: series.articleCount,
+      },
+    });
+
+    return await this.findById(series.id);
+  }
+
+  /**
+   * 更新系列，提供 articleIds 时整体替换系列文章
+   */
+  async update(
+    id: string,
+    updateSeriesDto: UpdateSeriesDto,
+  ): Promise<SeriesWithArticles> {
+    const series = await this.findById(id);
+    const { articleIds, slug, ...seriesData } = updateSeriesDto;
+
+    if (slug && slug !== series.slug) {
+      await this.ensureSlugAvailable(slug, id);
+    }
+
+    await this.seriesRepository.manager.transaction(async (manager) => {
+      await manager.update(Series, id, {
+        ...seriesData,
+        ...(slug && { slug }),
+      });
+      if (articleIds) {
+        await this.replaceArticles(manager, id, articleIds);
+      }
+    });
+
+    this.logger.log('系列更新成功', {
+      action: 'update',
+      metadata: { seriesId: id, articlesReplaced: !!articleIds },
+    });
+
+    return await this.findById(id);
+  }
+
+  /**
+   * 设置系列文章及顺序
+   */
+  async setArticles(
+    id: string,
+    articleIds: string[],
+  ): Promise<SeriesWithArticles> {
+    await this.findById(id);
+
+    await this.seriesRepository.manager.transaction((manager) =>
+      this.replaceArticles(manager, id, articleIds),
+    );
+
+    this.logger.log('系列文章已更新', {
+      action: 'set_articles',
+      metadata: { seriesId: id, articleCount: articleIds.length },
+    });
+
+    return await this.findById(id);
+  }
+
+  /**
+   * 删除系列，文章本身不受影响
+   */
+  async remove(id: string): Promise<void> {
+    const series = await this.findById(id);
+    await this.seriesRepository.delete(id);
+
+    this.logger.log('系列删除成功', {
+      action: 'delete',
+      metadata: { seriesId: id, slug: series.slug },
+    });
+  }
+
+  /**
+   * 获取文章所在系列的导航信息，文章不在展示中的系列时返回 null
+   */
+  async getNavigation(
+    articleId: string,
+  ): Promise<ArticleSeriesNavigation | null> {
+    const membership = await this.seriesArticleRepository.findOne({
+      where: { articleId },
+      relations: ['series'],
+    });
+    if (!membership?.series.isActive) {
+      return null;
+    }
+
+    const articles = await this.getArticles(membership.seriesId, true);
+    const index = articles.findIndex((article) => article.id === articleId);
+    if (index === -1) {
+      return null;
+    }
+
+    const toNavigation = (
+      article?: SeriesArticleItem,
+    ): SeriesNavigationArticle | null =>
+      article
+        ? { id: article.id, title: article.title, slug: article.slug }
+        : null;
+
+    return {
+      id: membership.series.id,
+      title: membership.series.title,
+      slug: membership.series.slug,
+      position: index + 1,
+      total: articles.length,
+      previous: toNavigation(articles[index - 1]),
+      next: toNavigation(articles[index + 1]),
+    };
+  }
+
+  /**
+   * 按顺序查询系列文章，只选择列表展示需要的字段
+   */
+  private async getArticles(
+    seriesId: string,
+    publishedOnly: boolean,
+  ): Promise<SeriesArticleItem[]> {
+    const queryBuilder = this.seriesArticleRepository
+      .createQueryBuilder('item')
+      .innerJoin('item.article', 'article')
+      .select([
+        'item.id',
+        'item.sortOrder',
+        'article.id',
+        'article.title',
+        'article.slug',
+        'article.summary',
+        'article.coverImage',
+        'article.status',
+        'article.publishedAt',
+        'article.readingTime',
+      ])
+      .where('item.seriesId = :seriesId', { seriesId });
+
+    if (publishedOnly) {
+      queryBuilder
+        .andWhere('article.status = :status', {
+          status: ArticleStatus.PUBLISHED,
+        })
+        .andWhere('article.isVisible = :isVisible', { isVisible: true });
+    }
+
+    const items = await queryBuilder.orderBy('item.sortOrder', 'ASC').getMany();
+
+    return items.map(({ article, sortOrder }) => ({
+      id: article.id,
+      title: article.title,
+      slug: article.slug,
+      summary: article.summary,
+      coverImage: article.coverImage,
+      status: article.status,
+      publishedAt: article.publishedAt,
+      readingTime: article.readingTime,
+      sortOrder,
+    }));
+  }
+
+  /**
+   * 整体替换系列文章，返回文章数量
+   * 重复的ID只保留第一次出现的位置
+   */
+  private async replaceArticles(
+    manager: EntityManager,
+    seriesId: string,
+    articleIds: string[],
+  ): Promise<number> {
+    const ids = [...new Set(articleIds)];
+
+    if (ids.length > 0) {
+      const articles = await manager.find(Article, {
+        where: { id: In(ids) },
+        select: { id: true },
+      });
+      const found = new Set(articles.map((article) => article.id));
+      const missing = ids.filter((articleId) => !found.has(articleId));
+      if (missing.length > 0) {
+        throw new NotFoundException(
+          ErrorCode.ARTICLE_NOT_FOUND,
+          `文章不存在: ${missing.join(', ')}`,
+        );
+      }
+
+      const conflicts = await manager.find(SeriesArticle, {
+        where: { articleId: In(ids), seriesId: Not(seriesId) },
+        select: { articleId: true },
+      });
+      if (conflicts.length > 0) {
+        throw new ConflictException(
+          ErrorCode.SERIES_ARTICLE_CONFLICT,
+          `文章已属于其他系列: ${conflicts.map((item) => item.articleId).join(', ')}`,
+        );
+      }
+    }
+
+    await manager.delete(SeriesArticle, { seriesId });
+    if (ids.length > 0) {
+      await manager.insert(
+        SeriesArticle,
+        ids.map((articleId, sortOrder) => ({ seriesId, articleId, sortOrder })),
+      );
+    }
+    await manager.update(Series, seriesId, { articleCount: ids.length });
+
+    return ids.length;
+  }
+
+  private async ensureSlugAvailable(
+    slug: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.seriesRepository.findOne({
+      where: { slug },
+      select: { id: true },
+    });
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictException(ErrorCode.SERIES_SLUG_EXISTS);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MoreThan, Repository } from 'typeorm';
+import { Article } from '@/entities/article.entity';
+import { Category } from '@/entities/category.entity';
+import { Tag } from '@/entities/tag.entity';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { BlogCacheService } from '@/common/cache/blog-cache.service';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { XmlUtil } from '@/common/utils/xml.util';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+
+export type SitemapType = 'articles' | 'categories' | 'tags';
+
+export const SITEMAP_TYPES: SitemapType[] = ['articles', 'categories', 'tags'];
+
+// 单个站点地图最多包含的URL数量（协议上限）
+const SITEMAP_CHUNK_SIZE = 50000;
+
+interface SitemapUrl {
+  loc: string;
+  lastmod: Date;
+  image?: string | null;
+}
+
+/**
+ * 站点地图服务
+ * 生成站点地图索引、文章/分类/标签子站点地图以及robots.txt
+ */
+@Injectable()
+export class SitemapService {
+  private readonly siteUrl: string;
+  private readonly serverUrl: string; // robots.txt 和站点地图不带API前缀
+  private readonly robotsTxt: string;
+  private regenerating = false;
+  private regeneratePending = false;
+
+  constructor(
+    @InjectRepository(Article)
+    private readonly articleRepository: Repository<Article>,
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    private readonly blogCacheService: BlogCacheService,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'SitemapService' });
+    this.siteUrl = SiteUrlUtil.getSiteUrl(this.configService);
+    this.serverUrl = new URL(
+      SiteUrlUtil.getApiBaseUrl(this.configService),
+    ).origin;
+    this.robotsTxt = this.buildRobotsTxt();
+  }
+
+  /**
+   * 获取robots.txt内容（由配置生成）
+   */
+  getRobotsTxt(): string {
+    return this.robotsTxt;
+  }
+
+  /**
+   * 获取站点地图索引（带缓存）
+   */
+  async getIndex(): Promise<string> {
+    const cached = await this.blogCacheService.getSitemap('index');
+    if (cached) {
+      return cached;
+    }
+
+    const entries: string[] = [];
+    for (const type of SITEMAP_TYPES) {
+      const { count, lastmod } = await this.getTypeSummary(type);
+      const pages = Math.ceil(count / SITEMAP_CHUNK_SIZE);
+      for (let page = 1; page <= pages; page++) {
+        entries.push(
+          [
+            '<sitemap>',
+            XmlUtil.element('loc', this.getSitemapUrl(type, page)),
+            lastmod ? XmlUtil.element('lastmod', lastmod.toISOString()) : '',
+            '</sitemap>',
+          ].join(''),
+        );
+      }
+    }
+
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries,
+      '</sitemapindex>',
+    ].join('\n');
+
+    await this.blogCacheService.setSitemap('index', content);
+    return content;
+  }
+
+  /**
+   * 获取子站点地图（带缓存）
+   * @param page 从1开始的分片序号
+   */
+  async getSitemap(type: SitemapType, page: number): Promise<string> {
+    const name = `${type}-${page}`;
+    const cached = await this.blogCacheService.getSitemap(name);
+    if (cached) {
+      return cached;
+    }
+
+    const { count } = await this.getTypeSummary(type);
+    const pages = Math.ceil(count / SITEMAP_CHUNK_SIZE);
+    if (page < 1 || page > pages) {
+      throw new NotFoundException(ErrorCode.COMMON_NOT_FOUND, '站点地图不存在');
+    }
+
+    const skip = (page - 1) * SITEMAP_CHUNK_SIZE;
+    const urls = await this.loadUrls(type, skip);
+    const hasImages = urls.some((url) => url.image);
+
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${
+        hasImages
+          ? ' xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"'
+          : ''
+      }>`,
+      ...urls.map((url) =>
+        [
+          '<url>',
+          XmlUtil.element('loc', url.loc),
+          XmlUtil.element('lastmod', url.lastmod.toISOString()),
+          url.image
+            ? `<image:image>${XmlUtil.element('image:loc', url.image)}</image:image>`
+            : '',
+          '</url>',
+        ].join(''),
+      ),
+      '</urlset>',
+    ].join('\n');
+
+    await this.blogCacheService.setSitemap(name, content);
+    return content;
+  }
+
+  /**
+   * 清除并重新生成站点地图缓存
+   * 生成过程中再次触发时，会在本轮结束后再执行一次
+   */
+  async regenerate(): Promise<void> {
+    if (this.regenerating) {
+      this.regeneratePending = true;
+      return;
+    }
+
+    this.regenerating = true;
+    try {
+      do {
+        this.regeneratePending = false;
+        await this.blogCacheService.clearSitemapCache();
+        await this.getIndex();
+        for (const type of SITEMAP_TYPES) {
+          const { count } = await this.getTypeSummary(type);
+          const pages = Math.ceil(count / SITEMAP_CHUNK_SIZE);
+          for (let page = 1; page <= pages; page++) {
+            await this.getSitemap(type, page);
+          }
+        }
+      } while (this.regeneratePending);
+
+      this.logger.debug('站点地图已重新生成');
+    } catch (error) {
+      this.logger.error(
+        '重新生成站点地图失败',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.regenerating = false;
+    }
+  }
+
+  /**
+   * 统计各类型可公开访问的URL数量和最近更新时间
+   */
+  private async getTypeSummary(
+    type: SitemapType,
+  ): Promise<{ count: number; lastmod: Date | null }> {
+    const repository = this.getRepository(type);
+    const alias = 'item';
+    const queryBuilder = repository
+      .createQueryBuilder(alias)
+      .select('COUNT(*)', 'count')
+      .addSelect(`MAX(${alias}.updatedAt)`, 'lastmod');
+
+    if (type === 'articles') {
+      queryBuilder
+        .where(`${alias}.status = :status`, { status: 'published' })
+        .andWhere(`${alias}.isVisible = :isVisible`, { isVisible: true });
+    } else {
+      queryBuilder.where(`${alias}.isActive = :isActive`, { isActive: true });
+      if (type === 'tags') {
+        queryBuilder.andWhere(`${alias}.articleCount > 0`);
+      }
+    }
+
+    const result = await queryBuilder.getRawOne<{
+      count: string;
+      lastmod: Date | string | null;
+    }>();
+
+    return {
+      count: parseInt(result?.count ?? '0', 10),
+      lastmod: result?.lastmod ? new Date(result.lastmod) : null,
+    };
+  }
+
+  /**
+   * 加载某个分片的URL
+   */
+  private async loadUrls(
+    type: SitemapType,
+    skip: number,
+  ): Promise<SitemapUrl[]> {
+    if (type === 'articles') {
+      const articles = await this.articleRepository.find({
+        select: ['id', 'slug', 'updatedAt', 'coverImage', 'socialImage'],
+        where: { status: 'published', isVisible: true },
+        order: { publishedAt: 'ASC', id: 'ASC' },
+        skip,
+        take: SITEMAP_CHUNK_SIZE,
+      });
+      return articles.map((article) => ({
+        loc: SiteUrlUtil.article(this.siteUrl, article.slug),
+        lastmod: article.updatedAt,
+        image: this.toAbsoluteUrl(article.socialImage || article.coverImage),
+      }));
+    }
+
+    if (type === 'categories') {
+      const categories = await this.categoryRepository.find({
+        select: ['id', 'slug', 'updatedAt'],
+        where: { isActive: true },
+        order: { sortOrder: 'ASC', id: 'ASC' },
+        skip,
+        take: SITEMAP_CHUNK_SIZE,
+      });
+      return categories.map((category) => ({
+        loc: SiteUrlUtil.category(this.siteUrl, category.slug),
+        lastmod: category.updatedAt,
+      }));
+    }
+
+    const tags = await this.tagRepository.find({
+      select: ['id', 'slug', 'updatedAt'],
+      where: { isActive: true, articleCount: MoreThan(0) },
+      order: { id: 'ASC' },
+      skip,
+      take: SITEMAP_CHUNK_SIZE,
+    });
+    return tags.map((tag) => ({
+      loc: SiteUrlUtil.tag(this.siteUrl, tag.slug),
+      lastmod: tag.updatedAt,
+    }));
+  }
+
+  private getRepository(
+    type: SitemapType,
+  ): Repository<Article> | Repository<Category> | Repository<Tag> {
+    switch (type) {
+      case 'articles':
+        return this.articleRepository;
+      case 'categories':
+        return this.categoryRepository;
+      default:
+        return this.tagRepository;
+    }
+  }
+
+  private getSitemapUrl(type: SitemapType, page: number): string {
+    return `${this.serverUrl}/sitemaps/${type}-${page}.xml`;
+  }
+
+  /**
+   * 图片地址为相对路径时补全为站点绝对地址
+   */
+  private toAbsoluteUrl(url: string | null | undefined): string | null {
+    if (!url || url.startsWith('data:')) {
+      return null;
+    }
+    if (/^https?:\/\//i.test(url)) {
+      return url;
+    }
+    return `${this.siteUrl}/${url.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * 根据配置生成robots.txt
+   * ROBOTS_DISALLOW_ALL=true 时禁止所有抓取（用于测试环境）
+   */
+  private buildRobotsTxt(): string {
+    const disallowAll =
+      String(this.configService.get('ROBOTS_DISALLOW_ALL', 'false')) === 'true';
+    const disallowPaths = this.configService
+      .get<string>('ROBOTS_DISALLOW', '/admin')
+      .split(',')
+      .map((path) => path.trim())
+      .filter(Boolean);
+
+    const lines = ['User-agent: *'];
+    if (disallowAll) {
+      lines.push('Disallow: /');
+    } else {
+      lines.push('Allow: /');
+      for (const path of disallowPaths) {
+        lines.push(`Disallow: ${path}`);
+      }
+      lines.push('', `Sitemap: ${this.serverUrl}/sitemap.xml`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import sharp from 'sharp';
+import { BusinessException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StorageService } from './storage.service';
+import { StoredImage } from './storage.types';
+
+/**
+ * 图片处理选项
+ */
+export interface ImageProcessOptions {
+  // 原图最长边，超出时等比缩小
+  maxSize: number;
+  // 缩略图名称 → 边长
+  variants: Record<string, number>;
+  // 是否裁剪为正方形（头像）
+  square?: boolean;
+}
+
+// 允许处理的图片MIME类型
+export const IMAGE_MIME_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+const WEBP_QUALITY = 82;
+
+/**
+ * 图片处理服务
+ * 统一转为 WebP 并生成缩略图，缩略图与原图同目录，文件名追加 _<名称> 后缀
+ */
+@Injectable()
+export class ImageService {
+  constructor(private readonly storageService: StorageService) {}
+
+  /**
+   * 处理并存储图片
+   * @param prefix 对象键前缀，如 avatars
+   */
+  async store(
+    buffer: Buffer,
+    prefix: string,
+    options: ImageProcessOptions,
+  ): Promise<StoredImage> {
+    const main = await this.resize(buffer, options.maxSize, options.square);
+    const key = this.storageService.generateKey(prefix, 'webp');
+    const stored = await this.storageService.put(key, main.data, 'image/webp');
+
+    const variants: Record<string, string> = {};
+    for (const [name, size] of Object.entries(options.variants)) {
+      const variant = await this.resize(main.data, size, options.square);
+      const variantKey = ImageService.variantKey(key, name);
+      variants[name] = (
+        await this.storageService.put(variantKey, variant.data, 'image/webp')
+      ).url;
+    }
+
+    return {
+      ...stored,
+      width: main.info.width,
+      height: main.info.height,
+      variants,
+    };
+  }
+
+  /**
+   * 删除图片及其缩略图
+   */
+  async remove(key: string, variantNames: string[]): Promise<void> {
+    await this.storageService.delete(key);
+    for (const name of variantNames) {
+      await this.storageService.delete(ImageService.variantKey(key, name));
+    }
+  }
+
+  /**
+   * 缩略图对象键
+   */
+  static variantKey(key: string, name: string): string {
+    return key.replace(/(\.[^./]+)?$/, `_${name}$1`);
+  }
+
+  private async resize(
+    buffer: Buffer,
+    size: number,
+    square = false,
+  ): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    try {
+      return await sharp(buffer)
+        .rotate() // 按EXIF方向校正
+        .resize({
+          width: size,
+          height: size,
+          fit: square ? 'cover' : 'inside',
+          withoutEnlargement: true,
+        })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+    } catch {
+      throw new BusinessException(ErrorCode.FILE_INVALID_IMAGE);
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export { StorageService } from './storage.service';
+export { ImageService, IMAGE_MIME_TYPES } from './image.service';
+export type { ImageProcessOptions } from './image.service';
+export { LocalStorageDriver } from './local-storage.driver';
+export { S3StorageDriver } from './s3-storage.driver';
+export * from './storage.types';
@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SiteUrlUtil } from '@/common/utils/site-url.util';
+import { StorageDriver } from './storage.types';
+
+/**
+ * 本地磁盘存储驱动
+ * 文件保存在 UPLOAD_PATH 下，由应用以 /uploads 路径提供静态访问
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  static readonly URL_PREFIX = '/uploads';
+
+  private readonly rootPath: string;
+  private readonly publicUrl: string;
+
+  constructor(configService: ConfigService) {
+    this.rootPath = path.resolve(
+      configService.get<string>('UPLOAD_PATH', './uploads'),
+    );
+    this.publicUrl = (
+      configService.get<string>('STORAGE_PUBLIC_URL') ||
+      `${new URL(SiteUrlUtil.getApiBaseUrl(configService)).origin}${LocalStorageDriver.URL_PREFIX}`
+    ).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /**
+   * 将对象键解析为磁盘路径，拒绝跳出上传目录的键
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootPath, key);
+    if (!filePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error(`非法的存储路径: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3';
+import { StorageDriver } from './storage.types';
+
+/**
+ * S3兼容对象存储驱动（AWS S3、MinIO、阿里云OSS、腾讯云COS等）
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicUrl: string;
+
+  constructor(configService: ConfigService) {
+    const endpoint = configService.get<string>('S3_ENDPOINT');
+    const region = configService.get<string>('S3_REGION', 'us-east-1');
+    const forcePathStyle =
+      String(configService.get('S3_FORCE_PATH_STYLE')) === 'true';
+    this.bucket = configService.get<string>('S3_BUCKET', '');
+    if (!this.bucket) {
+      throw new Error('使用S3存储时必须配置 S3_BUCKET');
+    }
+
+    this.client = new S3Client({
+      region,
+      endpoint: endpoint || undefined,
+      forcePathStyle,
+      credentials: {
+        accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID', ''),
+        secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY', ''),
+      },
+    });
+
+    // 未配置公开地址时按端点和寻址方式推导
+    const defaultUrl = endpoint
+      ? forcePathStyle
+        ? `${endpoint.replace(/\/+$/, '')}/${this.bucket}`
+        : `${new URL(endpoint).protocol}//${this.bucket}.${new URL(endpoint).host}`
+      : `https://${this.bucket}.s3.${region}.amazonaws.com`;
+    this.publicUrl = (
+      configService.get<string>('STORAGE_PUBLIC_URL') || defaultUrl
+    ).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000, immutable',
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    if (!result.Body) {
+      throw new Error(`对象不存在: ${key}`);
+    }
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return true;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NotFound') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { STORAGE_DRIVER } from './storage.types';
+import type { StorageDriver, StoredObject } from './storage.types';
+
+/**
+ * 文件存储服务
+ * 屏蔽本地磁盘与S3兼容存储的差异，驱动由 STORAGE_DRIVER 配置选择
+ */
+@Injectable()
+export class StorageService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly driver: StorageDriver,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'StorageService' });
+  }
+
+  get driverName(): string {
+    return this.driver.name;
+  }
+
+  /**
+   * 生成按年月分目录的对象键，如 avatars/2024/05/<uuid>.webp
+   */
+  generateKey(prefix: string, extension: string): string {
+    const now = new Date();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    return `${prefix}/${now.getFullYear()}/${month}/${uuidv4()}.${extension.replace(/^\./, '')}`;
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    contentType: string,
+  ): Promise<StoredObject> {
+    await this.driver.put(key, body, contentType);
+    return {
+      key,
+      url: this.driver.getUrl(key),
+      size: body.length,
+      contentType,
+    };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await this.driver.get(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await this.driver.exists(key);
+  }
+
+  /**
+   * 删除对象，失败只记录日志（清理旧文件不应影响主流程）
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.driver.delete(key);
+    } catch (error) {
+      this.logger.error(
+        '删除存储对象失败',
+        error instanceof Error ? error.stack : String(error),
+        { metadata: { key, driver: this.driver.name } },
+      );
+    }
+  }
+
+  getUrl(key: string): string {
+    return this.driver.getUrl(key);
+  }
+
+  /**
+   * 从访问地址反推对象键，不是当前存储生成的地址时返回null
+   */
+  keyFromUrl(url: string | null | undefined): string | null {
+    if (!url) {
+      return null;
+    }
+    const prefix = this.driver.getUrl('');
+    if (!url.startsWith(prefix) || url.length === prefix.length) {
+      return null;
+    }
+    return url
+      .slice(prefix.length)
+      .split('/')
+      .map((segment) => decodeURIComponent(segment))
+      .join('/');
+  }
+}
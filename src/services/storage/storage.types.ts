@@ -0,0 +1,40 @@
+/**
+ * 存储驱动注入令牌
+ */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * 存储驱动接口
+ * key 为相对路径形式的对象键，如 avatars/2024/05/xxx.webp
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  /**
+   * 对象的公开访问地址
+   */
+  getUrl(key: string): string;
+}
+
+/**
+ * 已存储的对象
+ */
+export interface StoredObject {
+  key: string;
+  url: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * 已存储的图片及其缩略图
+ */
+export interface StoredImage extends StoredObject {
+  width: number;
+  height: number;
+  // 缩略图名称 → 访问地址
+  variants: Record<string, string>;
+}
@@ -0,0 +1,496 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { createHash, randomBytes } from 'crypto';
+import { User } from '@/entities/user.entity';
+import {
+  BusinessException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+import { TotpUtil } from '@/common/utils/totp.util';
+
+/**
+ * 登录挑战的用途：verify 为输入动态验证码，setup 为强制开启时首次绑定
+ */
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+/**
+ * 密码验证通过后签发的登录挑战
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  challengeExpiresIn: number; // 秒
+}
+
+/**
+ * 待确认的绑定信息
+ */
+export interface TwoFactorEnrollment {
+  secret: string; // 无法扫码时手动输入
+  otpauthUri: string; // 二维码内容
+  expiresIn: number; // 秒
+}
+
+/**
+ * 双因素认证状态
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean; // 是否被配置强制开启
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * 登录挑战验证结果
+ */
+export interface TwoFactorVerification {
+  user: User;
+  usedRecoveryCode: boolean;
+}
+
+interface ChallengeRecord {
+  userId: string;
+  purpose: TwoFactorChallengePurpose;
+  attempts: number;
+}
+
+/**
+ * 双因素认证服务
+ * 管理员登录时先校验密码，再凭短期有效的挑战令牌提交 TOTP 动态验证码或一次性恢复码；
+ * 恢复码只保存哈希，每个只能使用一次
+ */
+@Injectable()
+export class TwoFactorService {
+  private static readonly CHALLENGE_TTL = 5 * 60 * 1000; // 5分钟（毫秒）
+  private static readonly CHALLENGE_PREFIX = 'auth:2fa:challenge:';
+  private static readonly CHALLENGE_MAX_ATTEMPTS = 5;
+  private static readonly ENROLLMENT_TTL = 10 * 60 * 1000; // 10分钟（毫秒）
+  private static readonly ENROLLMENT_PREFIX = 'auth:2fa:enrollment:';
+  private static readonly USED_COUNTER_PREFIX = 'auth:2fa:used:';
+  private static readonly RECOVERY_CODE_COUNT = 10;
+
+  private readonly adminRequired: boolean;
+  private readonly issuer: string;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+    private readonly logger: StructuredLoggerService,
+    @Inject(CACHE_MANAGER) private readonly cache: Cache,
+  ) {
+    this.logger.setContext({ module: 'TwoFactorService' });
+    this.adminRequired =
+      String(this.configService.get('ADMIN_2FA_REQUIRED', 'false')) === 'true';
+    this.issuer = this.configService.get<string>('SITE_TITLE', 'igCircle Blog');
+  }
+
+  /**
+   * 用户是否被配置强制开启双因素认证
+   */
+  isRequired(user: Pick<User, 'role'>): boolean {
+    return this.adminRequired && user.role === 'admin';
+  }
+
+  /**
+   * 获取双因素认证状态
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.findWithSecrets(userId);
+
+    return {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      required: this.isRequired(user),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+    };
+  }
+
+  /**
+   * 密码验证通过后签发登录挑战
+   */
+  async createChallenge(
+    user: User,
+    purpose: TwoFactorChallengePurpose,
+  ): Promise<TwoFactorChallenge> {
+    const challengeToken = randomBytes(32).toString('base64url');
+    const record: ChallengeRecord = { userId: user.id, purpose, attempts: 0 };
+    await this.cache.set(
+      `${TwoFactorService.CHALLENGE_PREFIX}${challengeToken}`,
+      record,
+      TwoFactorService.CHALLENGE_TTL,
+    );
+
+    return {
+      challengeToken,
+      challengeExpiresIn: TwoFactorService.CHALLENGE_TTL / 1000,
+    };
+  }
+
+  /**
+   * 获取登录挑战对应的用户，挑战不存在、已失效或用途不符时抛出异常
+   */
+  async getChallengeUser(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose,
+  ): Promise<User> {
+    const record = await this.getChallenge(challengeToken, purpose);
+    const user = await this.userRepository.findOne({
+      where: { id: record.userId },
+    });
+    if (!user) {
+      throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+    }
+    return user;
+  }
+
+  /**
+   * 使用动态验证码或恢复码完成登录挑战
+   */
+  async verifyChallenge(
+    challengeToken: string,
+    code: string,
+  ): Promise<TwoFactorVerification> {
+    const record = await this.getChallenge(challengeToken, 'verify');
+    const user = await this.findWithSecrets(record.userId);
+    if (!user.twoFactorEnabled) {
+      await this.deleteChallenge(challengeToken);
+      throw new UnauthorizedException(
+        ErrorCode.AUTH_TWO_FACTOR_CHALLENGE_INVALID,
+      );
+    }
+
+    const method = await this.checkCode(user, code, true);
+    if (!method) {
+      await this.recordFailedAttempt(challengeToken, record);
+      throw new UnauthorizedException(ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID);
+    }
+
+    await this.deleteChallenge(challengeToken);
+
+    if (method === 'recovery') {
+      this.logger.security('管理员使用恢复码登录', 'warn', {
+        action: 'two_factor_recovery_code_used',
+        userId: user.id,
+        metadata: {
+          recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+        },
+      });
+    }
+
+    return { user, usedRecoveryCode: method === 'recovery' };
+  }
+
+  /**
+   * 凭 setup 挑战开始绑定（强制开启但尚未绑定的账户）
+   */
+  async beginSetup(challengeToken: string): Promise<TwoFactorEnrollment> {
+    const record = await this.getChallenge(challengeToken, 'setup');
+    return await this.beginEnrollment(record.userId);
+  }
+
+  /**
+   * 凭 setup 挑战确认绑定，成功后挑战失效
+   */
+  async completeSetup(
+    challengeToken: string,
+    code: string,
+  ): Promise<{ user: User; recoveryCodes: string[] }> {
+    const record = await this.getChallenge(challengeToken, 'setup');
+
+    const recoveryCodes = await this.enable(record.userId, code);
+    if (!recoveryCodes) {
+      await this.recordFailedAttempt(challengeToken, record);
+      throw new UnauthorizedException(ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID);
+    }
+
+    await this.deleteChallenge(challengeToken);
+    const user = await this.findWithSecrets(record.userId);
+    return { user, recoveryCodes };
+  }
+
+  /**
+   * 生成新的密钥，等待用户用验证码确认后生效
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.findWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    const secret = TotpUtil.generateSecret();
+    await this.cache.set(
+      `${TwoFactorService.ENROLLMENT_PREFIX}${userId}`,
+      secret,
+      TwoFactorService.ENROLLMENT_TTL,
+    );
+
+    return {
+      secret,
+      otpauthUri: TotpUtil.buildUri(secret, this.issuer, user.username),
+      expiresIn: TwoFactorService.ENROLLMENT_TTL / 1000,
+    };
+  }
+
+  /**
+   * 确认绑定并开启双因素认证，返回明文恢复码（只返回这一次）
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const recoveryCodes = await this.enable(userId, code);
+    if (!recoveryCodes) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID);
+    }
+    return recoveryCodes;
+  }
+
+  /**
+   * 关闭双因素认证，需要提供动态验证码或恢复码
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findEnabledWithSecrets(userId);
+    if (this.isRequired(user)) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_REQUIRED);
+    }
+
+    if (!(await this.checkCode(user, code, true))) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID);
+    }
+
+    await this.userRepository.update(userId, {
+      twoFactorEnabled: false,
+      twoFactorEnabledAt: null,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+    });
+
+    this.logger.security('已关闭双因素认证', 'warn', {
+      action: 'two_factor_disabled',
+      userId,
+    });
+  }
+
+  /**
+   * 重新生成恢复码，旧恢复码全部失效；需要提供动态验证码
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    const user = await this.findEnabledWithSecrets(userId);
+    if (!(await this.checkCode(user, code, false))) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_CODE_INVALID);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(userId, {
+      twoFactorRecoveryCodes: recoveryCodes.map((item) =>
+        this.hashRecoveryCode(item),
+      ),
+    });
+
+    this.logger.security('已重新生成双因素认证恢复码', 'info', {
+      action: 'two_factor_recovery_codes_regenerated',
+      userId,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * 用待确认的密钥校验验证码并开启，验证码错误时返回 null
+   */
+  private async enable(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.findWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    const enrollmentKey = `${TwoFactorService.ENROLLMENT_PREFIX}${userId}`;
+    const secret = await this.cache.get<string>(enrollmentKey);
+    if (!secret) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_ENROLLMENT_EXPIRED);
+    }
+
+    const counter = TotpUtil.verify(secret, code);
+    if (counter === null) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(userId, {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: new Date(),
+      twoFactorSecret: secret,
+      twoFactorRecoveryCodes: recoveryCodes.map((item) =>
+        this.hashRecoveryCode(item),
+      ),
+    });
+    await this.cache.del(enrollmentKey);
+    await this.markCounterUsed(userId, counter);
+
+    this.logger.security('已开启双因素认证', 'info', {
+      action: 'two_factor_enabled',
+      userId,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * 校验动态验证码或恢复码，恢复码校验通过后立即作废
+   */
+  private async checkCode(
+    user: User,
+    code: string,
+    allowRecoveryCode: boolean,
+  ): Promise<'totp' | 'recovery' | null> {
+    const normalized = code.replace(/\s/g, '');
+
+    if (normalized.length === TotpUtil.DIGITS && /^\d+$/.test(normalized)) {
+      const counter = user.twoFactorSecret
+        ? TotpUtil.verify(user.twoFactorSecret, normalized)
+        : null;
+      // 同一时间步的验证码只能使用一次
+      const lastUsed = await this.cache.get<number>(
+        `${TwoFactorService.USED_COUNTER_PREFIX}${user.id}`,
+      );
+      if (counter === null || (lastUsed != null && counter <= lastUsed)) {
+        return null;
+      }
+      await this.markCounterUsed(user.id, counter);
+      return 'totp';
+    }
+
+    if (!allowRecoveryCode) {
+      return null;
+    }
+
+    // 条件更新：只有恢复码仍未使用时才移除，并发提交同一恢复码只有一个成功
+    const hash = this.hashRecoveryCode(normalized);
+    const result = await this.userRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({
+        twoFactorRecoveryCodes: () =>
+          "JSON_REMOVE(twoFactorRecoveryCodes, JSON_UNQUOTE(JSON_SEARCH(twoFactorRecoveryCodes, 'one', :hash)))",
+      })
+      .where('id = :userId', { userId: user.id })
+      .andWhere(
+        "JSON_SEARCH(twoFactorRecoveryCodes, 'one', :hash) IS NOT NULL",
+        { hash },
+      )
+      .execute();
+    if (!result.affected) {
+      return null;
+    }
+
+    user.twoFactorRecoveryCodes = (user.twoFactorRecoveryCodes ?? []).filter(
+      (item) => item !== hash,
+    );
+    return 'recovery';
+  }
+
+  private async markCounterUsed(
+    userId: string,
+    counter: number,
+  ): Promise<void> {
+    // 验证时允许前后各一个时间步，记录保留到该时间步完全过期
+    await this.cache.set(
+      `${TwoFactorService.USED_COUNTER_PREFIX}${userId}`,
+      counter,
+      3 * TotpUtil.PERIOD * 1000,
+    );
+  }
+
+  private async getChallenge(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose,
+  ): Promise<ChallengeRecord> {
+    const record = await this.cache.get<ChallengeRecord>(
+      `${TwoFactorService.CHALLENGE_PREFIX}${challengeToken}`,
+    );
+    if (!record || record.purpose !== purpose) {
+      throw new UnauthorizedException(
+        ErrorCode.AUTH_TWO_FACTOR_CHALLENGE_INVALID,
+      );
+    }
+    return record;
+  }
+
+  /**
+   * 记录失败次数，超过上限后挑战作废，需要重新输入密码
+   */
+  private async recordFailedAttempt(
+    challengeToken: string,
+    record: ChallengeRecord,
+  ): Promise<void> {
+    const attempts = record.attempts + 1;
+
+    this.logger.security('双因素认证验证码错误', 'warn', {
+      action: 'two_factor_verify_failed',
+      userId: record.userId,
+      metadata: { purpose: record.purpose, attempts },
+    });
+
+    if (attempts >= TwoFactorService.CHALLENGE_MAX_ATTEMPTS) {
+      await this.deleteChallenge(challengeToken);
+      return;
+    }
+
+    // 剩余有效期无法从缓存读取，失败后重新计时不会超过单次挑战的有效期
+    await this.cache.set(
+      `${TwoFactorService.CHALLENGE_PREFIX}${challengeToken}`,
+      { ...record, attempts },
+      TwoFactorService.CHALLENGE_TTL,
+    );
+  }
+
+  private async deleteChallenge(challengeToken: string): Promise<void> {
+    await this.cache.del(
+      `${TwoFactorService.CHALLENGE_PREFIX}${challengeToken}`,
+    );
+  }
+
+  private async findWithSecrets(userId: string): Promise<User> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect(['user.twoFactorSecret', 'user.twoFactorRecoveryCodes'])
+      .where('user.id = :userId', { userId })
+      .getOne();
+    if (!user) {
+      throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+    }
+    return user;
+  }
+
+  private async findEnabledWithSecrets(userId: string): Promise<User> {
+    const user = await this.findWithSecrets(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BusinessException(ErrorCode.AUTH_TWO_FACTOR_NOT_ENABLED);
+    }
+    return user;
+  }
+
+  /**
+   * 生成恢复码，格式如 3f9a1-c27e8
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: TwoFactorService.RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256')
+      .update(code.toLowerCase().replace(/[\s-]/g, ''))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Like, MoreThan } from 'typeorm';
+import { User } from '@/entities/user.entity';
+import { ImageService, StorageService } from '@/services/storage';
+import { UserService } from '@/services/user.service';
+import { NotFoundException } from '@/common/exceptions/business.exception';
+import { ErrorCode } from '@/common/constants/error-codes';
+import { StructuredLoggerService } from '@/common/logger/structured-logger.service';
+
+// 头像原图边长及缩略图尺寸，缩略图地址为原图文件名追加 _sm / _md
+const AVATAR_OPTIONS = {
+  maxSize: 256,
+  square: true,
+  variants: { sm: 48, md: 128 },
+};
+
+// 迁移时每批读取的用户数量
+const MIGRATION_BATCH_SIZE = 50;
+
+const DATA_URL_PATTERN = /^data:image\/[\w.+-]+;base64,(.+)$/s;
+
+/**
+ * 头像迁移结果
+ */
+export interface AvatarMigrationResult {
+  migrated: number;
+  failed: { userId: string; reason: string }[];
+}
+
+/**
+ * 用户头像服务
+ * 头像以文件形式保存到存储中，User.avatar 只保存访问地址
+ */
+@Injectable()
+export class UserAvatarService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly userService: UserService,
+    private readonly imageService: ImageService,
+    private readonly storageService: StorageService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.logger.setContext({ module: 'UserAvatarService' });
+  }
+
+  /**
+   * 更新用户头像，成功后删除存储中的旧头像
+   */
+  async updateAvatar(userId: string, buffer: Buffer): Promise<User> {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException(ErrorCode.USER_NOT_FOUND);
+    }
+
+    const image = await this.imageService.store(
+      buffer,
+      'avatars',
+      AVATAR_OPTIONS,
+    );
+    const updatedUser = await this.userService.update(userId, {
+      avatar: image.url,
+    });
+
+    await this.removeStoredAvatar(user.avatar);
+    return updatedUser;
+  }
+
+  /**
+   * 将以base64 data URL保存在数据库中的头像迁移为文件
+   * 按ID顺序分批处理，无法解析的头像保持原样并在结果中返回
+   */
+  async migrateBase64Avatars(): Promise<AvatarMigrationResult> {
+    const result: AvatarMigrationResult = { migrated: 0, failed: [] };
+    let lastId = '';
+
+    for (;;) {
+      const users = await this.userRepository.find({
+        select: ['id', 'avatar'],
+        where: { id: MoreThan(lastId), avatar: Like('data:%') },
+        order: { id: 'ASC' },
+        take: MIGRATION_BATCH_SIZE,
+      });
+      if (users.length === 0) {
+        break;
+      }
+
+      for (const user of users) {
+        try {
+          const match = DATA_URL_PATTERN.exec(user.avatar);
+          if (!match) {
+            throw new Error('不是有效的base64图片');
+          }
+
+          const image = await this.imageService.store(
+            Buffer.from(match[1], 'base64'),
+            'avatars',
+            AVATAR_OPTIONS,
+          );
+          await this.userService.update(user.id, { avatar: image.url });
+          result.migrated++;
+        } catch (error) {
+          result.failed.push({
+            userId: user.id,
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      lastId = users[users.length - 1].id;
+    }
+
+    this.logger.log('base64头像迁移完成', {
+      action: 'migrateBase64Avatars',
+      metadata: {
+        migrated: result.migrated,
+        failed: result.failed.length,
+        driver: this.storageService.driverName,
+      },
+    });
+    return result;
+  }
+
+  private async removeStoredAvatar(url: string | null): Promise<void> {
+    const key = this.storageService.keyFromUrl(url);
+    if (key) {
+      await this.imageService.remove(key, Object.keys(AVATAR_OPTIONS.variants));
+    }
+  }
+}
@@ -1,8 +1,9 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In, MoreThanOrEqual } from 'typeorm';
+import { Repository, In, MoreThanOrEqual, IsNull } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import { User } from '@/entities/user.entity';
+import { RefreshToken } from '@/entities/refresh-token.entity';
 import { CreateUserDto, UserStatus, UserRole } from '@/dto/user.dto';
 import { NotFoundException } from '@/common/exceptions/business.exception';
 import * as bcrypt from 'bcrypt';
@@ -37,6 +38,8 @@ export class UserService extends BaseService<User> {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokenRepository: Repository<RefreshToken>,
     @Inject(ConfigService) configService: ConfigService,
     @Inject(StructuredLoggerService) logger: StructuredLoggerService,
     @Inject(BlogCacheService) private readonly cacheService: BlogCacheService,
@@ -339,7 +342,7 @@ export class UserService extends BaseService<User> {
     }
   }
 
-  async updateUserLastActive(userId: string): Promise<void> {
+  async updateUserLastActive(userId: string, tokenId?: string): Promise<void> {
     try {
       const now = new Date();
 
@@ -353,6 +356,11 @@ export class UserService extends BaseService<User> {
         now.getTime(),
       );
 
+      // 记录当前登录会话的最后使用时间
+      if (tokenId) {
+        await this.cacheService.touchUserToken(userId, tokenId, now.getTime());
+      }
+
       this.logger.debug('用户最后活跃时间已更新', {
         action: 'update_last_active',
         resource: 'user',
@@ -546,6 +554,12 @@ export class UserService extends BaseService<User> {
       // 设置强制退出时间，使所有现有token失效
       await this.userRepository.update({ id: userId }, { forcedLogoutAt: now });
 
+      // 吊销所有刷新令牌，避免通过刷新重新获得访问令牌
+      await this.refreshTokenRepository.update(
+        { userId, revokedAt: IsNull() },
+        { revokedAt: now, revokeReason: 'logout_all' },
+      );
+
       // 清除用户相关的所有缓存
       await this.cacheService.clearUserCache(userId);
 